@@ -1,75 +1,136 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchSession } from '@/lib/auth/client'
+import { Permission, Role, can, isStaffRole } from '@/lib/auth/roles'
 import { useRouter } from 'next/navigation'
 import Navigation from '@/components/Navigation'
 import MatchEntryForm from '@/components/admin/MatchEntryForm'
 import MatchHistory from '@/components/admin/MatchHistory'
+import MatchReportQueue from '@/components/admin/MatchReportQueue'
 import RankingManager from '@/components/admin/RankingManager'
 import InitialRankingsManager from '@/components/admin/InitialRankingsManager'
 import TransactionLogView from '@/components/admin/TransactionLogView'
-import { Player, MatchWithPlayers } from '@/lib/types/database'
+import LadderSettingsManager from '@/components/admin/LadderSettingsManager'
+import ChallengeManager from '@/components/admin/ChallengeManager'
+import TeamManagement from '@/components/admin/TeamManagement'
+import DivisionManager from '@/components/admin/DivisionManager'
+import ChangePasswordForm from '@/components/admin/ChangePasswordForm'
+import RecoveryCodes from '@/components/admin/RecoveryCodes'
+import { Player, MatchWithPlayers, Ladder, Season, TeamWithPlayers } from '@/lib/types/database'
+import { fetchLadders } from '@/lib/supabase/ladders'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { isOnLadder } from '@/lib/utils/roster'
+import { fetchActiveSeason } from '@/lib/supabase/seasons'
+import { fetchTeams } from '@/lib/supabase/teams'
+
+type AdminTab = 'enter' | 'reports' | 'history' | 'rankings' | 'initial-rankings' | 'transaction-log' | 'challenges' | 'doubles' | 'settings' | 'account'
+
+// Each tab is shown only to roles with the permission it needs (see lib/auth/roles)
+const TABS: Array<{ id: AdminTab, label: string, permission: Permission }> = [
+  { id: 'enter', label: 'Enter Match', permission: 'enter_matches' },
+  { id: 'reports', label: 'Reported Results', permission: 'enter_matches' },
+  { id: 'history', label: 'Match History', permission: 'edit_matches' },
+  { id: 'rankings', label: 'Move Players', permission: 'manage_rankings' },
+  { id: 'initial-rankings', label: 'Seasons', permission: 'manage_seasons' },
+  { id: 'transaction-log', label: 'Activity Log', permission: 'edit_matches' },
+  { id: 'challenges', label: 'Challenges', permission: 'manage_challenges' },
+  { id: 'doubles', label: 'Doubles', permission: 'manage_teams' },
+  { id: 'settings', label: 'Ladder Settings', permission: 'manage_ladders' },
+  { id: 'account', label: 'My Account', permission: 'admin_panel' },
+]
 
 export default function AdminPage() {
   const [user, setUser] = useState<{ email: string } | null>(null)
+  const [role, setRole] = useState<Role>('viewer')
   const [players, setPlayers] = useState<Player[]>([])
   const [matches, setMatches] = useState<MatchWithPlayers[]>([])
-  const [activeTab, setActiveTab] = useState<'enter' | 'history' | 'rankings' | 'initial-rankings' | 'transaction-log'>('enter')
+  const [teams, setTeams] = useState<TeamWithPlayers[]>([])
+  const [ladders, setLadders] = useState<Ladder[]>([])
+  const [ladderId, setLadderId] = useState('')
+  const [season, setSeason] = useState<Season | null>(null)
+  const [activeTab, setActiveTab] = useState<AdminTab>('enter')
   const [loading, setLoading] = useState(true)
   const router = useRouter()
-  const supabase = createClient()
+  const supabase = useMemo(() => createClient(), [])
 
-  const handleMatchAdded = async () => {
+  // Stable, so children that reload when it changes only do so once
+  const handleMatchAdded = useCallback(async () => {
     // Refresh matches and players after a new match is added
     try {
-      const [playersData, matchesData] = await Promise.all([
+      // Only the active season's matches can be edited
+      const seasonData = await fetchActiveSeason(supabase)
+      let matchesQuery = supabase.from('matches').select(`
+        *,
+        player1:players!matches_player1_id_fkey(*),
+        player2:players!matches_player2_id_fkey(*)
+      `).is('team1_id', null).order('created_at', { ascending: false })
+      if (seasonData) {
+        matchesQuery = matchesQuery.eq('season_id', seasonData.id)
+      }
+
+      const [playersData, matchesData, laddersData, teamsData] = await Promise.all([
         supabase.from('players').select('*').order('name', { ascending: true }),
-        supabase.from('matches').select(`
-          *,
-          player1:players!matches_player1_id_fkey(*),
-          player2:players!matches_player2_id_fkey(*)
-        `).order('created_at', { ascending: false })
+        matchesQuery,
+        fetchLadders(supabase),
+        fetchTeams(supabase)
       ])
 
       setPlayers(playersData.data || [])
       setMatches(matchesData.data || [])
+      setTeams(teamsData)
+      setLadders(laddersData)
+      setSeason(seasonData)
     } catch (error) {
       console.error('Error refreshing data after match added:', error)
     }
-  }
+  }, [supabase])
 
   useEffect(() => {
-    const checkAuth = () => {
-      const email = localStorage.getItem('scrappers_user_email')
-      const isAdmin = localStorage.getItem('scrappers_is_admin') === 'true'
-      
-      if (!email) {
+    const checkAuth = async () => {
+      const session = await fetchSession()
+
+      if (!session) {
         router.push('/login')
         return
       }
 
-      if (!isAdmin) {
+      if (!isStaffRole(session.role)) {
         router.push('/')
         return
       }
 
-      setUser({ email })
+      setUser({ email: session.email })
+      setRole(session.role)
+      setActiveTab(TABS.find(tab => can(session.role, tab.permission))!.id)
     }
 
     const fetchData = async () => {
       try {
-        const [playersData, matchesData] = await Promise.all([
+        // Only the active season's matches can be edited
+        const seasonData = await fetchActiveSeason(supabase)
+        let matchesQuery = supabase.from('matches').select(`
+          *,
+          player1:players!matches_player1_id_fkey(*),
+          player2:players!matches_player2_id_fkey(*)
+        `).is('team1_id', null).order('created_at', { ascending: false })
+        if (seasonData) {
+          matchesQuery = matchesQuery.eq('season_id', seasonData.id)
+        }
+
+        const [playersData, matchesData, laddersData, teamsData] = await Promise.all([
           supabase.from('players').select('*').order('name', { ascending: true }),
-          supabase.from('matches').select(`
-            *,
-            player1:players!matches_player1_id_fkey(*),
-            player2:players!matches_player2_id_fkey(*)
-          `).order('created_at', { ascending: false })
+          matchesQuery,
+          fetchLadders(supabase),
+          fetchTeams(supabase)
         ])
 
         setPlayers(playersData.data || [])
         setMatches(matchesData.data || [])
+        setTeams(teamsData)
+        setLadders(laddersData)
+        setSeason(seasonData)
       } catch (error) {
         console.error('Error fetching data:', error)
       } finally {
@@ -96,9 +157,15 @@ export default function AdminPage() {
     return null
   }
 
+  // Every tab except Seasons, Doubles and My Account works on the selected ladder
+  const ladder = ladders.find(entry => entry.id === ladderId) ?? ladders[0] ?? null
+  // Only players on the ladder now can play, be moved or challenge
+  const ladderPlayers = playersOnLadder(players, ladder?.id).filter(isOnLadder)
+  const ladderMatches = ladder ? matches.filter(match => match.ladder_id === ladder.id) : matches
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navigation user={user} isAdmin={true} />
+      <Navigation user={user} role={role} />
       <main className="container mx-auto px-4 py-8">
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
@@ -112,82 +179,79 @@ export default function AdminPage() {
         {/* Tab Navigation */}
         <div className="flex justify-center mb-8">
           <div className="bg-white rounded-lg p-1 shadow-sm">
-            <button
-              onClick={() => setActiveTab('enter')}
-              className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
-                activeTab === 'enter'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 hover:text-gray-900'
-              }`}
-            >
-              Enter Match
-            </button>
-            <button
-              onClick={() => setActiveTab('history')}
-              className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
-                activeTab === 'history'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 hover:text-gray-900'
-              }`}
-            >
-              Match History
-            </button>
-
-            <button
-              onClick={() => setActiveTab('rankings')}
-              className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
-                activeTab === 'rankings'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 hover:text-gray-900'
-              }`}
-            >
-              Move Players
-            </button>
-
-            <button
-              onClick={() => setActiveTab('initial-rankings')}
-              className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
-                activeTab === 'initial-rankings'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 hover:text-gray-900'
-              }`}
-            >
-              Reset Positions
-            </button>
-
-            <button
-              onClick={() => setActiveTab('transaction-log')}
-              className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
-                activeTab === 'transaction-log'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 hover:text-gray-900'
-              }`}
-            >
-              Activity Log
-            </button>
+            {TABS.filter(tab => can(role, tab.permission)).map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
+                  activeTab === tab.id
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
         </div>
         
+        {ladders.length > 1 && (
+          <div className="flex justify-center items-center gap-2 mb-6">
+            <label className="text-sm font-medium text-gray-700">Ladder:</label>
+            <select
+              value={ladder?.id ?? ''}
+              onChange={(e) => setLadderId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {ladders.map(entry => (
+                <option key={entry.id} value={entry.id}>{entry.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Tab Content */}
         {activeTab === 'enter' ? (
           <div className="max-w-2xl mx-auto">
-            <MatchEntryForm players={players} onMatchAdded={handleMatchAdded} />
+            <MatchEntryForm key={ladder?.id} players={ladderPlayers} teams={teams} ladder={ladder} onMatchAdded={handleMatchAdded} />
+          </div>
+        ) : activeTab === 'reports' ? (
+          <div className="max-w-6xl mx-auto">
+            <MatchReportQueue onReportsUpdated={handleMatchAdded} />
           </div>
         ) : activeTab === 'history' ? (
           <div className="max-w-6xl mx-auto">
-            <MatchHistory matches={matches} onMatchesUpdated={handleMatchAdded} />
+            <MatchHistory key={ladder?.id} matches={ladderMatches} ladderId={ladder?.id} onMatchesUpdated={handleMatchAdded} />
           </div>
         ) : activeTab === 'rankings' ? (
           <div className="max-w-4xl mx-auto">
-            <RankingManager players={players} />
+            <RankingManager key={ladder?.id} players={ladderPlayers} />
           </div>
         ) : activeTab === 'initial-rankings' ? (
           <div className="max-w-4xl mx-auto">
-            <InitialRankingsManager players={players} />
+            <InitialRankingsManager players={players} ladders={ladders} season={season} onSeasonChanged={handleMatchAdded} />
           </div>
-        ) : (
+        ) : activeTab === 'transaction-log' ? (
+          <div className="max-w-6xl mx-auto">
+            <TransactionLogView key={ladder?.id} ladderId={ladder?.id} />
+          </div>
+        ) : activeTab === 'challenges' ? (
           <div className="max-w-6xl mx-auto">
-            <TransactionLogView />
+            <ChallengeManager key={ladder?.id} players={ladderPlayers} onChallengesUpdated={handleMatchAdded} />
+          </div>
+        ) : activeTab === 'doubles' ? (
+          <div className="max-w-4xl mx-auto">
+            <TeamManagement players={players} teams={teams} onTeamsUpdated={handleMatchAdded} />
+          </div>
+        ) : activeTab === 'account' ? (
+          <div className="max-w-md mx-auto space-y-6">
+            <ChangePasswordForm />
+            <RecoveryCodes />
+          </div>
+        ) : (
+          <div className="max-w-2xl mx-auto space-y-6">
+            <DivisionManager ladders={ladders} ladder={ladder} players={players} onLaddersUpdated={handleMatchAdded} />
+            <LadderSettingsManager ladder={ladder} onSettingsUpdated={handleMatchAdded} />
           </div>
         )}
       </main>
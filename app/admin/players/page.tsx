@@ -2,46 +2,55 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchSession } from '@/lib/auth/client'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { Role, can, isStaffRole } from '@/lib/auth/roles'
 import { useRouter } from 'next/navigation'
 import Navigation from '@/components/Navigation'
 import PlayerManagement from '@/components/admin/PlayerManagement'
-import { Player, AllowedEmail } from '@/lib/types/database'
+import SignInLog from '@/components/admin/SignInLog'
+import { Player, AllowedEmail, Ladder } from '@/lib/types/database'
+import { fetchLadders } from '@/lib/supabase/ladders'
 
 export default function PlayersPage() {
   const [user, setUser] = useState<{ email: string } | null>(null)
   const [players, setPlayers] = useState<Player[]>([])
   const [allowedEmails, setAllowedEmails] = useState<AllowedEmail[]>([])
+  const [ladders, setLadders] = useState<Ladder[]>([])
+  const [role, setRole] = useState<Role>('viewer')
   const [loading, setLoading] = useState(true)
   const router = useRouter()
   const supabase = createClient()
 
   useEffect(() => {
-    const checkAuth = () => {
-      const email = localStorage.getItem('scrappers_user_email')
-      const isAdmin = localStorage.getItem('scrappers_is_admin') === 'true'
-      
-      if (!email) {
+    const checkAuth = async () => {
+      const session = await fetchSession()
+
+      if (!session) {
         router.push('/login')
         return
       }
 
-      if (!isAdmin) {
-        router.push('/')
+      if (!can(session.role, 'manage_players')) {
+        router.push(isStaffRole(session.role) ? '/admin' : '/')
         return
       }
 
-      setUser({ email })
+      setUser({ email: session.email })
+      setRole(session.role)
     }
 
     const fetchData = async () => {
       try {
-        const [playersData, emailsData] = await Promise.all([
+        const [playersData, { allowedEmails }, laddersData] = await Promise.all([
           supabase.from('players').select('*').order('current_rank', { ascending: true }),
-          supabase.from('allowed_emails').select('*').order('email', { ascending: true })
+          adminRequest<{ allowedEmails: AllowedEmail[] }>('allowed-emails', 'GET'),
+          fetchLadders(supabase)
         ])
 
         setPlayers(playersData.data || [])
-        setAllowedEmails(emailsData.data || [])
+        setAllowedEmails(allowedEmails)
+        setLadders(laddersData)
       } catch (error) {
         console.error('Error fetching data:', error)
       } finally {
@@ -70,7 +79,7 @@ export default function PlayersPage() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navigation user={user} isAdmin={true} />
+      <Navigation user={user} role={role} />
       <main className="container mx-auto px-4 py-8">
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
@@ -84,7 +93,13 @@ export default function PlayersPage() {
         <PlayerManagement 
           players={players} 
           allowedEmails={allowedEmails} 
+          ladders={ladders}
+          role={role}
         />
+
+        <div className="mt-8">
+          {can(role, 'view_sign_in_log') && <SignInLog />}
+        </div>
       </main>
     </div>
   )
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { canManageRole, isStaffRole } from '@/lib/auth/roles'
+import { emailPasswordLink } from '@/lib/supabase/adminCredentials'
+import { fetchAllowedEmail } from '@/lib/supabase/players'
+
+// Email a staff member a link to set their password: an invite if they
+// haven't set one, or a reset if they have forgotten it. Their current
+// password keeps working until the link is used. Only owners can send one to
+// an admin or owner.
+export const POST = adminRoute<{ id: string }>('Password link', 'manage_access', async (request, { supabase, session, params }) => {
+  const entry = await fetchAllowedEmail(supabase, params.id)
+
+  if (!isStaffRole(entry.role)) {
+    return NextResponse.json(
+      { error: 'Only staff have admin passwords' },
+      { status: 400 }
+    )
+  }
+  if (!canManageRole(session.role, entry.role)) {
+    return NextResponse.json(
+      { error: 'Only owners can send an admin or owner a password link' },
+      { status: 403 }
+    )
+  }
+
+  const kind = await emailPasswordLink(supabase, entry, process.env.SITE_URL || request.nextUrl.origin)
+  return NextResponse.json({ sent: kind })
+})
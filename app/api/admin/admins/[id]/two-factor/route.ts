@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { canManageRole } from '@/lib/auth/roles'
+import { resetAdminFactor } from '@/lib/supabase/adminFactors'
+import { fetchAllowedEmail } from '@/lib/supabase/players'
+
+// Reset another staff member's authenticator, e.g. for a lost phone. They set
+// up a new one the next time they sign in, and use a recovery code to reset
+// their own. Only owners can reset an admin's or owner's.
+export const DELETE = adminRoute<{ id: string }>('Two-factor reset', 'manage_access', async (_request, { supabase, session, params }) => {
+  if (params.id === session.allowed_email_id) {
+    return NextResponse.json(
+      { error: 'Someone else has to reset your authenticator' },
+      { status: 400 }
+    )
+  }
+
+  const entry = await fetchAllowedEmail(supabase, params.id)
+  if (!canManageRole(session.role, entry.role)) {
+    return NextResponse.json(
+      { error: 'Only owners can reset an admin\'s or owner\'s authenticator' },
+      { status: 403 }
+    )
+  }
+
+  await resetAdminFactor(supabase, params.id)
+  return NextResponse.json({ success: true })
+})
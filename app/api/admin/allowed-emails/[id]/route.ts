@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { canManageRole, isRole, isStaffRole } from '@/lib/auth/roles'
+import { changeEmailRole, fetchAllowedEmail, revokeEmailAccess } from '@/lib/supabase/players'
+import { emailPasswordLink, fetchPasswordHash } from '@/lib/supabase/adminCredentials'
+
+const ADMINS_ONLY = 'Only owners can change admin or owner access'
+
+// Change an email's role. Only owners can change admins and owners, or make
+// anyone one. Someone newly made staff without a password is emailed a link
+// to set one.
+//   { role: Role }
+export const PATCH = adminRoute<{ id: string }>('Role change', 'manage_access', async (request, { supabase, session, params }) => {
+  const { role } = await request.json()
+
+  if (!isRole(role)) {
+    return NextResponse.json(
+      { error: 'Please choose a role' },
+      { status: 400 }
+    )
+  }
+
+  const entry = await fetchAllowedEmail(supabase, params.id)
+  if (!canManageRole(session.role, entry.role) || !canManageRole(session.role, role)) {
+    return NextResponse.json(
+      { error: ADMINS_ONLY },
+      { status: 403 }
+    )
+  }
+
+  const allowedEmail = await changeEmailRole(supabase, entry, role)
+
+  let invited = false
+  if (isStaffRole(role) && !isStaffRole(entry.role) && !await fetchPasswordHash(supabase, entry.id)) {
+    try {
+      await emailPasswordLink(supabase, allowedEmail, process.env.SITE_URL || request.nextUrl.origin)
+      invited = true
+    } catch (error) {
+      console.error('Error sending staff invite:', error)
+    }
+  }
+
+  return NextResponse.json({ allowedEmail, invited })
+})
+
+export const DELETE = adminRoute<{ id: string }>('Email access removal', 'manage_access', async (_request, { supabase, session, params }) => {
+  const entry = await fetchAllowedEmail(supabase, params.id)
+  if (!canManageRole(session.role, entry.role)) {
+    return NextResponse.json(
+      { error: ADMINS_ONLY },
+      { status: 403 }
+    )
+  }
+
+  await revokeEmailAccess(supabase, entry)
+  return NextResponse.json({ success: true })
+})
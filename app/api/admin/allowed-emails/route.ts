@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { canManageRole, isRole, isStaffRole } from '@/lib/auth/roles'
+import { fetchAllowedEmails, grantEmailAccess } from '@/lib/supabase/players'
+import { emailPasswordLink } from '@/lib/supabase/adminCredentials'
+
+// Everyone who can sign in, and their roles
+export const GET = adminRoute('Allowed emails', 'manage_players', async (_request, { supabase }) => {
+  return NextResponse.json({ allowedEmails: await fetchAllowedEmails(supabase) })
+})
+
+// Let an email sign in with a role. Only owners can grant admin or owner. New
+// staff are emailed a link to set their password; if that fails, access is
+// still granted and another link can be sent from Manage Players.
+//   { email: string, role: Role }
+export const POST = adminRoute('Email access', 'manage_access', async (request, { supabase, session }) => {
+  const { email, role } = await request.json()
+
+  if (!isRole(role)) {
+    return NextResponse.json(
+      { error: 'Please choose a role' },
+      { status: 400 }
+    )
+  }
+  if (!canManageRole(session.role, role)) {
+    return NextResponse.json(
+      { error: 'Only owners can grant admin or owner access' },
+      { status: 403 }
+    )
+  }
+
+  const allowedEmail = await grantEmailAccess(supabase, email, role)
+
+  let invited = false
+  if (isStaffRole(allowedEmail.role)) {
+    try {
+      await emailPasswordLink(supabase, allowedEmail, process.env.SITE_URL || request.nextUrl.origin)
+      invited = true
+    } catch (error) {
+      console.error('Error sending staff invite:', error)
+    }
+  }
+
+  return NextResponse.json({ allowedEmail, invited })
+})
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { fetchChallenge, updateChallenge } from '@/lib/supabase/challenges'
+
+// Accept, schedule, decline, expire or cancel a challenge.
+//   { action: ChallengeAction }
+export const PATCH = adminRoute<{ id: string }>('Challenge update', 'manage_challenges', async (request, { supabase, params }) => {
+  const { action } = await request.json()
+
+  if (!action?.type) {
+    return NextResponse.json(
+      { error: 'Action is required' },
+      { status: 400 }
+    )
+  }
+
+  await updateChallenge(supabase, await fetchChallenge(supabase, params.id), action)
+  return NextResponse.json({ success: true })
+})
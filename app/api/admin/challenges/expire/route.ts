@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { expireOverdueChallenges } from '@/lib/supabase/challenges'
+
+// Expire overdue challenges now, rather than waiting for the scheduled job
+export const POST = adminRoute('Challenge expiry', 'manage_challenges', async (_request, { supabase }) => {
+  const expired = await expireOverdueChallenges(supabase)
+  return NextResponse.json({ expired })
+})
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { issueChallenge } from '@/lib/supabase/challenges'
+
+// Issue a challenge between two players on the same ladder.
+//   { challenger_id: string, challenged_id: string, response_days?: number }
+export const POST = adminRoute('Challenge', 'manage_challenges', async (request, { supabase }) => {
+  const { challenger_id, challenged_id, response_days } = await request.json()
+
+  if (!challenger_id || !challenged_id) {
+    return NextResponse.json(
+      { error: 'Please select both players' },
+      { status: 400 }
+    )
+  }
+
+  const challenge = await issueChallenge(supabase, challenger_id, challenged_id, response_days)
+  return NextResponse.json({ challenge })
+})
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { deleteRankingEvent } from '@/lib/supabase/matches'
+
+// Delete a ranking event (and its match, for match events) and recompute the
+// standings in one transaction
+export const DELETE = adminRoute<{ id: string }>('Event deletion', 'edit_matches', async (_request, { supabase, params }) => {
+  await deleteRankingEvent(supabase, params.id)
+  return NextResponse.json({ success: true })
+})
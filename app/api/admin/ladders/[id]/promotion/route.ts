@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { previewPromotionRelegation, runPromotionRelegation } from '@/lib/supabase/divisions'
+
+// Who would swap between this ladder and the division above it, and the
+// version to run it against
+export const GET = adminRoute<{ id: string }>('Promotion preview', 'manage_ladders', async (_request, { supabase, params }) => {
+  const preview = await previewPromotionRelegation(supabase, params.id)
+  return NextResponse.json(preview)
+})
+
+// Swap the top of this ladder with the bottom of the division above it.
+//   { version } from the preview; a second submit of the same swap is refused
+export const POST = adminRoute<{ id: string }>('Promotion and relegation', 'manage_ladders', async (request, { supabase, params }) => {
+  const { version } = await request.json()
+  const swap = await runPromotionRelegation(supabase, params.id, version)
+  return NextResponse.json({ swap })
+})
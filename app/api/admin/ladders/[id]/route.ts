@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { pickLadderSettings, updateLadderSettings } from '@/lib/supabase/ladders'
+import { rebuildAllRankings } from '@/lib/supabase/rankings'
+
+// Change a ladder's settings. `rebuild` replays every result afterwards, for
+// changes to the rule or rating system.
+//   { settings: LadderSettings, rebuild?: boolean }
+export const PATCH = adminRoute<{ id: string }>('Ladder update', 'manage_ladders', async (request, { supabase, params }) => {
+  const { settings, rebuild } = await request.json()
+
+  if (!settings) {
+    return NextResponse.json(
+      { error: 'Settings are required' },
+      { status: 400 }
+    )
+  }
+
+  await updateLadderSettings(supabase, params.id, pickLadderSettings(settings))
+  if (rebuild) {
+    await rebuildAllRankings(supabase)
+  }
+
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { createLadder } from '@/lib/supabase/ladders'
+
+// Add a ladder with the default rules.
+//   { name: string }
+export const POST = adminRoute('Ladder creation', 'manage_ladders', async (request, { supabase }) => {
+  const { name } = await request.json()
+
+  if (!name?.trim()) {
+    return NextResponse.json(
+      { error: 'Please enter a name for the new ladder' },
+      { status: 400 }
+    )
+  }
+
+  const ladder = await createLadder(supabase, { name: name.trim() })
+  return NextResponse.json({ ladder })
+})
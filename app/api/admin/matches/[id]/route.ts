@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { deleteMatch, editMatch } from '@/lib/supabase/matches'
+
+// Rescore a match and recompute the standings in one transaction.
+//   { update: MatchScoreUpdate, overrideReason?: string }
+// Returns the match and the ids of matches now outside the challenge range.
+export const PATCH = adminRoute<{ id: string }>('Match update', 'edit_matches', async (request, { supabase, params }) => {
+  const { update, overrideReason } = await request.json()
+
+  if (!update) {
+    return NextResponse.json(
+      { error: 'Update is required' },
+      { status: 400 }
+    )
+  }
+
+  const { match, trace } = await editMatch(supabase, params.id, update, overrideReason || undefined)
+
+  return NextResponse.json({
+    match,
+    out_of_range: trace
+      .filter(movement => movement.match_id && movement.out_of_range && !movement.range_override)
+      .map(movement => movement.match_id)
+  })
+})
+
+// Delete a match and its ranking event, and recompute the standings
+export const DELETE = adminRoute<{ id: string }>('Match deletion', 'edit_matches', async (_request, { supabase, params }) => {
+  await deleteMatch(supabase, params.id)
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { recordMatch } from '@/lib/supabase/matches'
+
+// Record a match: the match, its ranking event and the new standings are
+// written in one transaction.
+//   { match: MatchInput, overrideReason?: string }
+export const POST = adminRoute('Match recording', 'enter_matches', async (request, { supabase }) => {
+  const { match, overrideReason } = await request.json()
+
+  if (!match) {
+    return NextResponse.json(
+      { error: 'Match is required' },
+      { status: 400 }
+    )
+  }
+
+  const recorded = await recordMatch(supabase, match, overrideReason || undefined)
+  return NextResponse.json({ match: recorded })
+})
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { emailPasswordLink, fetchPasswordHash } from '@/lib/supabase/adminCredentials'
+import { requestSession, staffMember } from '@/lib/auth/adminRoute'
+
+// Staff who have no password yet, such as the first owner, can ask for their
+// own invite from the password step. The sign-in link has already shown they
+// own the inbox it goes to. Forgotten passwords are reset by someone else.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requestSession(request)
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please use the sign-in link we emailed you first' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const member = await staffMember(supabase, session.email)
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'This email is not staff' },
+        { status: 401 }
+      )
+    }
+
+    if (await fetchPasswordHash(supabase, member.id)) {
+      return NextResponse.json(
+        { error: 'You already have an admin password. Ask another admin to send you a reset link.' },
+        { status: 400 }
+      )
+    }
+
+    await emailPasswordLink(
+      supabase,
+      { id: member.id, email: session.email },
+      process.env.SITE_URL || request.nextUrl.origin
+    )
+    return NextResponse.json({ sent: true })
+
+  } catch (error) {
+    console.error('Password link error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { fetchPasswordHash, setAdminPassword } from '@/lib/supabase/adminCredentials'
+import { passwordProblem } from '@/lib/auth/passwords'
+import { verifyPassword } from '@/lib/auth/passwordHash'
+import { guardAttempt } from '@/lib/throttle/guard'
+
+// Change the signed-in admin's own password. Checking the current one is
+// throttled like signing in, so a left-open session can't be used to guess it.
+//   { currentPassword: string, newPassword: string }
+export const POST = adminRoute('Password change', 'admin_panel', async (request, { supabase, session }) => {
+  const { currentPassword, newPassword } = await request.json()
+
+  const guard = await guardAttempt(request, 'admin_password', session.email)
+  if (guard.blocked) return guard.blocked
+
+  const passwordHash = await fetchPasswordHash(supabase, session.allowed_email_id)
+  if (!passwordHash || typeof currentPassword !== 'string' || !await verifyPassword(currentPassword, passwordHash)) {
+    await guard.record('failure', 'wrong current password')
+    return NextResponse.json(
+      { error: 'Your current password is not right' },
+      { status: 400 }
+    )
+  }
+
+  await guard.record('success')
+
+  const problem = passwordProblem(newPassword)
+  if (problem) {
+    return NextResponse.json(
+      { error: problem },
+      { status: 400 }
+    )
+  }
+
+  await setAdminPassword(supabase, session.allowed_email_id, newPassword)
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Player } from '@/lib/types/database'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { joinLadder, removeFromLadder } from '@/lib/supabase/roster'
+import { ValidationError } from '@/lib/utils/errors'
+
+async function fetchLadderPlayer(supabase: SupabaseClient, playerId: string): Promise<Pick<Player, 'id' | 'ladder_id'>> {
+  const { data, error } = await supabase
+    .from('players')
+    .select('id, ladder_id')
+    .eq('id', playerId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching player:', error)
+    throw error
+  }
+  if (!data) {
+    throw new ValidationError('Player not found', 404)
+  }
+
+  return data
+}
+
+// Put a removed player back onto their ladder.
+//   { entry: LadderEntry }
+export const POST = adminRoute<{ id: string }>('Ladder join', 'manage_players', async (request, { supabase, params }) => {
+  const { entry } = await request.json()
+
+  if (!entry) {
+    return NextResponse.json(
+      { error: 'Entry is required' },
+      { status: 400 }
+    )
+  }
+
+  await joinLadder(supabase, await fetchLadderPlayer(supabase, params.id), entry)
+  return NextResponse.json({ success: true })
+})
+
+// Take a player off their ladder
+export const DELETE = adminRoute<{ id: string }>('Ladder removal', 'manage_players', async (_request, { supabase, params }) => {
+  await removeFromLadder(supabase, await fetchLadderPlayer(supabase, params.id))
+  return NextResponse.json({ success: true })
+})
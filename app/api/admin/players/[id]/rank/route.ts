@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { adjustPlayerRank } from '@/lib/supabase/rankings'
+
+// Move a player to a new position with a manual adjustment.
+//   { newRank: number, reason?: string }
+export const POST = adminRoute<{ id: string }>('Rank adjustment', 'manage_rankings', async (request, { supabase, params }) => {
+  const { newRank, reason } = await request.json()
+
+  await adjustPlayerRank(supabase, params.id, Number(newRank), reason || undefined)
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { updatePlayer } from '@/lib/supabase/players'
+
+// Save a player's details, ladder and status.
+//   { player: PlayerEdit }
+export const PATCH = adminRoute<{ id: string }>('Player update', 'manage_players', async (request, { supabase, params }) => {
+  const { player } = await request.json()
+
+  if (!player) {
+    return NextResponse.json(
+      { error: 'Player is required' },
+      { status: 400 }
+    )
+  }
+
+  await updatePlayer(supabase, params.id, player)
+  return NextResponse.json({ success: true })
+})
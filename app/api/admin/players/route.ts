@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { addPlayer } from '@/lib/supabase/players'
+
+// Add a player and put them onto their ladder.
+//   { player: NewPlayer, entry: LadderEntry } → { player, allowedEmail }
+export const POST = adminRoute('Player creation', 'manage_players', async (request, { supabase }) => {
+  const { player, entry } = await request.json()
+
+  if (!player || !entry) {
+    return NextResponse.json(
+      { error: 'Player and entry are required' },
+      { status: 400 }
+    )
+  }
+
+  const added = await addPlayer(supabase, player, entry)
+  return NextResponse.json(added)
+})
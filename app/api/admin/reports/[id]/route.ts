@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { fetchMatchReport, updateMatchReport } from '@/lib/supabase/matchReports'
+
+// Record a reported result as it stands, or reject it. Approving records the
+// match like any other; `overrideReason` allows one outside the challenge range.
+//   { action: { type: 'approve' } | { type: 'reject', reason: string }, overrideReason?: string }
+export const PATCH = adminRoute<{ id: string }>('Match report decision', 'enter_matches', async (request, { supabase, session, params }) => {
+  const { action, overrideReason } = await request.json()
+
+  if (action?.type !== 'approve' && action?.type !== 'reject') {
+    return NextResponse.json(
+      { error: 'Approve or reject the result' },
+      { status: 400 }
+    )
+  }
+
+  const report = await fetchMatchReport(supabase, params.id)
+  const updated = await updateMatchReport(supabase, report, action, session.email, overrideReason || undefined)
+  return NextResponse.json({ report: updated })
+})
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { fetchMatchReports } from '@/lib/supabase/matchReports'
+
+// Player-reported results still waiting: on the opponent, or on staff
+export const GET = adminRoute('Match report queue', 'enter_matches', async (_request, { supabase }) => {
+  const reports = await fetchMatchReports(supabase, { openOnly: true })
+  return NextResponse.json({ reports })
+})
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { closeSeason, fetchActiveSeason, startSeason } from '@/lib/supabase/seasons'
+
+// Start a new season. `close` archives the active season first; without it,
+// starting fails while a season is still active.
+//   { name: string, seeding: SeasonSeeding, rankings?: Record<string, number>, close?: boolean }
+export const POST = adminRoute('Season start', 'manage_seasons', async (request, { supabase }) => {
+  const { name, seeding, rankings, close } = await request.json()
+
+  if (!name?.trim()) {
+    return NextResponse.json(
+      { error: 'Please enter a name for the new season' },
+      { status: 400 }
+    )
+  }
+
+  if (close && await fetchActiveSeason(supabase)) {
+    await closeSeason(supabase)
+  }
+
+  const season = await startSeason(supabase, name.trim(), seeding, seeding === 'manual' ? rankings : undefined)
+  return NextResponse.json({ season })
+})
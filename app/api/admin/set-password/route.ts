@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { redeemPasswordToken, setAdminPassword } from '@/lib/supabase/adminCredentials'
+import { passwordProblem } from '@/lib/auth/passwords'
+
+// Set an admin password from an invite or reset link. Doesn't sign in: the
+// admin signs in as usual afterwards.
+//   { token: string, password: string }
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json()
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'This link is incomplete. Please use the link from your email.' },
+        { status: 400 }
+      )
+    }
+
+    // Checked before the link is used up, so a rejected password can be retried
+    const problem = passwordProblem(password)
+    if (problem) {
+      return NextResponse.json(
+        { error: problem },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const allowedEmailId = await redeemPasswordToken(supabase, token)
+
+    if (!allowedEmailId) {
+      return NextResponse.json(
+        { error: 'This link has expired or was already used. Ask another admin for a new one.' },
+        { status: 400 }
+      )
+    }
+
+    await setAdminPassword(supabase, allowedEmailId, password)
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Set password error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { createAttemptStore } from '@/lib/throttle/store'
+
+const LOG_LENGTH = 200
+
+// The newest sign-in attempts, for the audit log on Manage Players
+export const GET = adminRoute('Sign-in log', 'view_sign_in_log', async () => {
+  return NextResponse.json({ attempts: await createAttemptStore().list(LOG_LENGTH) })
+})
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { deleteTeam, rebuildDoublesRankings } from '@/lib/supabase/teams'
+
+// Delete a team with its matches and events, and rebuild the doubles ladder
+export const DELETE = adminRoute<{ id: string }>('Team deletion', 'manage_teams', async (_request, { supabase, params }) => {
+  await deleteTeam(supabase, params.id)
+  await rebuildDoublesRankings(supabase)
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { createTeam } from '@/lib/supabase/teams'
+
+// Add a doubles team at the bottom of the doubles ladder.
+//   { name: string, player1_id: string, player2_id: string }
+export const POST = adminRoute('Team creation', 'manage_teams', async (request, { supabase }) => {
+  const { name, player1_id, player2_id } = await request.json()
+
+  if (!name?.trim() || !player1_id || !player2_id) {
+    return NextResponse.json(
+      { error: 'Please enter a team name and choose both players' },
+      { status: 400 }
+    )
+  }
+
+  const team = await createTeam(supabase, { name: name.trim(), player1_id, player2_id })
+  return NextResponse.json({ team })
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { signInStepRoute, startAdminSession } from '@/lib/auth/adminRoute'
+import { confirmTotpEnrollment } from '@/lib/supabase/adminFactors'
+import { guardAttempt } from '@/lib/throttle/guard'
+
+// Turn on the new authenticator with its first code and finish signing in.
+// The recovery codes come back once, to be saved. Attempts are throttled
+// like any other code.
+//   { code: string }
+export const POST = signInStepRoute('Authenticator setup', 'enroll', async (request, { supabase, session }) => {
+  const { code } = await request.json()
+
+  if (!code || typeof code !== 'string') {
+    return NextResponse.json(
+      { error: 'Please enter the code from your authenticator app' },
+      { status: 400 }
+    )
+  }
+
+  const guard = await guardAttempt(request, 'two_factor', session.email)
+  if (guard.blocked) return guard.blocked
+
+  let recoveryCodes: string[]
+  try {
+    recoveryCodes = await confirmTotpEnrollment(supabase, session.allowed_email_id, code)
+  } catch (error) {
+    await guard.record('failure', 'wrong setup code')
+    throw error
+  }
+
+  await guard.record('success')
+  return startAdminSession(NextResponse.json({ recoveryCodes }), session)
+})
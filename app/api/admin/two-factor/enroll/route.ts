@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import QRCode from 'qrcode'
+import { signInStepRoute } from '@/lib/auth/adminRoute'
+import { otpauthUrl } from '@/lib/auth/totp'
+import { startTotpEnrollment } from '@/lib/supabase/adminFactors'
+
+// Staff without an authenticator gets a new secret to scan, as a QR code
+// or typed in, before they can finish signing in
+export const POST = signInStepRoute('Authenticator setup', 'enroll', async (_request, { supabase, session }) => {
+  const secret = await startTotpEnrollment(supabase, session.allowed_email_id)
+  const url = otpauthUrl(session.email, secret)
+
+  return NextResponse.json({
+    secret,
+    otpauth_url: url,
+    qr_code: await QRCode.toDataURL(url)
+  })
+})
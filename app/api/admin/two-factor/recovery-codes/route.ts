@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { regenerateRecoveryCodes } from '@/lib/supabase/adminFactors'
+
+// Replace the signed-in staff member's recovery codes. The old ones stop working.
+export const POST = adminRoute('Recovery codes', 'admin_panel', async (_request, { supabase, session }) => {
+  const recoveryCodes = await regenerateRecoveryCodes(supabase, session.allowed_email_id)
+  return NextResponse.json({ recoveryCodes })
+})
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { adminRoute } from '@/lib/auth/adminRoute'
+import { fetchEnabledFactorIds } from '@/lib/supabase/adminFactors'
+
+// Which staff (by allowed_emails id) have an authenticator set up
+export const GET = adminRoute('Two-factor status', 'manage_access', async (_request, { supabase }) => {
+  return NextResponse.json({ enabled: await fetchEnabledFactorIds(supabase) })
+})
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { signInStepRoute, startAdminSession } from '@/lib/auth/adminRoute'
+import { verifySecondFactor } from '@/lib/supabase/adminFactors'
+import { guardAttempt } from '@/lib/throttle/guard'
+
+// Last step of signing in as staff: a code from the authenticator app, or
+// a recovery code. Attempts are throttled like passwords.
+//   { code: string }
+export const POST = signInStepRoute('Two-factor sign-in', 'totp', async (request, { supabase, session }) => {
+  const { code } = await request.json()
+
+  if (!code || typeof code !== 'string') {
+    return NextResponse.json(
+      { error: 'Please enter the code from your authenticator app' },
+      { status: 400 }
+    )
+  }
+
+  const guard = await guardAttempt(request, 'two_factor', session.email)
+  if (guard.blocked) return guard.blocked
+
+  if (!await verifySecondFactor(supabase, session.allowed_email_id, code)) {
+    await guard.record('failure', 'wrong code')
+    return NextResponse.json(
+      { error: 'Invalid code' },
+      { status: 401 }
+    )
+  }
+
+  await guard.record('success')
+  return startAdminSession(NextResponse.json({ success: true }), session)
+})
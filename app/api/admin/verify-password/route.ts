@@ -1,58 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { fetchAdminFactor } from '@/lib/supabase/adminFactors'
+import { fetchPasswordHash } from '@/lib/supabase/adminCredentials'
+import { verifyPassword } from '@/lib/auth/passwordHash'
+import { requestSession, staffMember } from '@/lib/auth/adminRoute'
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from '@/lib/auth/session'
+import { linkRole } from '@/lib/auth/roles'
+import { guardAttempt } from '@/lib/throttle/guard'
 
+// Second step of signing in as staff (scorekeepers and up). The email comes from the session the
+// sign-in link started, which proves the admin owns the inbox, and the
+// password is their own (see lib/auth/passwordHash). The password alone
+// doesn't make an admin session: it moves on to the authenticator code (see
+// two-factor/verify), or to setting one up (two-factor/enroll). Attempts are
+// throttled (see lib/throttle/policy), and a wrong password gets the same
+// answer as an email that isn't staff.
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json()
+    const { password } = await request.json()
 
-    if (!email || !password) {
+    if (!password) {
       return NextResponse.json(
-        { error: 'Email and password are required' },
+        { error: 'Password is required' },
         { status: 400 }
       )
     }
 
-    const supabase = await createClient()
+    const sessionSecret = process.env.SESSION_SECRET
 
-    // Check if email is an admin
-    const { data: allowedEmail, error } = await supabase
-      .from('allowed_emails')
-      .select('*')
-      .eq('email', email)
-      .eq('is_admin', true)
-      .single()
+    if (!sessionSecret) {
+      console.error('SESSION_SECRET environment variable not set')
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const session = await requestSession(request)
 
-    if (error || !allowedEmail) {
+    if (!session) {
       return NextResponse.json(
-        { error: 'Invalid email or not an admin' },
+        { error: 'Please use the sign-in link we emailed you first' },
         { status: 401 }
       )
     }
 
-    // Verify password against environment variable
-    const adminPassword = process.env.ADMIN_PASSWORD
+    const guard = await guardAttempt(request, 'admin_password', session.email)
+    if (guard.blocked) return guard.blocked
 
-    if (!adminPassword) {
-      console.error('ADMIN_PASSWORD environment variable not set')
+    const supabase = createAdminClient()
+    const member = await staffMember(supabase, session.email)
+
+    if (!member) {
+      await guard.record('failure', 'not staff')
       return NextResponse.json(
-        { error: 'Server configuration error' },
-        { status: 500 }
+        { error: 'Invalid password' },
+        { status: 401 }
       )
     }
 
-    if (password !== adminPassword) {
+    const passwordHash = await fetchPasswordHash(supabase, member.id)
+
+    if (!passwordHash) {
+      // Only the inbox's owner gets this far, so telling them is safe
+      await guard.record('failure', 'no password set')
+      return NextResponse.json(
+        { error: 'You have not set an admin password yet', needsPassword: true },
+        { status: 401 }
+      )
+    }
+
+    if (typeof password !== 'string' || !await verifyPassword(password, passwordHash)) {
+      await guard.record('failure', 'wrong password')
       return NextResponse.json(
         { error: 'Invalid password' },
         { status: 401 }
       )
     }
 
-    // Password is correct - return success
-    return NextResponse.json({
-      success: true,
-      email: allowedEmail.email,
-      isAdmin: true
-    })
+    await guard.record('success')
+
+    const factor = await fetchAdminFactor(supabase, member.id)
+    const pending = factor?.enabled_at ? 'totp' : 'enroll'
+
+    const response = NextResponse.json({ success: true, next: pending })
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionToken(session.email, linkRole(member.role), sessionSecret, new Date(), pending),
+      sessionCookieOptions(linkRole(member.role), pending)
+    )
+
+    return response
 
   } catch (error) {
     console.error('Password verification error:', error)
@@ -61,4 +99,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasCronSecret } from '@/lib/auth/cron'
+import { applyInactivityPenalties } from '@/lib/supabase/inactivity'
+
+// Scheduled job: drops players who have gone too long without a match.
+// Call with `Authorization: Bearer $CRON_SECRET` (Vercel Cron sends this header).
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET environment variable not set')
+    return NextResponse.json(
+      { error: 'Server configuration error' },
+      { status: 500 }
+    )
+  }
+
+  if (!hasCronSecret(request.headers.get('authorization'), cronSecret)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const penalised = await applyInactivityPenalties(supabase)
+
+    return NextResponse.json({ success: true, penalised })
+  } catch (error) {
+    console.error('Inactivity penalty error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { issueLoginToken } from '@/lib/supabase/loginTokens'
+import { emailPattern, loginLinkMessage, loginLinkUrl } from '@/lib/auth/loginTokens'
+import { createMailTransport } from '@/lib/mail/transport'
+import { guardAttempt } from '@/lib/throttle/guard'
+
+// First step of signing in: email a one-time link to an allowlisted address.
+// The answer is the same whether or not the address is allowed, and comes
+// as quickly (the link is sent after the response), so this can't be used to
+// find out who plays. Emails match in any case. Requests are rate limited per
+// email and per IP whether or not the email is allowed (see
+// lib/throttle/policy).
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json()
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    const guard = await guardAttempt(request, 'login_link', email)
+    if (guard.blocked) return guard.blocked
+
+    const supabase = createAdminClient()
+
+    const { data: allowedEmail, error } = await supabase
+      .from('allowed_emails')
+      .select('email')
+      .ilike('email', emailPattern(email))
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error checking allowed email:', error)
+      throw error
+    }
+
+    if (allowedEmail) {
+      await guard.record('success')
+
+      // Links point at SITE_URL in production, so a forged Host header can't redirect them
+      const siteUrl = process.env.SITE_URL || request.nextUrl.origin
+      after(async () => {
+        try {
+          const token = await issueLoginToken(supabase, allowedEmail.email)
+          await createMailTransport().send(loginLinkMessage(allowedEmail.email, loginLinkUrl(siteUrl, token)))
+        } catch (error) {
+          console.error('Error sending login link:', error)
+        }
+      })
+    } else {
+      await guard.record('failure', 'not on the allowlist')
+    }
+
+    return NextResponse.json({ sent: true })
+
+  } catch (error) {
+    console.error('Login error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth/session'
+
+// Signing out only clears the cookie, so it needs no session
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
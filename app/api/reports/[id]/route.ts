@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { playerRoute } from '@/lib/auth/playerRoute'
+import { checkReportPlayer } from '@/lib/utils/matchReports'
+import { fetchMatchReport, updateMatchReport } from '@/lib/supabase/matchReports'
+
+// The opponent confirms or disputes a reported result; the reporter can
+// withdraw it while it is waiting. Confirming records the match.
+//   { action: { type: 'confirm' } | { type: 'dispute', reason: string } | { type: 'withdraw' } }
+export const PATCH = playerRoute<{ id: string }>('Match report update', 'report_matches', async (request, { supabase, session, player, params }) => {
+  const { action } = await request.json()
+
+  if (!action?.type) {
+    return NextResponse.json(
+      { error: 'Action is required' },
+      { status: 400 }
+    )
+  }
+
+  const report = await fetchMatchReport(supabase, params.id)
+  checkReportPlayer(report, action, player.id)
+
+  const updated = await updateMatchReport(supabase, report, action, session.email)
+  return NextResponse.json({ report: updated })
+})
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { playerRoute } from '@/lib/auth/playerRoute'
+import { fetchMatchReports, submitMatchReport } from '@/lib/supabase/matchReports'
+
+// How many of a player's reports they see, newest first
+const REPORT_HISTORY_LIMIT = 20
+
+// The signed-in player, and the results they reported or were reported against
+export const GET = playerRoute('Match reports', 'report_matches', async (_request, { supabase, player }) => {
+  const reports = await fetchMatchReports(supabase, { playerId: player.id, limit: REPORT_HISTORY_LIMIT })
+  return NextResponse.json({ player, reports })
+})
+
+// Report a result against an opponent on your ladder. It waits for them to
+// confirm it before it counts.
+//   { report: ReportInput }
+export const POST = playerRoute('Match report', 'report_matches', async (request, { supabase, player }) => {
+  const { report } = await request.json()
+
+  if (!report) {
+    return NextResponse.json(
+      { error: 'Report is required' },
+      { status: 400 }
+    )
+  }
+
+  const submitted = await submitMatchReport(supabase, player, report)
+  return NextResponse.json({ report: submitted })
+})
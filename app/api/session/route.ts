@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, readSessionToken } from '@/lib/auth/session'
+
+// Who is signed in. The cookie is HTTP-only, so pages ask here rather than
+// reading it themselves.
+export async function GET(request: NextRequest) {
+  const secret = process.env.SESSION_SECRET
+  const session = secret
+    ? await readSessionToken(request.cookies.get(SESSION_COOKIE)?.value, secret)
+    : null
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.json({ email: session.email, role: session.role })
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { fetchLadderData, replayLadderDataAsOf } from '@/lib/supabase/rankings'
+
+// Ladder standings at a point in the past, replayed from initial_rank.
+//   ?date=<ISO timestamp>  every event dated at or before that moment
+//   ?eventId=<id>          every event up to and including that one
+// With neither, returns the current standings.
+//   ?ladder=<id>           which ladder; defaults to the first one
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date') || undefined
+  const eventId = request.nextUrl.searchParams.get('eventId') || undefined
+  const ladderId = request.nextUrl.searchParams.get('ladder') || undefined
+
+  if (date && isNaN(new Date(date).getTime())) {
+    return NextResponse.json(
+      { error: 'Invalid date' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const data = await fetchLadderData(supabase, ladderId)
+    const result = replayLadderDataAsOf(data, { date, eventId })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      date: date ?? null,
+      event_id: eventId ?? null,
+      standings: result.standings.map(player => ({
+        id: player.id,
+        name: player.name,
+        current_rank: player.current_rank
+      })),
+      events: result.trace.map(movement => ({
+        id: movement.event_id,
+        event_type: movement.event_type,
+        event_date: movement.event_date,
+        match_id: movement.match_id ?? null,
+        reason: movement.reason
+      }))
+    })
+  } catch (error) {
+    console.error('Standings error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { redeemLoginToken } from '@/lib/supabase/loginTokens'
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from '@/lib/auth/session'
+import { isStaffRole, linkRole } from '@/lib/auth/roles'
+import { emailPattern } from '@/lib/auth/loginTokens'
+
+// Where sign-in links land. A valid token proves the visitor owns the inbox,
+// so they get a member session. Staff go on to the password step, which
+// leads to a session with their staff role.
+export async function GET(request: NextRequest) {
+  const redirectTo = (pathname: string, search = '') => {
+    const url = request.nextUrl.clone()
+    url.pathname = pathname
+    url.search = search
+    return NextResponse.redirect(url)
+  }
+
+  try {
+    const sessionSecret = process.env.SESSION_SECRET
+
+    if (!sessionSecret) {
+      console.error('SESSION_SECRET environment variable not set')
+      return redirectTo('/login', '?error=server')
+    }
+
+    const token = request.nextUrl.searchParams.get('token')
+    const supabase = createAdminClient()
+    const email = token ? await redeemLoginToken(supabase, token) : null
+
+    if (!email) {
+      return redirectTo('/login', '?error=link')
+    }
+
+    // Access may have been revoked since the link was sent
+    const { data: allowedEmail, error } = await supabase
+      .from('allowed_emails')
+      .select('email, role')
+      .ilike('email', emailPattern(email))
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error checking allowed email:', error)
+      throw error
+    }
+    if (!allowedEmail) {
+      return redirectTo('/login', '?error=link')
+    }
+
+    // Staff get the rest of their role once they give their password and code
+    const role = linkRole(allowedEmail.role)
+    const response = isStaffRole(allowedEmail.role) ? redirectTo('/login', '?step=password') : redirectTo('/')
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionToken(allowedEmail.email, role, sessionSecret),
+      sessionCookieOptions(role)
+    )
+
+    return response
+
+  } catch (error) {
+    console.error('Sign-in link error:', error)
+    return redirectTo('/login', '?error=server')
+  }
+}
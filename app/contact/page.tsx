@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchSession } from '@/lib/auth/client'
+import type { Role } from '@/lib/auth/roles'
 import { useRouter } from 'next/navigation'
 import Navigation from '@/components/Navigation'
 import ContactInfo from '@/components/ContactInfo'
@@ -9,24 +11,23 @@ import { Player } from '@/lib/types/database'
 
 export default function ContactPage() {
   const [user, setUser] = useState<{ email: string } | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [role, setRole] = useState<Role>('viewer')
   const [players, setPlayers] = useState<Player[]>([])
   const [loading, setLoading] = useState(true)
   const router = useRouter()
   const supabase = createClient()
 
   useEffect(() => {
-    const checkAuth = () => {
-      const email = localStorage.getItem('scrappers_user_email')
-      const adminStatus = localStorage.getItem('scrappers_is_admin') === 'true'
+    const checkAuth = async () => {
+      const session = await fetchSession()
 
-      if (!email) {
+      if (!session) {
         router.push('/login')
         return
       }
 
-      setUser({ email })
-      setIsAdmin(adminStatus)
+      setUser({ email: session.email })
+      setRole(session.role)
     }
 
     const fetchData = async () => {
@@ -66,7 +67,7 @@ export default function ContactPage() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navigation user={user} isAdmin={isAdmin} />
+      <Navigation user={user} role={role} />
       <main className="container mx-auto px-4 py-8">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
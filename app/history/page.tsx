@@ -2,46 +2,78 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchSession } from '@/lib/auth/client'
+import type { Role } from '@/lib/auth/roles'
 import { useRouter } from 'next/navigation'
 import GameHistory from '@/components/GameHistory'
+import SeasonStandings from '@/components/SeasonStandings'
 import Navigation from '@/components/Navigation'
-import { MatchWithPlayers } from '@/lib/types/database'
+import { MatchWithPlayers, Season, SeasonStandingWithPlayer } from '@/lib/types/database'
+import { fetchSeasons, fetchSeasonStandings } from '@/lib/supabase/seasons'
 
 export default function HistoryPage() {
   const [user, setUser] = useState<{ email: string } | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [role, setRole] = useState<Role>('viewer')
   const [matches, setMatches] = useState<MatchWithPlayers[]>([])
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null)
+  const [standings, setStandings] = useState<SeasonStandingWithPlayer[]>([])
+  const [seasonsLoaded, setSeasonsLoaded] = useState(false)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
   const supabase = createClient()
 
   useEffect(() => {
-    const checkAuth = () => {
-      const email = localStorage.getItem('scrappers_user_email')
-      const adminStatus = localStorage.getItem('scrappers_is_admin') === 'true'
+    const checkAuth = async () => {
+      const session = await fetchSession()
 
-      if (!email) {
+      if (!session) {
         router.push('/login')
         return
       }
 
-      setUser({ email })
-      setIsAdmin(adminStatus)
+      setUser({ email: session.email })
+      setRole(session.role)
     }
 
+    const fetchSeasonList = async () => {
+      const seasonsData = await fetchSeasons(supabase)
+      setSeasons(seasonsData)
+      // Start on the active season, or the latest one if none is running
+      const active = seasonsData.find(season => season.status === 'active') ?? seasonsData[0]
+      setSelectedSeasonId(active?.id ?? null)
+      setSeasonsLoaded(true)
+    }
+
+    checkAuth()
+    fetchSeasonList()
+  }, [router, supabase])
+
+  useEffect(() => {
     const fetchData = async () => {
       try {
         // Fetch matches
-        const { data: matchesData } = await supabase
+        let matchesQuery = supabase
           .from('matches')
           .select(`
             *,
             player1:players!matches_player1_id_fkey(*),
             player2:players!matches_player2_id_fkey(*)
           `)
+          .is('team1_id', null)
           .order('date_played', { ascending: false })
+        if (selectedSeasonId) {
+          matchesQuery = matchesQuery.eq('season_id', selectedSeasonId)
+        }
+        const { data: matchesData } = await matchesQuery
+
+        const selected = seasons.find(season => season.id === selectedSeasonId)
+        const standingsData = selected?.status === 'closed'
+          ? await fetchSeasonStandings(supabase, selected.id)
+          : []
 
         setMatches(matchesData || [])
+        setStandings(standingsData)
       } catch (error) {
         console.error('Error fetching data:', error)
       } finally {
@@ -49,9 +81,10 @@ export default function HistoryPage() {
       }
     }
 
-    checkAuth()
-    fetchData()
-  }, [router, supabase])
+    if (seasonsLoaded) {
+      fetchData()
+    }
+  }, [seasonsLoaded, selectedSeasonId, seasons, supabase])
 
   if (loading) {
     return (
@@ -68,17 +101,42 @@ export default function HistoryPage() {
     return null // Will redirect to login
   }
 
+  const selectedSeason = seasons.find(season => season.id === selectedSeasonId)
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navigation user={user} isAdmin={isAdmin} />
+      <Navigation user={user} role={role} />
       <main className="container mx-auto px-4 py-8">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
             🏆 Game History 🏆
           </h1>
+          {seasons.length > 0 && (
+            <div className="mt-4 flex items-center justify-center gap-2">
+              <label htmlFor="season" className="text-sm font-medium text-gray-700">Season:</label>
+              <select
+                id="season"
+                value={selectedSeasonId ?? ''}
+                onChange={(e) => setSelectedSeasonId(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {seasons.map(season => (
+                  <option key={season.id} value={season.id}>
+                    {season.name}{season.status === 'active' ? ' (current)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {selectedSeason?.status === 'closed' && (
+            <p className="text-sm text-gray-600 mt-2">
+              {new Date(selectedSeason.started_at).toLocaleDateString()} – {selectedSeason.closed_at && new Date(selectedSeason.closed_at).toLocaleDateString()} · archived, read-only
+            </p>
+          )}
         </div>
 
         <div className="space-y-8">
+          {selectedSeason?.status === 'closed' && <SeasonStandings standings={standings} />}
           <GameHistory matches={matches} />
         </div>
       </main>
@@ -1,18 +1,43 @@
 'use client'
 
-import { useState } from 'react'
-import { createClient } from '@/lib/supabase/client'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
+import { fetchSession, signOut } from '@/lib/auth/client'
+import { LOGIN_TOKEN_MINUTES } from '@/lib/auth/loginTokens'
+import TwoFactorForm from '@/components/TwoFactorForm'
+
+// Where sign-in links send people back to with something to say (see app/auth/verify)
+const LINK_ERRORS: Record<string, string> = {
+  link: 'Error: That sign-in link has expired or was already used. Please request a new one.',
+  server: 'Error: Signing in failed. Please try again.',
+}
 
 export default function LoginPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
-  const [step, setStep] = useState<'email' | 'password'>('email')
-  const [, setIsAdmin] = useState(false)
+  const [step, setStep] = useState<'email' | 'sent' | 'password' | 'totp' | 'enroll'>('email')
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
+  // An admin who hasn't set a password yet can ask for a link to set one
+  const [needsPassword, setNeedsPassword] = useState(false)
   const router = useRouter()
-  const supabase = createClient()
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+
+    if (params.get('step') === 'password') {
+      // Admins arrive here from their sign-in link, already signed in as that email
+      fetchSession().then(session => {
+        if (session) {
+          setEmail(session.email)
+          setStep('password')
+          setMessage('Admin access detected. Please enter your admin password.')
+        }
+      })
+    } else if (params.get('error')) {
+      setMessage(LINK_ERRORS[params.get('error')!] ?? LINK_ERRORS.server)
+    }
+  }, [])
 
   const handleEmailSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -20,34 +45,23 @@ export default function LoginPage() {
     setMessage('')
 
     try {
-      // Check if email is in allowed list
-      const { data: allowedEmail, error } = await supabase
-        .from('allowed_emails')
-        .select('*')
-        .eq('email', email)
-        .single()
-
-      if (error || !allowedEmail) {
-        setMessage('Email not authorized. Please contact an admin.')
+      // The server emails a sign-in link if the address is on the allowed list
+      const response = await fetch('/api/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage(`Error: ${data.error || 'Could not send a sign-in link'}`)
         return
       }
 
-      if (allowedEmail.is_admin) {
-        // Admin email - show password step
-        setIsAdmin(true)
-        setStep('password')
-        setMessage('Admin access detected. Please enter the admin password.')
-      } else {
-        // Regular viewer - grant immediate access
-        localStorage.setItem('scrappers_user_email', email)
-        localStorage.setItem('scrappers_is_admin', 'false')
-        
-        setMessage('Access granted! Redirecting...')
-        
-        setTimeout(() => {
-          router.push('/')
-        }, 1000)
-      }
+      setStep('sent')
 
     } catch {
       setMessage('An unexpected error occurred')
@@ -62,31 +76,25 @@ export default function LoginPage() {
     setMessage('')
 
     try {
-      // Verify password with API route
+      // Verify password with API route; the email comes from the session
       const response = await fetch('/api/admin/verify-password', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ password }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        setMessage(data.error || 'Invalid password')
+        setNeedsPassword(data.needsPassword === true)
+        setMessage(`Error: ${data.error || 'Invalid password'}`)
         return
       }
 
-      // Password correct - grant admin access
-      localStorage.setItem('scrappers_user_email', email)
-      localStorage.setItem('scrappers_is_admin', 'true')
-      
-      setMessage('Admin access granted! Redirecting...')
-      
-      setTimeout(() => {
-        router.push('/')
-      }, 1000)
+      // Password correct - now the authenticator code, or setting one up
+      setStep(data.next)
 
     } catch {
       setMessage('An unexpected error occurred')
@@ -95,10 +103,45 @@ export default function LoginPage() {
     }
   }
 
-  const handleBack = () => {
+  const handlePasswordLink = async () => {
+    setLoading(true)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/admin/password-link', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage(`Error: ${data.error || 'Could not send a password link'}`)
+        return
+      }
+
+      setNeedsPassword(false)
+      setMessage(`A link to set your admin password is on its way to ${email}.`)
+
+    } catch {
+      setMessage('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSignedIn = () => {
+    setMessage('Admin access granted! Redirecting...')
+
+    setTimeout(() => {
+      router.push('/')
+    }, 1000)
+  }
+
+  // Leaving the admin steps drops the session the link started
+  const handleBack = async () => {
+    if (step !== 'email' && step !== 'sent') {
+      await signOut()
+    }
     setStep('email')
-    setIsAdmin(false)
     setPassword('')
+    setNeedsPassword(false)
     setMessage('')
   }
 
@@ -110,9 +153,15 @@ export default function LoginPage() {
             Welcome to Scrappers Cup
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            {step === 'email' 
-              ? 'Enter your authorized email to access the ladder'
-              : 'Enter the admin password to continue'
+            {step === 'email'
+              ? 'Enter your authorized email and we\'ll send you a sign-in link'
+              : step === 'sent'
+              ? 'Check your inbox'
+              : step === 'password'
+              ? 'Enter your admin password to continue'
+              : step === 'totp'
+              ? 'Enter the code from your authenticator app'
+              : 'Set up two-factor sign-in'
             }
           </p>
         </div>
@@ -142,10 +191,28 @@ export default function LoginPage() {
                 disabled={loading}
                 className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? 'Checking...' : 'Continue'}
+                {loading ? 'Sending...' : 'Email me a sign-in link'}
               </button>
             </div>
           </form>
+        ) : step === 'sent' ? (
+          <div className="mt-8 space-y-6">
+            <div className="p-3 bg-blue-50 rounded-md">
+              <p className="text-sm text-blue-800">
+                If <strong>{email}</strong> is on the allowed list, a sign-in link is on its way.
+                It works once and expires in {LOGIN_TOKEN_MINUTES} minutes.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleBack}
+              className="w-full py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : step === 'totp' || step === 'enroll' ? (
+          <TwoFactorForm mode={step} email={email} onSignedIn={handleSignedIn} onBack={handleBack} />
         ) : (
           <form className="mt-8 space-y-6" onSubmit={handlePasswordSubmit}>
             <div>
@@ -156,7 +223,7 @@ export default function LoginPage() {
               </div>
               
               <label htmlFor="password" className="sr-only">
-                Admin Password
+                Your Admin Password
               </label>
               <input
                 id="password"
@@ -165,7 +232,7 @@ export default function LoginPage() {
                 autoComplete="current-password"
                 required
                 className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="Admin password"
+                placeholder="Your admin password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
@@ -188,12 +255,23 @@ export default function LoginPage() {
                 {loading ? 'Verifying...' : 'Sign In'}
               </button>
             </div>
+
+            {needsPassword && (
+              <button
+                type="button"
+                onClick={handlePasswordLink}
+                disabled={loading}
+                className="w-full py-2 px-4 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Email me a link to set my password
+              </button>
+            )}
           </form>
         )}
 
         {message && (
           <div className={`text-center text-sm ${
-            message.startsWith('Error') || message.includes('Invalid') || message.includes('not authorized')
+            message.startsWith('Error') || message.includes('Invalid') || message.includes('not an admin') || message.includes('sign-in link')
               ? 'text-red-600' 
               : message.includes('Admin access detected')
               ? 'text-blue-600'
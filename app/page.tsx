@@ -2,54 +2,78 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchSession } from '@/lib/auth/client'
+import { Role, can } from '@/lib/auth/roles'
 import { useRouter } from 'next/navigation'
 import Leaderboard from '@/components/Leaderboard'
 import Navigation from '@/components/Navigation'
-import { Player, MatchWithPlayers } from '@/lib/types/database'
+import DoublesLeaderboard from '@/components/DoublesLeaderboard'
+import MatchReports from '@/components/MatchReports'
+import { Player, MatchWithPlayers, MatchWithTeams, TeamWithPlayers, Ladder } from '@/lib/types/database'
+import { fetchActiveSeason } from '@/lib/supabase/seasons'
+import { fetchLadders } from '@/lib/supabase/ladders'
+import { fetchDoublesMatches, fetchTeams } from '@/lib/supabase/teams'
 
 export default function Home() {
   const [user, setUser] = useState<{ email: string } | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [role, setRole] = useState<Role>('viewer')
   const [players, setPlayers] = useState<Player[]>([])
   const [matches, setMatches] = useState<MatchWithPlayers[]>([])
+  const [teams, setTeams] = useState<TeamWithPlayers[]>([])
+  const [doublesMatches, setDoublesMatches] = useState<MatchWithTeams[]>([])
+  const [ladders, setLadders] = useState<Ladder[]>([])
   const [loading, setLoading] = useState(true)
+  const [dataVersion, setDataVersion] = useState(0)  // Bumped to fetch the ladder again
   const router = useRouter()
   const supabase = createClient()
 
   useEffect(() => {
-    const checkAuth = () => {
-      const email = localStorage.getItem('scrappers_user_email')
-      const adminStatus = localStorage.getItem('scrappers_is_admin') === 'true'
-      
-      if (!email) {
+    const checkAuth = async () => {
+      const session = await fetchSession()
+
+      if (!session) {
         router.push('/login')
         return
       }
 
-      setUser({ email })
-      setIsAdmin(adminStatus)
+      setUser({ email: session.email })
+      setRole(session.role)
     }
 
     const fetchData = async () => {
       try {
-        // Fetch all players (backend stores all players)
+        // Fetch all players on every ladder (backend stores all players)
         const { data: playersData } = await supabase
           .from('players')
           .select('*')
           .order('current_rank', { ascending: true })
+        const laddersData = await fetchLadders(supabase)
 
-        // Fetch matches with player data
-        const { data: matchesData } = await supabase
+        // Fetch this season's singles matches with player data
+        const season = await fetchActiveSeason(supabase)
+        let matchesQuery = supabase
           .from('matches')
           .select(`
             *,
             player1:players!matches_player1_id_fkey(*),
             player2:players!matches_player2_id_fkey(*)
           `)
+          .is('team1_id', null)
           .order('date_played', { ascending: false })
+        if (season) {
+          matchesQuery = matchesQuery.eq('season_id', season.id)
+        }
+        const { data: matchesData } = await matchesQuery
+
+        // The doubles ladder, if the club runs one
+        const teamsData = await fetchTeams(supabase)
+        const doublesData = teamsData.length > 0 ? await fetchDoublesMatches(supabase, { seasonId: season?.id }) : []
 
         setPlayers(playersData || [])
+        setLadders(laddersData)
         setMatches(matchesData || [])
+        setTeams(teamsData)
+        setDoublesMatches(doublesData)
       } catch (error) {
         console.error('Error fetching data:', error)
       } finally {
@@ -59,7 +83,7 @@ export default function Home() {
 
     checkAuth()
     fetchData()
-  }, [router, supabase])
+  }, [router, supabase, dataVersion])
 
   if (loading) {
     return (
@@ -78,7 +102,7 @@ export default function Home() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navigation user={user} isAdmin={isAdmin} />
+      <Navigation user={user} role={role} />
       <main className="container mx-auto px-4 py-8">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
@@ -87,7 +111,11 @@ export default function Home() {
         </div>
         
         <div className="space-y-8">
-          <Leaderboard players={players.sort((a, b) => a.current_rank - b.current_rank)} matches={matches} />
+          <Leaderboard players={players.sort((a, b) => a.current_rank - b.current_rank)} matches={matches} ladders={ladders} />
+          {teams.length > 0 && <DoublesLeaderboard teams={teams} matches={doublesMatches} />}
+          {can(role, 'report_matches') && (
+            <MatchReports players={players} ladders={ladders} onResultRecorded={() => setDataVersion(version => version + 1)} />
+          )}
         </div>
       </main>
     </div>
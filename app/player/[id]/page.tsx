@@ -2,10 +2,27 @@
 
 import { useEffect, useState, use } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchSession } from '@/lib/auth/client'
+import type { Role } from '@/lib/auth/roles'
 import { useRouter } from 'next/navigation'
 import Navigation from '@/components/Navigation'
 import Link from 'next/link'
-import { Player, MatchWithPlayers } from '@/lib/types/database'
+import RatingTrend from '@/components/RatingTrend'
+import { Player, MatchWithPlayers, MatchWithTeams, TeamWithPlayers, ChallengeWithPlayers, RatingHistoryEntry, Season, SeasonStandingWithPlayer } from '@/lib/types/database'
+import { fetchLadderData, ladderDataStartingOrder } from '@/lib/supabase/rankings'
+import { fetchSeasons, fetchSeasonStandings } from '@/lib/supabase/seasons'
+import { fetchRatingHistory } from '@/lib/supabase/ratings'
+import { fetchChallenges } from '@/lib/supabase/challenges'
+import { fetchDoublesMatches, fetchTeams } from '@/lib/supabase/teams'
+import { challengeDeadline } from '@/lib/utils/challenges'
+import { rankHistory } from '@/lib/utils/events'
+import { getLadderRule } from '@/lib/utils/ladderRules'
+import { MATCH_RESULT_LABELS, isUnplayedResult, matchResultType, playerDoublesStats, playerMatchStats } from '@/lib/utils/results'
+import { teamsForPlayer } from '@/lib/utils/doubles'
+import { formatSets } from '@/lib/utils/matchFormats'
+import { PLAYER_STATUS_LABELS, frozenChecker } from '@/lib/utils/playerStatus'
+
+type PositionChange = ReturnType<typeof rankHistory>[number]
 
 interface PlayerPageProps {
   params: Promise<{ id: string }>
@@ -14,25 +31,33 @@ interface PlayerPageProps {
 export default function PlayerPage({ params }: PlayerPageProps) {
   const resolvedParams = use(params)
   const [user, setUser] = useState<{ email: string } | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [role, setRole] = useState<Role>('viewer')
   const [player, setPlayer] = useState<Player | null>(null)
   const [matches, setMatches] = useState<MatchWithPlayers[]>([])
+  const [teams, setTeams] = useState<TeamWithPlayers[]>([])  // Doubles teams the player is in
+  const [doublesMatches, setDoublesMatches] = useState<MatchWithTeams[]>([])
+  const [positionHistory, setPositionHistory] = useState<PositionChange[]>([])
+  const [openChallenges, setOpenChallenges] = useState<ChallengeWithPlayers[]>([])
+  const [ratingHistory, setRatingHistory] = useState<RatingHistoryEntry[]>([])
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null)
+  const [seasonStanding, setSeasonStanding] = useState<SeasonStandingWithPlayer | null>(null)
+  const [seasonsLoaded, setSeasonsLoaded] = useState(false)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
   const supabase = createClient()
 
   useEffect(() => {
-    const checkAuth = () => {
-      const email = localStorage.getItem('scrappers_user_email')
-      const adminStatus = localStorage.getItem('scrappers_is_admin') === 'true'
-      
-      if (!email) {
+    const checkAuth = async () => {
+      const session = await fetchSession()
+
+      if (!session) {
         router.push('/login')
         return
       }
 
-      setUser({ email })
-      setIsAdmin(adminStatus)
+      setUser({ email: session.email })
+      setRole(session.role)
     }
 
     const fetchData = async () => {
@@ -49,8 +74,45 @@ export default function PlayerPage({ params }: PlayerPageProps) {
           return
         }
 
-        // Fetch player's matches
-        const { data: matchesData } = await supabase
+        // Replay the player's ladder to see how their position moved over time
+        const ladderData = await fetchLadderData(supabase, playerData.ladder_id)
+        const history = rankHistory(
+          ladderDataStartingOrder(ladderData),
+          ladderData.events,
+          ladderData.matches,
+          resolvedParams.id,
+          { rule: getLadderRule(ladderData.ladder?.rule), pool: ladderData.players, isFrozen: frozenChecker(ladderData.statusChanges) }
+        )
+
+        const challengesData = await fetchChallenges(supabase, { playerId: resolvedParams.id, openOnly: true })
+        const ratingData = await fetchRatingHistory(supabase, resolvedParams.id)
+        const seasonsData = await fetchSeasons(supabase)
+        const teamsData = teamsForPlayer(await fetchTeams(supabase), resolvedParams.id)
+
+        setPlayer(playerData)
+        setTeams(teamsData)
+        setPositionHistory(history.reverse())
+        setOpenChallenges(challengesData)
+        setRatingHistory(ratingData)
+        setSeasons(seasonsData)
+        // Start on the active season, or the latest one if none is running
+        setSelectedSeasonId((seasonsData.find(season => season.status === 'active') ?? seasonsData[0])?.id ?? null)
+        setSeasonsLoaded(true)
+      } catch (error) {
+        console.error('Error fetching data:', error)
+        setLoading(false)
+      }
+    }
+
+    checkAuth()
+    fetchData()
+  }, [resolvedParams.id, router, supabase])
+
+  useEffect(() => {
+    const fetchSeasonData = async () => {
+      try {
+        // Fetch player's matches in the selected season
+        let matchesQuery = supabase
           .from('matches')
           .select(`
             *,
@@ -59,19 +121,35 @@ export default function PlayerPage({ params }: PlayerPageProps) {
           `)
           .or(`player1_id.eq.${resolvedParams.id},player2_id.eq.${resolvedParams.id}`)
           .order('created_at', { ascending: false })
+        if (selectedSeasonId) {
+          matchesQuery = matchesQuery.eq('season_id', selectedSeasonId)
+        }
+        const { data: matchesData } = await matchesQuery
+        const doublesData = await fetchDoublesMatches(supabase, {
+          teamIds: teams.map(team => team.id),
+          seasonId: selectedSeasonId
+        })
+
+        // Closed seasons have an archived finishing position
+        const selected = seasons.find(season => season.id === selectedSeasonId)
+        const standing = selected?.status === 'closed'
+          ? (await fetchSeasonStandings(supabase, selected.id)).find(entry => entry.player_id === resolvedParams.id) ?? null
+          : null
 
-        setPlayer(playerData)
         setMatches(matchesData || [])
+        setDoublesMatches(doublesData)
+        setSeasonStanding(standing)
       } catch (error) {
-        console.error('Error fetching data:', error)
+        console.error('Error fetching season data:', error)
       } finally {
         setLoading(false)
       }
     }
 
-    checkAuth()
-    fetchData()
-  }, [resolvedParams.id, router, supabase])
+    if (seasonsLoaded) {
+      fetchSeasonData()
+    }
+  }, [resolvedParams.id, seasonsLoaded, selectedSeasonId, seasons, teams, supabase])
 
   if (loading) {
     return (
@@ -89,52 +167,17 @@ export default function PlayerPage({ params }: PlayerPageProps) {
   }
 
 
-  // Calculate player stats
-  const playerMatches = matches
-  const wins = playerMatches.filter(match => {
-    return (match.player1_id === player.id && match.match_winner === 1) ||
-           (match.player2_id === player.id && match.match_winner === 2)
-  }).length
-
-  const losses = playerMatches.length - wins
-
-  let setsWon = 0
-  let setsLost = 0
-  let gamesWon = 0
-  let gamesLost = 0
-
-  playerMatches.forEach(match => {
-    const isPlayer1 = match.player1_id === player.id
-    
-    // Count set wins/losses
-    if ((isPlayer1 && match.set1_winner === 1) || (!isPlayer1 && match.set1_winner === 2)) {
-      setsWon++
-    } else {
-      setsLost++
-    }
-
-    if ((isPlayer1 && match.set2_winner === 1) || (!isPlayer1 && match.set2_winner === 2)) {
-      setsWon++
-    } else {
-      setsLost++
-    }
-
-    // Count games won/lost
-    if (isPlayer1) {
-      gamesWon += match.set1_p1_games + match.set2_p1_games
-      gamesLost += match.set1_p2_games + match.set2_p2_games
-    } else {
-      gamesWon += match.set1_p2_games + match.set2_p2_games
-      gamesLost += match.set1_p1_games + match.set2_p1_games
-    }
+  // A closed season is shown from its archive, without the live ladder sections
+  const viewingArchive = seasons.find(season => season.id === selectedSeasonId)?.status === 'closed'
 
-    // Note: Tiebreaker points are NOT counted as games
-    // They are separate from regular game counts
-  })
+  // Calculate player stats; walkovers, no-shows and defaults add no sets or games
+  const playerMatches = matches
+  const { wins, losses, setsWon, setsLost, gamesWon, gamesLost, tiebreaksWon, tiebreaksLost } = playerMatchStats(player.id, playerMatches)
+  const doublesStats = playerDoublesStats(player.id, teams, doublesMatches)
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Navigation user={user} isAdmin={isAdmin} />
+      <Navigation user={user} role={role} />
       <main className="container mx-auto px-4 py-8">
         <div className="mb-6">
           <Link 
@@ -147,10 +190,47 @@ export default function PlayerPage({ params }: PlayerPageProps) {
 
         <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
           <div className="flex items-center justify-between mb-4">
-            <h1 className="text-3xl font-bold text-gray-900">{player.name}</h1>
-            <div className="text-right">
-              <div className="text-2xl font-bold text-blue-600">#{player.current_rank}</div>
-              <div className="text-sm text-gray-500">Current Rank</div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                {player.name}
+                {player.status && player.status !== 'active' && (
+                  <span className={`ml-3 align-middle px-2 py-1 text-xs font-semibold rounded-full ${PLAYER_STATUS_LABELS[player.status].badge}`}>
+                    {PLAYER_STATUS_LABELS[player.status].name}
+                  </span>
+                )}
+              </h1>
+              {seasons.length > 0 && (
+                <select
+                  value={selectedSeasonId ?? ''}
+                  onChange={(e) => setSelectedSeasonId(e.target.value)}
+                  className="mt-2 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {seasons.map(season => (
+                    <option key={season.id} value={season.id}>
+                      {season.name}{season.status === 'active' ? ' (current)' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="flex space-x-8 text-right">
+              {player.rating != null && (
+                <div>
+                  <div className="text-2xl font-bold text-gray-900">{Math.round(player.rating)}</div>
+                  <div className="text-sm text-gray-500">Rating</div>
+                </div>
+              )}
+              {viewingArchive ? (
+                <div>
+                  <div className="text-2xl font-bold text-blue-600">{seasonStanding ? `#${seasonStanding.final_rank}` : '-'}</div>
+                  <div className="text-sm text-gray-500">Final Rank</div>
+                </div>
+              ) : (
+                <div>
+                  <div className="text-2xl font-bold text-blue-600">#{player.current_rank}</div>
+                  <div className="text-sm text-gray-500">Current Rank</div>
+                </div>
+              )}
             </div>
           </div>
           
@@ -175,7 +255,7 @@ export default function PlayerPage({ params }: PlayerPageProps) {
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4 mt-4">
+          <div className="grid grid-cols-3 gap-4 mt-4">
             <div className="text-center p-4 bg-gray-50 rounded-lg">
               <div className="text-xl font-bold text-gray-900">{setsWon}-{setsLost}</div>
               <div className="text-sm text-gray-500">Sets (W-L)</div>
@@ -184,12 +264,103 @@ export default function PlayerPage({ params }: PlayerPageProps) {
               <div className="text-xl font-bold text-gray-900">{gamesWon}-{gamesLost}</div>
               <div className="text-sm text-gray-500">Games (W-L)</div>
             </div>
+            <div className="text-center p-4 bg-gray-50 rounded-lg">
+              <div className="text-xl font-bold text-gray-900">{tiebreaksWon}-{tiebreaksLost}</div>
+              <div className="text-sm text-gray-500">Tiebreaks (W-L)</div>
+            </div>
+          </div>
+
+          {teams.length > 0 && (
+            <div className="mt-6">
+              <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Doubles</h2>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xl font-bold text-gray-900">{doublesStats.wins}-{doublesStats.losses}</div>
+                  <div className="text-sm text-gray-500">Matches (W-L)</div>
+                </div>
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xl font-bold text-gray-900">{doublesStats.setsWon}-{doublesStats.setsLost}</div>
+                  <div className="text-sm text-gray-500">Sets (W-L)</div>
+                </div>
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xl font-bold text-gray-900">{doublesStats.gamesWon}-{doublesStats.gamesLost}</div>
+                  <div className="text-sm text-gray-500">Games (W-L)</div>
+                </div>
+              </div>
+              <p className="mt-2 text-sm text-gray-600">
+                {teams.map(team => `${team.name} (#${team.current_rank})`).join(', ')}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {!viewingArchive && openChallenges.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Open Challenges</h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {openChallenges.map((challenge) => {
+                const isChallenger = challenge.challenger_id === player.id
+                const opponent = isChallenger ? challenge.challenged : challenge.challenger
+                const deadline = challengeDeadline(challenge)
+
+                return (
+                  <li key={challenge.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                    <span className="text-gray-900">
+                      {isChallenger ? 'Challenged ' : 'Challenged by '}
+                      <Link
+                        href={`/player/${opponent.id}`}
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        {opponent.name}
+                      </Link>
+                      <span className="ml-2 px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                        {challenge.status}
+                      </span>
+                    </span>
+                    <span className="ml-4 whitespace-nowrap text-gray-500">
+                      {challenge.scheduled_for
+                        ? `Scheduled ${new Date(challenge.scheduled_for).toLocaleString()}`
+                        : deadline && `${challenge.status === 'issued' ? 'Respond' : 'Play'} by ${new Date(deadline).toLocaleDateString()}`
+                      }
+                    </span>
+                  </li>
+                )
+              })}
+            </ul>
           </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Rating Trend</h2>
+          </div>
+          <RatingTrend history={ratingHistory} />
         </div>
 
+        {!viewingArchive && positionHistory.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Position History</h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {positionHistory.map((change) => (
+                <li key={change.event_id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <span className="text-gray-600">{change.reason}</span>
+                  <span className="ml-4 whitespace-nowrap">
+                    <span className="font-medium text-gray-900">#{change.rank}</span>
+                    <span className="ml-2 text-gray-500">{new Date(change.event_date).toLocaleDateString()}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="bg-white rounded-lg shadow-sm overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
-            <h2 className="text-lg font-semibold text-gray-900">Match History</h2>
+            <h2 className="text-lg font-semibold text-gray-900">{teams.length > 0 ? 'Singles Match History' : 'Match History'}</h2>
           </div>
           
           {playerMatches.length > 0 ? (
@@ -242,17 +413,12 @@ export default function PlayerPage({ params }: PlayerPageProps) {
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {isPlayer1 ? 
-                            `${match.set1_p1_games}-${match.set1_p2_games}, ${match.set2_p1_games}-${match.set2_p2_games}` :
-                            `${match.set1_p2_games}-${match.set1_p1_games}, ${match.set2_p2_games}-${match.set2_p1_games}`
-                          }
-                          {match.tiebreaker_winner && (
-                            <span className="ml-2 text-gray-500">
-                              (TB: {isPlayer1 ? 
-                                `${match.tiebreaker_p1_points}-${match.tiebreaker_p2_points}` :
-                                `${match.tiebreaker_p2_points}-${match.tiebreaker_p1_points}`
-                              })
+                          {isUnplayedResult(match) ? (
+                            <span className="text-gray-600">
+                              {MATCH_RESULT_LABELS[matchResultType(match)]} ({match.defaulted_player === 1 ? match.player1.name : match.player2.name})
                             </span>
+                          ) : (
+                            formatSets(match.sets, isPlayer1 ? 1 : 2)
                           )}
                           {match.has_retirement && match.retired_player && (
                             <span className="ml-2 text-red-600 text-xs font-medium">
@@ -272,6 +438,59 @@ export default function PlayerPage({ params }: PlayerPageProps) {
             </div>
           )}
         </div>
+
+        {teams.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden mt-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Doubles Match History</h2>
+            </div>
+
+            {doublesMatches.length > 0 ? (
+              <ul className="divide-y divide-gray-200">
+                {doublesMatches.map((match) => {
+                  const isTeam1 = teams.some(team => team.id === match.team1_id)
+                  const ownTeam = teams.find(team => team.id === (isTeam1 ? match.team1_id : match.team2_id))
+                  const partner = ownTeam && (ownTeam.player1_id === player.id ? ownTeam.player2 : ownTeam.player1)
+                  const opponents = isTeam1 ? match.team2 : match.team1
+                  const won = match.match_winner === (isTeam1 ? 1 : 2)
+
+                  return (
+                    <li key={match.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                      <span className="text-gray-900">
+                        <span className="text-gray-500 mr-3">{new Date(match.date_played).toLocaleDateString()}</span>
+                        {partner && (
+                          <>
+                            With{' '}
+                            <Link href={`/player/${partner.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                              {partner.name}
+                            </Link>{' '}
+                          </>
+                        )}
+                        vs {opponents?.name}
+                      </span>
+                      <span className="ml-4 whitespace-nowrap">
+                        <span className="text-gray-900 mr-3">
+                          {isUnplayedResult(match)
+                            ? `${MATCH_RESULT_LABELS[matchResultType(match)]} (${(match.defaulted_player === 1 ? match.team1 : match.team2)?.name})`
+                            : formatSets(match.sets, isTeam1 ? 1 : 2)}
+                        </span>
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                          won ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {won ? 'W' : 'L'}
+                        </span>
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+            ) : (
+              <div className="px-6 py-8 text-center text-gray-500">
+                No doubles matches played yet.
+              </div>
+            )}
+          </div>
+        )}
       </main>
     </div>
   )
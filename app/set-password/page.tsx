@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { PASSWORD_MIN_LENGTH } from '@/lib/auth/passwords'
+
+// Where admin invite and reset emails link to (see app/api/admin/set-password)
+export default function SetPasswordPage() {
+  const [token, setToken] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [done, setDone] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    const linkToken = new URLSearchParams(window.location.search).get('token')
+    if (linkToken) {
+      setToken(linkToken)
+    } else {
+      setMessage('Error: This link is incomplete. Please use the link from your email.')
+    }
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+
+    if (password !== confirmPassword) {
+      setMessage('Error: The passwords don\'t match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/set-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not set your password')
+      }
+
+      setDone(true)
+      setMessage('Your admin password is set. Sign in to use it.')
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inputClass = 'appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm'
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Set your admin password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            At least {PASSWORD_MIN_LENGTH} characters. Only you will know it.
+          </p>
+        </div>
+
+        {done ? (
+          <Link
+            href="/login"
+            className="block w-full text-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Go to sign in
+          </Link>
+        ) : (
+          <form className="mt-8 space-y-4" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="password" className="sr-only">
+                New password
+              </label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={PASSWORD_MIN_LENGTH}
+                className={inputClass}
+                placeholder="New password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm-password" className="sr-only">
+                Confirm password
+              </label>
+              <input
+                id="confirm-password"
+                name="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                className={inputClass}
+                placeholder="Type it again"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !token}
+              className="w-full py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Saving...' : 'Set Password'}
+            </button>
+          </form>
+        )}
+
+        {message && (
+          <div className={`text-center text-sm ${message.startsWith('Error') ? 'text-red-600' : 'text-green-600'}`}>
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import Link from 'next/link'
+import { TeamWithPlayers, Match } from '@/lib/types/database'
+import { playerMatchStats } from '@/lib/utils/results'
+
+interface DoublesLeaderboardProps {
+  teams: TeamWithPlayers[]
+  matches: Match[]  // This season's doubles matches
+}
+
+export default function DoublesLeaderboard({ teams, matches }: DoublesLeaderboardProps) {
+  const sortedTeams = [...teams].sort((a, b) => a.current_rank - b.current_rank)
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Doubles Ladder</h2>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Rank
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Team
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              W-L
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Sets W-L
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {sortedTeams.map(team => {
+            const stats = playerMatchStats(team.id, matches)
+            return (
+              <tr key={team.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  #{team.current_rank}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{team.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {[team.player1, team.player2].filter(Boolean).map((member, index) => (
+                      <span key={member.id}>
+                        {index > 0 && ' & '}
+                        <Link href={`/player/${member.id}`} className="text-blue-600 hover:text-blue-800">
+                          {member.name}
+                        </Link>
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {stats.wins}-{stats.losses}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {stats.setsWon}-{stats.setsLost}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { MatchWithPlayers } from '@/lib/types/database'
+import { MATCH_RESULT_LABELS, isUnplayedResult, matchResultType } from '@/lib/utils/results'
+import { formatSets } from '@/lib/utils/matchFormats'
 
 interface GameHistoryProps {
   matches: MatchWithPlayers[]
@@ -52,11 +54,12 @@ export default function GameHistory({ matches }: GameHistoryProps) {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   <div>
-                    {match.set1_p1_games}-{match.set1_p2_games}, {match.set2_p1_games}-{match.set2_p2_games}
-                    {match.tiebreaker_winner && (
-                      <span className="ml-2 text-gray-500">
-                        (TB: {match.tiebreaker_p1_points}-{match.tiebreaker_p2_points})
+                    {isUnplayedResult(match) ? (
+                      <span className="text-gray-600">
+                        {MATCH_RESULT_LABELS[matchResultType(match)]} ({match.defaulted_player === 1 ? match.player1.name : match.player2.name})
                       </span>
+                    ) : (
+                      formatSets(match.sets)
                     )}
                     {match.has_retirement && match.retired_player && (
                       <span className="ml-2 text-red-600 text-xs font-medium">
@@ -1,20 +1,116 @@
 'use client'
 
-import { Player, MatchWithPlayers } from '@/lib/types/database'
+import { useState } from 'react'
+import { Player, MatchWithPlayers, RankingEvent, Ladder } from '@/lib/types/database'
 import Link from 'next/link'
+import { playerMatchStats } from '@/lib/utils/results'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { PLAYER_STATUS_LABELS } from '@/lib/utils/playerStatus'
 
 interface LeaderboardProps {
-  players: Player[]
+  players: Player[]  // Players on every ladder; the selected ladder's are shown
   matches?: MatchWithPlayers[]
+  ladders?: Ladder[]
 }
 
-export default function Leaderboard({ players, matches }: LeaderboardProps) {
-  // Players should already be sorted by current_rank
-  const sortedPlayers = [...players]
+// Shape returned by /api/standings
+interface StandingsSnapshot {
+  standings: { id: string; name: string; current_rank: number }[]
+  events: { id: string; event_type: RankingEvent['event_type']; event_date: string; match_id: string | null; reason: string }[]
+}
+
+export default function Leaderboard({ players: allPlayers, matches: matchesOnAllLadders, ladders = [] }: LeaderboardProps) {
+  const [ladderId, setLadderId] = useState(ladders[0]?.id ?? '')
+  const [asOfDate, setAsOfDate] = useState('')
+  const [asOfEventId, setAsOfEventId] = useState('')
+  const [snapshot, setSnapshot] = useState<StandingsSnapshot | null>(null)
+  // Events on the chosen day, so the view can be narrowed to a single event
+  const [dayEvents, setDayEvents] = useState<StandingsSnapshot['events']>([])
+  const [snapshotLoading, setSnapshotLoading] = useState(false)
+  const [snapshotError, setSnapshotError] = useState('')
+
+  const fetchSnapshot = async (params: { date?: string; eventId?: string }) => {
+    setSnapshotLoading(true)
+    setSnapshotError('')
+    try {
+      const query = new URLSearchParams({ ...params, ...(ladderId ? { ladder: ladderId } : {}) } as Record<string, string>)
+      const response = await fetch(`/api/standings?${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load standings')
+      }
+      return data as StandingsSnapshot
+    } catch (error: unknown) {
+      setSnapshotError(error instanceof Error ? error.message : 'Failed to load standings')
+      return null
+    } finally {
+      setSnapshotLoading(false)
+    }
+  }
+
+  const handleShowDate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!asOfDate) return
+
+    // The whole of the chosen day, in local time
+    const endOfDay = new Date(`${asOfDate}T23:59:59.999`)
+    const result = await fetchSnapshot({ date: endOfDay.toISOString() })
+    if (result) {
+      setSnapshot(result)
+      setAsOfEventId('')
+      setDayEvents(result.events.filter(event =>
+        new Date(event.event_date).toDateString() === endOfDay.toDateString()
+      ))
+    }
+  }
+
+  const handleSelectEvent = async (eventId: string) => {
+    setAsOfEventId(eventId)
+    const endOfDay = new Date(`${asOfDate}T23:59:59.999`)
+    const result = await fetchSnapshot(eventId ? { eventId } : { date: endOfDay.toISOString() })
+    if (result) {
+      setSnapshot(result)
+    }
+  }
+
+  const handleShowCurrent = () => {
+    setSnapshot(null)
+    setAsOfDate('')
+    setAsOfEventId('')
+    setDayEvents([])
+    setSnapshotError('')
+  }
+
+  // Each ladder has its own standings, so a snapshot doesn't carry across
+  const handleSelectLadder = (id: string) => {
+    setLadderId(id)
+    handleShowCurrent()
+  }
+
+  // Removed players are off the ladder; withdrawn ones are still listed below it
+  const players = playersOnLadder(allPlayers, ladderId).filter(player => player.on_ladder !== false)
+  const allMatches = ladderId && matchesOnAllLadders
+    ? matchesOnAllLadders.filter(match => match.ladder_id === ladderId)
+    : matchesOnAllLadders
+
+  // Players should already be sorted by current_rank; a snapshot reorders them
+  // and limits the stats to matches played by then. Withdrawn players have left
+  // the ladder and are listed after it.
+  const isWithdrawn = (player: Player) => player.status === 'withdrawn'
+  const playersById = new Map(players.map(player => [player.id, player]))
+  const sortedPlayers = snapshot
+    ? snapshot.standings
+        .filter(entry => playersById.has(entry.id))
+        .map(entry => ({ ...playersById.get(entry.id)!, current_rank: entry.current_rank }))
+    : [...players.filter(player => !isWithdrawn(player)), ...players.filter(isWithdrawn)]
+  const snapshotMatchIds = snapshot ? new Set(snapshot.events.map(event => event.match_id)) : null
+  const matches = allMatches && snapshotMatchIds
+    ? allMatches.filter(match => snapshotMatchIds.has(match.id))
+    : allMatches
   
   // Debug: Check for duplicate ranks
   const rankCounts: { [key: number]: number } = {}
-  sortedPlayers.forEach(player => {
+  sortedPlayers.filter(player => snapshot || !isWithdrawn(player)).forEach(player => {
     rankCounts[player.current_rank] = (rankCounts[player.current_rank] || 0) + 1
   })
   
@@ -38,53 +134,82 @@ export default function Leaderboard({ players, matches }: LeaderboardProps) {
       }
     }
 
-    const playerMatches = matches.filter(
-      match => match.player1_id === player.id || match.player2_id === player.id
-    )
-
-    const wins = playerMatches.filter(match => {
-      return (match.player1_id === player.id && match.match_winner === 1) ||
-             (match.player2_id === player.id && match.match_winner === 2)
-    }).length
-
-    const losses = playerMatches.length - wins
-
-    // Calculate sets won/lost
-    let setsWon = 0
-    let setsLost = 0
-
-    playerMatches.forEach(match => {
-      const isPlayer1 = match.player1_id === player.id
-
-      // Count set wins
-      if ((isPlayer1 && match.set1_winner === 1) || (!isPlayer1 && match.set1_winner === 2)) {
-        setsWon++
-      } else {
-        setsLost++
-      }
-
-      if ((isPlayer1 && match.set2_winner === 1) || (!isPlayer1 && match.set2_winner === 2)) {
-        setsWon++
-      } else {
-        setsLost++
-      }
-    })
+    // Walkovers, no-shows and defaults count as wins and losses but not sets
+    const stats = playerMatchStats(player.id, matches)
 
     return {
       player,
-      totalMatches: playerMatches.length,
-      wins,
-      losses,
-      setsWon,
-      setsLost,
-      winPercentage: playerMatches.length > 0 ? (wins / playerMatches.length) * 100 : 0
+      ...stats,
+      winPercentage: stats.totalMatches > 0 ? (stats.wins / stats.totalMatches) * 100 : 0
     }
   })
 
   return (
     <div className="bg-white rounded-lg shadow-sm overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-900">Current Standings</h2>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {snapshot ? `Standings as of ${new Date(`${asOfDate}T00:00:00`).toLocaleDateString()}` : 'Current Standings'}
+              </h2>
+              {ladders.length > 1 && (
+                <select
+                  value={ladderId}
+                  onChange={(e) => handleSelectLadder(e.target.value)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {ladders.map(ladder => (
+                    <option key={ladder.id} value={ladder.id}>{ladder.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <form onSubmit={handleShowDate} className="flex items-center gap-2">
+              <input
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!asOfDate || snapshotLoading}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {snapshotLoading ? 'Loading...' : 'Show'}
+              </button>
+              {snapshot && (
+                <button
+                  type="button"
+                  onClick={handleShowCurrent}
+                  className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Current
+                </button>
+              )}
+            </form>
+          </div>
+          {snapshot && dayEvents.length > 0 && (
+            <div className="mt-3 flex items-center gap-2">
+              <label className="text-sm text-gray-600">Through:</label>
+              <select
+                value={asOfEventId}
+                onChange={(e) => handleSelectEvent(e.target.value)}
+                disabled={snapshotLoading}
+                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                <option value="">End of day</option>
+                {dayEvents.map(event => (
+                  <option key={event.id} value={event.id}>
+                    {new Date(event.event_date).toLocaleTimeString()} - {event.reason}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {snapshotError && (
+            <p className="text-sm text-red-600 mt-2">{snapshotError}</p>
+          )}
           {!matches && (
             <p className="text-sm text-gray-600 mt-1">
               Match statistics will appear here once games are played
@@ -102,6 +227,9 @@ export default function Leaderboard({ players, matches }: LeaderboardProps) {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Player
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Rating
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Matches
               </th>
@@ -120,7 +248,7 @@ export default function Leaderboard({ players, matches }: LeaderboardProps) {
             {playerStats.map((stats) => (
               <tr key={stats.player.id} className="hover:bg-gray-50">
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  #{stats.player.current_rank}
+                  {!snapshot && isWithdrawn(stats.player) ? '–' : `#${stats.player.current_rank}`}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <Link 
@@ -129,6 +257,17 @@ export default function Leaderboard({ players, matches }: LeaderboardProps) {
                   >
                     {stats.player.name}
                   </Link>
+                  {stats.player.status && stats.player.status !== 'active' && (
+                    <span className={`ml-2 px-2 py-0.5 text-xs font-semibold rounded-full ${PLAYER_STATUS_LABELS[stats.player.status].badge}`}>
+                      {PLAYER_STATUS_LABELS[stats.player.status].name}
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {stats.player.rating != null ? Math.round(stats.player.rating) : '-'}
+                  {stats.player.rating_deviation != null && (
+                    <span className="ml-1 text-xs text-gray-500">±{Math.round(stats.player.rating_deviation)}</span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   {stats.totalMatches}
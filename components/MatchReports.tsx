@@ -0,0 +1,325 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Player, Ladder, MatchReportWithPlayers, MatchResultType } from '@/lib/types/database'
+import { apiRequest } from '@/lib/auth/adminApi'
+import { MATCH_RESULT_LABELS, isUnplayedResult } from '@/lib/utils/results'
+import { MATCH_FORMATS, MatchFormatId, DEFAULT_MATCH_FORMAT, getMatchFormat, playedSets } from '@/lib/utils/matchFormats'
+import { ScoreErrors, hasScoreErrors, validateMatchScore } from '@/lib/utils/scoreValidation'
+import { REPORT_STATUS_LABELS, describeMatchReport } from '@/lib/utils/matchReports'
+import { isOnLadder } from '@/lib/utils/roster'
+import SetScoresInput, { emptySets } from '@/components/admin/SetScoresInput'
+
+interface MatchReportsProps {
+  players: Player[]
+  ladders: Ladder[]
+  onResultRecorded?: () => void  // A confirmed report changed the ladder
+}
+
+const STATUS_STYLES: Record<MatchReportWithPlayers['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  disputed: 'bg-red-100 text-red-800',
+  held: 'bg-orange-100 text-orange-800',
+  confirmed: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-800',
+  withdrawn: 'bg-gray-100 text-gray-800',
+}
+
+// Players report their own results here, and confirm or dispute the ones
+// their opponents reported. Shows nothing to anyone who isn't a player.
+export default function MatchReports({ players, ladders, onResultRecorded }: MatchReportsProps) {
+  const [me, setMe] = useState<Player | null>(null)
+  const [reports, setReports] = useState<MatchReportWithPlayers[]>([])
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [scoreErrors, setScoreErrors] = useState<ScoreErrors>({})
+
+  const ladder = ladders.find(candidate => candidate.id === me?.ladder_id) ?? ladders[0] ?? null
+  const opponents = players
+    .filter(player => me && player.id !== me.id && player.ladder_id === me.ladder_id && isOnLadder(player))
+    .sort((a, b) => a.current_rank - b.current_rank)
+
+  const emptyForm = (formatId: MatchFormatId) => ({
+    player2_id: '',
+    date_played: new Date().toISOString().split('T')[0],
+    format_id: formatId,
+    sets: emptySets(getMatchFormat(formatId)),
+    result_type: 'completed' as MatchResultType,
+    retired_player: null as 1 | 2 | null,
+    defaulted_player: null as 1 | 2 | null,
+  })
+  const [formData, setFormData] = useState(emptyForm(DEFAULT_MATCH_FORMAT))
+  const format = getMatchFormat(formData.format_id)
+  const opponentName = opponents.find(player => player.id === formData.player2_id)?.name ?? 'Your opponent'
+
+  const loadReports = useCallback(async () => {
+    try {
+      const data = await apiRequest<{ player: Player, reports: MatchReportWithPlayers[] }>('reports', 'GET')
+      setMe(data.player)
+      setReports(data.reports)
+    } catch {
+      // Not a player: there is nothing to show
+      setMe(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  useEffect(() => {
+    if (ladder?.match_format) {
+      setFormData(current => ({ ...current, format_id: ladder.match_format!, sets: emptySets(getMatchFormat(ladder.match_format)) }))
+    }
+  }, [ladder?.match_format])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage('')
+
+    try {
+      const unplayed = isUnplayedResult({ result_type: formData.result_type })
+      const retired = formData.result_type === 'retired'
+      const report = {
+        player2_id: formData.player2_id,
+        date_played: formData.date_played,
+        format_id: format.id,
+        sets: unplayed ? [] : playedSets(format, formData.sets),
+        result_type: formData.result_type,
+        has_retirement: retired,
+        retired_player: retired ? formData.retired_player : null,
+        defaulted_player: unplayed ? formData.defaulted_player : null,
+      }
+
+      // Show score problems beside the fields they belong to
+      const errors = validateMatchScore(report)
+      setScoreErrors(errors)
+      if (hasScoreErrors(errors)) {
+        throw new Error('Please correct the score')
+      }
+
+      await apiRequest('reports', 'POST', { report })
+
+      setMessage(`Result reported! It counts once ${opponentName} confirms it.`)
+      setFormData(emptyForm(formData.format_id))
+      setScoreErrors({})
+      await loadReports()
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAction = async (report: MatchReportWithPlayers, type: 'confirm' | 'dispute' | 'withdraw') => {
+    let reason: string | null = null
+    if (type === 'dispute') {
+      reason = prompt('What is wrong with this result? Staff will see your answer.')
+      if (!reason?.trim()) return
+    } else if (type === 'withdraw' && !confirm('Withdraw this result?')) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+    try {
+      const { report: updated } = await apiRequest<{ report: MatchReportWithPlayers }>(
+        `reports/${report.id}`, 'PATCH', { action: { type, ...(reason ? { reason } : {}) } }
+      )
+
+      setMessage(
+        updated.status === 'confirmed' ? 'Result confirmed and added to the ladder!'
+        : updated.status === 'held' ? 'Result confirmed. Staff need to check it before it counts.'
+        : updated.status === 'disputed' ? 'Result disputed. Staff will sort it out.'
+        : 'Result withdrawn.'
+      )
+      await loadReports()
+      if (updated.status === 'confirmed' && onResultRecorded) {
+        onResultRecorded()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!me || !isOnLadder(me)) {
+    return null
+  }
+
+  const awaitingMe = reports.filter(report => report.status === 'pending' && report.player2_id === me.id)
+  const others = reports.filter(report => !awaitingMe.includes(report))
+  const unplayedResult = isUnplayedResult({ result_type: formData.result_type })
+  const sideOptions = [
+    { value: 1, label: `Me (${me.name})` },
+    { value: 2, label: opponentName },
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900">My Results</h2>
+
+      {message && (
+        <div className={`p-3 rounded-md text-sm ${message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {message}
+        </div>
+      )}
+
+      {awaitingMe.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-900">Waiting for you to confirm</h3>
+          {awaitingMe.map(report => (
+            <div key={report.id} className="p-3 border border-yellow-200 bg-yellow-50 rounded-md flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div className="text-sm">
+                <div className="font-medium text-gray-900">{describeMatchReport(report)}</div>
+                <div className="text-gray-600">
+                  Reported by {report.player1.name}, played {new Date(report.date_played).toLocaleDateString()}
+                  {report.confirm_by && <>. Counts automatically from {new Date(report.confirm_by).toLocaleString()}</>}
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleAction(report, 'confirm')}
+                  disabled={loading}
+                  className="bg-green-600 text-white py-1 px-3 text-sm rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  Confirm
+                </button>
+                <button
+                  onClick={() => handleAction(report, 'dispute')}
+                  disabled={loading}
+                  className="bg-white border border-red-300 text-red-700 py-1 px-3 text-sm rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  Dispute
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <h3 className="text-sm font-medium text-gray-900">Report a result</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            value={formData.player2_id}
+            onChange={(e) => setFormData({ ...formData, player2_id: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Opponent"
+            required
+          >
+            <option value="">Select your opponent</option>
+            {opponents.map(player => (
+              <option key={player.id} value={player.id}>{player.name} (#{player.current_rank})</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={formData.date_played}
+            onChange={(e) => setFormData({ ...formData, date_played: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Date played"
+            required
+          />
+          <select
+            value={formData.format_id}
+            onChange={(e) => setFormData({ ...formData, format_id: e.target.value as MatchFormatId, sets: emptySets(getMatchFormat(e.target.value)) })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Format"
+          >
+            {Object.values(MATCH_FORMATS).map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <select
+            value={formData.result_type}
+            onChange={(e) => setFormData({ ...formData, result_type: e.target.value as MatchResultType, retired_player: null, defaulted_player: null })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Result"
+          >
+            {(Object.keys(MATCH_RESULT_LABELS) as MatchResultType[]).map(type => (
+              <option key={type} value={type}>{MATCH_RESULT_LABELS[type]}</option>
+            ))}
+          </select>
+          {(formData.result_type === 'retired' || unplayedResult) && (
+            <select
+              value={(formData.result_type === 'retired' ? formData.retired_player : formData.defaulted_player) || ''}
+              onChange={(e) => {
+                const side = e.target.value ? parseInt(e.target.value) as 1 | 2 : null
+                setFormData(formData.result_type === 'retired'
+                  ? { ...formData, retired_player: side }
+                  : { ...formData, defaulted_player: side })
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={formData.result_type === 'retired' ? 'Who retired' : 'Who the result is against'}
+              required
+            >
+              <option value="">{formData.result_type === 'retired' ? 'Who retired?' : 'Who is it against?'}</option>
+              {sideOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        {scoreErrors.result && (
+          <p className="text-sm text-red-600">{scoreErrors.result}</p>
+        )}
+
+        {!unplayedResult && (
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Your games first, then your opponent&apos;s.</p>
+            <SetScoresInput
+              format={format}
+              sets={formData.sets}
+              onChange={(sets) => setFormData({ ...formData, sets })}
+              errors={scoreErrors}
+            />
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Sending...' : 'Report Result'}
+        </button>
+      </form>
+
+      {others.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">Recent reports</h3>
+          <ul className="divide-y divide-gray-200">
+            {others.map(report => (
+              <li key={report.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                <div>
+                  <div className="text-gray-900">{describeMatchReport(report)}</div>
+                  {report.note && <div className="text-gray-600">{report.note}</div>}
+                </div>
+                <div className="flex items-center space-x-3 whitespace-nowrap">
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[report.status]}`}>
+                    {REPORT_STATUS_LABELS[report.status]}
+                  </span>
+                  {report.status === 'pending' && report.player1_id === me.id && (
+                    <button
+                      onClick={() => handleAction(report, 'withdraw')}
+                      disabled={loading}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,20 +3,24 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { signOut } from '@/lib/auth/client'
+import { ROLE_LABELS, Role, can, isStaffRole } from '@/lib/auth/roles'
 
 interface NavigationProps {
   user: { email: string }
-  isAdmin: boolean
+  role: Role
 }
 
-export default function Navigation({ user, isAdmin }: NavigationProps) {
+export default function Navigation({ user, role }: NavigationProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const router = useRouter()
 
-  const handleSignOut = () => {
-    localStorage.removeItem('scrappers_user_email')
-    localStorage.removeItem('scrappers_is_admin')
-    router.push('/login')
+  const handleSignOut = async () => {
+    try {
+      await signOut()
+    } finally {
+      router.push('/login')
+    }
   }
 
   const toggleMobileMenu = () => {
@@ -56,7 +60,7 @@ export default function Navigation({ user, isAdmin }: NavigationProps) {
                 Contact Info
               </Link>
               
-              {isAdmin && (
+              {isStaffRole(role) && (
                 <>
                   <Link
                     href="/admin"
@@ -64,12 +68,14 @@ export default function Navigation({ user, isAdmin }: NavigationProps) {
                   >
                     Admin Panel
                   </Link>
-                  <Link
-                    href="/admin/players"
-                    className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
-                  >
-                    Manage Players
-                  </Link>
+                  {can(role, 'manage_players') && (
+                    <Link
+                      href="/admin/players"
+                      className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Manage Players
+                    </Link>
+                  )}
                 </>
               )}
             </div>
@@ -80,7 +86,7 @@ export default function Navigation({ user, isAdmin }: NavigationProps) {
             <div className="hidden md:flex items-center space-x-4">
               <span className="text-sm text-gray-600">
                 {user.email}
-                {isAdmin && <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">Admin</span>}
+                {isStaffRole(role) && <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">{ROLE_LABELS[role]}</span>}
               </span>
               <button
                 onClick={handleSignOut}
@@ -137,7 +143,7 @@ export default function Navigation({ user, isAdmin }: NavigationProps) {
                 Contact Info
               </Link>
               
-              {isAdmin && (
+              {isStaffRole(role) && (
                 <>
                   <Link
                     href="/admin"
@@ -146,13 +152,15 @@ export default function Navigation({ user, isAdmin }: NavigationProps) {
                   >
                     Admin Panel
                   </Link>
-                  <Link
-                    href="/admin/players"
-                    onClick={closeMobileMenu}
-                    className="text-gray-600 hover:text-gray-900 hover:bg-gray-50 block px-3 py-2 rounded-md text-base font-medium"
-                  >
-                    Manage Players
-                  </Link>
+                  {can(role, 'manage_players') && (
+                    <Link
+                      href="/admin/players"
+                      onClick={closeMobileMenu}
+                      className="text-gray-600 hover:text-gray-900 hover:bg-gray-50 block px-3 py-2 rounded-md text-base font-medium"
+                    >
+                      Manage Players
+                    </Link>
+                  )}
                 </>
               )}
               
@@ -161,7 +169,7 @@ export default function Navigation({ user, isAdmin }: NavigationProps) {
                 <div className="px-3 py-2">
                   <div className="text-sm text-gray-600 mb-2">
                     {user.email}
-                    {isAdmin && <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">Admin</span>}
+                    {isStaffRole(role) && <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">{ROLE_LABELS[role]}</span>}
                   </div>
                   <button
                     onClick={() => {
@@ -0,0 +1,58 @@
+'use client'
+
+import { RatingHistoryEntry } from '@/lib/types/database'
+
+interface RatingTrendProps {
+  history: RatingHistoryEntry[]
+}
+
+const WIDTH = 600
+const HEIGHT = 120
+const PADDING = 8
+
+// Sparkline of a player's rating after each match, oldest on the left
+export default function RatingTrend({ history }: RatingTrendProps) {
+  if (history.length === 0) {
+    return (
+      <div className="px-6 py-8 text-center text-gray-500">
+        No rated matches yet.
+      </div>
+    )
+  }
+
+  const values = [history[0].rating_before, ...history.map(entry => entry.rating_after)]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const range = max - min || 1
+
+  const points = values.map((value, index) => {
+    const x = PADDING + (index / Math.max(values.length - 1, 1)) * (WIDTH - 2 * PADDING)
+    const y = PADDING + (1 - (value - min) / range) * (HEIGHT - 2 * PADDING)
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+
+  const latest = history[history.length - 1]
+  const change = latest.rating_after - history[0].rating_before
+
+  return (
+    <div className="px-6 py-4">
+      <div className="flex items-baseline justify-between mb-2 text-sm">
+        <span className="text-gray-500">
+          {Math.round(min)} – {Math.round(max)} over {history.length} match{history.length === 1 ? '' : 'es'}
+        </span>
+        <span className={change >= 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+          {change >= 0 ? '+' : ''}{Math.round(change)}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          stroke="#2563eb"
+          strokeWidth="2"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  )
+}
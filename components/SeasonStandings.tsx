@@ -0,0 +1,69 @@
+'use client'
+
+import { SeasonStandingWithPlayer } from '@/lib/types/database'
+import Link from 'next/link'
+
+interface SeasonStandingsProps {
+  standings: SeasonStandingWithPlayer[]
+}
+
+// Final ladder of a closed season, as archived when it closed
+export default function SeasonStandings({ standings }: SeasonStandingsProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Final Standings</h2>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Final Rank
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Player
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Started
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Rating
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {standings.map((standing) => (
+              <tr key={standing.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  #{standing.final_rank}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <Link
+                    href={`/player/${standing.player_id}`}
+                    className="text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    {standing.player.name}
+                  </Link>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  #{standing.initial_rank}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {standing.rating != null ? Math.round(standing.rating) : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {standings.length === 0 && (
+        <div className="px-6 py-8 text-center text-gray-500">
+          No standings were archived for this season.
+        </div>
+      )}
+    </div>
+  )
+}
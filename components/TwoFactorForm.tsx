@@ -0,0 +1,172 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface TwoFactorFormProps {
+  mode: 'totp' | 'enroll'  // Enter a code, or set up an authenticator first
+  email: string
+  onSignedIn: () => void
+  onBack: () => void
+}
+
+interface Enrollment {
+  secret: string
+  otpauth_url: string
+  qr_code: string  // Data URL
+}
+
+const inputClass = 'appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm'
+
+// The admin sign-in steps after the password
+export default function TwoFactorForm({ mode, email, onSignedIn, onBack }: TwoFactorFormProps) {
+  const [code, setCode] = useState('')
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (mode !== 'enroll') return
+
+    const startEnrollment = async () => {
+      try {
+        const response = await fetch('/api/admin/two-factor/enroll', { method: 'POST' })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Could not start authenticator setup')
+        }
+        setEnrollment(data)
+      } catch (error: unknown) {
+        setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+      }
+    }
+
+    startEnrollment()
+  }, [mode])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage('')
+
+    try {
+      const response = await fetch(mode === 'enroll' ? '/api/admin/two-factor/confirm' : '/api/admin/two-factor/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Invalid code')
+      }
+
+      if (mode === 'enroll') {
+        // Signed in; show the recovery codes once before moving on
+        setRecoveryCodes(data.recoveryCodes)
+      } else {
+        onSignedIn()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="mt-8 space-y-6">
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-800 mb-3">
+            <strong>Save these recovery codes.</strong> Each one signs you in once if you lose your phone.
+            They won&apos;t be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          type="button"
+          onClick={onSignedIn}
+          className="w-full py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          I&apos;ve saved them - continue
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+      <div className="p-3 bg-blue-50 rounded-md">
+        <p className="text-sm text-blue-800">
+          <strong>Admin Email:</strong> {email}
+        </p>
+      </div>
+
+      {mode === 'enroll' && (
+        <div className="space-y-3 text-sm text-gray-700">
+          <p>Admins need an authenticator app. Scan this code with one (Google Authenticator, 1Password, Authy...), then enter the 6-digit code it shows.</p>
+          {enrollment ? (
+            <>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={enrollment.qr_code} alt="Authenticator QR code" className="mx-auto w-48 h-48" />
+              <p className="text-center">
+                Or enter this key: <code className="font-mono break-all">{enrollment.secret}</code>
+              </p>
+            </>
+          ) : (
+            <p className="text-center text-gray-500">Loading...</p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="code" className="sr-only">
+          Authenticator code
+        </label>
+        <input
+          id="code"
+          name="code"
+          type="text"
+          inputMode={mode === 'enroll' ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          required
+          className={inputClass}
+          placeholder={mode === 'enroll' ? '6-digit code' : '6-digit code or recovery code'}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+        />
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={loading}
+          className="flex-1 py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={loading || (mode === 'enroll' && !enrollment)}
+          className="flex-1 py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Verifying...' : 'Sign In'}
+        </button>
+      </div>
+
+      {message && (
+        <div className={`text-center text-sm ${message.startsWith('Error') ? 'text-red-600' : 'text-green-600'}`}>
+          {message}
+        </div>
+      )}
+    </form>
+  )
+}
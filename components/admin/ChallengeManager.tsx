@@ -0,0 +1,336 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Player, ChallengeWithPlayers, ChallengeStatus } from '@/lib/types/database'
+import { ChallengeAction, CHALLENGE_RESPONSE_DAYS, challengeDeadline, isChallengeOpen } from '@/lib/utils/challenges'
+import { fetchChallenges } from '@/lib/supabase/challenges'
+import { adminRequest } from '@/lib/auth/adminApi'
+
+interface ChallengeManagerProps {
+  players: Player[]
+  onChallengesUpdated?: () => void
+}
+
+const STATUS_STYLES: Record<ChallengeStatus, string> = {
+  issued: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  scheduled: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  expired: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+export default function ChallengeManager({ players, onChallengesUpdated }: ChallengeManagerProps) {
+  const [challenges, setChallenges] = useState<ChallengeWithPlayers[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState('')
+  const [showClosed, setShowClosed] = useState(false)
+  const [schedulingId, setSchedulingId] = useState<string | null>(null)
+  const [scheduledFor, setScheduledFor] = useState('')
+  const [newChallenge, setNewChallenge] = useState({
+    challenger_id: '',
+    challenged_id: '',
+    response_days: CHALLENGE_RESPONSE_DAYS
+  })
+  const supabase = useMemo(() => createClient(), [])
+
+  const sortedPlayers = [...players].sort((a, b) => a.current_rank - b.current_rank)
+
+  const loadChallenges = useCallback(async () => {
+    try {
+      setLoading(true)
+
+      // Deadlines may have passed since the scheduled job last ran
+      const { expired } = await adminRequest<{ expired: number }>('challenges/expire', 'POST')
+      if (expired > 0) {
+        setMessage(`${expired} overdue challenge${expired === 1 ? '' : 's'} expired and recorded as forfeits.`)
+        if (onChallengesUpdated) {
+          onChallengesUpdated()
+        }
+      }
+
+      setChallenges(await fetchChallenges(supabase))
+    } catch (error) {
+      console.error('Error loading challenges:', error)
+      setMessage('Error loading challenges')
+    } finally {
+      setLoading(false)
+    }
+  }, [supabase, onChallengesUpdated])
+
+  useEffect(() => {
+    loadChallenges()
+  }, [loadChallenges])
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+
+    try {
+      if (!newChallenge.challenger_id || !newChallenge.challenged_id) {
+        throw new Error('Please select both players')
+      }
+
+      await adminRequest('challenges', 'POST', newChallenge)
+      setMessage('Challenge issued!')
+      setNewChallenge({ challenger_id: '', challenged_id: '', response_days: CHALLENGE_RESPONSE_DAYS })
+      setChallenges(await fetchChallenges(supabase))
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    }
+  }
+
+  const handleAction = async (challenge: ChallengeWithPlayers, action: ChallengeAction) => {
+    if (action.type === 'decline' && !confirm(`Decline this challenge? ${challenge.challenged.name} will forfeit to ${challenge.challenger.name}.`)) {
+      return
+    }
+    if (action.type === 'expire' && !confirm(`Expire this challenge now? ${challenge.challenged.name} will forfeit to ${challenge.challenger.name}.`)) {
+      return
+    }
+
+    setMessage('')
+    try {
+      await adminRequest(`challenges/${challenge.id}`, 'PATCH', { action })
+      setMessage(
+        action.type === 'decline' || action.type === 'expire'
+          ? 'Challenge closed and recorded as a forfeit. Rankings have been updated.'
+          : 'Challenge updated!'
+      )
+      setSchedulingId(null)
+      setScheduledFor('')
+      setChallenges(await fetchChallenges(supabase))
+
+      if (onChallengesUpdated) {
+        onChallengesUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    }
+  }
+
+  const formatDate = (dateString?: string | null) => {
+    return dateString ? new Date(dateString).toLocaleString() : '-'
+  }
+
+  const visibleChallenges = showClosed ? challenges : challenges.filter(isChallengeOpen)
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div className={`p-4 rounded-md ${
+          message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      {/* Issue Challenge */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Issue Challenge</h2>
+        <form onSubmit={handleIssue} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Challenger</label>
+            <select
+              value={newChallenge.challenger_id}
+              onChange={(e) => setNewChallenge({ ...newChallenge, challenger_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            >
+              <option value="">Select Player</option>
+              {sortedPlayers.map((player) => (
+                <option key={player.id} value={player.id}>
+                  {player.name} (#{player.current_rank})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Challenged</label>
+            <select
+              value={newChallenge.challenged_id}
+              onChange={(e) => setNewChallenge({ ...newChallenge, challenged_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            >
+              <option value="">Select Player</option>
+              {sortedPlayers.map((player) => (
+                <option key={player.id} value={player.id}>
+                  {player.name} (#{player.current_rank})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Days to Respond</label>
+            <input
+              type="number"
+              min="1"
+              value={newChallenge.response_days}
+              onChange={(e) => setNewChallenge({ ...newChallenge, response_days: parseInt(e.target.value) || CHALLENGE_RESPONSE_DAYS })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Issue Challenge
+          </button>
+        </form>
+      </div>
+
+      {/* Challenges */}
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Challenges</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Declined and expired challenges are recorded as forfeits by the challenged player.
+            </p>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Show closed</span>
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading challenges...</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Players
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deadline
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Scheduled
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleChallenges.map((challenge) => (
+                  <tr key={challenge.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <span className="font-medium">{challenge.challenger.name}</span>
+                      <span className="text-gray-500"> challenged </span>
+                      <span className="font-medium">{challenge.challenged.name}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[challenge.status]}`}>
+                        {challenge.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(challengeDeadline(challenge))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {schedulingId === challenge.id ? (
+                        <input
+                          type="datetime-local"
+                          value={scheduledFor}
+                          onChange={(e) => setScheduledFor(e.target.value)}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      ) : (
+                        formatDate(challenge.scheduled_for)
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="flex space-x-2">
+                        {challenge.status === 'issued' && (
+                          <>
+                            <button
+                              onClick={() => handleAction(challenge, { type: 'accept' })}
+                              className="text-green-600 hover:text-green-800"
+                            >
+                              Accept
+                            </button>
+                            <button
+                              onClick={() => handleAction(challenge, { type: 'decline' })}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Decline
+                            </button>
+                          </>
+                        )}
+                        {(challenge.status === 'accepted' || challenge.status === 'scheduled') && (
+                          schedulingId === challenge.id ? (
+                            <>
+                              <button
+                                onClick={() => scheduledFor && handleAction(challenge, { type: 'schedule', scheduledFor: new Date(scheduledFor).toISOString() })}
+                                className="text-green-600 hover:text-green-800"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => setSchedulingId(null)}
+                                className="text-gray-600 hover:text-gray-800"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => setSchedulingId(challenge.id)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Schedule
+                            </button>
+                          )
+                        )}
+                        {isChallengeOpen(challenge) && schedulingId !== challenge.id && (
+                          <>
+                            <button
+                              onClick={() => handleAction(challenge, { type: 'expire' })}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Expire
+                            </button>
+                            <button
+                              onClick={() => handleAction(challenge, { type: 'cancel' })}
+                              className="text-gray-600 hover:text-gray-800"
+                            >
+                              Withdraw
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {visibleChallenges.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                      No {showClosed ? '' : 'open '}challenges.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
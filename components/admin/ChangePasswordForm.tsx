@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { PASSWORD_MIN_LENGTH } from '@/lib/auth/passwords'
+
+// Lets the signed-in admin change their own password
+export default function ChangePasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+
+    if (newPassword !== confirmPassword) {
+      setMessage('Error: The new passwords don\'t match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      await adminRequest('password', 'POST', { currentPassword, newPassword })
+
+      setMessage('Password changed successfully!')
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Change Password</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Your admin password is yours alone. New passwords need at least {PASSWORD_MIN_LENGTH} characters.
+      </p>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-md ${message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="current-password" className="block text-sm font-medium text-gray-700 mb-1">
+            Current Password
+          </label>
+          <input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">
+            New Password
+          </label>
+          <input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            required
+            minLength={PASSWORD_MIN_LENGTH}
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-1">
+            Confirm New Password
+          </label>
+          <input
+            id="confirm-password"
+            type="password"
+            autoComplete="new-password"
+            required
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {loading ? 'Saving...' : 'Change Password'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Ladder, Player } from '@/lib/types/database'
+import { DEFAULT_PROMOTION_SPOTS } from '@/lib/utils/divisions'
+import { DivisionSwap } from '@/lib/utils/divisions'
+import { adminRequest } from '@/lib/auth/adminApi'
+
+interface DivisionManagerProps {
+  ladders: Ladder[]
+  ladder: Ladder | null  // The ladder selected in the admin panel
+  players: Player[]      // Everyone, on every ladder
+  onLaddersUpdated?: () => void
+}
+
+// Ladders (divisions), where each one sits, and end-of-period promotion and relegation
+export default function DivisionManager({ ladders, ladder, players, onLaddersUpdated }: DivisionManagerProps) {
+  const [newLadderName, setNewLadderName] = useState('')
+  const [name, setName] = useState(ladder?.name ?? '')
+  const [divisionAboveId, setDivisionAboveId] = useState(ladder?.division_above_id ?? '')
+  const [promotionSpots, setPromotionSpots] = useState((ladder?.promotion_spots ?? DEFAULT_PROMOTION_SPOTS).toString())
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    setName(ladder?.name ?? '')
+    setDivisionAboveId(ladder?.division_above_id ?? '')
+    setPromotionSpots((ladder?.promotion_spots ?? DEFAULT_PROMOTION_SPOTS).toString())
+  }, [ladder])
+
+  const ladderName = (ladderId: string | null | undefined) => ladders.find(entry => entry.id === ladderId)?.name
+  const playerCount = (ladderId: string) => players.filter(player => player.ladder_id === ladderId).length
+
+  const handleAddLadder = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newLadderName.trim()) {
+      setMessage('Error: Please enter a name for the new ladder')
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+    try {
+      await adminRequest('ladders', 'POST', { name: newLadderName.trim() })
+      setMessage(`${newLadderName.trim()} created! Move players onto it from the Players page.`)
+      setNewLadderName('')
+      if (onLaddersUpdated) {
+        onLaddersUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveDivision = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!ladder) return
+
+    const spots = parseInt(promotionSpots)
+    if (!name.trim()) {
+      setMessage('Error: The ladder needs a name')
+      return
+    }
+    if (!spots || spots < 1) {
+      setMessage('Error: At least 1 player must move between divisions')
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+    try {
+      await adminRequest(`ladders/${ladder.id}`, 'PATCH', {
+        settings: {
+          name: name.trim(),
+          division_above_id: divisionAboveId || null,
+          promotion_spots: spots
+        }
+      })
+      setMessage('Division settings updated!')
+      if (onLaddersUpdated) {
+        onLaddersUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRunSwap = async () => {
+    if (!ladder?.division_above_id) return
+
+    const above = ladderName(ladder.division_above_id)
+    const names = (ids: string[]) => ids.map(id => players.find(player => player.id === id)?.name ?? 'Unknown').join(', ')
+
+    setLoading(true)
+    setMessage('')
+    try {
+      // The swap is run against the preview's version, so it happens at most once
+      const preview = await adminRequest<{ swap: DivisionSwap, version: number }>(`ladders/${ladder.id}/promotion`, 'GET')
+      if (!confirm(`Promote ${names(preview.swap.promoted)} to ${above} and relegate ${names(preview.swap.relegated)} to ${ladder.name}? This is recorded in both ladders' activity logs.`)) {
+        return
+      }
+
+      setMessage('Running promotion and relegation...')
+      const { swap } = await adminRequest<{ swap: DivisionSwap }>(`ladders/${ladder.id}/promotion`, 'POST', { version: preview.version })
+      setMessage(`Promoted to ${above}: ${names(swap.promoted)}. Relegated to ${ladder.name}: ${names(swap.relegated)}.`)
+      if (onLaddersUpdated) {
+        onLaddersUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Ladders</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Each ladder has its own order, results and settings. Every player plays on one ladder at a time.
+        </p>
+        <ul className="divide-y divide-gray-200 mb-4">
+          {ladders.map(entry => (
+            <li key={entry.id} className="py-2 flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-900">{entry.name}</span>
+              <span className="text-gray-500">
+                {playerCount(entry.id)} players
+                {entry.division_above_id && ` · below ${ladderName(entry.division_above_id)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddLadder} className="flex gap-2">
+          <input
+            type="text"
+            value={newLadderName}
+            onChange={(e) => setNewLadderName(e.target.value)}
+            placeholder="e.g. B Ladder"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Ladder
+          </button>
+        </form>
+      </div>
+
+      {ladder && (
+        <form onSubmit={handleSaveDivision} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">Division: {ladder.name}</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Division above</label>
+              <select
+                value={divisionAboveId}
+                onChange={(e) => setDivisionAboveId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">None (top division)</option>
+                {ladders.filter(entry => entry.id !== ladder.id).map(entry => (
+                  <option key={entry.id} value={entry.id}>{entry.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Players promoted and relegated</label>
+              <input
+                type="number"
+                min="1"
+                value={promotionSpots}
+                onChange={(e) => setPromotionSpots(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Division
+            </button>
+            {ladder.division_above_id && (
+              <button
+                type="button"
+                onClick={handleRunSwap}
+                disabled={loading}
+                className="bg-amber-600 text-white py-2 px-4 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Run Promotion &amp; Relegation
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600">
+            At the end of a period, the top players of this ladder swap with the bottom players of the division above.
+            Promoted players join the bottom of the upper ladder; relegated players join the top of this one.
+          </p>
+        </form>
+      )}
+
+      {message && (
+        <div className={`text-center text-sm ${
+          message.startsWith('Error') ? 'text-red-600' : 'text-green-600'
+        }`}>
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,25 +1,34 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { Player } from '@/lib/types/database'
+import { Ladder, Player, Season, SeasonSeeding } from '@/lib/types/database'
+import { SEASON_SEEDING_LABELS } from '@/lib/utils/seasons'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { isOnLadder } from '@/lib/utils/roster'
+import { adminRequest } from '@/lib/auth/adminApi'
 
 interface InitialRankingsManagerProps {
-  players: Player[]
+  players: Player[]  // Everyone; each ladder is seeded on its own
+  ladders?: Ladder[]
+  season: Season | null
+  onSeasonChanged?: () => void
 }
 
-export default function InitialRankingsManager({ players: initialPlayers }: InitialRankingsManagerProps) {
-  const [players, setPlayers] = useState<Player[]>(initialPlayers)
+export default function InitialRankingsManager({ players: initialPlayers, ladders = [], season, onSeasonChanged }: InitialRankingsManagerProps) {
+  const [players, setPlayers] = useState<Player[]>(initialPlayers.filter(isOnLadder))
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
   const [rankings, setRankings] = useState<{ [playerId: string]: number }>({})
-  const supabase = createClient()
+  const [seasonName, setSeasonName] = useState('')
+  const [seeding, setSeeding] = useState<SeasonSeeding>('previous')
 
   useEffect(() => {
-    setPlayers(initialPlayers)
+    // Removed and withdrawn players sit the new season out
+    const seededPlayers = initialPlayers.filter(isOnLadder)
+    setPlayers(seededPlayers)
     // Initialize rankings with current ranks
     const initialRankings: { [playerId: string]: number } = {}
-    initialPlayers.forEach(player => {
+    seededPlayers.forEach(player => {
       initialRankings[player.id] = player.current_rank
     })
     setRankings(initialRankings)
@@ -31,8 +40,15 @@ export default function InitialRankingsManager({ players: initialPlayers }: Init
     setRankings(newRankings)
   }
 
-  const handleSetInitialRankings = async () => {
-    if (!confirm('This will clear ALL matches and reset all player positions to your new settings. This action cannot be undone. Are you sure?')) {
+  const handleStartSeason = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!seasonName.trim()) {
+      setMessage('Error: Please enter a name for the new season')
+      return
+    }
+
+    if (season && !confirm(`This will close ${season.name}: its matches, ranking events and final standings are archived read-only, and open challenges are cancelled. Continue?`)) {
       return
     }
 
@@ -40,106 +56,131 @@ export default function InitialRankingsManager({ players: initialPlayers }: Init
     setMessage('')
 
     try {
-      // Validate that all ranks are unique and sequential
-      const rankValues = Object.values(rankings)
-      const uniqueRanks = new Set(rankValues)
-      
-      if (uniqueRanks.size !== rankValues.length) {
-        throw new Error('All ranks must be unique')
+      setMessage(season ? `Archiving ${season.name} and seeding the new season...` : 'Seeding the new season...')
+      await adminRequest('seasons', 'POST', {
+        name: seasonName.trim(),
+        seeding,
+        rankings: seeding === 'manual' ? rankings : undefined,
+        close: Boolean(season)
+      })
+
+      setMessage(`${seasonName.trim()} has started!`)
+      setSeasonName('')
+
+      if (onSeasonChanged) {
+        onSeasonChanged()
       }
-
-      const minRank = Math.min(...rankValues)
-      const maxRank = Math.max(...rankValues)
-      
-      if (minRank !== 1 || maxRank !== players.length) {
-        throw new Error(`Ranks must be from 1 to ${players.length}`)
-      }
-
-      // Clear all matches and ranking events
-      const { clearAllData } = await import('@/lib/utils/events')
-      await clearAllData(supabase)
-
-      // Update all players with new initial_rank and current_rank
-      for (const player of players) {
-        const newRank = rankings[player.id]
-        if (newRank) {
-          const { error: updateError } = await supabase
-            .from('players')
-            .update({ 
-              initial_rank: newRank,
-              current_rank: newRank 
-            })
-            .eq('id', player.id)
-
-          if (updateError) {
-            throw updateError
-          }
-        }
-      }
-
-      setMessage('Player positions set successfully! All matches have been cleared.')
-      
-      // Refresh the page to show updated data
-      setTimeout(() => window.location.reload(), 2000)
-
     } catch (error: unknown) {
-      console.error('Error setting initial rankings:', error)
+      console.error('Error starting season:', error)
       setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
     } finally {
       setLoading(false)
     }
   }
 
-  const sortedPlayers = players.sort((a, b) => a.current_rank - b.current_rank)
+  const ladderIndex = (player: Player) => ladders.findIndex(ladder => ladder.id === player.ladder_id)
+  const sortedPlayers = players.sort((a, b) => ladderIndex(a) - ladderIndex(b) || a.current_rank - b.current_rank)
+  const ladderName = (player: Player) => ladders.find(ladder => ladder.id === player.ladder_id)?.name
 
   return (
     <div className="space-y-6">
-      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-        <h3 className="text-lg font-semibold text-red-800 mb-2">⚠️ Set Initial Rankings</h3>
-        <p className="text-sm text-red-700">
-          This will clear ALL existing matches and ranking events, then set the initial rankings for all players. 
-          This is typically done once at the start of a tournament. This action cannot be undone.
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="text-lg font-semibold text-blue-900 mb-2">
+          {season ? season.name : 'No active season'}
+        </h3>
+        <p className="text-sm text-blue-800">
+          {season
+            ? `Started ${new Date(season.started_at).toLocaleDateString()}. Starting a new season archives this one; past seasons stay browsable on the history page.`
+            : 'Start a season to begin recording matches.'}
         </p>
       </div>
 
-      <div className="bg-white rounded-lg shadow-sm p-6">
-        <h2 className="text-xl font-semibold text-gray-900 mb-6">Set Initial Rankings</h2>
-        
+      <form onSubmit={handleStartSeason} className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+        <h2 className="text-xl font-semibold text-gray-900">Start a New Season</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Season name
+          </label>
+          <input
+            type="text"
+            value={seasonName}
+            onChange={(e) => setSeasonName(e.target.value)}
+            placeholder="e.g. Spring 2025"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
         <div className="space-y-4">
-          {sortedPlayers.map((player, index) => (
-            <div key={player.id} className="flex items-center space-x-4 p-3 border border-gray-200 rounded-lg">
-              <div className="w-8 text-sm font-medium text-gray-500">
-                {index + 1}.
-              </div>
-              <div className="flex-1">
-                <div className="font-medium text-gray-900">{player.name}</div>
-                <div className="text-sm text-gray-500">Current: #{player.current_rank}</div>
+          <label className="block text-sm font-medium text-gray-700">
+            Starting ladder
+          </label>
+          {(Object.keys(SEASON_SEEDING_LABELS) as SeasonSeeding[]).map((option) => (
+            <label
+              key={option}
+              className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                seeding === option ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="radio"
+                name="seeding"
+                value={option}
+                checked={seeding === option}
+                onChange={() => setSeeding(option)}
+                className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <div>
+                <div className="font-medium text-gray-900">{SEASON_SEEDING_LABELS[option].name}</div>
+                <div className="text-sm text-gray-600">{SEASON_SEEDING_LABELS[option].description}</div>
               </div>
-              <div className="flex items-center space-x-2">
-                <label className="text-sm font-medium text-gray-700">Rank:</label>
-                <input
-                  type="number"
-                  min="1"
-                  max={players.length}
-                  value={rankings[player.id] || player.current_rank}
-                  onChange={(e) => handleRankChange(player.id, parseInt(e.target.value) || 1)}
-                  className="w-16 px-2 py-1 border border-gray-300 rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-            </div>
+            </label>
           ))}
         </div>
 
-        <div className="mt-6 flex justify-end">
+        {seeding === 'manual' && (
+          <div className="space-y-4">
+            {ladders.length > 1 && (
+              <p className="text-sm text-gray-600">Ranks start from 1 on each ladder.</p>
+            )}
+            {sortedPlayers.map((player, index) => (
+              <div key={player.id} className="flex items-center space-x-4 p-3 border border-gray-200 rounded-lg">
+                <div className="w-8 text-sm font-medium text-gray-500">
+                  {index + 1}.
+                </div>
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">{player.name}</div>
+                  <div className="text-sm text-gray-500">
+                    Current: #{player.current_rank}
+                    {ladders.length > 1 && ` on ${ladderName(player) ?? 'no ladder'}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <label className="text-sm font-medium text-gray-700">Rank:</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={playersOnLadder(players, player.ladder_id).length}
+                    value={rankings[player.id] || player.current_rank}
+                    onChange={(e) => handleRankChange(player.id, parseInt(e.target.value) || 1)}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
           <button
-            onClick={handleSetInitialRankings}
+            type="submit"
             disabled={loading}
-            className="bg-red-600 text-white py-2 px-6 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            className="bg-blue-600 text-white py-2 px-6 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? 'Setting Initial Rankings...' : 'Set Initial Rankings'}
+            {loading ? 'Working...' : season ? `Close ${season.name} and Start New Season` : 'Start Season'}
           </button>
         </div>
-      </div>
+      </form>
 
       {message && (
         <div className={`text-center text-sm ${
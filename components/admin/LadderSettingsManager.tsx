@@ -0,0 +1,346 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Ladder } from '@/lib/types/database'
+import { LADDER_RULES, LadderRuleId, DEFAULT_LADDER_RULE } from '@/lib/utils/ladderRules'
+import { CHALLENGE_RANGE_LABELS, ChallengeRangeType } from '@/lib/utils/challengeRange'
+import { DEFAULT_INACTIVITY_PLACES } from '@/lib/utils/inactivity'
+import { RATING_SYSTEMS, RatingSystemId, DEFAULT_RATING_SYSTEM } from '@/lib/utils/ratings'
+import { MATCH_FORMATS, MatchFormatId, DEFAULT_MATCH_FORMAT } from '@/lib/utils/matchFormats'
+import { DEFAULT_REPORT_CONFIRM_HOURS } from '@/lib/utils/matchReports'
+import { adminRequest } from '@/lib/auth/adminApi'
+
+interface LadderSettingsManagerProps {
+  ladder: Ladder | null
+  onSettingsUpdated?: () => void
+}
+
+// The ladder's auto-confirm delay as the form shows it; blank is never
+function reportConfirmHours(ladder: Ladder | null): string {
+  const hours = ladder?.report_confirm_hours === undefined ? DEFAULT_REPORT_CONFIRM_HOURS : ladder.report_confirm_hours
+  return hours?.toString() ?? ''
+}
+
+export default function LadderSettingsManager({ ladder, onSettingsUpdated }: LadderSettingsManagerProps) {
+  const [rule, setRule] = useState<LadderRuleId>(ladder?.rule ?? DEFAULT_LADDER_RULE)
+  const [rangeType, setRangeType] = useState<ChallengeRangeType>(ladder?.challenge_range_type ?? 'unlimited')
+  const [rangeSpots, setRangeSpots] = useState(ladder?.challenge_range_spots?.toString() ?? '3')
+  const [ratingSystem, setRatingSystem] = useState<RatingSystemId>(ladder?.rating_system ?? DEFAULT_RATING_SYSTEM)
+  const [matchFormat, setMatchFormat] = useState<MatchFormatId>(ladder?.match_format ?? DEFAULT_MATCH_FORMAT)
+  const [inactivityDays, setInactivityDays] = useState(ladder?.inactivity_days?.toString() ?? '')
+  const [inactivityPlaces, setInactivityPlaces] = useState((ladder?.inactivity_places ?? DEFAULT_INACTIVITY_PLACES).toString())
+  const [confirmHours, setConfirmHours] = useState(reportConfirmHours(ladder))
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    setRule(ladder?.rule ?? DEFAULT_LADDER_RULE)
+    setRangeType(ladder?.challenge_range_type ?? 'unlimited')
+    setRangeSpots(ladder?.challenge_range_spots?.toString() ?? '3')
+    setRatingSystem(ladder?.rating_system ?? DEFAULT_RATING_SYSTEM)
+    setMatchFormat(ladder?.match_format ?? DEFAULT_MATCH_FORMAT)
+    setInactivityDays(ladder?.inactivity_days?.toString() ?? '')
+    setInactivityPlaces((ladder?.inactivity_places ?? DEFAULT_INACTIVITY_PLACES).toString())
+    setConfirmHours(reportConfirmHours(ladder))
+  }, [ladder])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!ladder) {
+      setMessage('Error: No ladder found. Run the ladders migration first.')
+      return
+    }
+
+    const spots = rangeType === 'spots' ? parseInt(rangeSpots) : null
+    if (rangeType === 'spots' && (!spots || spots < 1)) {
+      setMessage('Error: The challenge range must be at least 1 spot.')
+      return
+    }
+
+    // A blank day count turns inactivity penalties off
+    const days = inactivityDays.trim() ? parseInt(inactivityDays) : null
+    const places = parseInt(inactivityPlaces)
+    if (days !== null && (!days || days < 1)) {
+      setMessage('Error: The inactivity period must be at least 1 day.')
+      return
+    }
+    if (!places || places < 1) {
+      setMessage('Error: Inactive players must drop at least 1 place.')
+      return
+    }
+
+    // A blank hour count leaves reported results waiting for the opponent or staff
+    const hours = confirmHours.trim() ? parseInt(confirmHours) : null
+    if (hours !== null && (!hours || hours < 1)) {
+      setMessage('Error: Reported results must wait at least 1 hour before confirming themselves.')
+      return
+    }
+
+    const ruleChanged = rule !== ladder.rule
+    const ratingChanged = ratingSystem !== (ladder.rating_system ?? DEFAULT_RATING_SYSTEM)
+    const formatChanged = matchFormat !== (ladder.match_format ?? DEFAULT_MATCH_FORMAT)
+    const rangeChanged = rangeType !== (ladder.challenge_range_type ?? 'unlimited') ||
+      spots !== (ladder.challenge_range_spots ?? null)
+    const inactivityChanged = days !== (ladder.inactivity_days ?? null) ||
+      places !== (ladder.inactivity_places ?? DEFAULT_INACTIVITY_PLACES)
+    const reportsChanged = confirmHours !== reportConfirmHours(ladder)
+
+    if (!ruleChanged && !ratingChanged && !formatChanged && !rangeChanged && !inactivityChanged && !reportsChanged) {
+      setMessage('No changes to save.')
+      return
+    }
+
+    if (ruleChanged && !confirm('Changing the ladder rule replays every result under the new rule and may reorder the whole ladder. Continue?')) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('Saving ladder settings...')
+
+    try {
+      // Only a rule or rating change needs a replay; inactivity settings apply from the next scheduled run
+      const rebuild = ruleChanged || ratingChanged
+      if (rebuild) {
+        setMessage('Saving and replaying results...')
+      }
+      await adminRequest(`ladders/${ladder.id}`, 'PATCH', {
+        settings: {
+          rule,
+          challenge_range_type: rangeType,
+          challenge_range_spots: spots,
+          inactivity_days: days,
+          inactivity_places: places,
+          rating_system: ratingSystem,
+          match_format: matchFormat,
+          report_confirm_hours: hours
+        },
+        rebuild
+      })
+
+      if (rebuild) {
+        setMessage('Ladder settings updated! Rankings and ratings have been recalculated.')
+      } else {
+        setMessage('Ladder settings updated!')
+      }
+
+      if (onSettingsUpdated) {
+        onSettingsUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSave} className="space-y-6">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Ladder Rule</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            Choose how a result moves players. All past results are replayed under the selected rule.
+          </p>
+
+          <div className="space-y-4">
+            {Object.values(LADDER_RULES).map((option) => (
+              <label
+                key={option.id}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                  rule === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="ladder-rule"
+                  value={option.id}
+                  checked={rule === option.id}
+                  onChange={() => setRule(option.id)}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <div>
+                  <div className="font-medium text-gray-900">{option.name}</div>
+                  <div className="text-sm text-gray-600">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Match Format</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            The format new matches are entered in. Past matches keep the format they were played in.
+          </p>
+
+          <div className="space-y-4">
+            {Object.values(MATCH_FORMATS).map((option) => (
+              <label
+                key={option.id}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                  matchFormat === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="match-format"
+                  value={option.id}
+                  checked={matchFormat === option.id}
+                  onChange={() => setMatchFormat(option.id)}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <div>
+                  <div className="font-medium text-gray-900">{option.name}</div>
+                  <div className="text-sm text-gray-600">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Rating System</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            Ratings estimate playing strength from every match, weighing game margins and retirements.
+            They don&apos;t affect ladder positions.
+          </p>
+
+          <div className="space-y-4">
+            {Object.values(RATING_SYSTEMS).map((option) => (
+              <label
+                key={option.id}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                  ratingSystem === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="rating-system"
+                  value={option.id}
+                  checked={ratingSystem === option.id}
+                  onChange={() => setRatingSystem(option.id)}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <div>
+                  <div className="font-medium text-gray-900">{option.name}</div>
+                  <div className="text-sm text-gray-600">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Challenge Range</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            Who a player may play, judged on the ladder as it stood when the match was played.
+            Out-of-range matches need an admin override to be recorded.
+          </p>
+
+          <div className="space-y-4">
+            {(Object.keys(CHALLENGE_RANGE_LABELS) as ChallengeRangeType[]).map((option) => (
+              <label
+                key={option}
+                className={`flex items-center space-x-3 p-3 border rounded-lg cursor-pointer ${
+                  rangeType === option ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="challenge-range"
+                  value={option}
+                  checked={rangeType === option}
+                  onChange={() => setRangeType(option)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span className="font-medium text-gray-900">{CHALLENGE_RANGE_LABELS[option]}</span>
+                {option === 'spots' && rangeType === 'spots' && (
+                  <input
+                    type="number"
+                    min="1"
+                    value={rangeSpots}
+                    onChange={(e) => setRangeSpots(e.target.value)}
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                )}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Inactivity</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            Players who go this long without a match drop down the ladder, once for every period that passes.
+            Leave the days blank to turn this off.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Days without a match
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={inactivityDays}
+                onChange={(e) => setInactivityDays(e.target.value)}
+                placeholder="Off"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Places dropped
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={inactivityPlaces}
+                onChange={(e) => setInactivityPlaces(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Reported Results</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            Results players report count once their opponent confirms them, or once this many hours pass without an answer.
+            Leave it blank to always wait for the opponent or staff.
+          </p>
+
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Hours before confirming automatically
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={confirmHours}
+            onChange={(e) => setConfirmHours(e.target.value)}
+            placeholder="Never"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Saving...' : 'Save Settings'}
+        </button>
+      </form>
+
+      {message && (
+        <div className={`text-center text-sm ${
+          message.startsWith('Error') ? 'text-red-600' : 'text-green-600'
+        }`}>
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
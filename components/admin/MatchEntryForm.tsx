@@ -1,38 +1,58 @@
 'use client'
 
 import { useState } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { Player, Match } from '@/lib/types/database'
-import { determineMatchWinner } from '@/lib/utils/ladder'
+import { Player, Match, Ladder, MatchResultType, Team } from '@/lib/types/database'
+import { applyLadderRule, getLadderRule } from '@/lib/utils/ladderRules'
+import { challengeRangeForLadder, checkChallengeRange } from '@/lib/utils/challengeRange'
+import { MATCH_RESULT_LABELS, DEFAULTED_PLAYER_PROMPTS, isUnplayedResult } from '@/lib/utils/results'
+import { MATCH_FORMATS, MatchFormatId, DEFAULT_MATCH_FORMAT, getMatchFormat, countSetsWon, playedSets, setsToWin } from '@/lib/utils/matchFormats'
+import { ScoreErrors, hasScoreErrors, validateMatchScore } from '@/lib/utils/scoreValidation'
+import { adminRequest } from '@/lib/auth/adminApi'
+import SetScoresInput, { emptySets } from '@/components/admin/SetScoresInput'
 import { useRouter } from 'next/navigation'
 
 interface MatchEntryFormProps {
   players: Player[]
+  teams?: Team[]  // Offers doubles entry when there are teams
+  ladder?: Ladder | null
   onMatchAdded?: () => void
 }
 
-export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryFormProps) {
+export default function MatchEntryForm({ players, teams = [], ladder, onMatchAdded }: MatchEntryFormProps) {
   // Sort players by current rank
   const sortedPlayers = players.sort((a, b) => a.current_rank - b.current_rank)
+  const sortedTeams = [...teams].sort((a, b) => a.current_rank - b.current_rank)
+  const [doubles, setDoubles] = useState(false)
+  // The sides of the match: players for singles, teams for doubles
+  const entrants: (Player | Team)[] = doubles ? sortedTeams : sortedPlayers
+  const sideLabel = doubles ? 'Team' : 'Player'
   
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
   const router = useRouter()
-  const supabase = createClient()
 
   const [formData, setFormData] = useState({
     player1_id: '',
     player2_id: '',
     date_played: new Date().toISOString().split('T')[0],
-    set1_p1_games: 0,
-    set1_p2_games: 0,
-    set2_p1_games: 0,
-    set2_p2_games: 0,
-    tiebreaker_p1_points: '',
-    tiebreaker_p2_points: '',
-    has_retirement: false,
+    format_id: ladder?.match_format ?? DEFAULT_MATCH_FORMAT,
+    sets: emptySets(getMatchFormat(ladder?.match_format)),
+    result_type: 'completed' as MatchResultType,
     retired_player: null as 1 | 2 | null,
+    defaulted_player: null as 1 | 2 | null,
   })
+  const [overrideReason, setOverrideReason] = useState('')
+  const [scoreErrors, setScoreErrors] = useState<ScoreErrors>({})
+  const format = getMatchFormat(formData.format_id)
+
+  // New matches go at the end of the event stream, so the current ladder is
+  // the one the challenge range is judged against. Challenges are singles-only.
+  const getRangeViolation = () => {
+    if (doubles || !formData.player1_id || !formData.player2_id || formData.player1_id === formData.player2_id) {
+      return null
+    }
+    return checkChallengeRange(sortedPlayers, formData.player1_id, formData.player2_id, challengeRangeForLadder(ladder))
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -42,102 +62,73 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
     try {
       // Validate form
       if (!formData.player1_id || !formData.player2_id) {
-        throw new Error('Please select both players')
+        throw new Error(doubles ? 'Please select both teams' : 'Please select both players')
       }
 
       if (formData.player1_id === formData.player2_id) {
-        throw new Error('Players must be different')
-      }
-
-      // Determine set winners
-      const set1_winner = (formData.set1_p1_games > formData.set1_p2_games ? 1 : 2) as 1 | 2
-      const set2_winner = (formData.set2_p1_games > formData.set2_p2_games ? 1 : 2) as 1 | 2
-
-      // Prepare match data - use date_played for display, created_at will be used for ordering
-      const matchData = {
-        player1_id: formData.player1_id,
-        player2_id: formData.player2_id,
-        date_played: formData.date_played, // Keep as date for display purposes
-        set1_winner,
-        set1_p1_games: formData.set1_p1_games,
-        set1_p2_games: formData.set1_p2_games,
-        set2_winner,
-        set2_p1_games: formData.set2_p1_games,
-        set2_p2_games: formData.set2_p2_games,
-        tiebreaker_winner: null as 1 | 2 | null,
-        tiebreaker_p1_points: null as number | null,
-        tiebreaker_p2_points: null as number | null,
-        has_retirement: formData.has_retirement,
-        retired_player: formData.has_retirement ? formData.retired_player : null as 1 | 2 | null,
-      }
-
-      // Handle retirement validation
-      if (formData.has_retirement && !formData.retired_player) {
-        throw new Error('Please select which player retired')
+        throw new Error(doubles ? 'Teams must be different' : 'Players must be different')
       }
 
-      // Handle tiebreaker if both sets won by different players (only if no retirement)
-      if (set1_winner !== set2_winner && !formData.has_retirement) {
-        if (!formData.tiebreaker_p1_points || !formData.tiebreaker_p2_points) {
-          throw new Error('Tiebreaker scores required when sets are split 1-1')
+      if (doubles) {
+        const team1 = sortedTeams.find(team => team.id === formData.player1_id)
+        const team2 = sortedTeams.find(team => team.id === formData.player2_id)
+        const team1Players = [team1?.player1_id, team1?.player2_id]
+        if (team2 && (team1Players.includes(team2.player1_id) || team1Players.includes(team2.player2_id))) {
+          throw new Error('A player cannot be on both teams')
         }
-        
-        const tbP1 = parseInt(formData.tiebreaker_p1_points)
-        const tbP2 = parseInt(formData.tiebreaker_p2_points)
-        
-        matchData.tiebreaker_winner = (tbP1 > tbP2 ? 1 : 2) as 1 | 2
-        matchData.tiebreaker_p1_points = tbP1
-        matchData.tiebreaker_p2_points = tbP2
       }
 
-      // Determine match winner
-      const match_winner = determineMatchWinner({
-        ...matchData,
-        id: '', // Temporary ID, will be set by database
-        created_at: new Date().toISOString() // Temporary timestamp, will be set by database
-      })
-      const finalMatchData = { ...matchData, match_winner }
+      const rangeViolation = getRangeViolation()
+      if (rangeViolation && !overrideReason.trim()) {
+        throw new Error(`Outside the challenge range: ${rangeViolation}. Enter an override reason to record it anyway.`)
+      }
 
-      // Insert match and get the created match data with ID
-      const { data: insertedMatch, error: matchError } = await supabase
-        .from('matches')
-        .insert([finalMatchData])
-        .select()
-        .single()
+      const hasRetirement = formData.result_type === 'retired'
+      const unplayed = isUnplayedResult({ result_type: formData.result_type })
 
-      if (matchError) {
-        throw matchError
+      // Prepare match data - use date_played for display, created_at will be used for ordering.
+      // Doubles matches name teams instead of players.
+      const matchData = {
+        player1_id: doubles ? null : formData.player1_id,
+        player2_id: doubles ? null : formData.player2_id,
+        team1_id: doubles ? formData.player1_id : null,
+        team2_id: doubles ? formData.player2_id : null,
+        ladder_id: doubles ? null : ladder?.id ?? null,
+        date_played: formData.date_played, // Keep as date for display purposes
+        format_id: format.id,
+        sets: unplayed ? [] : playedSets(format, formData.sets), // Unplayed results have no score
+        has_retirement: hasRetirement,
+        retired_player: hasRetirement ? formData.retired_player : null,
+        result_type: formData.result_type,
+        defaulted_player: unplayed ? formData.defaulted_player : null,
       }
 
-      console.log('Inserted match with ID:', insertedMatch.id)
+      // Show score problems beside the fields they belong to
+      const errors = validateMatchScore(matchData)
+      setScoreErrors(errors)
+      if (hasScoreErrors(errors)) {
+        throw new Error('Please correct the score')
+      }
 
-      setMessage('Updating player positions...')
+      setMessage(doubles ? 'Recording match and updating team positions...' : 'Recording match and updating player positions...')
 
-      // Record match event and rebuild all rankings
-      const { recordMatchEvent, rebuildAllRankings } = await import('@/lib/utils/events')
-      
-      // Record the match event with the actual match ID
-      await recordMatchEvent(supabase, insertedMatch)
-      
-      setMessage('Calculating new rankings...')
-      
-      // Rebuild all rankings from initial state
-      await rebuildAllRankings(supabase)
+      // The server inserts the match and its event and recalculates the rankings
+      // in one transaction; the winner comes from the score
+      await adminRequest('matches', 'POST', { match: matchData, overrideReason: rangeViolation ? overrideReason.trim() : undefined })
 
       setMessage('Match recorded successfully!')
       setFormData({
         player1_id: '',
         player2_id: '',
         date_played: new Date().toISOString().split('T')[0],
-        set1_p1_games: 0,
-        set1_p2_games: 0,
-        set2_p1_games: 0,
-        set2_p2_games: 0,
-        tiebreaker_p1_points: '',
-        tiebreaker_p2_points: '',
-        has_retirement: false,
+        format_id: formData.format_id,
+        sets: emptySets(format),
+        result_type: 'completed',
         retired_player: null,
+        defaulted_player: null,
       })
+      setOverrideReason('')
+      setScoreErrors({})
 
       // Notify parent component to refresh data
       if (onMatchAdded) {
@@ -151,39 +142,88 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
     }
   }
 
-  const needsTiebreaker = () => {
-    // Don't show tiebreaker if there's a retirement
-    if (formData.has_retirement) {
-      return false
+  // Winner implied by the scores entered so far, or null if it can't be told yet
+  const getPreviewWinner = (): 1 | 2 | null => {
+    if (formData.result_type === 'retired') {
+      return formData.retired_player ? (formData.retired_player === 1 ? 2 : 1) : null
+    }
+    if (formData.result_type !== 'completed') {
+      return formData.defaulted_player ? (formData.defaulted_player === 1 ? 2 : 1) : null
+    }
+
+    const { p1, p2 } = countSetsWon(formData.sets)
+    const needed = setsToWin(format)
+    if (p1 >= needed) return 1
+    if (p2 >= needed) return 2
+    return null
+  }
+
+  // Preview the ladder movement under the ladder's selected rule
+  const getRankingPreview = () => {
+    if (!formData.player1_id || !formData.player2_id || formData.player1_id === formData.player2_id) {
+      return null
     }
-    
-    // Only show tiebreaker if both sets are completed (have non-zero scores)
-    const set1Completed = formData.set1_p1_games > 0 || formData.set1_p2_games > 0
-    const set2Completed = formData.set2_p1_games > 0 || formData.set2_p2_games > 0
-    
-    if (!set1Completed || !set2Completed) {
-      return false
+
+    const winner = getPreviewWinner()
+    if (!winner) {
+      return null
+    }
+
+    const winnerId = winner === 1 ? formData.player1_id : formData.player2_id
+    const loserId = winner === 1 ? formData.player2_id : formData.player1_id
+    const rule = getLadderRule(ladder?.rule)
+    const newOrder = applyLadderRule(entrants, winnerId, loserId, rule)
+    if (!newOrder) {
+      return null
     }
-    
-    const set1Winner = formData.set1_p1_games > formData.set1_p2_games ? 1 : 2
-    const set2Winner = formData.set2_p1_games > formData.set2_p2_games ? 1 : 2
-    return set1Winner !== set2Winner
+
+    const moves = newOrder
+      .map((player, index) => ({ player, oldRank: entrants.indexOf(player) + 1, newRank: index + 1 }))
+      .filter(move => move.oldRank !== move.newRank)
+
+    return { rule, winnerName: getPlayerName(winnerId), moves }
   }
 
+  const unplayedResult = isUnplayedResult({ result_type: formData.result_type })
+
   const getPlayerName = (playerId: string) => {
-    const player = sortedPlayers.find(p => p.id === playerId)
+    const player = entrants.find(p => p.id === playerId)
     return player ? player.name : ''
   }
 
+  // Switching between singles and doubles clears the sides, which name different things
+  const handleDoublesChange = (value: boolean) => {
+    setDoubles(value)
+    setFormData({ ...formData, player1_id: '', player2_id: '', retired_player: null, defaulted_player: null })
+    setOverrideReason('')
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-sm p-6">
       <h2 className="text-xl font-semibold text-gray-900 mb-6">Enter Match Result</h2>
       
       <form onSubmit={handleSubmit} className="space-y-6">
+        {sortedTeams.length > 1 && (
+          <div className="flex space-x-2">
+            {[false, true].map(value => (
+              <button
+                key={String(value)}
+                type="button"
+                onClick={() => handleDoublesChange(value)}
+                className={`px-4 py-2 text-sm font-medium rounded-md border ${
+                  doubles === value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {value ? 'Doubles' : 'Singles'}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Player 1
+              {sideLabel} 1
             </label>
             <select
               value={formData.player1_id}
@@ -191,8 +231,8 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
             >
-              <option value="">Select Player 1</option>
-              {sortedPlayers.map((player) => (
+              <option value="">Select {sideLabel} 1</option>
+              {entrants.map((player) => (
                 <                option key={player.id} value={player.id}>
                   {player.name} (#{player.current_rank})
                 </option>
@@ -202,7 +242,7 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Player 2
+              {sideLabel} 2
             </label>
             <select
               value={formData.player2_id}
@@ -210,8 +250,8 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
             >
-              <option value="">Select Player 2</option>
-              {sortedPlayers.map((player) => (
+              <option value="">Select {sideLabel} 2</option>
+              {entrants.map((player) => (
                 <                option key={player.id} value={player.id}>
                   {player.name} (#{player.current_rank})
                 </option>
@@ -233,98 +273,51 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
           />
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-gray-900">Set 1</h3>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Player 1 Games
-                </label>
-                <select
-                  value={formData.set1_p1_games}
-                  onChange={(e) => setFormData({ ...formData, set1_p1_games: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                    <option key={num} value={num}>{num}</option>
-                  ))}
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Player 2 Games
-                </label>
-                <select
-                  value={formData.set1_p2_games}
-                  onChange={(e) => setFormData({ ...formData, set1_p2_games: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                    <option key={num} value={num}>{num}</option>
-                  ))}
-                </select>
-              </div>
-            </div>
-          </div>
-
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-gray-900">Set 2</h3>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Player 1 Games
-                </label>
-                <select
-                  value={formData.set2_p1_games}
-                  onChange={(e) => setFormData({ ...formData, set2_p1_games: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                    <option key={num} value={num}>{num}</option>
-                  ))}
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Player 2 Games
-                </label>
-                <select
-                  value={formData.set2_p2_games}
-                  onChange={(e) => setFormData({ ...formData, set2_p2_games: parseInt(e.target.value) })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                    <option key={num} value={num}>{num}</option>
-                  ))}
-                </select>
-              </div>
-            </div>
-          </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Format
+          </label>
+          <select
+            value={formData.format_id}
+            onChange={(e) => setFormData({ 
+              ...formData, 
+              format_id: e.target.value as MatchFormatId,
+              sets: emptySets(getMatchFormat(e.target.value))
+            })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.values(MATCH_FORMATS).map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-sm text-gray-600">{format.description}</p>
         </div>
 
-        <div className="bg-gray-50 p-4 rounded-lg">
-          <div className="flex items-center mb-4">
-            <input
-              type="checkbox"
-              id="has_retirement"
-              checked={formData.has_retirement}
+        <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Result
+            </label>
+            <select
+              value={formData.result_type}
               onChange={(e) => setFormData({ 
                 ...formData, 
-                has_retirement: e.target.checked,
-                retired_player: e.target.checked ? formData.retired_player : null
+                result_type: e.target.value as MatchResultType,
+                retired_player: null,
+                defaulted_player: null
               })}
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            />
-            <label htmlFor="has_retirement" className="ml-2 block text-sm font-medium text-gray-700">
-              Retirement?
-            </label>
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(MATCH_RESULT_LABELS) as MatchResultType[]).map(type => (
+                <option key={type} value={type}>{MATCH_RESULT_LABELS[type]}</option>
+              ))}
+            </select>
           </div>
           
-          {formData.has_retirement && (
+          {formData.result_type === 'retired' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Which player retired?
+                Which {sideLabel.toLowerCase()} retired?
               </label>
               <select
                 value={formData.retired_player || ''}
@@ -333,57 +326,112 @@ export default function MatchEntryForm({ players, onMatchAdded }: MatchEntryForm
                   retired_player: e.target.value ? parseInt(e.target.value) as 1 | 2 : null 
                 })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required={formData.has_retirement}
+                required
               >
-                <option value="">Select player who retired</option>
+                <option value="">Select {sideLabel.toLowerCase()} who retired</option>
                 {formData.player1_id && (
-                  <option value="1">{getPlayerName(formData.player1_id)} (Player 1)</option>
+                  <option value="1">{getPlayerName(formData.player1_id)} ({sideLabel} 1)</option>
                 )}
                 {formData.player2_id && (
-                  <option value="2">{getPlayerName(formData.player2_id)} (Player 2)</option>
+                  <option value="2">{getPlayerName(formData.player2_id)} ({sideLabel} 2)</option>
                 )}
               </select>
               <p className="mt-2 text-sm text-gray-600">
-                The other player will be declared the winner regardless of score.
+                The other {sideLabel.toLowerCase()} will be declared the winner regardless of score.
               </p>
             </div>
           )}
-        </div>
 
-        {needsTiebreaker() && (
-          <div className="bg-yellow-50 p-4 rounded-lg">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Tiebreaker Required (Sets Split 1-1)</h3>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Player 1 Tiebreaker Points
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  value={formData.tiebreaker_p1_points}
-                  onChange={(e) => setFormData({ ...formData, tiebreaker_p1_points: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required={needsTiebreaker()}
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Player 2 Tiebreaker Points
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  value={formData.tiebreaker_p2_points}
-                  onChange={(e) => setFormData({ ...formData, tiebreaker_p2_points: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required={needsTiebreaker()}
-                />
-              </div>
+          {unplayedResult && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {DEFAULTED_PLAYER_PROMPTS[formData.result_type as keyof typeof DEFAULTED_PLAYER_PROMPTS]}
+              </label>
+              <select
+                value={formData.defaulted_player || ''}
+                onChange={(e) => setFormData({ 
+                  ...formData, 
+                  defaulted_player: e.target.value ? parseInt(e.target.value) as 1 | 2 : null 
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              >
+                <option value="">Select {sideLabel.toLowerCase()}</option>
+                {formData.player1_id && (
+                  <option value="1">{getPlayerName(formData.player1_id)} ({sideLabel} 1)</option>
+                )}
+                {formData.player2_id && (
+                  <option value="2">{getPlayerName(formData.player2_id)} ({sideLabel} 2)</option>
+                )}
+              </select>
+              <p className="mt-2 text-sm text-gray-600">
+                The other {sideLabel.toLowerCase()} wins. The ladder moves as usual, but no sets or games are recorded.
+              </p>
             </div>
-          </div>
+          )}
+
+          {scoreErrors.result && (
+            <p className="text-sm text-red-600">{scoreErrors.result}</p>
+          )}
+        </div>
+
+        {!unplayedResult && (
+          <SetScoresInput
+            format={format}
+            sets={formData.sets}
+            onChange={(sets) => setFormData({ ...formData, sets })}
+            errors={scoreErrors}
+          />
         )}
 
+        {(() => {
+          const rangeViolation = getRangeViolation()
+          if (!rangeViolation) return null
+
+          return (
+            <div className="bg-yellow-50 p-4 rounded-lg space-y-2">
+              <h3 className="text-sm font-medium text-yellow-900">Outside Challenge Range</h3>
+              <p className="text-sm text-yellow-800">{rangeViolation}.</p>
+              <label className="block text-sm font-medium text-gray-700">
+                Admin override reason
+              </label>
+              <input
+                type="text"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="Required to record this match"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )
+        })()}
+
+        {(() => {
+          const preview = getRankingPreview()
+          if (!preview) return null
+
+          return (
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <h3 className="text-sm font-medium text-blue-900 mb-2">
+                Ranking Preview ({preview.rule.name})
+              </h3>
+              {preview.moves.length > 0 ? (
+                <ul className="text-sm text-blue-800 space-y-1">
+                  {preview.moves.map(move => (
+                    <li key={move.player.id}>
+                      {move.player.name}: #{move.oldRank} → #{move.newRank}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-blue-800">
+                  {preview.winnerName} wins. No position changes.
+                </p>
+              )}
+            </div>
+          )
+        })()}
+
         <button
           type="submit"
           disabled={loading}
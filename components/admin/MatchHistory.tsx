@@ -1,16 +1,23 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { MatchWithPlayers, Match } from '@/lib/types/database'
-import { determineMatchWinner } from '@/lib/utils/ladder'
+import { MatchWithPlayers, Match, MatchResultType, MatchSet } from '@/lib/types/database'
+import { LadderMovement } from '@/lib/utils/events'
+import { fetchLadderData, replayLadderData } from '@/lib/supabase/rankings'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { MATCH_RESULT_LABELS, isUnplayedResult, matchResultType } from '@/lib/utils/results'
+import { MatchFormatId, DEFAULT_MATCH_FORMAT, getMatchFormat, playedSets, formatSets } from '@/lib/utils/matchFormats'
+import { ScoreErrors, hasScoreErrors, validateMatchScore } from '@/lib/utils/scoreValidation'
+import SetScoresInput, { setsForForm } from '@/components/admin/SetScoresInput'
 
 interface MatchHistoryProps {
   matches: MatchWithPlayers[]
+  ladderId?: string  // The ladder the matches were played on
   onMatchesUpdated?: () => void
 }
 
-export default function MatchHistory({ matches: initialMatches, onMatchesUpdated }: MatchHistoryProps) {
+export default function MatchHistory({ matches: initialMatches, ladderId, onMatchesUpdated }: MatchHistoryProps) {
   const [matches, setMatches] = useState<MatchWithPlayers[]>(initialMatches)
   
   // Sort matches by created_at for proper chronological order
@@ -22,33 +29,53 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
   const [editingMatch, setEditingMatch] = useState<string | null>(null)
   const [editForm, setEditForm] = useState({
     date_played: '',
-    set1_p1_games: 0,
-    set1_p2_games: 0,
-    set2_p1_games: 0,
-    set2_p2_games: 0,
-    tiebreaker_p1_points: '',
-    tiebreaker_p2_points: '',
-    has_retirement: false,
+    format_id: DEFAULT_MATCH_FORMAT as MatchFormatId,
+    sets: [] as MatchSet[],
+    result_type: 'completed' as MatchResultType,
     retired_player: null as 1 | 2 | null,
+    defaulted_player: null as 1 | 2 | null,
   })
+  const [overrideReason, setOverrideReason] = useState('')
+  const [scoreErrors, setScoreErrors] = useState<ScoreErrors>({})
+  // Matches that were outside the challenge range on the ladder they were played on
+  const [rangeFlags, setRangeFlags] = useState<Record<string, LadderMovement>>({})
   // const router = useRouter()
-  const supabase = createClient()
+  const supabase = useMemo(() => createClient(), [])
+
+  const loadRangeFlags = useCallback(async () => {
+    try {
+      const { trace } = replayLadderData(await fetchLadderData(supabase, ladderId))
+      const flags: Record<string, LadderMovement> = {}
+      trace.forEach(movement => {
+        if (movement.match_id && movement.out_of_range) {
+          flags[movement.match_id] = movement
+        }
+      })
+      setRangeFlags(flags)
+    } catch (error) {
+      console.warn('Could not check challenge ranges:', error)
+    }
+  }, [supabase, ladderId])
+
+  useEffect(() => {
+    loadRangeFlags()
+  }, [loadRangeFlags])
 
   const handleEditMatch = (match: MatchWithPlayers) => {
     setEditingMatch(match.id)
+    setOverrideReason('')
+    setScoreErrors({})
     // Convert timestamp to date format for the form
     const matchDate = new Date(match.date_played)
     const dateOnly = matchDate.toISOString().split('T')[0]
     setEditForm({
       date_played: dateOnly,
-      set1_p1_games: match.set1_p1_games,
-      set1_p2_games: match.set1_p2_games,
-      set2_p1_games: match.set2_p1_games,
-      set2_p2_games: match.set2_p2_games,
-      tiebreaker_p1_points: match.tiebreaker_p1_points?.toString() || '',
-      tiebreaker_p2_points: match.tiebreaker_p2_points?.toString() || '',
-      has_retirement: match.has_retirement || false,
+      // Edits keep the format the match was played in
+      format_id: getMatchFormat(match.format_id).id,
+      sets: setsForForm(getMatchFormat(match.format_id), match.sets),
+      result_type: matchResultType(match),
       retired_player: match.retired_player || null,
+      defaulted_player: match.defaulted_player || null,
     })
   }
 
@@ -58,129 +85,68 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
     setLoading(true)
     setMessage('Updating match...')
     try {
-      // Determine set winners
-      const set1_winner = editForm.set1_p1_games > editForm.set1_p2_games ? 1 as const : 2 as const
-      const set2_winner = editForm.set2_p1_games > editForm.set2_p2_games ? 1 as const : 2 as const
-
       // Get the current match to preserve required fields
       const currentMatch = matches.find(m => m.id === editingMatch)
       if (!currentMatch) {
         throw new Error('Match not found')
       }
 
-      // Prepare match data with all required fields
-      const matchData = {
-        id: currentMatch.id,
-        player1_id: currentMatch.player1_id,
-        player2_id: currentMatch.player2_id,
-        date_played: editForm.date_played,
-        set1_winner,
-        set1_p1_games: editForm.set1_p1_games,
-        set1_p2_games: editForm.set1_p2_games,
-        set2_winner,
-        set2_p1_games: editForm.set2_p1_games,
-        set2_p2_games: editForm.set2_p2_games,
-        tiebreaker_winner: null as (1 | 2) | null,
-        tiebreaker_p1_points: null as number | null,
-        tiebreaker_p2_points: null as number | null,
-        has_retirement: editForm.has_retirement,
-        retired_player: editForm.has_retirement ? editForm.retired_player : null as (1 | 2) | null,
-        created_at: currentMatch.created_at,
+      // Out-of-range matches can only be saved once an admin overrides them
+      const rangeFlag = rangeFlags[currentMatch.id]
+      if (rangeFlag && !rangeFlag.range_override && !overrideReason.trim()) {
+        throw new Error(`Outside the challenge range: ${rangeFlag.out_of_range}. Enter an override reason to save it.`)
       }
 
-      // Handle retirement validation
-      if (editForm.has_retirement && !editForm.retired_player) {
-        throw new Error('Please select which player retired')
-      }
+      const hasRetirement = editForm.result_type === 'retired'
+      const unplayed = isUnplayedResult({ result_type: editForm.result_type })
+      const format = getMatchFormat(editForm.format_id)
 
-      // Handle tiebreaker if both sets won by different players (only if no retirement)
-      if (set1_winner !== set2_winner && !editForm.has_retirement) {
-        if (!editForm.tiebreaker_p1_points || !editForm.tiebreaker_p2_points) {
-          throw new Error('Tiebreaker scores required when sets are split 1-1')
-        }
-        
-        const tbP1 = parseInt(editForm.tiebreaker_p1_points)
-        const tbP2 = parseInt(editForm.tiebreaker_p2_points)
-        
-        matchData.tiebreaker_winner = tbP1 > tbP2 ? 1 as const : 2 as const
-        matchData.tiebreaker_p1_points = tbP1
-        matchData.tiebreaker_p2_points = tbP2
-      }
-
-      // Determine match winner
-      const match_winner = determineMatchWinner(matchData)
-      const finalMatchData = { ...matchData, match_winner }
-
-      // Update match in database (exclude id, player1_id, player2_id, created_at from update)
+      // Prepare the new score; id, players and created_at are never changed
       const updateData = {
-        date_played: finalMatchData.date_played,
-        set1_winner: finalMatchData.set1_winner,
-        set1_p1_games: finalMatchData.set1_p1_games,
-        set1_p2_games: finalMatchData.set1_p2_games,
-        set2_winner: finalMatchData.set2_winner,
-        set2_p1_games: finalMatchData.set2_p1_games,
-        set2_p2_games: finalMatchData.set2_p2_games,
-        tiebreaker_winner: finalMatchData.tiebreaker_winner,
-        tiebreaker_p1_points: finalMatchData.tiebreaker_p1_points,
-        tiebreaker_p2_points: finalMatchData.tiebreaker_p2_points,
-        match_winner: finalMatchData.match_winner,
-        has_retirement: finalMatchData.has_retirement,
-        retired_player: finalMatchData.retired_player,
+        date_played: editForm.date_played,
+        format_id: format.id,
+        sets: unplayed ? [] : playedSets(format, editForm.sets), // Unplayed results have no score
+        has_retirement: hasRetirement,
+        retired_player: hasRetirement ? editForm.retired_player : null,
+        result_type: editForm.result_type,
+        defaulted_player: unplayed ? editForm.defaulted_player : null,
       }
-      const { error: matchError } = await supabase
-        .from('matches')
-        .update(updateData)
-        .eq('id', editingMatch)
 
-      if (matchError) {
-        throw matchError
+      // Show score problems beside the fields they belong to
+      const errors = validateMatchScore(updateData)
+      setScoreErrors(errors)
+      if (hasScoreErrors(errors)) {
+        throw new Error('Please correct the score')
       }
 
-      // Update the corresponding ranking event with new match data
-      const { data: updatedMatch, error: fetchUpdatedMatchError } = await supabase
-        .from('matches')
-        .select('*')
-        .eq('id', editingMatch)
-        .single()
+      setMessage('Updating match and player positions...')
 
-      if (fetchUpdatedMatchError || !updatedMatch) {
-        throw new Error('Failed to fetch updated match data')
-      }
+      // The server rescores the match, updates its event and recalculates the
+      // rankings in one transaction; the winner comes from the score
+      const data = await adminRequest<{ match: Match; out_of_range: string[] }>(
+        `matches/${currentMatch.id}`,
+        'PATCH',
+        { update: updateData, overrideReason: overrideReason.trim() || undefined }
+      )
+      const updatedMatch = data.match
 
-      setMessage('Updating player positions...')
-      
-      // Update the existing ranking event with new match results
-      const { updateMatchEvent, rebuildAllRankings } = await import('@/lib/utils/events')
-      
-      console.log('About to update match event for match:', updatedMatch.id)
-      console.log('Updated match data:', updatedMatch)
-      
-      try {
-        // Update the ranking event with the new match data
-        await updateMatchEvent(supabase, updatedMatch)
-        console.log('Successfully called updateMatchEvent')
-      } catch (error) {
-        console.error('Error in updateMatchEvent:', error)
-        throw error
-      }
-      
-      setMessage('Calculating new rankings...')
-      
-      // Rebuild all rankings from initial state
-      await rebuildAllRankings(supabase)
+      // Changing a result can push later matches outside the challenge range
+      const newlyFlagged = data.out_of_range.filter(matchId => !rangeFlags[matchId]).length
+      await loadRangeFlags()
 
-      setMessage('Match updated successfully! Rankings recalculated.')
+      setMessage(newlyFlagged > 0
+        ? `Match updated successfully! Rankings recalculated. ${newlyFlagged} later match(es) are now outside the challenge range.`
+        : 'Match updated successfully! Rankings recalculated.')
       setEditingMatch(null)
+      setOverrideReason('')
+      setScoreErrors({})
       setEditForm({
         date_played: '',
-        set1_p1_games: 0,
-        set1_p2_games: 0,
-        set2_p1_games: 0,
-        set2_p2_games: 0,
-        tiebreaker_p1_points: '',
-        tiebreaker_p2_points: '',
-        has_retirement: false,
+        format_id: DEFAULT_MATCH_FORMAT,
+        sets: [],
+        result_type: 'completed',
         retired_player: null,
+        defaulted_player: null,
       })
 
       // Update local state
@@ -189,18 +155,13 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
           ? { 
               ...m, 
               date_played: editForm.date_played,
-              set1_winner: finalMatchData.set1_winner,
-              set1_p1_games: finalMatchData.set1_p1_games,
-              set1_p2_games: finalMatchData.set1_p2_games,
-              set2_winner: finalMatchData.set2_winner,
-              set2_p1_games: finalMatchData.set2_p1_games,
-              set2_p2_games: finalMatchData.set2_p2_games,
-              tiebreaker_winner: finalMatchData.tiebreaker_winner,
-              tiebreaker_p1_points: finalMatchData.tiebreaker_p1_points,
-              tiebreaker_p2_points: finalMatchData.tiebreaker_p2_points,
-              match_winner: finalMatchData.match_winner,
-              has_retirement: finalMatchData.has_retirement,
-              retired_player: finalMatchData.retired_player
+              format_id: updatedMatch.format_id,
+              sets: updatedMatch.sets,
+              match_winner: updatedMatch.match_winner,
+              has_retirement: updatedMatch.has_retirement,
+              retired_player: updatedMatch.retired_player,
+              result_type: updatedMatch.result_type,
+              defaulted_player: updatedMatch.defaulted_player
             }
           : m
       ))
@@ -219,16 +180,15 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
 
   const handleCancelEdit = () => {
     setEditingMatch(null)
+    setOverrideReason('')
+    setScoreErrors({})
     setEditForm({
       date_played: '',
-      set1_p1_games: 0,
-      set1_p2_games: 0,
-      set2_p1_games: 0,
-      set2_p2_games: 0,
-      tiebreaker_p1_points: '',
-      tiebreaker_p2_points: '',
-      has_retirement: false,
+      format_id: DEFAULT_MATCH_FORMAT,
+      sets: [],
+      result_type: 'completed',
       retired_player: null,
+      defaulted_player: null,
     })
   }
 
@@ -240,40 +200,11 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
     setLoading(true)
     setMessage('Deleting match...')
     try {
-      console.log('Deleting match and recalculating rankings...')
-      
-      // Delete the associated ranking event first (explicit delete)
-      const { error: deleteEventError } = await supabase
-        .from('ranking_events')
-        .delete()
-        .eq('match_id', matchId)
-
-      if (deleteEventError) {
-        console.warn('Failed to delete ranking event:', deleteEventError)
-        // Continue anyway - maybe there wasn't one
-      } else {
-        console.log('Successfully deleted ranking event')
-      }
-
-      // Delete the match
-      const { error: deleteMatchError } = await supabase
-        .from('matches')
-        .delete()
-        .eq('id', matchId)
-
-      if (deleteMatchError) {
-        throw new Error(`Failed to delete match: ${deleteMatchError.message}`)
-      }
+      // The server deletes the match and its event and recalculates the
+      // rankings in one transaction
+      await adminRequest(`matches/${matchId}`, 'DELETE')
 
-      console.log('Successfully deleted match')
-
-      setMessage('Calculating new rankings...')
-
-      // Rebuild all rankings from initial state
-      const { rebuildAllRankings } = await import('@/lib/utils/events')
-      await rebuildAllRankings(supabase)
-
-      console.log('Rankings rebuilt successfully')
+      await loadRangeFlags()
 
       setMessage('Match deleted successfully! Player positions have been updated.')
       setMatches(matches.filter(m => m.id !== matchId))
@@ -291,24 +222,6 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
     }
   }
 
-  const needsTiebreaker = () => {
-    // Don't show tiebreaker if there's a retirement
-    if (editForm.has_retirement) {
-      return false
-    }
-    
-    const set1Completed = editForm.set1_p1_games > 0 || editForm.set1_p2_games > 0
-    const set2Completed = editForm.set2_p1_games > 0 || editForm.set2_p2_games > 0
-    
-    if (!set1Completed || !set2Completed) {
-      return false
-    }
-    
-    const set1Winner = editForm.set1_p1_games > editForm.set1_p2_games ? 1 : 2
-    const set2Winner = editForm.set2_p1_games > editForm.set2_p2_games ? 1 : 2
-    return set1Winner !== set2Winner
-  }
-
   return (
     <div className="space-y-6 relative">
       {loading && (
@@ -376,98 +289,62 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {match.player1.name} vs {match.player2.name}
+                    {rangeFlags[match.id] && (
+                      <span
+                        title={rangeFlags[match.id].out_of_range}
+                        className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                          rangeFlags[match.id].range_override ? 'bg-gray-100 text-gray-700' : 'bg-yellow-100 text-yellow-800'
+                        }`}
+                      >
+                        {rangeFlags[match.id].range_override ? 'Range override' : 'Out of range'}
+                      </span>
+                    )}
+                    {editingMatch === match.id && rangeFlags[match.id] && !rangeFlags[match.id].range_override && (
+                      <input
+                        type="text"
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        placeholder="Override reason"
+                        className="mt-2 block w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {editingMatch === match.id ? (
                       <div className="space-y-2">
-                        <div className="flex space-x-2 items-center">
-                          <span className="text-xs text-gray-500">Set 1:</span>
-                          <select
-                            value={editForm.set1_p1_games}
-                            onChange={(e) => setEditForm({ ...editForm, set1_p1_games: parseInt(e.target.value) })}
-                            className="px-2 py-1 text-sm border border-gray-300 rounded"
-                          >
-                            {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                              <option key={num} value={num}>{num}</option>
-                            ))}
-                          </select>
-                          <span>-</span>
-                          <select
-                            value={editForm.set1_p2_games}
-                            onChange={(e) => setEditForm({ ...editForm, set1_p2_games: parseInt(e.target.value) })}
-                            className="px-2 py-1 text-sm border border-gray-300 rounded"
-                          >
-                            {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                              <option key={num} value={num}>{num}</option>
-                            ))}
-                          </select>
-                        </div>
-                        <div className="flex space-x-2 items-center">
-                          <span className="text-xs text-gray-500">Set 2:</span>
-                          <select
-                            value={editForm.set2_p1_games}
-                            onChange={(e) => setEditForm({ ...editForm, set2_p1_games: parseInt(e.target.value) })}
-                            className="px-2 py-1 text-sm border border-gray-300 rounded"
-                          >
-                            {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                              <option key={num} value={num}>{num}</option>
-                            ))}
-                          </select>
-                          <span>-</span>
-                          <select
-                            value={editForm.set2_p2_games}
-                            onChange={(e) => setEditForm({ ...editForm, set2_p2_games: parseInt(e.target.value) })}
-                            className="px-2 py-1 text-sm border border-gray-300 rounded"
-                          >
-                            {[0, 1, 2, 3, 4, 5, 6, 7].map(num => (
-                              <option key={num} value={num}>{num}</option>
-                            ))}
-                          </select>
-                        </div>
-                        {needsTiebreaker() && (
-                          <div className="flex space-x-2 items-center bg-yellow-50 p-2 rounded">
-                            <span className="text-xs text-gray-500">TB:</span>
-                            <input
-                              type="number"
-                              min="0"
-                              value={editForm.tiebreaker_p1_points}
-                              onChange={(e) => setEditForm({ ...editForm, tiebreaker_p1_points: e.target.value })}
-                              className="w-16 px-2 py-1 text-sm border border-gray-300 rounded"
-                              placeholder="P1"
-                            />
-                            <span>-</span>
-                            <input
-                              type="number"
-                              min="0"
-                              value={editForm.tiebreaker_p2_points}
-                              onChange={(e) => setEditForm({ ...editForm, tiebreaker_p2_points: e.target.value })}
-                              className="w-16 px-2 py-1 text-sm border border-gray-300 rounded"
-                              placeholder="P2"
-                            />
-                          </div>
+                        {!isUnplayedResult({ result_type: editForm.result_type }) && (
+                          <SetScoresInput
+                            format={getMatchFormat(editForm.format_id)}
+                            sets={editForm.sets}
+                            onChange={(sets) => setEditForm({ ...editForm, sets })}
+                            errors={scoreErrors}
+                            compact
+                          />
                         )}
                         <div className="flex items-center space-x-2 bg-gray-50 p-2 rounded">
-                          <input
-                            type="checkbox"
-                            id={`retirement-${match.id}`}
-                            checked={editForm.has_retirement}
+                          <select
+                            value={editForm.result_type}
                             onChange={(e) => setEditForm({ 
                               ...editForm, 
-                              has_retirement: e.target.checked,
-                              retired_player: e.target.checked ? editForm.retired_player : null
+                              result_type: e.target.value as MatchResultType,
+                              retired_player: null,
+                              defaulted_player: null
                             })}
-                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                          />
-                          <label htmlFor={`retirement-${match.id}`} className="text-xs text-gray-700">
-                            Retirement
-                          </label>
-                          {editForm.has_retirement && (
+                            className="px-2 py-1 text-xs border border-gray-300 rounded"
+                          >
+                            {(Object.keys(MATCH_RESULT_LABELS) as MatchResultType[]).map(type => (
+                              <option key={type} value={type}>{MATCH_RESULT_LABELS[type]}</option>
+                            ))}
+                          </select>
+                          {editForm.result_type !== 'completed' && (
                             <select
-                              value={editForm.retired_player || ''}
-                              onChange={(e) => setEditForm({ 
-                                ...editForm, 
-                                retired_player: e.target.value ? parseInt(e.target.value) as 1 | 2 : null 
-                              })}
+                              value={(editForm.result_type === 'retired' ? editForm.retired_player : editForm.defaulted_player) || ''}
+                              onChange={(e) => {
+                                const player = e.target.value ? parseInt(e.target.value) as 1 | 2 : null
+                                setEditForm(editForm.result_type === 'retired'
+                                  ? { ...editForm, retired_player: player }
+                                  : { ...editForm, defaulted_player: player })
+                              }}
                               className="ml-2 px-2 py-1 text-xs border border-gray-300 rounded"
                             >
                               <option value="">Select player</option>
@@ -476,20 +353,25 @@ export default function MatchHistory({ matches: initialMatches, onMatchesUpdated
                             </select>
                           )}
                         </div>
+                        {scoreErrors.result && (
+                          <p className="text-xs text-red-600 whitespace-normal">{scoreErrors.result}</p>
+                        )}
                       </div>
                     ) : (
                       <div>
-                        {match.set1_p1_games}-{match.set1_p2_games}, {match.set2_p1_games}-{match.set2_p2_games}
-                        {match.tiebreaker_winner && (
-                          <span className="ml-2 text-gray-500">
-                            (TB: {match.tiebreaker_p1_points}-{match.tiebreaker_p2_points})
+                        {isUnplayedResult(match) ? (
+                          <span className="text-gray-600">
+                            {MATCH_RESULT_LABELS[matchResultType(match)]} ({match.defaulted_player === 1 ? match.player1.name : match.player2.name})
                           </span>
+                        ) : (
+                          formatSets(match.sets)
                         )}
                         {match.has_retirement && match.retired_player && (
                           <span className="ml-2 text-red-600 text-xs font-medium">
                             (Retirement: {match.retired_player === 1 ? match.player1.name : match.player2.name})
                           </span>
                         )}
+                        <div className="text-xs text-gray-500">{getMatchFormat(match.format_id).name}</div>
                       </div>
                     )}
                   </td>
@@ -0,0 +1,153 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { MatchReportWithPlayers } from '@/lib/types/database'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { REPORT_STATUS_LABELS, describeMatchReport } from '@/lib/utils/matchReports'
+
+interface MatchReportQueueProps {
+  onReportsUpdated?: () => void  // An approval changed the ladder
+}
+
+// Results players reported that haven't become matches yet. Disputed and
+// held ones need staff; pending ones are still with the opponent, but staff
+// can settle them early.
+export default function MatchReportQueue({ onReportsUpdated }: MatchReportQueueProps) {
+  const [reports, setReports] = useState<MatchReportWithPlayers[]>([])
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const loadReports = useCallback(async () => {
+    try {
+      const { reports } = await adminRequest<{ reports: MatchReportWithPlayers[] }>('reports', 'GET')
+      setReports(reports)
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  const handleApprove = async (report: MatchReportWithPlayers) => {
+    if (!confirm(`Record "${describeMatchReport(report)}"?`)) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+    try {
+      try {
+        await adminRequest(`reports/${report.id}`, 'PATCH', { action: { type: 'approve' } })
+      } catch (error: unknown) {
+        // Out-of-range matches need a reason, as on Enter Match
+        if (!(error instanceof Error) || !error.message.startsWith('Outside the challenge range')) throw error
+        const overrideReason = prompt(`${error.message}\n\nOverride reason:`)
+        if (!overrideReason?.trim()) throw error
+        await adminRequest(`reports/${report.id}`, 'PATCH', { action: { type: 'approve' }, overrideReason: overrideReason.trim() })
+      }
+
+      setMessage('Result recorded!')
+      await loadReports()
+      if (onReportsUpdated) {
+        onReportsUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReject = async (report: MatchReportWithPlayers) => {
+    const reason = prompt('Why is this result being rejected? Both players will see your answer.')
+    if (!reason?.trim()) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+    try {
+      await adminRequest(`reports/${report.id}`, 'PATCH', { action: { type: 'reject', reason } })
+
+      setMessage('Result rejected.')
+      await loadReports()
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Reported Results</h2>
+        <p className="text-sm text-gray-600">
+          Results players reported themselves. They count once the opponent confirms; disputed results and ones the ladder
+          wouldn&apos;t take wait here for you.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mx-6 mt-4 p-3 rounded-md text-sm ${message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {message}
+        </div>
+      )}
+
+      {reports.length === 0 ? (
+        <p className="px-6 py-8 text-center text-gray-500">No results waiting.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Played</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Edit</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reports.map(report => (
+                <tr key={report.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div>{describeMatchReport(report)}</div>
+                    <div className="text-gray-500">Reported by {report.player1.name}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(report.date_played).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <div className="font-medium text-gray-900">{REPORT_STATUS_LABELS[report.status]}</div>
+                    {report.note && <div>{report.note}</div>}
+                    {report.status === 'pending' && report.confirm_by && (
+                      <div>Counts automatically from {new Date(report.confirm_by).toLocaleString()}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                    <button
+                      onClick={() => handleApprove(report)}
+                      className="text-green-600 hover:text-green-800"
+                      disabled={loading}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReject(report)}
+                      className="text-red-600 hover:text-red-800"
+                      disabled={loading}
+                    >
+                      Reject
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
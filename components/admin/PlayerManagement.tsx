@@ -1,24 +1,37 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { Player, AllowedEmail } from '@/lib/types/database'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { Player, AllowedEmail, Ladder, PlayerStatus } from '@/lib/types/database'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { PLAYER_STATUS_LABELS } from '@/lib/utils/playerStatus'
+import { ENTRY_METHOD_LABELS, EntryMethod, isOnLadder } from '@/lib/utils/roster'
+import { ROLES, ROLE_LABELS, Role, canManageRole, isStaffRole } from '@/lib/auth/roles'
 
 interface PlayerManagementProps {
   players: Player[]
   allowedEmails: AllowedEmail[]
+  ladders?: Ladder[]
+  role: Role  // The signed-in staff member's, for which access they can change
 }
 
-export default function PlayerManagement({ players: initialPlayers, allowedEmails: initialAllowedEmails }: PlayerManagementProps) {
+export default function PlayerManagement({ players: initialPlayers, allowedEmails: initialAllowedEmails, ladders = [], role }: PlayerManagementProps) {
   const [players, setPlayers] = useState<Player[]>(initialPlayers)
   
-  // Sort players by current rank
-  const sortedPlayers = players.sort((a, b) => a.current_rank - b.current_rank)
+  // Sort players by ladder, then by current rank, with anyone off the ladder last
+  const ladderIndex = (player: Player) => ladders.findIndex(ladder => ladder.id === player.ladder_id)
+  const isWithdrawn = (player: Player) => player.status === 'withdrawn'
+  const isOff = (player: Player) => !isOnLadder(player)
+  const sortedPlayers = players.sort((a, b) =>
+    Number(isOff(a)) - Number(isOff(b)) || ladderIndex(a) - ladderIndex(b) || a.current_rank - b.current_rank
+  )
+  const ladderName = (player: Player) => ladders.find(ladder => ladder.id === player.ladder_id)?.name ?? ''
   
   
   // Debug: Check for duplicate ranks in player management
   const rankCounts: { [key: number]: number } = {}
-  players.forEach(player => {
+  players.filter(isOnLadder).forEach(player => {
     rankCounts[player.current_rank] = (rankCounts[player.current_rank] || 0) + 1
   })
   
@@ -27,6 +40,8 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     console.warn('PlayerManagement: Duplicate ranks detected:', duplicateRanks.map(([rank, count]) => `Rank ${rank}: ${count} players`))
   }
   const [allowedEmails, setAllowedEmails] = useState<AllowedEmail[]>(initialAllowedEmails)
+  // Staff (allowed_emails ids) with an authenticator set up
+  const [twoFactorIds, setTwoFactorIds] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
   // const router = useRouter()
@@ -36,20 +51,38 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     name: '',
     email: '',
     notes: '',
+    ladder_id: ladders[0]?.id ?? '',
+    entry_method: 'bottom' as EntryMethod,
+    entry_position: '',
+    qualifier_opponent_id: '',
+    qualifier_won: true,
   })
 
   const [newEmail, setNewEmail] = useState({
     email: '',
-    is_admin: false,
+    role: 'player' as Role,
   })
+  // The roles the signed-in staff member may hand out
+  const grantableRoles = ROLES.filter(target => canManageRole(role, target))
 
   const [editingPlayer, setEditingPlayer] = useState<string | null>(null)
+
+  useEffect(() => {
+    adminRequest<{ enabled: string[] }>('two-factor', 'GET')
+      .then(({ enabled }) => setTwoFactorIds(enabled))
+      .catch(error => console.error('Error loading two-factor status:', error))
+  }, [])
   const [updatingPlayer, setUpdatingPlayer] = useState<string | null>(null)
-  const [editForm, setEditForm] = useState({
+  const emptyEditForm = {
     name: '',
     email: '',
     notes: '',
-  })
+    ladder_id: '',
+    status: 'active' as PlayerStatus,
+    status_from: '',  // When a new status takes effect
+    status_note: '',
+  }
+  const [editForm, setEditForm] = useState(emptyEditForm)
 
   const handleAddPlayer = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -57,50 +90,25 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     setMessage('')
 
     try {
-      // Get next rank number by querying the database for the actual maximum rank
-      const { data: currentPlayers, error: countError } = await supabase
-        .from('players')
-        .select('current_rank')
-        .order('current_rank', { ascending: false })
-        .limit(1)
-      
-      if (countError) {
-        throw countError
-      }
-      
-      const nextRank = currentPlayers && currentPlayers.length > 0 
-        ? currentPlayers[0].current_rank + 1 
-        : 1
-
-      const { error } = await supabase
-        .from('players')
-        .insert([{
+      // The server gives the player the next rank on their ladder, enters them
+      // the way the admin chose and grants their email access
+      const { allowedEmail } = await adminRequest<{ allowedEmail: AllowedEmail }>('players', 'POST', {
+        player: {
           name: newPlayer.name,
           email: newPlayer.email,
-          initial_rank: nextRank,
-          current_rank: nextRank,
           notes: newPlayer.notes,
-        }])
-
-      if (error) {
-        throw error
-      }
-
-      // Also add to allowed emails if not already there
-      const { error: emailError } = await supabase
-        .from('allowed_emails')
-        .insert([{
-          email: newPlayer.email,
-          is_admin: false,
-        }])
-
-      // Ignore error if email already exists
-      if (emailError && !emailError.message.includes('duplicate')) {
-        throw emailError
-      }
+          ladder_id: newPlayer.ladder_id || null,
+        },
+        entry: {
+          method: newPlayer.entry_method,
+          position: parseInt(newPlayer.entry_position),
+          opponentId: newPlayer.qualifier_opponent_id,
+          won: newPlayer.qualifier_won,
+        },
+      })
 
       setMessage('Player added successfully!')
-      setNewPlayer({ name: '', email: '', notes: '' })
+      setNewPlayer({ ...newPlayer, name: '', email: '', notes: '', entry_position: '', qualifier_opponent_id: '' })
       
       // Refresh the players data to show updated rankings
       const { data: updatedPlayers, error: fetchError } = await supabase
@@ -116,17 +124,10 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
         setPlayers(updatedPlayers)
       }
       
-      // Add to allowed emails if not already there
-      const emailExists = allowedEmails.find(e => e.email === newPlayer.email)
-      if (!emailExists) {
-        const newEmailData = {
-          id: crypto.randomUUID(), // Temporary ID
-          email: newPlayer.email,
-          is_admin: false,
-          created_at: new Date().toISOString()
-        }
-        setAllowedEmails([...allowedEmails, newEmailData])
-      }
+      // The email's access as the server left it: new, raised from viewer, or unchanged
+      setAllowedEmails(current => current.some(e => e.id === allowedEmail.id)
+        ? current.map(e => e.id === allowedEmail.id ? allowedEmail : e)
+        : [...current, allowedEmail])
 
     } catch (error: unknown) {
       console.error('Error adding player:', error)
@@ -143,25 +144,22 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     setMessage('')
 
     try {
-      const { error } = await supabase
-        .from('allowed_emails')
-        .insert([newEmail])
-
-      if (error) {
-        throw error
-      }
-
-      setMessage('Email access granted successfully!')
-      setNewEmail({ email: '', is_admin: false })
+      const { allowedEmail, invited } = await adminRequest<{ allowedEmail: AllowedEmail, invited: boolean }>('allowed-emails', 'POST', {
+        email: newEmail.email,
+        role: newEmail.role,
+      })
+
+      setMessage(
+        !isStaffRole(allowedEmail.role)
+          ? 'Email access granted successfully!'
+          : invited
+          ? `${ROLE_LABELS[allowedEmail.role]} access granted! A link to set their password has been emailed to them.`
+          : `Error: ${ROLE_LABELS[allowedEmail.role]} access was granted, but the password link could not be emailed. Use "Send password link" to try again.`
+      )
+      setNewEmail({ email: '', role: 'player' })
       
       // Update local state to show changes immediately
-      const newEmailData = {
-        id: crypto.randomUUID(), // Temporary ID
-        email: newEmail.email,
-        is_admin: newEmail.is_admin,
-        created_at: new Date().toISOString()
-      }
-      setAllowedEmails([...allowedEmails, newEmailData])
+      setAllowedEmails([...allowedEmails, allowedEmail])
 
     } catch (error: unknown) {
       setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
@@ -170,8 +168,24 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     }
   }
 
-
-
+  const handleChangeRole = async (emailEntry: AllowedEmail, newRole: Role) => {
+    setLoading(true)
+    setMessage('')
+    try {
+      const { allowedEmail, invited } = await adminRequest<{ allowedEmail: AllowedEmail, invited: boolean }>(`allowed-emails/${emailEntry.id}`, 'PATCH', {
+        role: newRole,
+      })
+
+      setMessage(invited
+        ? `${emailEntry.email} is now ${ROLE_LABELS[allowedEmail.role]}. A link to set their password has been emailed to them.`
+        : `${emailEntry.email} is now ${ROLE_LABELS[allowedEmail.role]}.`)
+      setAllowedEmails(allowedEmails.map(e => e.id === allowedEmail.id ? allowedEmail : e))
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
 
   const handleDeleteEmail = async (emailId: string) => {
     if (!confirm('Are you sure you want to revoke access for this email?')) {
@@ -180,14 +194,7 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
 
     setLoading(true)
     try {
-      const { error } = await supabase
-        .from('allowed_emails')
-        .delete()
-        .eq('id', emailId)
-
-      if (error) {
-        throw error
-      }
+      await adminRequest(`allowed-emails/${emailId}`, 'DELETE')
 
       setMessage('Email access revoked successfully!')
       
@@ -201,65 +208,92 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     }
   }
 
+  const handleResetTwoFactor = async (emailEntry: AllowedEmail) => {
+    if (!confirm(`Reset two-factor sign-in for ${emailEntry.email}? They will set up a new authenticator the next time they sign in.`)) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      await adminRequest(`admins/${emailEntry.id}/two-factor`, 'DELETE')
+
+      setMessage(`Two-factor sign-in reset for ${emailEntry.email}.`)
+      setTwoFactorIds(twoFactorIds.filter(id => id !== emailEntry.id))
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePasswordLink = async (emailEntry: AllowedEmail) => {
+    setLoading(true)
+    try {
+      const { sent } = await adminRequest<{ sent: 'invite' | 'reset' }>(`admins/${emailEntry.id}/password-link`, 'POST')
+
+      setMessage(sent === 'invite'
+        ? `A link to set their password has been emailed to ${emailEntry.email}.`
+        : `A password reset link has been emailed to ${emailEntry.email}. Their current password works until they use it.`)
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleEditPlayer = (player: Player) => {
     setEditingPlayer(player.id)
     setEditForm({
       name: player.name,
       email: player.email,
       notes: player.notes || '',
+      ladder_id: player.ladder_id ?? '',
+      status: player.status ?? 'active',
+      status_from: new Date().toISOString().split('T')[0],
+      status_note: '',
     })
   }
 
   const handleSaveEdit = async () => {
     if (!editingPlayer) return
 
+    const withdrawing = players.find(p => p.id === editingPlayer)
+    if (withdrawing && editForm.status === 'withdrawn' && !isWithdrawn(withdrawing) &&
+        !confirm(`${withdrawing.name} will leave the ladder and everyone below moves up. This can't be undone. Continue?`)) {
+      return
+    }
+
     setLoading(true)
     try {
-      // Update player info
-      const { error: playerError } = await supabase
-        .from('players')
-        .update({
+      // The server saves the details and carries access over to a new email.
+      // A new ladder is a move between divisions, recorded on both ladders;
+      // status changes are dated, and withdrawing takes the player off the ladder.
+      await adminRequest(`players/${editingPlayer}`, 'PATCH', {
+        player: {
           name: editForm.name,
           email: editForm.email,
           notes: editForm.notes,
-        })
-        .eq('id', editingPlayer)
-
-      if (playerError) {
-        throw playerError
-      }
-
-      // Update allowed_emails table if email changed
-      const playerBeingEdited = players.find(p => p.id === editingPlayer)
-      if (playerBeingEdited && playerBeingEdited.email !== editForm.email) {
-        // Update the allowed_emails entry
-        const { error: emailError } = await supabase
-          .from('allowed_emails')
-          .update({ email: editForm.email })
-          .eq('email', playerBeingEdited.email)
-
-        if (emailError) {
-          // If update fails, try to insert new email entry
-          const { error: insertError } = await supabase
-            .from('allowed_emails')
-            .insert([{ email: editForm.email, is_admin: false }])
-
-          if (insertError) {
-            console.warn('Could not update allowed_emails:', insertError)
-          }
-        }
-      }
+          ladder_id: editForm.ladder_id || null,
+          status: editForm.status,
+          status_from: editForm.status_from,
+          status_note: editForm.status_note,
+        },
+      })
 
       setMessage('Player updated successfully!')
       setEditingPlayer(null)
-      setEditForm({ name: '', email: '', notes: '' })
+      setEditForm(emptyEditForm)
       
-      // Update local state to show changes immediately
-      setPlayers(players.map(p => 
-        p.id === editingPlayer 
-          ? { ...p, name: editForm.name, email: editForm.email, notes: editForm.notes }
-          : p
-      ))
+      // Reload so moved players show their new ladder and everyone's new rank
+      const { data: updatedPlayers, error: fetchError } = await supabase
+        .from('players')
+        .select('*')
+        .order('current_rank', { ascending: true })
+
+      if (fetchError) {
+        throw fetchError
+      }
+      setPlayers(updatedPlayers || [])
       
       // Update allowed emails if email changed
       const editedPlayer = players.find(p => p.id === editingPlayer)
@@ -278,9 +312,52 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
     }
   }
 
+  const handleRemovePlayer = async (player: Player) => {
+    if (!confirm(`Take ${player.name} off the ladder? Everyone below moves up one. Their results stay in the history, and they can be added back later.`)) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      await adminRequest(`players/${player.id}/ladder`, 'DELETE')
+      await reloadPlayers()
+      setMessage(`${player.name} has been taken off the ladder.`)
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Removed players come back in at the bottom
+  const handleAddBack = async (player: Player) => {
+    setLoading(true)
+    try {
+      await adminRequest(`players/${player.id}/ladder`, 'POST', { entry: { method: 'bottom' } })
+      await reloadPlayers()
+      setMessage(`${player.name} is back on the ladder.`)
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const reloadPlayers = async () => {
+    const { data: updatedPlayers, error: fetchError } = await supabase
+      .from('players')
+      .select('*')
+      .order('current_rank', { ascending: true })
+
+    if (fetchError) {
+      throw fetchError
+    }
+    setPlayers(updatedPlayers || [])
+  }
+
   const handleCancelEdit = () => {
     setEditingPlayer(null)
-    setEditForm({ name: '', email: '', notes: '' })
+    setEditForm(emptyEditForm)
   }
 
     const handleUpdatePlayerRank = async (playerId: string, newRank: number) => {
@@ -296,14 +373,9 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
 
       console.log(`Updating ${playerToUpdate.name} from rank ${oldRank} to ${newRank}`)
 
-      // Record the rank adjustment for the main player
-      const { recordManualAdjustment, rebuildAllRankings } = await import('@/lib/utils/events')
-      await recordManualAdjustment(supabase, playerId, oldRank, newRank, 'Manual adjustment by admin')
-      
-      setMessage('Updating all player positions...')
-      
-      // Rebuild all rankings from initial state to apply this adjustment
-      await rebuildAllRankings(supabase)
+      // The server records the adjustment and rebuilds all rankings from
+      // initial state to apply it
+      await adminRequest(`players/${playerId}/rank`, 'POST', { newRank, reason: 'Manual adjustment by admin' })
 
       // Fetch updated players from database to get the correct rankings
       const { data: updatedPlayers, error: fetchError } = await supabase
@@ -360,6 +432,69 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
               required
             />
           </div>
+          {ladders.length > 1 && (
+            <select
+              value={newPlayer.ladder_id}
+              onChange={(e) => setNewPlayer({ ...newPlayer, ladder_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {ladders.map(ladder => (
+                <option key={ladder.id} value={ladder.id}>{ladder.name}</option>
+              ))}
+            </select>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Joins the ladder at</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {(Object.keys(ENTRY_METHOD_LABELS) as EntryMethod[]).map(method => (
+                <button
+                  key={method}
+                  type="button"
+                  onClick={() => setNewPlayer({ ...newPlayer, entry_method: method })}
+                  className={`text-left p-3 border rounded-md ${
+                    newPlayer.entry_method === method ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900">{ENTRY_METHOD_LABELS[method].name}</div>
+                  <div className="text-xs text-gray-600">{ENTRY_METHOD_LABELS[method].description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+          {newPlayer.entry_method === 'position' && (
+            <input
+              type="number"
+              min="1"
+              placeholder="Position"
+              value={newPlayer.entry_position}
+              onChange={(e) => setNewPlayer({ ...newPlayer, entry_position: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          )}
+          {newPlayer.entry_method === 'qualifier' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <select
+                value={newPlayer.qualifier_opponent_id}
+                onChange={(e) => setNewPlayer({ ...newPlayer, qualifier_opponent_id: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              >
+                <option value="">Qualifying opponent</option>
+                {playersOnLadder(players, newPlayer.ladder_id || undefined).filter(isOnLadder).map(player => (
+                  <option key={player.id} value={player.id}>#{player.current_rank} {player.name}</option>
+                ))}
+              </select>
+              <select
+                value={newPlayer.qualifier_won ? 'won' : 'lost'}
+                onChange={(e) => setNewPlayer({ ...newPlayer, qualifier_won: e.target.value === 'won' })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="won">New player won</option>
+                <option value="lost">New player lost</option>
+              </select>
+            </div>
+          )}
           <div>
             <textarea
               placeholder="Admin notes (optional)"
@@ -393,9 +528,17 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Rank
                 </th>
+                {ladders.length > 1 && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ladder
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Name
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Email
                 </th>
@@ -411,6 +554,9 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
               {sortedPlayers.map((player) => (
                 <tr key={player.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
+                    {isOff(player) ? (
+                      <span className="text-sm text-gray-400">{isWithdrawn(player) ? '–' : 'Off ladder'}</span>
+                    ) : (
                     <div className="flex items-center space-x-2">
                       <span className="text-sm font-medium text-gray-900">
                         #{player.current_rank}
@@ -423,7 +569,7 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                           className="text-xs border border-gray-300 rounded px-1 py-1"
                           disabled={updatingPlayer === player.id}
                         >
-                          {Array.from({ length: Math.max(...players.map(p => p.current_rank)) }, (_, i) => i + 1).map(rank => (
+                          {Array.from({ length: Math.max(...playersOnLadder(players, player.ladder_id).filter(isOnLadder).map(p => p.current_rank)) }, (_, i) => i + 1).map(rank => (
                             <option key={rank} value={rank}>#{rank}</option>
                           ))}
                         </select>
@@ -434,7 +580,25 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                         )}
                       </div>
                     </div>
+                    )}
                   </td>
+                  {ladders.length > 1 && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {editingPlayer === player.id ? (
+                        <select
+                          value={editForm.ladder_id}
+                          onChange={(e) => setEditForm({ ...editForm, ladder_id: e.target.value })}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          {ladders.map(ladder => (
+                            <option key={ladder.id} value={ladder.id}>{ladder.name}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        ladderName(player)
+                      )}
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {editingPlayer === player.id ? (
                       <input
@@ -447,6 +611,43 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                       player.name
                     )}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {editingPlayer === player.id && !isWithdrawn(player) ? (
+                      <div className="space-y-1">
+                        <select
+                          value={editForm.status}
+                          onChange={(e) => setEditForm({ ...editForm, status: e.target.value as PlayerStatus })}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          {(Object.keys(PLAYER_STATUS_LABELS) as PlayerStatus[]).map(status => (
+                            <option key={status} value={status}>{PLAYER_STATUS_LABELS[status].name}</option>
+                          ))}
+                        </select>
+                        {editForm.status !== (player.status ?? 'active') && (
+                          <>
+                            <input
+                              type="date"
+                              value={editForm.status_from}
+                              onChange={(e) => setEditForm({ ...editForm, status_from: e.target.value })}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                              title="Takes effect from"
+                            />
+                            <input
+                              type="text"
+                              value={editForm.status_note}
+                              onChange={(e) => setEditForm({ ...editForm, status_note: e.target.value })}
+                              placeholder="Note (optional)"
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </>
+                        )}
+                      </div>
+                    ) : (
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${PLAYER_STATUS_LABELS[player.status ?? 'active'].badge}`}>
+                        {PLAYER_STATUS_LABELS[player.status ?? 'active'].name}
+                      </span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {editingPlayer === player.id ? (
                       <input
@@ -507,6 +708,23 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                         >
                           Edit
                         </button>
+                        {isOnLadder(player) ? (
+                          <button
+                            onClick={() => handleRemovePlayer(player)}
+                            className="text-red-600 hover:text-red-800"
+                            disabled={loading}
+                          >
+                            Remove
+                          </button>
+                        ) : !isWithdrawn(player) && (
+                          <button
+                            onClick={() => handleAddBack(player)}
+                            className="text-green-600 hover:text-green-800"
+                            disabled={loading}
+                          >
+                            Add back
+                          </button>
+                        )}
                       </div>
                     )}
                   </td>
@@ -530,15 +748,16 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
             className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             required
           />
-          <label className="flex items-center space-x-2">
-            <input
-              type="checkbox"
-              checked={newEmail.is_admin}
-              onChange={(e) => setNewEmail({ ...newEmail, is_admin: e.target.checked })}
-              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-            />
-            <span className="text-sm text-gray-700">Admin Access</span>
-          </label>
+          <select
+            value={newEmail.role}
+            onChange={(e) => setNewEmail({ ...newEmail, role: e.target.value as Role })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Role"
+          >
+            {grantableRoles.map(target => (
+              <option key={target} value={target}>{ROLE_LABELS[target]}</option>
+            ))}
+          </select>
           <button
             type="submit"
             disabled={loading}
@@ -562,7 +781,10 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                   Email
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Access Level
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Two-Factor
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Edit
@@ -576,20 +798,65 @@ export default function PlayerManagement({ players: initialPlayers, allowedEmail
                     {emailEntry.email}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                      emailEntry.is_admin ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {emailEntry.is_admin ? 'Admin' : 'Viewer'}
-                    </span>
+                    {canManageRole(role, emailEntry.role) ? (
+                      <select
+                        value={emailEntry.role}
+                        onChange={(e) => handleChangeRole(emailEntry, e.target.value as Role)}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        aria-label={`Role for ${emailEntry.email}`}
+                        disabled={loading}
+                      >
+                        {grantableRoles.map(target => (
+                          <option key={target} value={target}>{ROLE_LABELS[target]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        isStaffRole(emailEntry.role) ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {ROLE_LABELS[emailEntry.role]}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    <button
-                      onClick={() => handleDeleteEmail(emailEntry.id)}
-                      className="text-red-600 hover:text-red-800"
-                      disabled={loading}
-                    >
-                      Revoke
-                    </button>
+                    {isStaffRole(emailEntry.role) && (twoFactorIds.includes(emailEntry.id) ? (
+                      <span className="flex items-center space-x-3">
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">On</span>
+                        {canManageRole(role, emailEntry.role) && (
+                          <button
+                            onClick={() => handleResetTwoFactor(emailEntry)}
+                            className="text-orange-600 hover:text-orange-800"
+                            disabled={loading}
+                          >
+                            Reset
+                          </button>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">Set up at next sign-in</span>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-3">
+                    {canManageRole(role, emailEntry.role) && (
+                      <>
+                        {isStaffRole(emailEntry.role) && (
+                          <button
+                            onClick={() => handlePasswordLink(emailEntry)}
+                            className="text-blue-600 hover:text-blue-800"
+                            disabled={loading}
+                          >
+                            Send password link
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDeleteEmail(emailEntry.id)}
+                          className="text-red-600 hover:text-red-800"
+                          disabled={loading}
+                        >
+                          Revoke
+                        </button>
+                      </>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -1,9 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { createClient } from '@/lib/supabase/client'
 import { Player } from '@/lib/types/database'
-import { recordManualAdjustment, rebuildAllRankings } from '@/lib/utils/events'
+import { adminRequest } from '@/lib/auth/adminApi'
 
 interface RankingManagerProps {
   players: Player[]
@@ -15,7 +14,6 @@ export default function RankingManager({ players }: RankingManagerProps) {
   const [selectedPlayer, setSelectedPlayer] = useState('')
   const [newRank, setNewRank] = useState('')
   const [reason, setReason] = useState('')
-  const supabase = createClient()
 
   const sortedPlayers = players.sort((a, b) => a.current_rank - b.current_rank)
 
@@ -34,18 +32,15 @@ export default function RankingManager({ players }: RankingManagerProps) {
         throw new Error('Player not found')
       }
 
-      const oldRank = player.current_rank
       const targetRank = parseInt(newRank)
 
       if (targetRank < 1 || targetRank > players.length) {
         throw new Error(`Rank must be between 1 and ${players.length}`)
       }
 
-      // Record the manual adjustment event
-      await recordManualAdjustment(supabase, selectedPlayer, oldRank, targetRank, reason || 'Manual adjustment')
-
-      // Rebuild all rankings from initial state to apply this adjustment
-      await rebuildAllRankings(supabase)
+      // The server records the manual adjustment and rebuilds all rankings
+      // from initial state to apply it
+      await adminRequest(`players/${selectedPlayer}/rank`, 'POST', { newRank: targetRank, reason: reason || undefined })
 
       setMessage('Player position updated successfully!')
       setSelectedPlayer('')
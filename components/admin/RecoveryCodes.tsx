@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+import { adminRequest } from '@/lib/auth/adminApi'
+
+// Lets the signed-in staff member replace their two-factor recovery codes
+export default function RecoveryCodes() {
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const handleNewRecoveryCodes = async () => {
+    if (!confirm('Make new recovery codes? Your old ones will stop working.')) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+    try {
+      const { recoveryCodes } = await adminRequest<{ recoveryCodes: string[] }>('two-factor/recovery-codes', 'POST')
+
+      setRecoveryCodes(recoveryCodes)
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Recovery Codes</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Each recovery code signs you in once if you lose your phone. Make new ones if you have used some up.
+      </p>
+
+      {message && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 text-red-700">
+          {message}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-800 mb-3">
+            <strong>Save these recovery codes.</strong> They won&apos;t be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleNewRecoveryCodes}
+        disabled={loading}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {loading ? 'Making codes...' : 'New Recovery Codes'}
+      </button>
+    </div>
+  )
+}
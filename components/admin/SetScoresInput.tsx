@@ -0,0 +1,174 @@
+'use client'
+
+import { MatchSet } from '@/lib/types/database'
+import { MatchFormat, isMatchTiebreakSet, isTiebreakSet, maxSetGames, visibleSetCount } from '@/lib/utils/matchFormats'
+import { ScoreErrors } from '@/lib/utils/scoreValidation'
+
+interface SetScoresInputProps {
+  format: MatchFormat
+  sets: MatchSet[]  // One entry per possible set; unplayed sets stay 0-0
+  onChange: (sets: MatchSet[]) => void
+  errors?: ScoreErrors  // From validateScore, keyed by set and side
+  compact?: boolean // Inline layout for the match history table
+}
+
+// Empty score slots for every set the format allows
+export function emptySets(format: MatchFormat): MatchSet[] {
+  return Array.from({ length: format.bestOf }, () => ({ p1: 0, p2: 0 }))
+}
+
+// Fills the form's slots from a stored score
+export function setsForForm(format: MatchFormat, sets: MatchSet[]): MatchSet[] {
+  return emptySets(format).map((empty, index) => {
+    const set = sets[index]
+    if (!set) return empty
+    return set.tiebreak ? { p1: set.p1, p2: set.p2, tiebreak: { ...set.tiebreak } } : { p1: set.p1, p2: set.p2 }
+  })
+}
+
+export default function SetScoresInput({ format, sets, onChange, errors = {}, compact = false }: SetScoresInputProps) {
+  const gameOptions = Array.from({ length: maxSetGames(format) + 1 }, (_, games) => games)
+  const shown = visibleSetCount(format, sets)
+
+  const updateSet = (index: number, side: 'p1' | 'p2', value: number) => {
+    const next = sets.map((set, i) => {
+      if (i !== index) return set
+      const updated: MatchSet = { ...set, [side]: value }
+      // Tiebreak points only belong to a set that went to a tiebreak
+      if (!isTiebreakSet(format, updated)) delete updated.tiebreak
+      return updated
+    })
+    // Sets after the match is decided are cleared rather than left hidden
+    const stillShown = visibleSetCount(format, next)
+    onChange(next.map((set, i) => i < stillShown ? set : { p1: 0, p2: 0 }))
+  }
+
+  // Blank tiebreak points count as 0; clearing both drops the tiebreak
+  const updateTiebreak = (index: number, side: 'p1' | 'p2', raw: string) => {
+    onChange(sets.map((set, i) => {
+      if (i !== index) return set
+      const updated: MatchSet = {
+        ...set,
+        tiebreak: { p1: set.tiebreak?.p1 ?? 0, p2: set.tiebreak?.p2 ?? 0, [side]: parseInt(raw) || 0 }
+      }
+      if (raw === '' && updated.tiebreak?.p1 === 0 && updated.tiebreak?.p2 === 0) delete updated.tiebreak
+      return updated
+    }))
+  }
+
+  const renderTiebreak = (index: number, className: string) => {
+    const set = sets[index]
+    if (!set || isMatchTiebreakSet(format, index) || !isTiebreakSet(format, set)) return null
+    const inputClassName = `${className} ${errors[`sets.${index}.tiebreak`] ? 'border-red-500' : 'border-gray-300'}`
+    return (
+      <div className="flex space-x-2 items-center">
+        <span className="text-xs text-gray-500">Tiebreak points:</span>
+        {(['p1', 'p2'] as const).map((side, position) => (
+          <span key={side} className="flex items-center space-x-2">
+            {position === 1 && <span>-</span>}
+            <input
+              type="number"
+              min="0"
+              value={set.tiebreak?.[side] ?? ''}
+              onChange={(e) => updateTiebreak(index, side, e.target.value)}
+              className={inputClassName}
+            />
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  const renderScore = (index: number, side: 'p1' | 'p2', baseClassName: string) => {
+    const value = sets[index]?.[side] ?? 0
+    const invalid = errors[`sets.${index}.${side}`] || errors[`sets.${index}`]
+    const className = `${baseClassName} ${invalid ? 'border-red-500' : 'border-gray-300'}`
+    if (isMatchTiebreakSet(format, index)) {
+      return (
+        <input
+          type="number"
+          min="0"
+          value={value}
+          onChange={(e) => updateSet(index, side, parseInt(e.target.value) || 0)}
+          className={className}
+        />
+      )
+    }
+    return (
+      <select
+        value={value}
+        onChange={(e) => updateSet(index, side, parseInt(e.target.value))}
+        className={className}
+      >
+        {gameOptions.map(num => (
+          <option key={num} value={num}>{num}</option>
+        ))}
+      </select>
+    )
+  }
+
+  // Errors for one set, whichever field they were reported against
+  const setErrors = (index: number) =>
+    [errors[`sets.${index}`], errors[`sets.${index}.p1`], errors[`sets.${index}.p2`], errors[`sets.${index}.tiebreak`]].filter(Boolean)
+
+  const setLabel = (index: number) =>
+    isMatchTiebreakSet(format, index) ? `Match tiebreak (to ${format.matchTiebreakPoints})` : `Set ${index + 1}`
+
+  if (compact) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: shown }, (_, index) => (
+          <div key={index} className="space-y-1">
+            <div className={`flex space-x-2 items-center ${isMatchTiebreakSet(format, index) ? 'bg-yellow-50 p-2 rounded' : ''}`}>
+              <span className="text-xs text-gray-500">{isMatchTiebreakSet(format, index) ? 'TB:' : `Set ${index + 1}:`}</span>
+              {renderScore(index, 'p1', 'w-16 px-2 py-1 text-sm border rounded')}
+              <span>-</span>
+              {renderScore(index, 'p2', 'w-16 px-2 py-1 text-sm border rounded')}
+            </div>
+            {renderTiebreak(index, 'w-14 px-2 py-1 text-sm border rounded')}
+          </div>
+        ))}
+        {Array.from({ length: shown }, (_, index) => setErrors(index).map(error => (
+          <p key={`${index}-${error}`} className="text-xs text-red-600 whitespace-normal">{error}</p>
+        )))}
+        {errors.sets && (
+          <p className="text-xs text-red-600 whitespace-normal">{errors.sets}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {Array.from({ length: shown }, (_, index) => (
+        <div
+          key={index}
+          className={`space-y-4 ${isMatchTiebreakSet(format, index) ? 'bg-yellow-50 p-4 rounded-lg' : ''}`}
+        >
+          <h3 className="text-lg font-medium text-gray-900">{setLabel(index)}</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Player 1 {isMatchTiebreakSet(format, index) ? 'Points' : 'Games'}
+              </label>
+              {renderScore(index, 'p1', 'w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Player 2 {isMatchTiebreakSet(format, index) ? 'Points' : 'Games'}
+              </label>
+              {renderScore(index, 'p2', 'w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500')}
+            </div>
+          </div>
+          {renderTiebreak(index, 'w-20 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500')}
+          {setErrors(index).map(error => (
+            <p key={error} className="text-sm text-red-600">{error}</p>
+          ))}
+        </div>
+      ))}
+      {errors.sets && (
+        <p className="md:col-span-2 text-sm text-red-600">{errors.sets}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { adminRequest } from '@/lib/auth/adminApi'
+import type { AttemptAction, AttemptOutcome, AuthAttempt } from '@/lib/throttle/store'
+
+const ACTION_LABELS: Record<AttemptAction, string> = {
+  login_link: 'Sign-in link',
+  admin_password: 'Admin password',
+  two_factor: 'Authenticator code',
+}
+
+const OUTCOME_BADGES: Record<AttemptOutcome, { label: string, className: string }> = {
+  success: { label: 'Success', className: 'bg-green-100 text-green-800' },
+  failure: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  throttled: { label: 'Blocked', className: 'bg-orange-100 text-orange-800' },
+}
+
+// Recent sign-in attempts, including the reasons failures aren't told
+export default function SignInLog() {
+  const [attempts, setAttempts] = useState<AuthAttempt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    adminRequest<{ attempts: AuthAttempt[] }>('sign-in-attempts', 'GET')
+      .then(data => setAttempts(data.attempts))
+      .catch((error: unknown) => setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`))
+      .finally(() => setLoading(false))
+  }, [])
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Sign-in Log</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Recent sign-in attempts, newest first. Repeated failures from one email or IP are blocked for a while.
+        </p>
+      </div>
+
+      {message && (
+        <div className="px-6 py-3 text-sm text-red-700 bg-red-50">{message}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Attempt
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                IP
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Result
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {attempts.map((attempt, index) => (
+              <tr key={`${attempt.created_at}-${index}`} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {new Date(attempt.created_at).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {ACTION_LABELS[attempt.action] ?? attempt.action}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {attempt.email ?? '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {attempt.ip}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${OUTCOME_BADGES[attempt.outcome]?.className ?? 'bg-gray-100 text-gray-800'}`}>
+                    {OUTCOME_BADGES[attempt.outcome]?.label ?? attempt.outcome}
+                  </span>
+                  {attempt.reason && <span className="ml-2">{attempt.reason}</span>}
+                </td>
+              </tr>
+            ))}
+            {!loading && attempts.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No sign-in attempts yet
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Player, TeamWithPlayers, MatchWithTeams } from '@/lib/types/database'
+import { fetchDoublesMatches } from '@/lib/supabase/teams'
+import { fetchActiveSeason } from '@/lib/supabase/seasons'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { defaultTeamName } from '@/lib/utils/doubles'
+import { formatSets } from '@/lib/utils/matchFormats'
+import { MATCH_RESULT_LABELS, isUnplayedResult, matchResultType } from '@/lib/utils/results'
+
+interface TeamManagementProps {
+  players: Player[]
+  teams: TeamWithPlayers[]
+  onTeamsUpdated?: () => void
+}
+
+// Doubles teams and their matches. Doubles results are entered on the Enter Match tab.
+export default function TeamManagement({ players, teams, onTeamsUpdated }: TeamManagementProps) {
+  const [newTeam, setNewTeam] = useState({ player1_id: '', player2_id: '', name: '' })
+  const [matches, setMatches] = useState<MatchWithTeams[]>([])
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const supabase = useMemo(() => createClient(), [])
+
+  const loadMatches = useCallback(async () => {
+    try {
+      // Closed seasons are read-only, so only the active season's matches are listed
+      const season = await fetchActiveSeason(supabase)
+      setMatches(await fetchDoublesMatches(supabase, { seasonId: season?.id }))
+    } catch (error) {
+      console.error('Error loading doubles matches:', error)
+    }
+  }, [supabase])
+
+  // Team changes can remove matches, so reload whenever the teams do
+  useEffect(() => {
+    loadMatches()
+  }, [loadMatches, teams])
+
+  const playerName = (playerId: string) => players.find(player => player.id === playerId)?.name ?? ''
+
+  const handleAddTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage('')
+
+    try {
+      if (!newTeam.player1_id || !newTeam.player2_id) {
+        throw new Error('Please select both players')
+      }
+
+      const name = newTeam.name.trim() || defaultTeamName(
+        { name: playerName(newTeam.player1_id) },
+        { name: playerName(newTeam.player2_id) }
+      )
+      await adminRequest('teams', 'POST', { name, player1_id: newTeam.player1_id, player2_id: newTeam.player2_id })
+
+      setMessage('Team added successfully!')
+      setNewTeam({ player1_id: '', player2_id: '', name: '' })
+      if (onTeamsUpdated) {
+        onTeamsUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteTeam = async (team: TeamWithPlayers) => {
+    if (!confirm(`Delete ${team.name}? Their doubles matches are deleted too, and the doubles ladder is recalculated.`)) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('Deleting team...')
+    try {
+      // The server deletes the team and rebuilds the doubles ladder
+      await adminRequest(`teams/${team.id}`, 'DELETE')
+
+      setMessage('Team deleted successfully!')
+      if (onTeamsUpdated) {
+        onTeamsUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteMatch = async (matchId: string) => {
+    if (!confirm('Are you sure you want to delete this match? This will update all team positions.')) {
+      return
+    }
+
+    setLoading(true)
+    setMessage('Deleting match...')
+    try {
+      // The server deletes the match and its event and recalculates the
+      // doubles rankings in one transaction
+      await adminRequest(`matches/${matchId}`, 'DELETE')
+
+      setMessage('Match deleted successfully! Team positions have been updated.')
+      setMatches(matches.filter(match => match.id !== matchId))
+      if (onTeamsUpdated) {
+        onTeamsUpdated()
+      }
+    } catch (error: unknown) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const describeResult = (match: MatchWithTeams) => {
+    if (isUnplayedResult(match)) {
+      const against = match.defaulted_player === 1 ? match.team1 : match.team2
+      return `${MATCH_RESULT_LABELS[matchResultType(match)]} (${against?.name ?? 'Unknown'})`
+    }
+    return formatSets(match.sets)
+  }
+
+  const sortedPlayers = [...players].sort((a, b) => a.name.localeCompare(b.name))
+
+  return (
+    <div className="space-y-6">
+      {message && !loading && (
+        <div className={`p-4 rounded-md ${
+          message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Add Doubles Team</h2>
+        <form onSubmit={handleAddTeam} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(['player1_id', 'player2_id'] as const).map((field, index) => (
+              <select
+                key={field}
+                value={newTeam[field]}
+                onChange={(e) => setNewTeam({ ...newTeam, [field]: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              >
+                <option value="">Select Player {index + 1}</option>
+                {sortedPlayers.map(player => (
+                  <option key={player.id} value={player.id}>{player.name}</option>
+                ))}
+              </select>
+            ))}
+          </div>
+          <input
+            type="text"
+            placeholder="Team name (optional, defaults to both players' names)"
+            value={newTeam.name}
+            onChange={(e) => setNewTeam({ ...newTeam, name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Saving...' : 'Add Team'}
+          </button>
+          <p className="text-sm text-gray-600">New teams start at the bottom of the doubles ladder.</p>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Doubles Ladder</h2>
+        </div>
+        {teams.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No teams yet.</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {teams.map(team => (
+              <li key={team.id} className="px-6 py-3 flex items-center justify-between">
+                <div>
+                  <span className="text-sm font-medium text-gray-900">#{team.current_rank} {team.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {team.player1?.name} &amp; {team.player2?.name}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleDeleteTeam(team)}
+                  disabled={loading}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Doubles Matches</h2>
+          <p className="text-sm text-gray-600 mt-1">Deleting a match recalculates the doubles ladder.</p>
+        </div>
+        {matches.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">No doubles matches yet.</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {matches.map(match => {
+              const winner = match.match_winner === 1 ? match.team1 : match.team2
+              return (
+                <li key={match.id} className="px-6 py-3 flex items-center justify-between">
+                  <div className="text-sm text-gray-900">
+                    <span className="text-gray-500 mr-3">{new Date(match.date_played).toLocaleDateString()}</span>
+                    {match.team1?.name} vs {match.team2?.name}
+                    <span className="ml-3 text-gray-600">{describeResult(match)}</span>
+                    <span className="ml-3 text-green-700">Winner: {winner?.name}</span>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteMatch(match.id)}
+                    disabled={loading}
+                    className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,16 +2,22 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { fetchLadderData, replayLadderData } from '@/lib/supabase/rankings'
+import { adminRequest } from '@/lib/auth/adminApi'
+import { LadderMovement } from '@/lib/utils/events'
+import { fetchActiveSeason } from '@/lib/supabase/seasons'
 
 interface RankingEvent {
   id: string
-  event_type: 'match' | 'manual_adjustment'
+  event_type: 'match' | 'manual_adjustment' | 'forfeit' | 'inactivity_penalty' | 'promotion' | 'relegation' | 'player_withdrawn' | 'player_joined' | 'player_removed'
   event_date: string
   match_id?: string
   player_id?: string
   old_rank?: number
   new_rank?: number
   reason?: string
+  range_override?: boolean
+  override_reason?: string | null
   created_at: string
   matches?: {
     id: string
@@ -27,8 +33,25 @@ interface RankingEvent {
   }
 }
 
-export default function TransactionLogView() {
+const EVENT_TYPE_BADGES: Record<RankingEvent['event_type'], { label: string; className: string }> = {
+  match: { label: 'Match Result', className: 'bg-blue-100 text-blue-800' },
+  manual_adjustment: { label: 'Position Change', className: 'bg-amber-100 text-amber-800' },
+  forfeit: { label: 'Forfeit', className: 'bg-red-100 text-red-800' },
+  inactivity_penalty: { label: 'Inactivity', className: 'bg-gray-100 text-gray-800' },
+  promotion: { label: 'Promotion', className: 'bg-green-100 text-green-800' },
+  relegation: { label: 'Relegation', className: 'bg-purple-100 text-purple-800' },
+  player_withdrawn: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-600' },
+  player_joined: { label: 'Joined', className: 'bg-teal-100 text-teal-800' },
+  player_removed: { label: 'Removed', className: 'bg-gray-100 text-gray-600' }
+}
+
+interface TransactionLogViewProps {
+  ladderId?: string  // Limits the log to one ladder's events
+}
+
+export default function TransactionLogView({ ladderId }: TransactionLogViewProps = {}) {
   const [events, setEvents] = useState<RankingEvent[]>([])
+  const [movements, setMovements] = useState<Record<string, LadderMovement>>({})
   const [loading, setLoading] = useState(true)
   const [message, setMessage] = useState('')
   const supabase = createClient()
@@ -37,19 +60,37 @@ export default function TransactionLogView() {
     try {
       setLoading(true)
       
-      const { data, error } = await supabase
+      // Closed seasons are archived; the log covers the active one
+      const season = await fetchActiveSeason(supabase)
+      let query = supabase
         .from('ranking_events')
         .select(`
           *,
-          players(name)
+          players:players!ranking_events_player_id_fkey(name)
         `)
+        .is('team_id', null) // Singles ladder; doubles events are shown under Doubles
         .order('created_at', { ascending: false })
+      if (season) {
+        query = query.eq('season_id', season.id)
+      }
+      if (ladderId) {
+        query = query.eq('ladder_id', ladderId)
+      }
+      const { data, error } = await query
 
       if (error) {
         throw error
       }
 
+      // Replay the ladder so the log shows the movement each event actually caused
+      const { trace } = replayLadderData(await fetchLadderData(supabase, ladderId))
+      const movementsById: Record<string, LadderMovement> = {}
+      trace.forEach(movement => {
+        movementsById[movement.event_id] = movement
+      })
+
       setEvents(data || [])
+      setMovements(movementsById)
     } catch (error) {
       console.error('Error fetching events:', error)
       setMessage('Error fetching events')
@@ -68,43 +109,9 @@ export default function TransactionLogView() {
     }
 
     try {
-      // Get the event to find its details
-      const { data: eventToDelete, error: fetchError } = await supabase
-        .from('ranking_events')
-        .select('event_date, event_type, match_id')
-        .eq('id', eventId)
-        .single()
-
-      if (fetchError || !eventToDelete) {
-        throw new Error('Failed to fetch event details')
-      }
-
-      // If it's a match event, also delete the associated match
-      if (eventToDelete.event_type === 'match' && eventToDelete.match_id) {
-        const { error: deleteMatchError } = await supabase
-          .from('matches')
-          .delete()
-          .eq('id', eventToDelete.match_id)
-
-        if (deleteMatchError) {
-          console.warn('Failed to delete associated match:', deleteMatchError)
-          // Continue anyway as the CASCADE should handle it
-        }
-      }
-
-      // Delete the ranking event
-      const { error } = await supabase
-        .from('ranking_events')
-        .delete()
-        .eq('id', eventId)
-
-      if (error) {
-        throw error
-      }
-
-      // Rebuild all rankings from initial state
-      const { rebuildAllRankings } = await import('@/lib/utils/events')
-      await rebuildAllRankings(supabase)
+      // The server deletes the event (and its match, for match events), undoes
+      // any join or removal, and recalculates the rankings in one transaction
+      await adminRequest(`events/${eventId}`, 'DELETE')
 
       setMessage('Event deleted successfully! Player positions have been updated.')
       
@@ -166,11 +173,9 @@ export default function TransactionLogView() {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                    event.event_type === 'match' 
-                      ? 'bg-blue-100 text-blue-800' 
-                      : 'bg-amber-100 text-amber-800'
+                    EVENT_TYPE_BADGES[event.event_type]?.className ?? 'bg-gray-100 text-gray-800'
                   }`}>
-                    {event.event_type === 'match' ? 'Match Result' : 'Position Change'}
+                    {EVENT_TYPE_BADGES[event.event_type]?.label ?? event.event_type}
                                  </span>
                 </td>
                 <td className="px-6 py-4 text-sm text-gray-900">
@@ -180,11 +185,13 @@ export default function TransactionLogView() {
                         Match Result
                                </div>
                       <div className="text-gray-500 text-xs">
-                        {event.players?.name && event.old_rank && event.new_rank 
-                          ? `${event.players.name}: ${event.old_rank} → ${event.new_rank}`
-                          : event.reason || `Match ID: ${event.match_id}`
-                        }
+                        {movements[event.id]?.reason || event.reason || `Match ID: ${event.match_id}`}
                            </div>
+                      {event.range_override && (
+                        <div className="text-yellow-700 text-xs">
+                          Range override: {event.override_reason}
+                        </div>
+                      )}
                          </div>
                   ) : event.event_type === 'manual_adjustment' && event.players ? (
                     <div>
@@ -192,10 +199,55 @@ export default function TransactionLogView() {
                         {event.players.name} position change
                     </div>
                       <div className="text-gray-500 text-xs">
-                        {event.old_rank} → {event.new_rank}
+                        {movements[event.id]?.old_rank ?? event.old_rank} → {movements[event.id]?.new_rank ?? event.new_rank}
                         {event.reason && ` (${event.reason})`}
               </div>
             </div>
+          ) : event.event_type === 'forfeit' ? (
+                    <div>
+                      <div className="font-medium">
+                        Challenge Forfeit
+                      </div>
+                      <div className="text-gray-500 text-xs">
+                        {movements[event.id]?.reason || event.reason}
+                      </div>
+                    </div>
+          ) : event.event_type === 'inactivity_penalty' ? (
+                    <div>
+                      <div className="font-medium">
+                        Inactivity Penalty
+                      </div>
+                      <div className="text-gray-500 text-xs">
+                        {movements[event.id]?.reason || event.reason}
+                      </div>
+                    </div>
+          ) : event.event_type === 'promotion' || event.event_type === 'relegation' ? (
+                    <div>
+                      <div className="font-medium">
+                        {event.players?.name} {event.event_type === 'promotion' ? 'promoted' : 'relegated'}
+                      </div>
+                      <div className="text-gray-500 text-xs">
+                        {movements[event.id]?.reason || event.reason}
+                      </div>
+                    </div>
+          ) : event.event_type === 'player_withdrawn' ? (
+                    <div>
+                      <div className="font-medium">
+                        {event.players?.name} withdrew
+                      </div>
+                      <div className="text-gray-500 text-xs">
+                        {movements[event.id]?.reason || event.reason}
+                      </div>
+                    </div>
+          ) : event.event_type === 'player_joined' || event.event_type === 'player_removed' ? (
+                    <div>
+                      <div className="font-medium">
+                        {event.players?.name} {event.event_type === 'player_joined' ? 'joined the ladder' : 'was taken off the ladder'}
+                      </div>
+                      <div className="text-gray-500 text-xs">
+                        {movements[event.id]?.reason || event.reason}
+                      </div>
+                    </div>
           ) : (
                     <span className="text-gray-400">Unknown event</span>
                   )}
@@ -0,0 +1,35 @@
+// Browser side of the routes under /api (see lib/auth/adminRoute and
+// lib/auth/playerRoute). The session cookie goes along with the request; a
+// failed call throws the route's error message so components can show it like
+// any other error.
+export async function apiRequest<T = Record<string, unknown>>(
+  path: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(`/api/${path}`, {
+    method,
+    ...(body === undefined ? {} : {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    }),
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || 'The request failed')
+  }
+
+  return data
+}
+
+// The admin routes, under /api/admin
+export function adminRequest<T = Record<string, unknown>>(
+  path: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  body?: unknown
+): Promise<T> {
+  return apiRequest<T>(`admin/${path}`, method, body)
+}
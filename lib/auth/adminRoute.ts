@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { ValidationError } from '@/lib/utils/errors'
+import {
+  PendingFactor, SESSION_COOKIE, Session, createSessionToken, readSessionToken, sessionCookieOptions
+} from '@/lib/auth/session'
+import { Permission, Role, can, isStaffRole } from '@/lib/auth/roles'
+import { emailPattern } from '@/lib/auth/loginTokens'
+
+export interface AdminSession extends Session {
+  allowed_email_id: string
+}
+
+interface AdminContext<P> {
+  supabase: SupabaseClient  // Service role: only handed out once the session checks out
+  session: AdminSession
+  params: P
+}
+
+// Whoever the request's session cookie says, or null
+export async function requestSession(request: NextRequest): Promise<Session | null> {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    console.error('SESSION_SECRET environment variable not set')
+    return null
+  }
+
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value, secret)
+}
+
+// The allowed_emails id and role of an email that is still staff, or null
+export async function staffMember(
+  supabase: SupabaseClient,
+  email: string
+): Promise<{ id: string, role: Role } | null> {
+  const { data, error } = await supabase
+    .from('allowed_emails')
+    .select('id, role')
+    .ilike('email', emailPattern(email))
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error checking staff email:', error)
+    return null
+  }
+
+  return data && isStaffRole(data.role) ? data : null
+}
+
+// The signed-in staff member, or null. The session must be validly signed,
+// unexpired and a staff one, and its email must still be staff. The role
+// comes from the allowlist rather than the cookie, so changing or revoking
+// it takes effect straight away.
+export async function adminSession(
+  request: NextRequest,
+  supabase: SupabaseClient
+): Promise<AdminSession | null> {
+  const session = await requestSession(request)
+  if (!session || !isStaffRole(session.role)) return null
+
+  const member = await staffMember(supabase, session.email)
+  return member ? { ...session, role: member.role, allowed_email_id: member.id } : null
+}
+
+// Staff part-way through signing in, waiting on `pending`, or null
+export async function pendingAdminSession(
+  request: NextRequest,
+  supabase: SupabaseClient,
+  pending: PendingFactor
+): Promise<AdminSession | null> {
+  const session = await requestSession(request)
+  if (!session || session.pending !== pending) return null
+
+  const member = await staffMember(supabase, session.email)
+  return member ? { ...session, role: member.role, allowed_email_id: member.id } : null
+}
+
+// How route handlers report a failure: a ValidationError (a refused ladder
+// change among them) comes back as { error }. Anything else may carry database
+// or internal detail, so it is logged and answered with a generic 500.
+export function errorResponse(label: string, error: unknown): NextResponse {
+  if (error instanceof ValidationError) {
+    console.warn(`${label} rejected:`, error.message)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status }
+    )
+  }
+  console.error(`${label} error:`, error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
+
+// Every admin mutation is a route handler wrapped in this: it checks the
+// session and that its role has `permission`, then runs the handler with a
+// service-role client, reporting errors with errorResponse.
+export function adminRoute<P = Record<string, never>>(
+  label: string,
+  permission: Permission,
+  handler: (request: NextRequest, context: AdminContext<P>) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, { params }: { params: Promise<P> }) => {
+    try {
+      const supabase = createAdminClient()
+      const session = await adminSession(request, supabase)
+
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Your admin session has expired. Please log in again.' },
+          { status: 401 }
+        )
+      }
+
+      if (!can(session.role, permission)) {
+        return NextResponse.json(
+          { error: 'Your role does not allow this. Ask an owner if you need it.' },
+          { status: 403 }
+        )
+      }
+
+      return await handler(request, { supabase, session, params: await params })
+    } catch (error) {
+      return errorResponse(label, error)
+    }
+  }
+}
+
+// The same for the sign-in steps after the password, which need a session
+// waiting on `pending` rather than an admin one
+export function signInStepRoute(
+  label: string,
+  pending: PendingFactor,
+  handler: (request: NextRequest, context: Omit<AdminContext<Record<string, never>>, 'params'>) => Promise<NextResponse>
+) {
+  return async (request: NextRequest) => {
+    try {
+      const supabase = createAdminClient()
+      const session = await pendingAdminSession(request, supabase, pending)
+
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Your sign-in has expired. Please start again.' },
+          { status: 401 }
+        )
+      }
+
+      return await handler(request, { supabase, session })
+    } catch (error) {
+      return errorResponse(label, error)
+    }
+  }
+}
+
+// Finish signing in: swap the pending session for one with the staff role
+export async function startAdminSession(response: NextResponse, session: AdminSession): Promise<NextResponse> {
+  response.cookies.set(
+    SESSION_COOKIE,
+    await createSessionToken(session.email, session.role, process.env.SESSION_SECRET!),
+    sessionCookieOptions(session.role)
+  )
+  return response
+}
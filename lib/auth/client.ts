@@ -0,0 +1,23 @@
+import type { Role } from '@/lib/auth/roles'
+
+// Browser side of sessions. The cookie is HTTP-only, so pages ask the server
+// who is signed in; middleware has already sent anyone without a session to
+// the login page.
+
+export interface SignedInUser {
+  email: string
+  role: Role
+}
+
+// The signed-in user, or null if the session has expired
+export async function fetchSession(): Promise<SignedInUser | null> {
+  const response = await fetch('/api/session')
+  if (!response.ok) {
+    return null
+  }
+  return response.json()
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/logout', { method: 'POST' })
+}
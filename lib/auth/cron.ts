@@ -0,0 +1,9 @@
+import { createHash, timingSafeEqual } from 'crypto'
+
+// Whether a scheduled job's request carries `Authorization: Bearer <secret>`.
+// Both sides are hashed first so the comparison takes the same time whatever
+// their lengths, and leaks nothing about how much of the secret matched.
+export function hasCronSecret(authorization: string | null, secret: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(authorization ?? ''), digest(`Bearer ${secret}`))
+}
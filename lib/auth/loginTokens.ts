@@ -0,0 +1,47 @@
+import type { MailMessage } from '@/lib/mail/transport'
+
+// One-time sign-in links. The link carries a random token; only its hash is
+// stored, so a leaked table can't be used to sign in. A token works once, and
+// only for LOGIN_TOKEN_MINUTES.
+
+export const LOGIN_TOKEN_MINUTES = 15
+
+// Emails are compared without regard to case, as the sign-in throttle keys them
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// An ilike pattern that matches `email` in any case, and nothing else
+export function emailPattern(email: string): string {
+  return normalizeEmail(email).replace(/[\\%_]/g, '\\$&')
+}
+
+export function generateLoginToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export async function hashLoginToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function loginLinkUrl(siteUrl: string, token: string): string {
+  const url = new URL('/auth/verify', siteUrl)
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+export function loginLinkMessage(email: string, link: string): MailMessage {
+  return {
+    to: email,
+    subject: 'Your Scrappers Cup sign-in link',
+    text: [
+      'Use this link to sign in to Scrappers Cup:',
+      '',
+      link,
+      '',
+      `It works once and expires in ${LOGIN_TOKEN_MINUTES} minutes. If you didn't ask to sign in, you can ignore this email.`
+    ].join('\n')
+  }
+}
@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+
+// Admin passwords are stored as salted scrypt hashes: `scrypt$N$r$p$salt$hash`,
+// with the salt and hash base64. The cost settings are kept with the hash, so
+// they can be raised later without breaking passwords set before. Server-only.
+
+const SCRYPT_COST = 16384
+const SCRYPT_BLOCK_SIZE = 8
+const SCRYPT_PARALLELISM = 1
+const SALT_BYTES = 16
+const KEY_BYTES = 64
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelism: number, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, length, { N: cost, r: blockSize, p: parallelism, maxmem: 256 * cost * blockSize }, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELISM, KEY_BYTES)
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELISM, salt.toString('base64'), key.toString('base64')].join('$')
+}
+
+// Whether `password` matches a stored hash. Compares in constant time; a
+// malformed hash never matches.
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelism, salt, hash, ...rest] = stored.split('$')
+  const params = [cost, blockSize, parallelism].map(Number)
+  if (scheme !== 'scrypt' || rest.length > 0 || !salt || !hash || !params.every(n => Number.isInteger(n) && n > 0)) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, 'base64')
+  if (expected.length === 0) return false
+
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), params[0], params[1], params[2], expected.length)
+  return timingSafeEqual(key, expected)
+}
@@ -0,0 +1,42 @@
+import type { MailMessage } from '@/lib/mail/transport'
+
+// Each admin has their own password, hashed with lib/auth/passwordHash. They
+// set it from an emailed link (an invite, or a reset), never by having one
+// chosen for them. The rules here are shared with the set-password page.
+
+export const PASSWORD_MIN_LENGTH = 12
+export const PASSWORD_LINK_HOURS = 48
+
+// Why a new password can't be used, or null if it is fine
+export function passwordProblem(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    return `Passwords need at least ${PASSWORD_MIN_LENGTH} characters`
+  }
+  if (password.length > 256) {
+    return 'Passwords can be at most 256 characters'
+  }
+  return null
+}
+
+export function passwordLinkUrl(siteUrl: string, token: string): string {
+  const url = new URL('/set-password', siteUrl)
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+// `invite` for an admin's first password, `reset` to replace one
+export function passwordLinkMessage(email: string, link: string, kind: 'invite' | 'reset'): MailMessage {
+  return {
+    to: email,
+    subject: kind === 'invite' ? 'Set your Scrappers Cup admin password' : 'Reset your Scrappers Cup admin password',
+    text: [
+      kind === 'invite'
+        ? 'You have been made an admin of Scrappers Cup. Use this link to choose your admin password:'
+        : 'Use this link to choose a new Scrappers Cup admin password:',
+      '',
+      link,
+      '',
+      `It works once and expires in ${PASSWORD_LINK_HOURS} hours. If you weren't expecting this, you can ignore this email.`
+    ].join('\n')
+  }
+}
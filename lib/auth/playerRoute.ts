@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { fetchPlayerByEmail } from '@/lib/supabase/players'
+import { Player } from '@/lib/types/database'
+import { Session } from '@/lib/auth/session'
+import { Permission, can, isRole } from '@/lib/auth/roles'
+import { errorResponse, requestSession } from '@/lib/auth/adminRoute'
+import { emailPattern } from '@/lib/auth/loginTokens'
+
+interface PlayerContext<P> {
+  supabase: SupabaseClient  // Service role: only handed out once the session checks out
+  session: Session
+  player: Player            // The player the session's email belongs to
+  params: P
+}
+
+// The routes players use for themselves, like reporting results. As with
+// adminRoute, the role comes from the allowlist rather than the cookie, and
+// the signed-in email must belong to a player.
+export function playerRoute<P = Record<string, never>>(
+  label: string,
+  permission: Permission,
+  handler: (request: NextRequest, context: PlayerContext<P>) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, { params }: { params: Promise<P> }) => {
+    try {
+      const session = await requestSession(request)
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Your session has expired. Please log in again.' },
+          { status: 401 }
+        )
+      }
+
+      const supabase = createAdminClient()
+      const { data: allowedEmail, error } = await supabase
+        .from('allowed_emails')
+        .select('role')
+        .ilike('email', emailPattern(session.email))
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error checking allowed email:', error)
+        throw error
+      }
+
+      const role = isRole(allowedEmail?.role) ? allowedEmail.role : null
+      const player = can(role, permission) ? await fetchPlayerByEmail(supabase, session.email) : null
+      if (!player) {
+        return NextResponse.json(
+          { error: 'Only players on the ladder can do this.' },
+          { status: 403 }
+        )
+      }
+
+      return await handler(request, { supabase, session, player, params: await params })
+    } catch (error) {
+      return errorResponse(label, error)
+    }
+  }
+}
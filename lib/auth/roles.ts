@@ -0,0 +1,88 @@
+// Who may do what. Every allowed email has one role, and each role can do
+// everything the ones before it can:
+//
+//   viewer       sees the ladder
+//   player       also plays on it and reports their own results
+//   scorekeeper  also enters match results
+//   admin        also edits players, rankings, challenges, teams and ladders
+//   owner        also starts new seasons and manages admins and owners
+//
+// Scorekeepers and up are staff: they use the admin panel, and sign in to it
+// with a password and an authenticator code. Shared by pages and servers.
+
+export type Role = 'viewer' | 'player' | 'scorekeeper' | 'admin' | 'owner'
+
+export const ROLES: Role[] = ['viewer', 'player', 'scorekeeper', 'admin', 'owner']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  player: 'Player',
+  scorekeeper: 'Scorekeeper',
+  admin: 'Admin',
+  owner: 'Owner',
+}
+
+export type Permission =
+  | 'report_matches'     // Report your own results, and confirm or dispute your opponents'
+  | 'admin_panel'        // Sign in to the admin panel and manage your own password and codes
+  | 'enter_matches'
+  | 'edit_matches'       // Edit or delete past results and activity
+  | 'manage_players'
+  | 'manage_rankings'
+  | 'manage_challenges'
+  | 'manage_teams'
+  | 'manage_ladders'
+  | 'manage_access'      // Grant and revoke access for viewers, players and scorekeepers
+  | 'view_sign_in_log'
+  | 'manage_seasons'
+  | 'manage_admins'      // Grant, change and revoke admin and owner access, and reset their sign-in
+
+// The least role that has each permission
+const PERMISSION_ROLES: Record<Permission, Role> = {
+  report_matches: 'player',
+  admin_panel: 'scorekeeper',
+  enter_matches: 'scorekeeper',
+  edit_matches: 'admin',
+  manage_players: 'admin',
+  manage_rankings: 'admin',
+  manage_challenges: 'admin',
+  manage_teams: 'admin',
+  manage_ladders: 'admin',
+  manage_access: 'admin',
+  view_sign_in_log: 'admin',
+  manage_seasons: 'owner',
+  manage_admins: 'owner',
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value)
+}
+
+// Whether `role` is `least` or above it
+export function roleAtLeast(role: Role, least: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(least)
+}
+
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  return !!role && roleAtLeast(role, PERMISSION_ROLES[permission])
+}
+
+export function isStaffRole(role: Role | null | undefined): boolean {
+  return can(role, 'admin_panel')
+}
+
+// Granting, changing or revoking these roles needs `manage_admins`
+export function isAdminRole(role: Role): boolean {
+  return roleAtLeast(role, 'admin')
+}
+
+// What a sign-in link alone signs staff in as, until they give their password
+// and authenticator code. Everyone else gets their own role.
+export function linkRole(role: Role): Role {
+  return isStaffRole(role) ? 'player' : role
+}
+
+// Whether `role` may grant, change, revoke or reset the sign-in of `target`
+export function canManageRole(role: Role, target: Role): boolean {
+  return can(role, isAdminRole(target) ? 'manage_admins' : 'manage_access')
+}
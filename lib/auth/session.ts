@@ -0,0 +1,108 @@
+import { Role, isRole, isStaffRole } from '@/lib/auth/roles'
+
+// Sessions are an HTTP-only cookie holding the signed-in email, the role they
+// signed in with, and an expiry, signed with SESSION_SECRET so the browser
+// can't forge, promote or extend one. Uses Web Crypto so the same code runs
+// in middleware and in route handlers.
+
+export const SESSION_COOKIE = 'scrappers_session'
+export const ADMIN_SESSION_HOURS = 12
+export const MEMBER_SESSION_DAYS = 30
+export const PENDING_FACTOR_MINUTES = 10
+
+// Staff who have given their password but not yet their authenticator code
+// (`totp`), or who still have to set an authenticator up (`enroll`)
+export type PendingFactor = 'totp' | 'enroll'
+
+export interface Session {
+  email: string
+  role: Role               // Staff roles only once the admin sign-in is finished (see linkRole)
+  pending?: PendingFactor  // Only on non-staff sessions, part-way through admin sign-in
+  expires_at: string
+}
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    return Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0))
+  } catch {
+    return null
+  }
+}
+
+function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+// Staff sign in again every 12 hours; members stay signed in for 30 days.
+// The second factor has to follow the password within a few minutes.
+export function sessionLifetimeSeconds(role: Role, pending?: PendingFactor): number {
+  if (pending) return PENDING_FACTOR_MINUTES * 60
+  return isStaffRole(role) ? ADMIN_SESSION_HOURS * 60 * 60 : MEMBER_SESSION_DAYS * 24 * 60 * 60
+}
+
+export async function createSessionToken(
+  email: string,
+  role: Role,
+  secret: string,
+  now: Date = new Date(),
+  pending?: PendingFactor
+): Promise<string> {
+  const session: Session = {
+    email,
+    role,
+    ...(pending && !isStaffRole(role) ? { pending } : {}),
+    expires_at: new Date(now.getTime() + sessionLifetimeSeconds(role, pending) * 1000).toISOString()
+  }
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)))
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encoder.encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// The session a token holds, or null if it is malformed, tampered with or expired
+export async function readSessionToken(
+  token: string | undefined,
+  secret: string,
+  now: Date = new Date()
+): Promise<Session | null> {
+  const [payload, signature, ...rest] = (token ?? '').split('.')
+  if (!payload || !signature || rest.length > 0) return null
+
+  const signatureBytes = fromBase64Url(signature)
+  if (!signatureBytes) return null
+
+  // verify compares in constant time
+  const valid = await crypto.subtle.verify('HMAC', await signingKey(secret), signatureBytes, encoder.encode(payload))
+  if (!valid) return null
+
+  try {
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload) ?? undefined)) as Session
+    if (
+      typeof session.email !== 'string' ||
+      !isRole(session.role) ||
+      (session.pending !== undefined && session.pending !== 'totp' && session.pending !== 'enroll') ||
+      !(new Date(session.expires_at).getTime() > now.getTime())
+    ) {
+      return null
+    }
+    return session
+  } catch {
+    return null
+  }
+}
+
+// Options for the session cookie; it lasts as long as the session it holds
+export function sessionCookieOptions(role: Role, pending?: PendingFactor) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: sessionLifetimeSeconds(role, pending),
+    path: '/'
+  }
+}
@@ -0,0 +1,122 @@
+import { createHash, createHmac, randomBytes } from 'crypto'
+
+// Time-based one-time passwords (RFC 6238) for admin two-factor sign-in, in
+// the form authenticator apps expect: SHA-1, 6 digits, a new code every 30
+// seconds, base32 secrets. Everything here runs offline. Server-only.
+
+export const TOTP_ISSUER = 'Scrappers Cup'
+export const TOTP_STEP_SECONDS = 30
+export const TOTP_DIGITS = 6
+export const RECOVERY_CODE_COUNT = 10
+
+// Codes from one step either side still count, for clocks that drift
+const ALLOWED_DRIFT_STEPS = 1
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+export function base32Decode(text: string): Uint8Array {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const output: number[] = []
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 secret')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Uint8Array.from(output)
+}
+
+// 160 random bits, the size RFC 4226 recommends
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS)
+}
+
+export function totpCode(secret: string, step: number, digits: number = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 15
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]
+  return String(binary % 10 ** digits).padStart(digits, '0')
+}
+
+// The step a code belongs to, or null if it isn't valid now. A code at or
+// before `lastUsedStep` is refused, so each code can only be used once.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+  lastUsedStep: number | null = null
+): number | null {
+  const digits = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(digits)) return null
+
+  const current = totpStep(now)
+  for (let step = current - ALLOWED_DRIFT_STEPS; step <= current + ALLOWED_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue
+    if (totpCode(secret, step) === digits) return step
+  }
+  return null
+}
+
+// What authenticator apps scan, as a QR code or pasted in
+export function otpauthUrl(email: string, secret: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  })
+  return `otpauth://totp/${label}?${params}`
+}
+
+// Single-use codes for when the authenticator is lost, like `7kq2-m9xd`
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(5)).toLowerCase()
+    return `${code.slice(0, 4)}-${code.slice(4)}`
+  })
+}
+
+// Only hashes are stored. Case, spaces and dashes don't matter when typing one in.
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex')
+}
+
+export function looksLikeRecoveryCode(code: string): boolean {
+  return /^[a-z2-7]{8}$/.test(code.toLowerCase().replace(/[\s-]/g, ''))
+}
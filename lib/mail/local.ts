@@ -0,0 +1,29 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import type { MailMessage, MailTransport } from '@/lib/mail/transport'
+
+// Transports that never send anything, for development and tests
+
+function formatMessage(message: MailMessage): string {
+  return `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+}
+
+// Prints each message to the server log
+export function consoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`Mail not sent (console transport):\n${formatMessage(message)}`)
+    }
+  }
+}
+
+// Writes each message to its own file in `directory`
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const name = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}-${crypto.randomUUID()}.txt`
+      await writeFile(path.join(directory, name), formatMessage(message))
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import nodemailer from 'nodemailer'
+import type { MailTransport } from '@/lib/mail/transport'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean  // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string
+  password?: string
+  from: string
+}
+
+export function smtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user ? { auth: { user: options.user, pass: options.password } } : {})
+  })
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: options.from, ...message })
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { consoleTransport, fileTransport } from '@/lib/mail/local'
+import { smtpTransport } from '@/lib/mail/smtp'
+
+// Outgoing mail goes through a transport chosen by MAIL_TRANSPORT: `smtp` for
+// real delivery, or `file` / `console` for development and tests. Without
+// MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and the console otherwise.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+// The environment variables above, or any other settings in the same shape
+type MailEnv = Record<string, string | undefined>
+
+export function mailFrom(env: MailEnv = process.env): string {
+  return env.MAIL_FROM || 'Scrappers Cup <no-reply@localhost>'
+}
+
+export function createMailTransport(env: MailEnv = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console')
+
+  switch (kind) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable not set')
+      }
+      return smtpTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? parseInt(env.SMTP_PORT) : 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: mailFrom(env)
+      })
+    case 'file':
+      return fileTransport(env.MAIL_DIR || '.mail')
+    case 'console':
+      return consoleTransport()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`)
+  }
+}
@@ -0,0 +1,12 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Server-only client with the service role key. It bypasses row level
+// security, so it is only created once a route has checked the caller:
+// an admin session (lib/auth/adminRoute) or the cron secret.
+export const createAdminClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+  )
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PASSWORD_LINK_HOURS, passwordLinkMessage, passwordLinkUrl } from '@/lib/auth/passwords'
+import { hashPassword } from '@/lib/auth/passwordHash'
+import { generateLoginToken, hashLoginToken } from '@/lib/auth/loginTokens'
+import { createMailTransport } from '@/lib/mail/transport'
+
+// Admins' passwords and the one-time links that set them. Server-only: both
+// tables have no policies, so these need the service role client.
+
+// The admin's password hash, or null if they haven't set a password yet
+export async function fetchPasswordHash(supabase: SupabaseClient, allowedEmailId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('admin_credentials')
+    .select('password_hash')
+    .eq('allowed_email_id', allowedEmailId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching admin password:', error)
+    throw error
+  }
+
+  return data?.password_hash ?? null
+}
+
+async function clearPasswordTokens(supabase: SupabaseClient, allowedEmailId: string): Promise<void> {
+  const { error } = await supabase
+    .from('admin_password_tokens')
+    .delete()
+    .eq('allowed_email_id', allowedEmailId)
+    .is('used_at', null)
+
+  if (error) {
+    console.error('Error clearing password links:', error)
+    throw error
+  }
+}
+
+// Set the admin's password. Any password links still outstanding stop working.
+export async function setAdminPassword(
+  supabase: SupabaseClient,
+  allowedEmailId: string,
+  password: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase
+    .from('admin_credentials')
+    .upsert({ allowed_email_id: allowedEmailId, password_hash: await hashPassword(password), updated_at: now.toISOString() })
+
+  if (error) {
+    console.error('Error setting admin password:', error)
+    throw error
+  }
+
+  await clearPasswordTokens(supabase, allowedEmailId)
+}
+
+// Store a new password link token for the admin and return it. Only the
+// newest link works.
+export async function issuePasswordToken(
+  supabase: SupabaseClient,
+  allowedEmailId: string,
+  now: Date = new Date()
+): Promise<string> {
+  await clearPasswordTokens(supabase, allowedEmailId)
+
+  const token = generateLoginToken()
+  const { error } = await supabase
+    .from('admin_password_tokens')
+    .insert({
+      allowed_email_id: allowedEmailId,
+      token_hash: await hashLoginToken(token),
+      expires_at: new Date(now.getTime() + PASSWORD_LINK_HOURS * 60 * 60 * 1000).toISOString()
+    })
+
+  if (error) {
+    console.error('Error issuing password link:', error)
+    throw error
+  }
+
+  return token
+}
+
+// The admin a password link was issued to, or null if it is unknown, expired
+// or used. Like sign-in links, marking it used is one statement, so it can't
+// be redeemed twice.
+export async function redeemPasswordToken(
+  supabase: SupabaseClient,
+  token: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('admin_password_tokens')
+    .update({ used_at: now.toISOString() })
+    .eq('token_hash', await hashLoginToken(token))
+    .is('used_at', null)
+    .gt('expires_at', now.toISOString())
+    .select('allowed_email_id')
+
+  if (error) {
+    console.error('Error redeeming password link:', error)
+    throw error
+  }
+
+  return data && data.length > 0 ? data[0].allowed_email_id : null
+}
+
+// Email the admin a link to set their password: an invite if they don't have
+// one yet, otherwise a reset. Returns which it was.
+export async function emailPasswordLink(
+  supabase: SupabaseClient,
+  admin: { id: string, email: string },
+  siteUrl: string
+): Promise<'invite' | 'reset'> {
+  const kind = (await fetchPasswordHash(supabase, admin.id)) ? 'reset' : 'invite'
+  const token = await issuePasswordToken(supabase, admin.id)
+  await createMailTransport().send(passwordLinkMessage(admin.email, passwordLinkUrl(siteUrl, token), kind))
+  return kind
+}
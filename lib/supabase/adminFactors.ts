@@ -0,0 +1,224 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { AdminFactor } from '@/lib/types/database'
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  looksLikeRecoveryCode,
+  verifyTotp
+} from '@/lib/auth/totp'
+import { ValidationError } from '@/lib/utils/errors'
+
+// Admins' authenticators and recovery codes. Server-only: both tables have no
+// policies, so these need the service role client.
+
+export async function fetchAdminFactor(
+  supabase: SupabaseClient,
+  allowedEmailId: string
+): Promise<AdminFactor | null> {
+  const { data, error } = await supabase
+    .from('admin_factors')
+    .select('*')
+    .eq('allowed_email_id', allowedEmailId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching admin factor:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Which admins have an authenticator set up
+export async function fetchEnabledFactorIds(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('admin_factors')
+    .select('allowed_email_id')
+    .not('enabled_at', 'is', null)
+
+  if (error) {
+    console.error('Error fetching admin factors:', error)
+    throw error
+  }
+
+  return (data || []).map(factor => factor.allowed_email_id)
+}
+
+// A fresh secret for the admin to add to their authenticator. It only counts
+// once confirmed with a code; until then, starting again replaces it.
+export async function startTotpEnrollment(supabase: SupabaseClient, allowedEmailId: string): Promise<string> {
+  const existing = await fetchAdminFactor(supabase, allowedEmailId)
+  if (existing?.enabled_at) {
+    throw new ValidationError('An authenticator is already set up for this admin', 409)
+  }
+
+  const secret = generateTotpSecret()
+  const { error } = await supabase
+    .from('admin_factors')
+    .upsert({ allowed_email_id: allowedEmailId, totp_secret: secret, enabled_at: null, last_used_step: null })
+
+  if (error) {
+    console.error('Error starting authenticator setup:', error)
+    throw error
+  }
+
+  return secret
+}
+
+async function replaceRecoveryCodes(supabase: SupabaseClient, allowedEmailId: string): Promise<string[]> {
+  const { error: deleteError } = await supabase
+    .from('admin_recovery_codes')
+    .delete()
+    .eq('allowed_email_id', allowedEmailId)
+
+  if (deleteError) {
+    console.error('Error clearing recovery codes:', deleteError)
+    throw deleteError
+  }
+
+  const codes = generateRecoveryCodes()
+  const { error } = await supabase
+    .from('admin_recovery_codes')
+    .insert(codes.map(code => ({ allowed_email_id: allowedEmailId, code_hash: hashRecoveryCode(code) })))
+
+  if (error) {
+    console.error('Error storing recovery codes:', error)
+    throw error
+  }
+
+  return codes
+}
+
+// Turn the authenticator on with its first code. Returns the recovery codes,
+// which are shown once and never again.
+export async function confirmTotpEnrollment(
+  supabase: SupabaseClient,
+  allowedEmailId: string,
+  code: string,
+  now: Date = new Date()
+): Promise<string[]> {
+  const factor = await fetchAdminFactor(supabase, allowedEmailId)
+  if (!factor || factor.enabled_at) {
+    throw new ValidationError('Start setting up your authenticator first')
+  }
+
+  const step = verifyTotp(factor.totp_secret, code, now)
+  if (step === null) {
+    throw new ValidationError('That code is not right. Check the time on your phone and try again.')
+  }
+
+  // Only while it is still off, so two confirmations can't both hand out codes
+  const { data, error } = await supabase
+    .from('admin_factors')
+    .update({ enabled_at: now.toISOString(), last_used_step: step })
+    .eq('allowed_email_id', allowedEmailId)
+    .is('enabled_at', null)
+    .select('allowed_email_id')
+
+  if (error) {
+    console.error('Error enabling authenticator:', error)
+    throw error
+  }
+  if (!data || data.length === 0) {
+    throw new ValidationError('An authenticator is already set up for this admin', 409)
+  }
+
+  return replaceRecoveryCodes(supabase, allowedEmailId)
+}
+
+// Use up a recovery code, if it is one of the admin's unused ones
+async function redeemRecoveryCode(
+  supabase: SupabaseClient,
+  allowedEmailId: string,
+  code: string,
+  now: Date
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('admin_recovery_codes')
+    .update({ used_at: now.toISOString() })
+    .eq('allowed_email_id', allowedEmailId)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error redeeming recovery code:', error)
+    throw error
+  }
+
+  return !!data && data.length > 0
+}
+
+// Check a code from the admin's authenticator, or a recovery code. Each code
+// works once: the step of an accepted code is recorded, and only a later one
+// is accepted next time.
+export async function verifySecondFactor(
+  supabase: SupabaseClient,
+  allowedEmailId: string,
+  code: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const factor = await fetchAdminFactor(supabase, allowedEmailId)
+  if (!factor?.enabled_at) {
+    return false
+  }
+
+  if (looksLikeRecoveryCode(code)) {
+    return redeemRecoveryCode(supabase, allowedEmailId, code, now)
+  }
+
+  const step = verifyTotp(factor.totp_secret, code, now, factor.last_used_step ?? null)
+  if (step === null) {
+    return false
+  }
+
+  // Only move forward from the step we read, so two requests can't both use one code
+  let update = supabase
+    .from('admin_factors')
+    .update({ last_used_step: step })
+    .eq('allowed_email_id', allowedEmailId)
+  update = factor.last_used_step == null ? update.is('last_used_step', null) : update.eq('last_used_step', factor.last_used_step)
+  const { data, error } = await update.select('allowed_email_id')
+
+  if (error) {
+    console.error('Error recording authenticator code:', error)
+    throw error
+  }
+
+  return !!data && data.length > 0
+}
+
+// Replace the admin's recovery codes with new ones, e.g. after using a few
+export async function regenerateRecoveryCodes(supabase: SupabaseClient, allowedEmailId: string): Promise<string[]> {
+  const factor = await fetchAdminFactor(supabase, allowedEmailId)
+  if (!factor?.enabled_at) {
+    throw new ValidationError('Set up an authenticator before making recovery codes')
+  }
+
+  return replaceRecoveryCodes(supabase, allowedEmailId)
+}
+
+// Remove an admin's authenticator and recovery codes, for a lost phone. They
+// set up a new one the next time they sign in.
+export async function resetAdminFactor(supabase: SupabaseClient, allowedEmailId: string): Promise<void> {
+  const { error: codesError } = await supabase
+    .from('admin_recovery_codes')
+    .delete()
+    .eq('allowed_email_id', allowedEmailId)
+
+  if (codesError) {
+    console.error('Error removing recovery codes:', codesError)
+    throw codesError
+  }
+
+  const { error } = await supabase
+    .from('admin_factors')
+    .delete()
+    .eq('allowed_email_id', allowedEmailId)
+
+  if (error) {
+    console.error('Error resetting admin factor:', error)
+    throw error
+  }
+}
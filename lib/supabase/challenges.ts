@@ -0,0 +1,317 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Challenge, ChallengeWithPlayers, PlayerStatus, RankingEvent } from '@/lib/types/database'
+import {
+  ChallengeAction,
+  OPEN_CHALLENGE_STATUSES,
+  createChallenge,
+  transitionChallenge,
+  challengeResolution,
+  forfeitForChallenge,
+  isChallengeOverdue
+} from '@/lib/utils/challenges'
+import { challengeRangeForLadder, checkChallengeRange } from '@/lib/utils/challengeRange'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { PLAYER_STATUS_LABELS } from '@/lib/utils/playerStatus'
+import { MatchWriteError, commitChange, playerLadderId } from '@/lib/supabase/ladderWrites'
+import { fetchLadder } from '@/lib/supabase/ladders'
+import { ValidationError } from '@/lib/utils/errors'
+import { isUuid } from '@/lib/utils/ids'
+
+// A player id fit to go into a filter string, where anything but an id could
+// change the filter
+function playerFilterId(playerId: string): string {
+  if (!isUuid(playerId)) {
+    throw new ValidationError('Player not found', 404)
+  }
+  return playerId
+}
+
+// Challenges with the player on either side
+function eitherSideFilter(playerId: string): string {
+  const id = playerFilterId(playerId)
+  return `challenger_id.eq.${id},challenged_id.eq.${id}`
+}
+
+const CHALLENGE_SELECT = `
+  *,
+  challenger:players!challenges_challenger_id_fkey(*),
+  challenged:players!challenges_challenged_id_fkey(*)
+`
+
+export async function fetchChallenges(
+  supabase: SupabaseClient,
+  options: { playerId?: string; openOnly?: boolean } = {}
+): Promise<ChallengeWithPlayers[]> {
+  let query = supabase
+    .from('challenges')
+    .select(CHALLENGE_SELECT)
+    .order('issued_at', { ascending: false })
+
+  if (options.playerId) {
+    query = query.or(eitherSideFilter(options.playerId))
+  }
+  if (options.openOnly) {
+    query = query.in('status', OPEN_CHALLENGE_STATUSES)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching challenges:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+export async function fetchChallenge(supabase: SupabaseClient, challengeId: string): Promise<Challenge> {
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .eq('id', challengeId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching challenge:', error)
+    throw error
+  }
+  if (!data) {
+    throw new ValidationError('Challenge not found', 404)
+  }
+
+  return data
+}
+
+export async function issueChallenge(
+  supabase: SupabaseClient,
+  challengerId: string,
+  challengedId: string,
+  responseDays?: number
+): Promise<Challenge> {
+  if (!isUuid(challengerId) || !isUuid(challengedId)) {
+    throw new ValidationError('Please select both players')
+  }
+
+  // Only one open challenge per pair at a time
+  const { data: existing, error: existingError } = await supabase
+    .from('challenges')
+    .select('id')
+    .in('status', OPEN_CHALLENGE_STATUSES)
+    .or(
+      `and(challenger_id.eq.${challengerId},challenged_id.eq.${challengedId}),` +
+      `and(challenger_id.eq.${challengedId},challenged_id.eq.${challengerId})`
+    )
+
+  if (existingError) {
+    throw existingError
+  }
+  if (existing && existing.length > 0) {
+    throw new ValidationError('These players already have an open challenge', 409)
+  }
+
+  const playersResult = await supabase
+    .from('players')
+    .select('id, name, ladder_id, status, on_ladder')
+    .order('current_rank', { ascending: true })
+
+  if (playersResult.error) {
+    throw playersResult.error
+  }
+
+  const players = playersResult.data || []
+  if (!players.some(player => player.id === challengerId) || !players.some(player => player.id === challengedId)) {
+    throw new ValidationError('Player not found', 404)
+  }
+
+  // Frozen, removed and withdrawn players can't challenge or be challenged
+  for (const player of players.filter(player => player.id === challengerId || player.id === challengedId)) {
+    if (player.on_ladder === false) {
+      throw new ValidationError(`${player.name} isn't on the ladder`)
+    }
+    if (player.status && player.status !== 'active') {
+      throw new ValidationError(`${player.name} is ${PLAYER_STATUS_LABELS[player.status as PlayerStatus].name.toLowerCase()}`)
+    }
+  }
+
+  // Challenges stay within a division, under that ladder's range. Frozen
+  // players are skipped over when counting places.
+  const challengerLadderId = players.find(player => player.id === challengerId)?.ladder_id
+  if (challengerLadderId !== players.find(player => player.id === challengedId)?.ladder_id) {
+    throw new ValidationError('Players can only challenge others on their own ladder')
+  }
+  const ladder = await fetchLadder(supabase, challengerLadderId)
+
+  const rangeViolation = checkChallengeRange(
+    playersOnLadder(players, challengerLadderId).filter(player => player.on_ladder !== false && (!player.status || player.status === 'active')),
+    challengerId,
+    challengedId,
+    challengeRangeForLadder(ladder)
+  )
+  if (rangeViolation) {
+    throw new ValidationError(`Outside the challenge range: ${rangeViolation}`)
+  }
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .insert(createChallenge(challengerId, challengedId, new Date(), responseDays))
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error issuing challenge:', error)
+    throw error
+  }
+
+  return data
+}
+
+function forfeitEvent(challenge: Challenge, resolution: 'declined' | 'expired', ladderId: string | null, now: Date): RankingEvent {
+  const forfeit = forfeitForChallenge(challenge, resolution, now)
+  return {
+    id: crypto.randomUUID(),
+    event_type: 'forfeit',
+    event_date: forfeit.event_date,
+    challenge_id: challenge.id,
+    player_id: forfeit.winner_id,
+    opponent_id: forfeit.loser_id,
+    ladder_id: ladderId,
+    reason: `Challenge ${resolution}`,
+    created_at: now.toISOString()
+  }
+}
+
+// Decline or expire a challenge. The forfeit it becomes is written with it,
+// so neither is ever stored without the other or the ranks it produces.
+async function forfeitChallenge(
+  supabase: SupabaseClient,
+  challenge: Challenge,
+  type: 'decline' | 'expire',
+  now: Date
+): Promise<void> {
+  const ladderId = await playerLadderId(supabase, challenge.challenger_id)
+
+  await commitChange(supabase, { doubles: false, ladderId }, async () => {
+    const current = await fetchChallenge(supabase, challenge.id)
+    if (current.status !== challenge.status) {
+      throw new MatchWriteError('This challenge has changed since it was loaded. Please reload and try again.', 409)
+    }
+
+    return {
+      insertEvent: forfeitEvent(current, type === 'decline' ? 'declined' : 'expired', ladderId, now),
+      resolveChallenges: [challengeResolution(current, { type }, now)]
+    }
+  })
+}
+
+// Apply an admin action to a challenge. Declines become forfeits, and take
+// effect on the ladder straight away.
+export async function updateChallenge(
+  supabase: SupabaseClient,
+  challenge: Challenge,
+  action: ChallengeAction
+): Promise<void> {
+  const now = new Date()
+
+  if (action.type === 'decline' || action.type === 'expire') {
+    await forfeitChallenge(supabase, challenge, action.type, now)
+    return
+  }
+
+  const { error } = await supabase
+    .from('challenges')
+    .update(transitionChallenge(challenge, action, now))
+    .eq('id', challenge.id)
+
+  if (error) {
+    console.error('Error updating challenge:', error)
+    throw error
+  }
+}
+
+// Expire every open challenge whose deadline has passed and turn each into a
+// forfeit. Safe to run repeatedly; returns how many challenges were expired.
+export async function expireOverdueChallenges(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const { data: openChallenges, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .in('status', OPEN_CHALLENGE_STATUSES)
+
+  if (error) {
+    console.error('Error fetching open challenges:', error)
+    throw error
+  }
+
+  const overdue = (openChallenges || []).filter((challenge: Challenge) => isChallengeOverdue(challenge, now))
+  let expiredCount = 0
+
+  for (const challenge of overdue) {
+    try {
+      await forfeitChallenge(supabase, challenge, 'expire', now)
+      expiredCount++
+    } catch (error) {
+      // Someone else settled it first, e.g. a concurrent run; leave it to them
+      if (!(error instanceof MatchWriteError)) throw error
+      console.warn(`Skipped expiring challenge ${challenge.id}:`, error.message)
+    }
+  }
+
+  return expiredCount
+}
+
+// Cancel a player's open challenges, for when they leave or are frozen
+export async function cancelOpenChallengesFor(
+  supabase: SupabaseClient,
+  playerId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase
+    .from('challenges')
+    .update({ status: 'cancelled', resolved_at: now.toISOString() })
+    .in('status', OPEN_CHALLENGE_STATUSES)
+    .or(eitherSideFilter(playerId))
+
+  if (error) {
+    console.error('Error cancelling open challenges:', error)
+    throw error
+  }
+}
+
+// The open challenges between two players; there is at most one
+export async function fetchOpenChallengesBetween(
+  supabase: SupabaseClient,
+  playerId: string,
+  opponentId: string
+): Promise<Challenge[]> {
+  const [a, b] = [playerFilterId(playerId), playerFilterId(opponentId)]
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .in('status', OPEN_CHALLENGE_STATUSES)
+    .or(`and(challenger_id.eq.${a},challenged_id.eq.${b}),and(challenger_id.eq.${b},challenged_id.eq.${a})`)
+
+  if (error) {
+    console.error('Error fetching open challenges:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+// A player's open challenges, from either side
+export async function fetchOpenChallengesFor(supabase: SupabaseClient, playerId: string): Promise<Challenge[]> {
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('*')
+    .in('status', OPEN_CHALLENGE_STATUSES)
+    .or(eitherSideFilter(playerId))
+
+  if (error) {
+    console.error('Error fetching open challenges:', error)
+    throw error
+  }
+
+  return data || []
+}
@@ -0,0 +1,129 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Player, RankingEvent } from '@/lib/types/database'
+import {
+  DEFAULT_PROMOTION_SPOTS,
+  DivisionEventInput,
+  DivisionSwap,
+  divisionMoveEvents,
+  divisionSwapEvents,
+  isDivisionAbove,
+  planDivisionSwap,
+  playersOnLadder
+} from '@/lib/utils/divisions'
+import { fetchLadders } from '@/lib/supabase/ladders'
+import { LadderData, fetchLadderData, replayLadderData } from '@/lib/supabase/rankings'
+import { ValidationError } from '@/lib/utils/errors'
+import { commitLaddersChange, fetchLadderVersion } from '@/lib/supabase/ladderWrites'
+
+function storedEvent(event: DivisionEventInput, now: Date): RankingEvent {
+  return { id: crypto.randomUUID(), ...event, created_at: now.toISOString() }
+}
+
+// The swap between `lower` and the division above it, from a fresh replay of
+// both rather than the stored ranks
+function planSwap(lowerData: LadderData, upperData: LadderData): { swap: DivisionSwap; upperSize: number } {
+  const lower = lowerData.ladder!
+  const upper = upperData.ladder!
+  const upperStandings = replayLadderData(upperData).standings
+  const lowerStandings = replayLadderData(lowerData).standings
+  const swap = planDivisionSwap(upperStandings, lowerStandings, lower.promotion_spots ?? DEFAULT_PROMOTION_SPOTS)
+  if (swap.promoted.length === 0) {
+    throw new ValidationError(`${upper.name} and ${lower.name} both need players before they can swap`)
+  }
+  return { swap, upperSize: upperStandings.length }
+}
+
+// A ladder and the division above it
+async function fetchDivisionPair(supabase: SupabaseClient, lowerLadderId: string): Promise<[LadderData, LadderData]> {
+  const lowerData = await fetchLadderData(supabase, lowerLadderId)
+  const lower = lowerData.ladder
+  if (!lower || lower.id !== lowerLadderId) {
+    throw new ValidationError('Ladder not found', 404)
+  }
+  if (!lower.division_above_id) {
+    throw new ValidationError(`${lower.name} has no division above it`)
+  }
+
+  const upperData = await fetchLadderData(supabase, lower.division_above_id)
+  if (upperData.ladder?.id !== lower.division_above_id) {
+    throw new ValidationError('The division above could not be found', 404)
+  }
+
+  return [lowerData, upperData]
+}
+
+// Who end-of-period promotion and relegation would move now, and the ladder
+// version that was worked out from. Running it needs that version back.
+export async function previewPromotionRelegation(
+  supabase: SupabaseClient,
+  lowerLadderId: string
+): Promise<{ swap: DivisionSwap; version: number }> {
+  const version = await fetchLadderVersion(supabase)
+  const [lowerData, upperData] = await fetchDivisionPair(supabase, lowerLadderId)
+  return { swap: planSwap(lowerData, upperData).swap, version }
+}
+
+// End-of-period promotion and relegation between a ladder and the division
+// above it. The moves are recorded as ranking events on both ladders, and
+// written with the players' new ladders and both ladders' ranks in one ladder
+// change. It is only made against `expectedVersion`, from the preview: if
+// anything was written since, including this same swap, it is refused.
+export async function runPromotionRelegation(
+  supabase: SupabaseClient,
+  lowerLadderId: string,
+  expectedVersion: number,
+  now: Date = new Date()
+): Promise<DivisionSwap> {
+  if (!Number.isInteger(expectedVersion)) {
+    throw new ValidationError('Please preview promotion and relegation before running it')
+  }
+
+  const [lowerData, upperData] = await fetchDivisionPair(supabase, lowerLadderId)
+  const lower = lowerData.ladder!
+  const upper = upperData.ladder!
+
+  let planned: DivisionSwap | undefined
+  await commitLaddersChange(supabase, [lower.id, upper.id], ([lowerNow, upperNow]) => {
+    const { swap, upperSize } = planSwap(lowerNow, upperNow)
+    planned = swap
+    return {
+      insertEvents: divisionSwapEvents(upper, lower, upperSize, swap, now).map(event => storedEvent(event, now)),
+      movePlayers: [
+        ...swap.promoted.map(playerId => ({ playerId, ladderId: upper.id })),
+        ...swap.relegated.map(playerId => ({ playerId, ladderId: lower.id }))
+      ]
+    }
+  }, { expectedVersion })
+
+  return planned!
+}
+
+// Move one player to another ladder part-way through a season. They join at
+// the bottom. Moving up the divisions counts as a promotion, anything else as
+// a relegation. Both ladders are replayed and written with the move.
+export async function movePlayerToLadder(
+  supabase: SupabaseClient,
+  player: Pick<Player, 'id' | 'ladder_id'>,
+  toLadderId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const ladders = await fetchLadders(supabase)
+  const from = ladders.find(ladder => ladder.id === player.ladder_id)
+  const to = ladders.find(ladder => ladder.id === toLadderId)
+  if (!from || !to) {
+    throw new ValidationError('Ladder not found', 404)
+  }
+  if (from.id === to.id) {
+    return
+  }
+
+  const eventType = isDivisionAbove(ladders, from.id, to.id) ? 'promotion' : 'relegation'
+  await commitLaddersChange(supabase, [from.id, to.id], ([, toData]) => {
+    const newRank = playersOnLadder(toData.players, to.id).length + 1
+    return {
+      insertEvents: divisionMoveEvents(eventType, player.id, from, to, newRank, now, new Date(now.getTime() + 1))
+        .map(event => storedEvent(event, now)),
+      movePlayers: [{ playerId: player.id, ladderId: to.id }]
+    }
+  })
+}
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { RankingEvent } from '@/lib/types/database'
+import { dueInactivityPenalties, inactivitySettingsForLadder } from '@/lib/utils/inactivity'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { isOnLadder } from '@/lib/utils/roster'
+import { fetchLadders } from '@/lib/supabase/ladders'
+import { fetchLadderData, LadderData } from '@/lib/supabase/rankings'
+import { commitLaddersChange } from '@/lib/supabase/ladderWrites'
+
+// Record every inactivity penalty that has fallen due. Each ladder uses its own
+// settings, and its penalties are written with the ranks they produce in one
+// ladder change. Safe to run repeatedly, or twice at once: a run that read the
+// ladder before another wrote its penalties replays and finds them already
+// there. Returns how many penalties were recorded.
+export async function applyInactivityPenalties(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const ladders = await fetchLadders(supabase)
+  let recordedCount = 0
+
+  for (const ladder of ladders.length > 0 ? ladders : [null]) {
+    // Most runs find nothing due, and then write nothing
+    if (ladderPenalties(await fetchLadderData(supabase, ladder?.id), now).length === 0) {
+      continue
+    }
+
+    let penalties: RankingEvent[] = []
+    await commitLaddersChange(supabase, [ladder?.id], ([data]) => {
+      penalties = ladderPenalties(data, now)
+      return { insertEvents: penalties }
+    })
+    recordedCount += penalties.length
+  }
+
+  return recordedCount
+}
+
+// The inactivity_penalty events due on one ladder. Ranks are filled in by the replay.
+function ladderPenalties(data: LadderData, now: Date): RankingEvent[] {
+  const settings = inactivitySettingsForLadder(data.ladder)
+  if (!settings) {
+    return []
+  }
+
+  // The clock restarts for everyone when a season starts. Removed and withdrawn players have left.
+  const seasonStart = data.season ? new Date(data.season.started_at).getTime() : 0
+  const activePlayers = playersOnLadder(data.players, data.ladder?.id).filter(isOnLadder)
+  const players = activePlayers.map(player => ({
+    id: player.id,
+    created_at: new Date(Math.max(new Date(player.created_at).getTime(), seasonStart)).toISOString()
+  }))
+
+  return dueInactivityPenalties(players, data.events, data.matches, settings, now, data.statusChanges)
+    .map(penalty => ({
+      id: crypto.randomUUID(),
+      event_type: 'inactivity_penalty',
+      event_date: penalty.event_date,
+      player_id: penalty.player_id,
+      ladder_id: data.ladder?.id ?? null,
+      places: penalty.places,
+      reason: `No match in ${settings.days} days`,
+      created_at: now.toISOString()
+    }))
+}
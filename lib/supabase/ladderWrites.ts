@@ -0,0 +1,252 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Match, RankingEvent, RatingHistoryEntry, Season } from '@/lib/types/database'
+import { LadderMovement } from '@/lib/utils/events'
+import { getRatingSystem } from '@/lib/utils/ratings'
+import { EventRankUpdate, LadderChange, RankUpdate, RatingUpdate, applyLadderChange, applyPlayerChange } from '@/lib/utils/ladderChanges'
+import { LadderData, fetchLadderData, replayLadderData, replayWrite } from '@/lib/supabase/rankings'
+import { DoublesLadderData, doublesReplayWrite, fetchDoublesLadderData, replayDoublesLadderData } from '@/lib/supabase/teams'
+import { fetchRatedMatches, ratingWrite } from '@/lib/supabase/ratings'
+import { fetchLadders } from '@/lib/supabase/ladders'
+import { ValidationError } from '@/lib/utils/errors'
+
+// Every write that moves the standings goes through apply_ladder_change
+// (supabase/migrations/013_ladder_writes.sql, replaced in 022 to 024): results,
+// rank changes, forfeits, new players, joins and removals, penalties, status
+// changes and moves between divisions. The change and the ranks replayed from
+// it are written in one transaction, and only if nothing else was written
+// since the data was read.
+
+export interface LadderWrite {
+  change?: LadderChange
+  playerRanks?: RankUpdate[]
+  teamRanks?: RankUpdate[]
+  eventRanks?: EventRankUpdate[]
+  ratings?: RatingUpdate[]
+  // Replaces the whole stored history when given
+  ratingHistory?: Omit<RatingHistoryEntry, 'id' | 'created_at'>[]
+}
+
+// A change the ladder won't accept, as opposed to a failure writing it
+export class MatchWriteError extends ValidationError {
+  constructor(message: string, status: 400 | 404 | 409 = 400) {
+    super(message, status)
+    this.name = 'MatchWriteError'
+  }
+}
+
+// SQLSTATE raised when the ladder moved on after the expected version was read
+const STALE_LADDER = '40001'
+
+const MAX_ATTEMPTS = 3
+
+export async function fetchLadderVersion(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('ladder_state')
+    .select('version')
+    .single()
+
+  if (error) {
+    console.error('Error fetching ladder version:', error)
+    throw error
+  }
+
+  return data.version
+}
+
+// Returns false, having written nothing, if the ladder changed since
+// `expectedVersion` was read
+export async function commitLadderWrite(
+  supabase: SupabaseClient,
+  write: LadderWrite,
+  expectedVersion: number
+): Promise<boolean> {
+  const change = write.change ?? {}
+
+  const { error } = await supabase.rpc('apply_ladder_change', {
+    expected_version: expectedVersion,
+    change: {
+      insert_player: change.insertPlayer,
+      insert_match: change.insertMatch,
+      update_match: change.updateMatch,
+      delete_match_id: change.deleteMatchId,
+      insert_event: change.insertEvent,
+      update_event: change.updateEvent,
+      delete_event_id: change.deleteEventId,
+      insert_events: change.insertEvents,
+      on_ladder: change.onLadder && { player_id: change.onLadder.playerId, on_ladder: change.onLadder.onLadder },
+      move_players: change.movePlayers?.map(move => ({ player_id: move.playerId, ladder_id: move.ladderId })),
+      status_change: change.statusChange,
+      resolve_challenges: change.resolveChallenges,
+      player_ranks: write.playerRanks,
+      team_ranks: write.teamRanks,
+      event_ranks: write.eventRanks,
+      ratings: write.ratings,
+      rating_history: write.ratingHistory
+    }
+  })
+
+  if (error?.code === STALE_LADDER) {
+    return false
+  }
+  if (error) {
+    console.error('Error applying ladder change:', error)
+    throw error
+  }
+
+  return true
+}
+
+// Read the ladder's version, then have `build` read what it needs and work out
+// the write; commit it if nothing moved in between, and start again if it did.
+// Given `expectedVersion` (read when the change was previewed, say), it commits
+// against that instead and never retries: a stale version means the change
+// the caller saw is no longer the one that would be made.
+// Returns what `build` returned.
+export async function retryLadderWrite<T extends { write: LadderWrite }>(
+  supabase: SupabaseClient,
+  build: () => Promise<T>,
+  expectedVersion?: number
+): Promise<T> {
+  if (expectedVersion !== undefined) {
+    const built = await build()
+    if (await commitLadderWrite(supabase, built.write, expectedVersion)) {
+      return built
+    }
+    throw new MatchWriteError('The ladder has changed since this was previewed. Please check it and try again.', 409)
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const version = await fetchLadderVersion(supabase)
+    const built = await build()
+
+    if (await commitLadderWrite(supabase, built.write, version)) {
+      return built
+    }
+    console.warn(`Ladder changed while writing, retrying (attempt ${attempt + 1})`)
+  }
+
+  throw new MatchWriteError('The ladder kept changing while saving; please try again', 409)
+}
+
+// Which ladder a change replays: the doubles ladder, or one singles ladder
+export type LadderScope = { doubles: true } | { doubles: false; ladderId: string | null | undefined }
+
+interface CommitOptions {
+  rated?: boolean        // Whether the change touches singles results, so ratings need recomputing
+  rangeCheck?: string    // A match that must be inside the challenge range unless overridden
+  rangeMessage?: string  // What to tell the admin to do about it
+  expectedVersion?: number  // Commit only against this version; see retryLadderWrite
+}
+
+// Singles changes replay the ladder of the player they are about
+export async function playerLadderId(supabase: SupabaseClient, playerId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('players')
+    .select('ladder_id')
+    .eq('id', playerId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching player ladder:', error)
+    throw error
+  }
+  if (!data) {
+    throw new MatchWriteError('Player not found')
+  }
+
+  return data.ladder_id ?? null
+}
+
+// Out-of-range matches are refused unless an admin gave a reason
+function checkRange(trace: LadderMovement[], options: CommitOptions): void {
+  const movement = trace.find(step => step.match_id && step.match_id === options.rangeCheck)
+  if (movement?.out_of_range && !movement.range_override) {
+    throw new MatchWriteError(`Outside the challenge range: ${movement.out_of_range}. ${options.rangeMessage}`)
+  }
+}
+
+// Each ladder is replayed with the part of the change that falls on it: the
+// events in its stream, and every player, since players can move between them
+async function singlesWrite(
+  supabase: SupabaseClient,
+  ladders: LadderData[],
+  change: LadderChange,
+  options: CommitOptions
+): Promise<{ write: LadderWrite; trace: LadderMovement[] }> {
+  const playerRanks: RankUpdate[] = []
+  const eventRanks: EventRankUpdate[] = []
+  const trace: LadderMovement[] = []
+
+  for (const data of ladders) {
+    const ladderId = data.ladder?.id
+    const inserted = change.insertEvents?.filter(event => !ladderId || event.ladder_id === ladderId)
+    const next: LadderData = {
+      ...data,
+      ...applyLadderChange(data.events, data.matches, { ...change, insertEvents: inserted }),
+      ...applyPlayerChange(data.players, data.statusChanges, change)
+    }
+    const result = replayLadderData(next)
+    checkRange(result.trace, options)
+
+    const replayed = replayWrite(next, result)
+    playerRanks.push(...replayed.playerRanks ?? [])
+    eventRanks.push(...replayed.eventRanks ?? [])
+    trace.push(...result.trace)
+  }
+
+  const write: LadderWrite = { change, playerRanks, eventRanks }
+  if (options.rated) {
+    // Ratings span every ladder and season, and use the first ladder's system
+    const [allLadders, allMatches] = await Promise.all([fetchLadders(supabase), fetchRatedMatches(supabase)])
+    const { matches } = applyLadderChange([], allMatches, change)
+    Object.assign(write, ratingWrite(ladders[0].players, matches, getRatingSystem(allLadders[0]?.rating_system)))
+  }
+
+  return { write, trace }
+}
+
+function doublesWrite(data: DoublesLadderData, change: LadderChange, options: CommitOptions): { write: LadderWrite; trace: LadderMovement[] } {
+  const next: DoublesLadderData = { ...data, ...applyLadderChange(data.events, data.matches, change) }
+  const result = replayDoublesLadderData(next)
+  checkRange(result.trace, options)
+  return { write: { change, ...doublesReplayWrite(next, result) }, trace: result.trace }
+}
+
+// Build the change from fresh data, replay the ladder with it and commit both.
+// `plan` runs again on each retry, so anything else it reads (a challenge to
+// close, say) is fresh too. Returns the replayed trace, e.g. to report matches
+// now outside the range.
+export async function commitChange(
+  supabase: SupabaseClient,
+  scope: LadderScope,
+  plan: (data: { season: Season | null; events: RankingEvent[]; matches: Match[] }) => LadderChange | Promise<LadderChange>,
+  options: CommitOptions = {}
+): Promise<LadderMovement[]> {
+  if (!scope.doubles) {
+    return commitLaddersChange(supabase, [scope.ladderId], ([data]) => plan(data), options)
+  }
+
+  const { trace } = await retryLadderWrite(supabase, async () => {
+    const data = await fetchDoublesLadderData(supabase)
+    return doublesWrite(data, await plan(data), options)
+  }, options.expectedVersion)
+
+  return trace
+}
+
+// A singles change that may touch several ladders, such as players moving
+// between divisions. `plan` gets each ladder's data in the order given; every
+// ladder is replayed with the change, and all of it is committed together.
+export async function commitLaddersChange(
+  supabase: SupabaseClient,
+  ladderIds: (string | null | undefined)[],
+  plan: (data: LadderData[]) => LadderChange | Promise<LadderChange>,
+  options: CommitOptions = {}
+): Promise<LadderMovement[]> {
+  const { trace } = await retryLadderWrite(supabase, async () => {
+    const ladders = await Promise.all(ladderIds.map(ladderId => fetchLadderData(supabase, ladderId)))
+    return singlesWrite(supabase, ladders, await plan(ladders), options)
+  }, options.expectedVersion)
+
+  return trace
+}
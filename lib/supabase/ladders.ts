@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Ladder } from '@/lib/types/database'
+
+// Every ladder (division), oldest first. The first is the default ladder.
+export async function fetchLadders(supabase: SupabaseClient): Promise<Ladder[]> {
+  const { data, error } = await supabase
+    .from('ladders')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.warn('Could not fetch ladders:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// The ladder with `ladderId`, or the default ladder: the first row in `ladders`.
+// A missing row means the defaults (poison ladder) apply.
+export async function fetchLadder(supabase: SupabaseClient, ladderId?: string | null): Promise<Ladder | null> {
+  let query = supabase.from('ladders').select('*')
+  query = ladderId ? query.eq('id', ladderId) : query.order('created_at', { ascending: true })
+  const { data, error } = await query.limit(1)
+
+  if (error) {
+    console.warn('Could not fetch ladder settings, using defaults:', error)
+    return null
+  }
+
+  return data && data.length > 0 ? data[0] : null
+}
+
+export type LadderSettings = Partial<Pick<Ladder,
+  'rule' | 'challenge_range_type' | 'challenge_range_spots' | 'inactivity_days' | 'inactivity_places' | 'rating_system' | 'match_format' |
+  'name' | 'division_above_id' | 'promotion_spots' | 'report_confirm_hours'
+>>
+
+const LADDER_SETTING_KEYS: (keyof LadderSettings)[] = [
+  'rule', 'challenge_range_type', 'challenge_range_spots', 'inactivity_days', 'inactivity_places', 'rating_system', 'match_format',
+  'name', 'division_above_id', 'promotion_spots', 'report_confirm_hours'
+]
+
+// Only the settings an admin may change, from a request body
+export function pickLadderSettings(input: Record<string, unknown>): LadderSettings {
+  return Object.fromEntries(
+    Object.entries(input).filter(([key]) => LADDER_SETTING_KEYS.includes(key as keyof LadderSettings))
+  ) as LadderSettings
+}
+
+export async function updateLadderSettings(
+  supabase: SupabaseClient,
+  ladderId: string,
+  settings: LadderSettings
+): Promise<void> {
+  const { error } = await supabase
+    .from('ladders')
+    .update(settings)
+    .eq('id', ladderId)
+
+  if (error) {
+    console.error('Error updating ladder settings:', error)
+    throw error
+  }
+}
+
+// A new division starts with the default rules and no players
+export async function createLadder(
+  supabase: SupabaseClient,
+  input: Pick<Ladder, 'name'> & Partial<Pick<Ladder, 'division_above_id' | 'promotion_spots'>>
+): Promise<Ladder> {
+  const { data, error } = await supabase
+    .from('ladders')
+    .insert([input])
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating ladder:', error)
+    throw error
+  }
+
+  return data
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { LOGIN_TOKEN_MINUTES, generateLoginToken, hashLoginToken } from '@/lib/auth/loginTokens'
+
+// Server-only: login_tokens has no policies, so these need the service role client
+
+// Store a new sign-in token for `email` and return it, for the link
+export async function issueLoginToken(
+  supabase: SupabaseClient,
+  email: string,
+  now: Date = new Date()
+): Promise<string> {
+  const token = generateLoginToken()
+
+  const { error } = await supabase
+    .from('login_tokens')
+    .insert({
+      email,
+      token_hash: await hashLoginToken(token),
+      expires_at: new Date(now.getTime() + LOGIN_TOKEN_MINUTES * 60 * 1000).toISOString()
+    })
+
+  if (error) {
+    console.error('Error issuing login token:', error)
+    throw error
+  }
+
+  return token
+}
+
+// The email a token was issued to, or null if it is unknown, expired or used.
+// Marking it used and reading it back is one statement, so a token can't be
+// redeemed twice.
+export async function redeemLoginToken(
+  supabase: SupabaseClient,
+  token: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('login_tokens')
+    .update({ used_at: now.toISOString() })
+    .eq('token_hash', await hashLoginToken(token))
+    .is('used_at', null)
+    .gt('expires_at', now.toISOString())
+    .select('email')
+
+  if (error) {
+    console.error('Error redeeming login token:', error)
+    throw error
+  }
+
+  return data && data.length > 0 ? data[0].email : null
+}
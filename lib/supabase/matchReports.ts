@@ -0,0 +1,281 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Match, MatchReport, MatchReportWithPlayers, Player } from '@/lib/types/database'
+import {
+  DEFAULT_REPORT_CONFIRM_HOURS,
+  MatchReportAction,
+  OPEN_REPORT_STATUSES,
+  ReportInput,
+  createMatchReport,
+  isReportDue,
+  transitionMatchReport
+} from '@/lib/utils/matchReports'
+import { describeScoreErrors, hasScoreErrors, validateMatchScore } from '@/lib/utils/scoreValidation'
+import { isOnLadder } from '@/lib/utils/roster'
+import { MatchInput, recordMatch } from '@/lib/supabase/matches'
+import { MatchWriteError } from '@/lib/supabase/ladderWrites'
+import { fetchLadder } from '@/lib/supabase/ladders'
+import { ValidationError } from '@/lib/utils/errors'
+
+// Results players report themselves (see lib/utils/matchReports). Server-only:
+// the table has no policies, so these need the service role client. A report
+// only touches the ladder once it is confirmed, through recordMatch.
+
+const REPORT_SELECT = `
+  *,
+  player1:players!match_reports_player1_id_fkey(*),
+  player2:players!match_reports_player2_id_fkey(*)
+`
+
+export async function fetchMatchReports(
+  supabase: SupabaseClient,
+  options: { playerId?: string; openOnly?: boolean; limit?: number } = {}
+): Promise<MatchReportWithPlayers[]> {
+  let query = supabase
+    .from('match_reports')
+    .select(REPORT_SELECT)
+    .order('created_at', { ascending: false })
+
+  if (options.playerId) {
+    query = query.or(`player1_id.eq.${options.playerId},player2_id.eq.${options.playerId}`)
+  }
+  if (options.openOnly) {
+    query = query.in('status', OPEN_REPORT_STATUSES)
+  }
+  if (options.limit) {
+    query = query.limit(options.limit)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching match reports:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+export async function fetchMatchReport(supabase: SupabaseClient, reportId: string): Promise<MatchReport> {
+  const { data, error } = await supabase
+    .from('match_reports')
+    .select('*')
+    .eq('id', reportId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching match report:', error)
+    throw error
+  }
+  if (!data) {
+    throw new ValidationError('Result not found', 404)
+  }
+
+  return data
+}
+
+// Report a singles result on the reporter's own ladder. The score is checked
+// now, so the opponent is only ever asked about a possible one.
+export async function submitMatchReport(
+  supabase: SupabaseClient,
+  reporter: Player,
+  input: ReportInput,
+  now: Date = new Date()
+): Promise<MatchReport> {
+  const { data: opponent, error: opponentError } = await supabase
+    .from('players')
+    .select('*')
+    .eq('id', input.player2_id)
+    .maybeSingle()
+
+  if (opponentError) {
+    console.error('Error fetching opponent:', opponentError)
+    throw opponentError
+  }
+  if (!opponent) {
+    throw new ValidationError('Please select your opponent')
+  }
+
+  for (const player of [reporter, opponent as Player]) {
+    if (!isOnLadder(player)) {
+      throw new ValidationError(player.id === reporter.id ? 'You aren\'t on the ladder' : `${player.name} isn't on the ladder`)
+    }
+  }
+  if ((reporter.ladder_id ?? null) !== (opponent.ladder_id ?? null)) {
+    throw new ValidationError('You can only report matches against players on your own ladder')
+  }
+
+  const ladder = await fetchLadder(supabase, reporter.ladder_id)
+  const confirmHours = ladder && ladder.report_confirm_hours !== undefined
+    ? ladder.report_confirm_hours
+    : DEFAULT_REPORT_CONFIRM_HOURS
+  const report = createMatchReport(
+    reporter.id,
+    input,
+    { id: reporter.ladder_id ?? null, match_format: ladder?.match_format },
+    now,
+    confirmHours
+  )
+
+  const errors = validateMatchScore(report)
+  if (hasScoreErrors(errors)) {
+    throw new ValidationError(`Invalid score: ${describeScoreErrors(errors)}`)
+  }
+
+  // Only one open report per pair at a time
+  const { data: existing, error: existingError } = await supabase
+    .from('match_reports')
+    .select('id')
+    .in('status', OPEN_REPORT_STATUSES)
+    .or(
+      `and(player1_id.eq.${report.player1_id},player2_id.eq.${report.player2_id}),` +
+      `and(player1_id.eq.${report.player2_id},player2_id.eq.${report.player1_id})`
+    )
+
+  if (existingError) {
+    console.error('Error checking open match reports:', existingError)
+    throw existingError
+  }
+  if (existing && existing.length > 0) {
+    throw new ValidationError(`There is already a result waiting to be confirmed between you and ${opponent.name}`, 409)
+  }
+
+  const { data, error } = await supabase
+    .from('match_reports')
+    .insert(report)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error submitting match report:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Write `changes` only if the report is still as we read it, so two people
+// (or a person and the scheduled job) can't both act on it
+async function claimReport(
+  supabase: SupabaseClient,
+  report: MatchReport,
+  changes: Partial<MatchReport>
+): Promise<MatchReport> {
+  const { data, error } = await supabase
+    .from('match_reports')
+    .update(changes)
+    .eq('id', report.id)
+    .eq('status', report.status)
+    .select()
+
+  if (error) {
+    console.error('Error updating match report:', error)
+    throw error
+  }
+  if (!data || data.length === 0) {
+    throw new ValidationError('This result has already been dealt with', 409)
+  }
+
+  return data[0]
+}
+
+async function saveReport(supabase: SupabaseClient, reportId: string, changes: Partial<MatchReport>): Promise<MatchReport> {
+  const { data, error } = await supabase
+    .from('match_reports')
+    .update(changes)
+    .eq('id', reportId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating match report:', error)
+    throw error
+  }
+
+  return data
+}
+
+// The match a confirmed report records
+function reportMatchInput(report: MatchReport): MatchInput {
+  return {
+    player1_id: report.player1_id,
+    player2_id: report.player2_id,
+    team1_id: null,
+    team2_id: null,
+    ladder_id: report.ladder_id ?? null,
+    date_played: report.date_played,
+    format_id: report.format_id,
+    sets: report.sets,
+    result_type: report.result_type,
+    has_retirement: report.has_retirement,
+    retired_player: report.retired_player ?? null,
+    defaulted_player: report.defaulted_player ?? null,
+  }
+}
+
+// Apply `action` to a report. `by` is the email acting, or null for the
+// scheduled job. Confirming or approving records the match; if the ladder
+// won't take it (e.g. it is outside the challenge range), a confirmed report
+// is held for staff, and an approval is undone so staff can give an override
+// reason and try again.
+export async function updateMatchReport(
+  supabase: SupabaseClient,
+  report: MatchReport,
+  action: MatchReportAction,
+  by: string | null,
+  overrideReason?: string,
+  now: Date = new Date()
+): Promise<MatchReport> {
+  const claimed = await claimReport(supabase, report, transitionMatchReport(report, action, now, by))
+  if (action.type !== 'confirm' && action.type !== 'approve') {
+    return claimed
+  }
+
+  let match: Match
+  try {
+    match = await recordMatch(supabase, reportMatchInput(report), overrideReason, now)
+  } catch (error) {
+    if (action.type === 'confirm' && error instanceof MatchWriteError) {
+      return saveReport(supabase, report.id, {
+        ...transitionMatchReport(report, { type: 'hold', reason: error.message }, now),
+        resolved_by: null,
+        resolved_at: null
+      })
+    }
+    await saveReport(supabase, report.id, { status: report.status, resolved_by: null, resolved_at: null })
+    throw error
+  }
+  return saveReport(supabase, report.id, { match_id: match.id })
+}
+
+// Confirm every pending report whose deadline has passed. Safe to run
+// repeatedly; returns how many were recorded.
+export async function confirmOverdueMatchReports(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const { data: pending, error } = await supabase
+    .from('match_reports')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('confirm_by', now.toISOString())
+
+  if (error) {
+    console.error('Error fetching overdue match reports:', error)
+    throw error
+  }
+
+  let confirmedCount = 0
+  for (const report of (pending || []).filter((report: MatchReport) => isReportDue(report, now))) {
+    try {
+      const confirmed = await updateMatchReport(supabase, report, { type: 'confirm' }, null, undefined, now)
+      if (confirmed.status === 'confirmed') {
+        confirmedCount++
+      }
+    } catch (error) {
+      // Someone got to it first, or it will be tried again next run
+      console.warn(`Could not confirm match report ${report.id}:`, error)
+    }
+  }
+
+  return confirmedCount
+}
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Match } from '@/lib/types/database'
+import { LadderMovement } from '@/lib/utils/events'
+import { determineMatchWinner } from '@/lib/utils/ladder'
+import { isDoublesMatch, matchEntrantIds } from '@/lib/utils/doubles'
+import { describeScoreErrors, hasScoreErrors, validateMatchScore } from '@/lib/utils/scoreValidation'
+import { matchEvent, rescoredMatchEvent } from '@/lib/utils/ladderChanges'
+import { challengeResolution } from '@/lib/utils/challenges'
+import { fetchOpenChallengesBetween } from '@/lib/supabase/challenges'
+import { LadderScope, MatchWriteError, commitChange, playerLadderId } from '@/lib/supabase/ladderWrites'
+
+// Every match write goes through here, on the server, so no path can store an
+// impossible score and no result is left half-recorded. The winner is always
+// derived from the score, never taken from the caller. Each write replays the
+// ladder with the change applied, then commits the change and the new ranks in
+// one transaction; if the ladder moved on in the meantime it replays again
+// (see lib/supabase/ladderWrites).
+
+export type MatchInput = Omit<Match, 'id' | 'created_at' | 'match_winner' | 'season_id'>
+
+export type MatchScoreUpdate = Pick<Match,
+  'date_played' | 'format_id' | 'sets' | 'result_type' | 'has_retirement' | 'retired_player' | 'defaulted_player'
+>
+
+function checkScore(match: MatchScoreUpdate): void {
+  const errors = validateMatchScore(match)
+  if (hasScoreErrors(errors)) {
+    throw new MatchWriteError(`Invalid score: ${describeScoreErrors(errors)}`)
+  }
+}
+
+function findMatch(matches: Match[], matchId: string): Match {
+  const match = matches.find(candidate => candidate.id === matchId)
+  if (!match) {
+    throw new MatchWriteError('Match not found', 404)
+  }
+  return match
+}
+
+async function fetchMatch(supabase: SupabaseClient, matchId: string): Promise<Match> {
+  const { data, error } = await supabase
+    .from('matches')
+    .select('*')
+    .eq('id', matchId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching match:', error)
+    throw error
+  }
+  if (!data) {
+    throw new MatchWriteError('Match not found', 404)
+  }
+
+  return data
+}
+
+function matchScope(match: Match): LadderScope {
+  return isDoublesMatch(match) ? { doubles: true } : { doubles: false, ladderId: match.ladder_id }
+}
+
+// `overrideReason` records an admin allowing a match outside the challenge range
+export async function recordMatch(
+  supabase: SupabaseClient,
+  input: MatchInput,
+  overrideReason?: string,
+  now: Date = new Date()
+): Promise<Match> {
+  const doubles = isDoublesMatch(input)
+  const sides = matchEntrantIds(input)
+  if (!sides) {
+    throw new MatchWriteError(doubles ? 'Please select both teams' : 'Please select both players')
+  }
+  if (sides[0] === sides[1]) {
+    throw new MatchWriteError(doubles ? 'Teams must be different' : 'Players must be different')
+  }
+  checkScore(input)
+
+  const created_at = now.toISOString()
+  const ladder_id = doubles ? null : input.ladder_id ?? await playerLadderId(supabase, sides[0])
+  const unsaved = { ...input, ladder_id, id: crypto.randomUUID(), created_at }
+  const match: Match = { ...unsaved, match_winner: determineMatchWinner(unsaved) }
+
+  await commitChange(
+    supabase,
+    matchScope(match),
+    async data => {
+      const seasoned = { ...match, season_id: data.season?.id ?? null }
+      // The match closes out the open challenge between these players, if any
+      const challenges = doubles ? [] : await fetchOpenChallengesBetween(supabase, sides[0], sides[1])
+      return {
+        insertMatch: seasoned,
+        insertEvent: matchEvent(seasoned, crypto.randomUUID(), overrideReason),
+        resolveChallenges: challenges.map(challenge => challengeResolution(challenge, { type: 'complete', matchId: match.id }, now))
+      }
+    },
+    { rated: !doubles, rangeCheck: match.id, rangeMessage: 'Enter an override reason to record it anyway.' }
+  )
+
+  return match
+}
+
+// Rescore a match; its players and created_at are never changed.
+// Returns the match and the replayed trace.
+export async function editMatch(
+  supabase: SupabaseClient,
+  matchId: string,
+  update: MatchScoreUpdate,
+  overrideReason?: string
+): Promise<{ match: Match; trace: LadderMovement[] }> {
+  checkScore(update)
+  const stored = await fetchMatch(supabase, matchId)
+  let match = stored
+
+  const trace = await commitChange(
+    supabase,
+    matchScope(stored),
+    data => {
+      const current = findMatch(data.matches, matchId)
+      const rescored = { ...current, ...update }
+      match = { ...rescored, match_winner: determineMatchWinner(rescored) }
+      const event = data.events.find(candidate => candidate.match_id === matchId)
+      return {
+        updateMatch: match,
+        ...(event ? { updateEvent: rescoredMatchEvent(event, match, overrideReason) } : {})
+      }
+    },
+    { rated: !isDoublesMatch(stored), rangeCheck: matchId, rangeMessage: 'Enter an override reason to save it.' }
+  )
+
+  return { match, trace }
+}
+
+// Delete a match and its ranking event
+export async function deleteMatch(supabase: SupabaseClient, matchId: string): Promise<void> {
+  const stored = await fetchMatch(supabase, matchId)
+  await commitChange(
+    supabase,
+    matchScope(stored),
+    () => ({ deleteMatchId: matchId }),
+    { rated: !isDoublesMatch(stored) }
+  )
+}
+
+// Delete any ranking event. A match event takes its match with it; undoing a
+// join takes the player back off the ladder, and undoing a removal puts them back on.
+export async function deleteRankingEvent(supabase: SupabaseClient, eventId: string): Promise<void> {
+  const { data: event, error } = await supabase
+    .from('ranking_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching ranking event:', error)
+    throw error
+  }
+  if (!event) {
+    throw new MatchWriteError('Event not found', 404)
+  }
+
+  if (event.event_type === 'match' && event.match_id) {
+    return deleteMatch(supabase, event.match_id)
+  }
+
+  const membership = event.event_type === 'player_joined' || event.event_type === 'player_removed'
+  await commitChange(
+    supabase,
+    event.team_id ? { doubles: true } : { doubles: false, ladderId: event.ladder_id },
+    () => ({
+      deleteEventId: eventId,
+      ...(membership ? { onLadder: { playerId: event.player_id, onLadder: event.event_type === 'player_removed' } } : {})
+    })
+  )
+}
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Player, PlayerStatus, PlayerStatusChange } from '@/lib/types/database'
+import { sortStatusChanges, validateStatusChange } from '@/lib/utils/playerStatus'
+import { commitLaddersChange } from '@/lib/supabase/ladderWrites'
+import { cancelOpenChallengesFor } from '@/lib/supabase/challenges'
+import { ValidationError } from '@/lib/utils/errors'
+
+export async function fetchPlayerStatusChanges(
+  supabase: SupabaseClient,
+  playerId?: string
+): Promise<PlayerStatusChange[]> {
+  let query = supabase
+    .from('player_status_changes')
+    .select('*')
+    .order('effective_from', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (playerId) {
+    query = query.eq('player_id', playerId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching player status changes:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+// Record a dated status change. The change, the player's new status, a
+// withdrawal's player_withdrawn ranking event and the ranks replayed from them
+// (freezing changes how results replay) are written in one ladder change. Once
+// that is in, a frozen or withdrawn player's open challenges are cancelled.
+export async function changePlayerStatus(
+  supabase: SupabaseClient,
+  player: Pick<Player, 'id' | 'status' | 'ladder_id'>,
+  status: PlayerStatus,
+  effectiveFrom: Date,
+  note?: string,
+  now: Date = new Date()
+): Promise<void> {
+  await commitLaddersChange(supabase, [player.ladder_id], ([data]) => {
+    // Checked against the data the change is made from, in case it moved on
+    const current = data.players.find(candidate => candidate.id === player.id) ?? player
+    const changes = sortStatusChanges(data.statusChanges.filter(change => change.player_id === player.id))
+    const violation = validateStatusChange(current.status ?? 'active', status, effectiveFrom, now, changes[changes.length - 1])
+    if (violation) {
+      throw new ValidationError(violation)
+    }
+
+    return {
+      statusChange: {
+        id: crypto.randomUUID(),
+        player_id: player.id,
+        status,
+        effective_from: effectiveFrom.toISOString(),
+        note: note || null,
+        created_at: now.toISOString()
+      },
+      // Ranks and reason are filled in by the replay
+      ...(status === 'withdrawn' ? {
+        insertEvent: {
+          id: crypto.randomUUID(),
+          event_type: 'player_withdrawn' as const,
+          event_date: effectiveFrom.toISOString(),
+          player_id: player.id,
+          ladder_id: player.ladder_id ?? null,
+          created_at: now.toISOString()
+        }
+      } : {})
+    }
+  })
+
+  if (status !== 'active') {
+    await cancelOpenChallengesFor(supabase, player.id, now)
+  }
+}
@@ -0,0 +1,332 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { AllowedEmail, Player, PlayerStatus } from '@/lib/types/database'
+import { LadderEntry, checkLadderEntry, joinLadderEvent } from '@/lib/supabase/roster'
+import { commitLaddersChange } from '@/lib/supabase/ladderWrites'
+import { playersOnLadder } from '@/lib/utils/divisions'
+import { isOnLadder } from '@/lib/utils/roster'
+import { movePlayerToLadder } from '@/lib/supabase/divisions'
+import { changePlayerStatus } from '@/lib/supabase/playerStatus'
+import { ROLE_LABELS, Role, isRole, isStaffRole } from '@/lib/auth/roles'
+import { ValidationError } from '@/lib/utils/errors'
+import { emailPattern, normalizeEmail } from '@/lib/auth/loginTokens'
+
+export interface NewPlayer {
+  name: string
+  email: string
+  notes: string
+  ladder_id?: string | null
+}
+
+export interface PlayerEdit {
+  name: string
+  email: string
+  notes: string
+  ladder_id?: string | null  // A new ladder is a move between divisions
+  status?: PlayerStatus
+  status_from?: string       // When a new status takes effect
+  status_note?: string
+}
+
+// The roles Manage Players may give, move or raise: never staff ones
+const PLAYER_ROLES: Role[] = ['viewer', 'player']
+
+async function fetchPlayer(supabase: SupabaseClient, playerId: string): Promise<Player> {
+  const { data, error } = await supabase
+    .from('players')
+    .select('*')
+    .eq('id', playerId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching player:', error)
+    throw error
+  }
+  if (!data) {
+    throw new ValidationError('Player not found', 404)
+  }
+
+  return data
+}
+
+// The player an email belongs to, in any case, or null if it isn't a player's.
+// Sign-in matches emails the same way.
+export async function fetchPlayerByEmail(supabase: SupabaseClient, email: string): Promise<Player | null> {
+  const { data, error } = await supabase
+    .from('players')
+    .select('*')
+    .ilike('email', emailPattern(email))
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching player by email:', error)
+    throw error
+  }
+
+  return data
+}
+
+// The access an email has, matched in any case as sign-in matches it, or null
+async function fetchAccessByEmail(supabase: SupabaseClient, email: string): Promise<AllowedEmail | null> {
+  const { data, error } = await supabase
+    .from('allowed_emails')
+    .select('*')
+    .ilike('email', emailPattern(email))
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching allowed email:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Give a new player's email player access. An email that already has access
+// keeps it, except that a viewer becomes a player; staff roles are never lowered.
+async function grantPlayerAccess(supabase: SupabaseClient, email: string): Promise<AllowedEmail> {
+  const access = await fetchAccessByEmail(supabase, email)
+  if (access && access.role !== 'viewer') {
+    return access
+  }
+
+  const { data, error } = access
+    ? await supabase
+      .from('allowed_emails')
+      .update({ role: 'player' })
+      .eq('id', access.id)
+      .eq('role', 'viewer')
+      .select()
+      .single()
+    : await supabase
+      .from('allowed_emails')
+      .insert([{ email: normalizeEmail(email), role: 'player' }])
+      .select()
+      .single()
+
+  if (error) {
+    console.error('Error granting email access:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Add a player and put them onto their ladder the way `entry` says, in one
+// ladder change, then give their email access. Returns the player and the
+// access their email now has.
+export async function addPlayer(
+  supabase: SupabaseClient,
+  input: NewPlayer,
+  entry: LadderEntry,
+  now: Date = new Date()
+): Promise<{ player: Player; allowedEmail: AllowedEmail }> {
+  if (!input.name?.trim() || !input.email?.trim()) {
+    throw new ValidationError('Please enter a name and email')
+  }
+  checkLadderEntry(entry)
+
+  let player: Player | undefined
+  await commitLaddersChange(supabase, [input.ladder_id], ([data]) => {
+    // The next free rank on the player's ladder, among players still on it
+    const ladderId = input.ladder_id || data.ladder?.id
+    const ranks = playersOnLadder(data.players, ladderId).filter(isOnLadder).map(entrant => entrant.current_rank)
+    const nextRank = Math.max(0, ...ranks) + 1
+
+    player = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      email: normalizeEmail(input.email),
+      initial_rank: nextRank,
+      current_rank: nextRank,
+      notes: input.notes,
+      ladder_id: ladderId,
+      on_ladder: true,
+      created_at: now.toISOString()
+    }
+    // The player enters the ladder now, not at the start of the season
+    return { insertPlayer: player, insertEvent: joinLadderEvent(player, entry, now) }
+  })
+
+  const allowedEmail = await grantPlayerAccess(supabase, input.email)
+
+  return { player: player!, allowedEmail }
+}
+
+// Save a player's details. A changed email carries their access with it, a
+// new ladder moves them between divisions, and a new status is dated.
+export async function updatePlayer(
+  supabase: SupabaseClient,
+  playerId: string,
+  edit: PlayerEdit
+): Promise<void> {
+  const player = await fetchPlayer(supabase, playerId)
+
+  // Only a player's or viewer's access moves with the email. Staff access is
+  // left to Allowed Email Addresses, where only owners manage admins and owners.
+  const email = normalizeEmail(edit.email)
+  if (normalizeEmail(player.email) !== email) {
+    const access = await fetchAccessByEmail(supabase, player.email)
+    if (access && isStaffRole(access.role)) {
+      throw new ValidationError(`${player.email} has ${ROLE_LABELS[access.role as Role].toLowerCase()} access, which can't move to a new email here. Grant the new email access under Allowed Email Addresses instead.`)
+    }
+
+    if (access) {
+      const { error: emailError } = await supabase
+        .from('allowed_emails')
+        .update({ email })
+        .eq('id', access.id)
+        .in('role', PLAYER_ROLES)
+
+      if (emailError) {
+        console.error('Error moving email access:', emailError)
+        throw emailError
+      }
+    }
+  }
+
+  const { error: playerError } = await supabase
+    .from('players')
+    .update({ name: edit.name, email, notes: edit.notes })
+    .eq('id', playerId)
+
+  if (playerError) {
+    console.error('Error updating player:', playerError)
+    throw playerError
+  }
+
+  if (edit.ladder_id && edit.ladder_id !== player.ladder_id) {
+    await movePlayerToLadder(supabase, player, edit.ladder_id)
+  }
+
+  if (edit.status && edit.status !== (player.status ?? 'active')) {
+    await changePlayerStatus(
+      supabase,
+      { ...player, ladder_id: edit.ladder_id || player.ladder_id },
+      edit.status,
+      new Date(edit.status_from ?? Date.now()),
+      edit.status_note?.trim()
+    )
+  }
+}
+
+// Everyone with access, for Manage Players. Server-only: the table has no
+// read policy, so who can sign in isn't public.
+export async function fetchAllowedEmails(supabase: SupabaseClient): Promise<AllowedEmail[]> {
+  const { data, error } = await supabase
+    .from('allowed_emails')
+    .select('*')
+    .order('email', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching allowed emails:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+export async function fetchAllowedEmail(supabase: SupabaseClient, emailId: string): Promise<AllowedEmail> {
+  const { data, error } = await supabase
+    .from('allowed_emails')
+    .select('*')
+    .eq('id', emailId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching allowed email:', error)
+    throw error
+  }
+
+  return data
+}
+
+export async function grantEmailAccess(
+  supabase: SupabaseClient,
+  email: string,
+  role: Role
+): Promise<AllowedEmail> {
+  if (!email?.trim()) {
+    throw new ValidationError('Please enter an email')
+  }
+  if (!isRole(role)) {
+    throw new ValidationError('Please choose a role')
+  }
+  if (await fetchAccessByEmail(supabase, email)) {
+    throw new ValidationError(`${email.trim()} already has access`, 409)
+  }
+
+  const { data, error } = await supabase
+    .from('allowed_emails')
+    .insert([{ email: normalizeEmail(email), role }])
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error granting email access:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Someone always has to be able to manage admins
+async function ensureAnotherOwner(supabase: SupabaseClient, entry: AllowedEmail): Promise<void> {
+  if (entry.role !== 'owner') return
+
+  const { count, error } = await supabase
+    .from('allowed_emails')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', 'owner')
+    .neq('id', entry.id)
+
+  if (error) {
+    console.error('Error counting owners:', error)
+    throw error
+  }
+  if (!count) {
+    throw new ValidationError('There must always be at least one owner. Make someone else an owner first.')
+  }
+}
+
+export async function changeEmailRole(
+  supabase: SupabaseClient,
+  entry: AllowedEmail,
+  role: Role
+): Promise<AllowedEmail> {
+  if (!isRole(role)) {
+    throw new ValidationError('Please choose a role')
+  }
+  if (role !== 'owner') {
+    await ensureAnotherOwner(supabase, entry)
+  }
+
+  const { data, error } = await supabase
+    .from('allowed_emails')
+    .update({ role })
+    .eq('id', entry.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error changing role:', error)
+    throw error
+  }
+
+  return data
+}
+
+export async function revokeEmailAccess(supabase: SupabaseClient, entry: AllowedEmail): Promise<void> {
+  await ensureAnotherOwner(supabase, entry)
+
+  const { error } = await supabase
+    .from('allowed_emails')
+    .delete()
+    .eq('id', entry.id)
+
+  if (error) {
+    console.error('Error revoking email access:', error)
+    throw error
+  }
+}
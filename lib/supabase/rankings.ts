@@ -0,0 +1,214 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Player, Match, RankingEvent, Ladder, Season, PlayerStatusChange } from '@/lib/types/database'
+import { replayLadder, replayLadderAsOf, LadderMovement, LadderReplayResult, ReplayCutoff } from '@/lib/utils/events'
+import { getLadderRule } from '@/lib/utils/ladderRules'
+import { challengeRangeForLadder } from '@/lib/utils/challengeRange'
+import { fetchLadder, fetchLadders } from '@/lib/supabase/ladders'
+import { persistRatings } from '@/lib/supabase/ratings'
+import { fetchActiveSeason } from '@/lib/supabase/seasons'
+import { ladderStartingOrder } from '@/lib/utils/roster'
+import { frozenChecker } from '@/lib/utils/playerStatus'
+import { changedEventRanks, changedRanks } from '@/lib/utils/ladderChanges'
+import { LadderWrite, commitChange, retryLadderWrite } from '@/lib/supabase/ladderWrites'
+import { ValidationError } from '@/lib/utils/errors'
+
+// Thin persistence layer around the pure replay engine in lib/utils/events.
+// Everything here reads or writes Supabase; the ladder rules live in the engine.
+
+export interface LadderData {
+  ladder: Ladder | null
+  season: Season | null  // Events and matches are limited to this season
+  players: Player[]      // Every player, including those on other ladders
+  events: RankingEvent[]
+  matches: Match[]
+  statusChanges: PlayerStatusChange[]  // Every player's, across all seasons
+}
+
+// One singles ladder (the default one unless `ladderId` is given). Doubles
+// matches and events are left to lib/supabase/teams.
+export async function fetchLadderData(supabase: SupabaseClient, ladderId?: string | null): Promise<LadderData> {
+  const [season, ladder] = await Promise.all([
+    fetchActiveSeason(supabase),
+    fetchLadder(supabase, ladderId)
+  ])
+
+  let eventsQuery = supabase
+    .from('ranking_events')
+    .select('*')
+    .is('team_id', null)
+    .order('event_date', { ascending: true })
+    .order('created_at', { ascending: true })
+  let matchesQuery = supabase.from('matches').select('*').is('team1_id', null)
+  if (season) {
+    eventsQuery = eventsQuery.eq('season_id', season.id)
+    matchesQuery = matchesQuery.eq('season_id', season.id)
+  }
+  if (ladder) {
+    eventsQuery = eventsQuery.eq('ladder_id', ladder.id)
+    matchesQuery = matchesQuery.eq('ladder_id', ladder.id)
+  }
+
+  const [playersResult, eventsResult, matchesResult, statusResult] = await Promise.all([
+    supabase.from('players').select('*').order('created_at', { ascending: true }),
+    eventsQuery,
+    matchesQuery,
+    supabase.from('player_status_changes').select('*').order('effective_from', { ascending: true })
+  ])
+
+  if (playersResult.error || !playersResult.data) {
+    throw new Error('Failed to fetch players')
+  }
+  if (eventsResult.error) {
+    throw new Error('Failed to fetch events')
+  }
+  if (matchesResult.error) {
+    throw new Error('Failed to fetch matches')
+  }
+  if (statusResult.error) {
+    throw new Error('Failed to fetch player status changes')
+  }
+
+  return {
+    ladder,
+    season,
+    players: playersResult.data,
+    events: eventsResult.data || [],
+    matches: matchesResult.data || [],
+    statusChanges: statusResult.data || []
+  }
+}
+
+// The ladder's players as the season started, before any promotion or relegation
+export function ladderDataStartingOrder(data: LadderData): Player[] {
+  return ladderStartingOrder(data.players, data.events, data.ladder?.id)
+}
+
+function replayOptions(data: LadderData) {
+  return {
+    rule: getLadderRule(data.ladder?.rule),
+    challengeRange: challengeRangeForLadder(data.ladder),
+    pool: data.players,
+    isFrozen: frozenChecker(data.statusChanges)
+  }
+}
+
+export function replayLadderData(data: LadderData): LadderReplayResult<Player> {
+  return replayLadder(ladderDataStartingOrder(data), data.events, data.matches, replayOptions(data))
+}
+
+// Standings at a point in the past. Nothing is written back.
+export function replayLadderDataAsOf(data: LadderData, cutoff: ReplayCutoff): LadderReplayResult<Player> | null {
+  return replayLadderAsOf(ladderDataStartingOrder(data), data.events, data.matches, cutoff, replayOptions(data))
+}
+
+// Move a player to `newRank` with a manual adjustment. The replay shifts
+// everyone else around them, and both are written together.
+export async function adjustPlayerRank(
+  supabase: SupabaseClient,
+  playerId: string,
+  newRank: number,
+  reason: string = 'Manual adjustment',
+  now: Date = new Date()
+): Promise<void> {
+  if (!Number.isInteger(newRank) || newRank < 1) {
+    throw new ValidationError('Please enter a valid rank')
+  }
+
+  const { data: player, error } = await supabase
+    .from('players')
+    .select('current_rank, ladder_id')
+    .eq('id', playerId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching player rank:', error)
+    throw error
+  }
+  if (!player) {
+    throw new ValidationError('Player not found', 404)
+  }
+
+  await commitChange(supabase, { doubles: false, ladderId: player.ladder_id }, () => ({
+    insertEvent: {
+      id: crypto.randomUUID(),
+      event_type: 'manual_adjustment',
+      event_date: now.toISOString(),
+      player_id: playerId,
+      ladder_id: player.ladder_id ?? null,
+      old_rank: player.current_rank,
+      new_rank: newRank,
+      reason,
+      created_at: now.toISOString()
+    }
+  }))
+}
+
+export function warnSkipped(trace: LadderMovement[]): void {
+  for (const movement of trace) {
+    if (movement.skipped) {
+      console.warn(`Skipped ranking event ${movement.event_id}: ${movement.reason}`)
+    }
+  }
+}
+
+// The events and players whose values a replay of `data` changed.
+// Events before `fromDate` are left as they are.
+export function replayWrite(
+  data: LadderData,
+  result: LadderReplayResult<Player>,
+  fromDate?: string
+): LadderWrite {
+  warnSkipped(result.trace)
+  return {
+    eventRanks: changedEventRanks(data.events, result.trace, fromDate),
+    playerRanks: changedRanks(data.players, result.standings)
+  }
+}
+
+// Replay every ladder and write the results back, each in one transaction
+// and only if nothing was written since it was read. Ratings span all
+// ladders, so they are recomputed once at the end.
+async function rebuildLadders(
+  supabase: SupabaseClient,
+  fromDate?: string
+): Promise<LadderReplayResult<Player>> {
+  const ladders = await fetchLadders(supabase)
+  const ladderIds = ladders.length > 0 ? ladders.map(ladder => ladder.id) : [null]
+  const combined: LadderReplayResult<Player> = { standings: [], trace: [] }
+
+  for (const ladderId of ladderIds) {
+    const { result } = await retryLadderWrite(supabase, async () => {
+      const data = await fetchLadderData(supabase, ladderId)
+      const result = replayLadderData(data)
+      return { write: replayWrite(data, result, fromDate), result }
+    })
+    combined.standings.push(...result.standings)
+    combined.trace.push(...result.trace)
+  }
+
+  await persistRatings(supabase)
+  return combined
+}
+
+export async function rebuildAllRankings(supabase: SupabaseClient): Promise<LadderReplayResult<Player>> {
+  try {
+    return await rebuildLadders(supabase)
+  } catch (error) {
+    console.error('Error rebuilding rankings:', error)
+    throw error
+  }
+}
+
+// Events before `fromDate` can't change, so only later events are rewritten.
+// The ladders themselves are always replayed from the initial order.
+export async function replayEventsFromDate(
+  supabase: SupabaseClient,
+  fromDate: string
+): Promise<LadderReplayResult<Player>> {
+  try {
+    return await rebuildLadders(supabase, fromDate)
+  } catch (error) {
+    console.error('Error replaying events:', error)
+    throw error
+  }
+}
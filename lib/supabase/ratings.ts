@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Match, Player, RatingHistoryEntry } from '@/lib/types/database'
+import { RatingSystem, computeRatings, getRatingSystem } from '@/lib/utils/ratings'
+import { changedRatings } from '@/lib/utils/ladderChanges'
+import { LadderWrite, retryLadderWrite } from '@/lib/supabase/ladderWrites'
+import { fetchLadders } from '@/lib/supabase/ladders'
+
+// Ratings carry across seasons, so they are computed from every match, not
+// just the active season's
+export async function fetchRatedMatches(supabase: SupabaseClient): Promise<Match[]> {
+  const { data, error } = await supabase
+    .from('matches')
+    .select('*')
+
+  if (error) {
+    throw new Error('Failed to fetch matches')
+  }
+
+  return data || []
+}
+
+// Every rating recomputed from `matches`. Ratings are derived data, so the
+// history is replaced wholesale; only changed player ratings are written.
+export function ratingWrite(
+  players: Player[],
+  matches: Match[],
+  system: RatingSystem
+): Pick<LadderWrite, 'ratings' | 'ratingHistory'> {
+  const { ratings, history } = computeRatings(players.map(player => player.id), matches, system)
+  return {
+    ratings: changedRatings(players, ratings),
+    ratingHistory: history.map(change => ({ ...change, system: system.id }))
+  }
+}
+
+// Recompute every rating, with the first ladder's system
+export async function persistRatings(supabase: SupabaseClient): Promise<void> {
+  await retryLadderWrite(supabase, async () => {
+    const [playersResult, ladders, matches] = await Promise.all([
+      supabase.from('players').select('*'),
+      fetchLadders(supabase),
+      fetchRatedMatches(supabase)
+    ])
+
+    if (playersResult.error || !playersResult.data) {
+      throw new Error('Failed to fetch players')
+    }
+
+    return { write: ratingWrite(playersResult.data, matches, getRatingSystem(ladders[0]?.rating_system)) }
+  })
+}
+
+export async function fetchRatingHistory(
+  supabase: SupabaseClient,
+  playerId: string
+): Promise<RatingHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('rating_history')
+    .select('*')
+    .eq('player_id', playerId)
+    .order('played_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching rating history:', error)
+    throw error
+  }
+
+  return data || []
+}
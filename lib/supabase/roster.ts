@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Player, RankingEvent } from '@/lib/types/database'
+import { EntryMethod, joinEvent, ladderEntryProblem } from '@/lib/utils/roster'
+import { challengeResolution } from '@/lib/utils/challenges'
+import { commitChange } from '@/lib/supabase/ladderWrites'
+import { fetchOpenChallengesFor } from '@/lib/supabase/challenges'
+import { ValidationError } from '@/lib/utils/errors'
+
+// How a player enters their ladder; see joinEvent
+export interface LadderEntry {
+  method: EntryMethod
+  position?: number
+  opponentId?: string
+  won?: boolean
+}
+
+export function checkLadderEntry(entry: LadderEntry): void {
+  const problem = ladderEntryProblem(entry)
+  if (problem) {
+    throw new ValidationError(problem)
+  }
+}
+
+// The player_joined event for `entry`. Ranks and reason are filled in by the replay.
+export function joinLadderEvent(player: Pick<Player, 'id' | 'ladder_id'>, entry: LadderEntry, now: Date): RankingEvent {
+  return { id: crypto.randomUUID(), ...joinEvent(player.id, player.ladder_id, entry, now), created_at: now.toISOString() }
+}
+
+// Put a removed player back onto their ladder with a player_joined event.
+// The replay enters them at that point in the stream, and the event, their
+// membership and the new ranks are written together. New players join as
+// they are added; see addPlayer.
+export async function joinLadder(
+  supabase: SupabaseClient,
+  player: Pick<Player, 'id' | 'ladder_id'>,
+  entry: LadderEntry,
+  now: Date = new Date()
+): Promise<void> {
+  checkLadderEntry(entry)
+
+  await commitChange(supabase, { doubles: false, ladderId: player.ladder_id }, () => ({
+    insertEvent: joinLadderEvent(player, entry, now),
+    onLadder: { playerId: player.id, onLadder: true }
+  }))
+}
+
+// Take a player off their ladder with a player_removed event, cancelling
+// their open challenges in the same write. Their matches and history stay;
+// everyone below moves up one.
+export async function removeFromLadder(
+  supabase: SupabaseClient,
+  player: Pick<Player, 'id' | 'ladder_id'>,
+  now: Date = new Date()
+): Promise<void> {
+  await commitChange(supabase, { doubles: false, ladderId: player.ladder_id }, async () => {
+    const challenges = await fetchOpenChallengesFor(supabase, player.id)
+    return {
+      insertEvent: {
+        id: crypto.randomUUID(),
+        event_type: 'player_removed',
+        event_date: now.toISOString(),
+        player_id: player.id,
+        ladder_id: player.ladder_id ?? null,
+        created_at: now.toISOString()
+      },
+      onLadder: { playerId: player.id, onLadder: false },
+      resolveChallenges: challenges.map(challenge => challengeResolution(challenge, { type: 'cancel' }, now))
+    }
+  })
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Player, Season, SeasonSeeding, SeasonStandingWithPlayer } from '@/lib/types/database'
+import { OPEN_CHALLENGE_STATUSES } from '@/lib/utils/challenges'
+import { seedRanks } from '@/lib/utils/seasons'
+import { groupPlayersByLadder } from '@/lib/utils/divisions'
+import { isOnLadder } from '@/lib/utils/roster'
+import { rebuildAllRankings } from '@/lib/supabase/rankings'
+import { ValidationError } from '@/lib/utils/errors'
+
+export async function fetchSeasons(supabase: SupabaseClient): Promise<Season[]> {
+  const { data, error } = await supabase
+    .from('seasons')
+    .select('*')
+    .order('started_at', { ascending: false })
+
+  if (error) {
+    console.warn('Could not fetch seasons:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function fetchActiveSeason(supabase: SupabaseClient): Promise<Season | null> {
+  const { data, error } = await supabase
+    .from('seasons')
+    .select('*')
+    .eq('status', 'active')
+    .limit(1)
+
+  if (error) {
+    console.warn('Could not fetch the active season:', error)
+    return null
+  }
+
+  return data && data.length > 0 ? data[0] : null
+}
+
+export async function fetchSeasonStandings(
+  supabase: SupabaseClient,
+  seasonId: string
+): Promise<SeasonStandingWithPlayer[]> {
+  const { data, error } = await supabase
+    .from('season_standings')
+    .select('*, player:players(*)')
+    .eq('season_id', seasonId)
+    .order('ladder_id', { ascending: true })
+    .order('final_rank', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching season standings:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+// Archive the active season: snapshot its final standings, cancel open
+// challenges and mark it closed. Its matches and events become read-only.
+export async function closeSeason(supabase: SupabaseClient): Promise<Season> {
+  const season = await fetchActiveSeason(supabase)
+  if (!season) {
+    throw new ValidationError('There is no active season to close')
+  }
+
+  // Make sure the stored ranks and ratings reflect every result
+  await rebuildAllRankings(supabase)
+
+  const { data: players, error: playersError } = await supabase
+    .from('players')
+    .select('*')
+
+  if (playersError || !players) {
+    throw new Error('Failed to fetch players')
+  }
+
+  // Removed and withdrawn players left the ladder and have no final rank
+  const { error: standingsError } = await supabase
+    .from('season_standings')
+    .upsert(
+      (players as Player[]).filter(isOnLadder).map(player => ({
+        season_id: season.id,
+        player_id: player.id,
+        ladder_id: player.ladder_id ?? null,
+        initial_rank: player.initial_rank,
+        final_rank: player.current_rank,
+        rating: player.rating ?? null
+      })),
+      { onConflict: 'season_id,player_id' }
+    )
+
+  if (standingsError) {
+    console.error('Error archiving season standings:', standingsError)
+    throw standingsError
+  }
+
+  const now = new Date().toISOString()
+
+  const { error: challengesError } = await supabase
+    .from('challenges')
+    .update({ status: 'cancelled', resolved_at: now })
+    .in('status', OPEN_CHALLENGE_STATUSES)
+
+  if (challengesError) {
+    console.error('Error cancelling open challenges:', challengesError)
+    throw challengesError
+  }
+
+  const { data: closed, error } = await supabase
+    .from('seasons')
+    .update({ status: 'closed', closed_at: now })
+    .eq('id', season.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error closing season:', error)
+    throw error
+  }
+
+  return closed
+}
+
+// Start a new season with a freshly seeded ladder. Fails if one is still active.
+export async function startSeason(
+  supabase: SupabaseClient,
+  name: string,
+  seeding: SeasonSeeding,
+  manualRanks?: Record<string, number>
+): Promise<Season> {
+  if (await fetchActiveSeason(supabase)) {
+    throw new ValidationError('Close the active season before starting a new one')
+  }
+
+  const { data: players, error: playersError } = await supabase
+    .from('players')
+    .select('*')
+
+  if (playersError || !players) {
+    throw new Error('Failed to fetch players')
+  }
+
+  let previousStandings: { player_id: string; final_rank: number }[] = []
+  if (seeding === 'previous') {
+    const previous = (await fetchSeasons(supabase)).find(season => season.status === 'closed')
+    if (!previous) {
+      throw new ValidationError('There is no previous season to seed from')
+    }
+    previousStandings = await fetchSeasonStandings(supabase, previous.id)
+  }
+
+  // Each ladder is seeded on its own, from 1 down. Removed and withdrawn players sit the season out.
+  const seeded = (players as Player[]).filter(isOnLadder)
+  const ranks: Record<string, number> = {}
+  for (const ladderPlayers of groupPlayersByLadder(seeded)) {
+    Object.assign(ranks, seedRanks(ladderPlayers, seeding, { previousStandings, manualRanks }))
+  }
+
+  const { data: season, error } = await supabase
+    .from('seasons')
+    .insert({ name, status: 'active', seeding, started_at: new Date().toISOString() })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error starting season:', error)
+    throw error
+  }
+
+  for (const player of seeded) {
+    const { error: updateError } = await supabase
+      .from('players')
+      .update({ initial_rank: ranks[player.id], current_rank: ranks[player.id] })
+      .eq('id', player.id)
+
+    if (updateError) {
+      console.error(`Error seeding ${player.name}:`, updateError)
+      throw updateError
+    }
+  }
+
+  return season
+}
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Team, TeamWithPlayers, Match, MatchWithTeams, RankingEvent, Ladder, Season } from '@/lib/types/database'
+import { replayLadder, initialLadderOrder, LadderReplayResult } from '@/lib/utils/events'
+import { getLadderRule } from '@/lib/utils/ladderRules'
+import { fetchLadder } from '@/lib/supabase/ladders'
+import { fetchActiveSeason } from '@/lib/supabase/seasons'
+import { warnSkipped } from '@/lib/supabase/rankings'
+import { LadderWrite, retryLadderWrite } from '@/lib/supabase/ladderWrites'
+import { changedEventRanks, changedRanks } from '@/lib/utils/ladderChanges'
+import { ValidationError } from '@/lib/utils/errors'
+
+// The doubles ladder: teams are the entrants, and their matches and events
+// are the ones carrying team ids. Replays run through the same engine as singles.
+
+const TEAM_WITH_PLAYERS = `
+  *,
+  player1:players!teams_player1_id_fkey(*),
+  player2:players!teams_player2_id_fkey(*)
+`
+
+export async function fetchTeams(supabase: SupabaseClient): Promise<TeamWithPlayers[]> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select(TEAM_WITH_PLAYERS)
+    .order('current_rank', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching teams:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+// New teams join at the bottom of the doubles ladder
+export async function createTeam(
+  supabase: SupabaseClient,
+  input: Pick<Team, 'name' | 'player1_id' | 'player2_id'>
+): Promise<Team> {
+  if (input.player1_id === input.player2_id) {
+    throw new ValidationError('A team needs two different players')
+  }
+
+  const { data: lastTeam, error: rankError } = await supabase
+    .from('teams')
+    .select('current_rank, initial_rank')
+    .order('current_rank', { ascending: false })
+    .limit(1)
+
+  if (rankError) {
+    console.error('Error fetching team ranks:', rankError)
+    throw rankError
+  }
+
+  const nextRank = lastTeam && lastTeam.length > 0
+    ? Math.max(lastTeam[0].current_rank, lastTeam[0].initial_rank) + 1
+    : 1
+
+  const { data, error } = await supabase
+    .from('teams')
+    .insert([{ ...input, current_rank: nextRank, initial_rank: nextRank }])
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating team:', error)
+    throw error.code === '23505' ? new Error('Those two players are already a team') : error
+  }
+
+  return data
+}
+
+// The team's matches and events go with it, so the ladder is rebuilt afterwards
+export async function deleteTeam(supabase: SupabaseClient, teamId: string): Promise<void> {
+  const { error } = await supabase
+    .from('teams')
+    .delete()
+    .eq('id', teamId)
+
+  if (error) {
+    console.error('Error deleting team:', error)
+    throw error
+  }
+}
+
+// Doubles matches with both teams, newest first. Limited to `teamIds` if given.
+export async function fetchDoublesMatches(
+  supabase: SupabaseClient,
+  options: { teamIds?: string[]; seasonId?: string | null } = {}
+): Promise<MatchWithTeams[]> {
+  let query = supabase
+    .from('matches')
+    .select(`
+      *,
+      team1:teams!matches_team1_id_fkey(*),
+      team2:teams!matches_team2_id_fkey(*)
+    `)
+    .not('team1_id', 'is', null)
+    .order('created_at', { ascending: false })
+
+  if (options.teamIds) {
+    if (options.teamIds.length === 0) return []
+    const ids = options.teamIds.join(',')
+    query = query.or(`team1_id.in.(${ids}),team2_id.in.(${ids})`)
+  }
+  if (options.seasonId) {
+    query = query.eq('season_id', options.seasonId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching doubles matches:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+export interface DoublesLadderData {
+  ladder: Ladder | null
+  season: Season | null  // Events and matches are limited to this season
+  teams: Team[]
+  events: RankingEvent[]
+  matches: Match[]
+}
+
+export async function fetchDoublesLadderData(supabase: SupabaseClient): Promise<DoublesLadderData> {
+  const season = await fetchActiveSeason(supabase)
+
+  let eventsQuery = supabase
+    .from('ranking_events')
+    .select('*')
+    .not('team_id', 'is', null)
+    .order('event_date', { ascending: true })
+    .order('created_at', { ascending: true })
+  let matchesQuery = supabase.from('matches').select('*').not('team1_id', 'is', null)
+  if (season) {
+    eventsQuery = eventsQuery.eq('season_id', season.id)
+    matchesQuery = matchesQuery.eq('season_id', season.id)
+  }
+
+  const [ladder, teamsResult, eventsResult, matchesResult] = await Promise.all([
+    fetchLadder(supabase),
+    supabase.from('teams').select('*').order('created_at', { ascending: true }),
+    eventsQuery,
+    matchesQuery
+  ])
+
+  if (teamsResult.error || !teamsResult.data) {
+    throw new Error('Failed to fetch teams')
+  }
+  if (eventsResult.error) {
+    throw new Error('Failed to fetch doubles events')
+  }
+  if (matchesResult.error) {
+    throw new Error('Failed to fetch doubles matches')
+  }
+
+  return {
+    ladder,
+    season,
+    teams: teamsResult.data,
+    events: eventsResult.data || [],
+    matches: matchesResult.data || []
+  }
+}
+
+// Doubles follows the ladder's rule. Challenges are singles-only, so no range applies.
+export function replayDoublesLadderData(data: DoublesLadderData): LadderReplayResult<Team> {
+  return replayLadder(initialLadderOrder(data.teams), data.events, data.matches, {
+    rule: getLadderRule(data.ladder?.rule)
+  })
+}
+
+// The events and teams whose values a replay of `data` changed
+export function doublesReplayWrite(data: DoublesLadderData, result: LadderReplayResult<Team>): LadderWrite {
+  warnSkipped(result.trace)
+  return {
+    eventRanks: changedEventRanks(data.events, result.trace),
+    teamRanks: changedRanks(data.teams, result.standings)
+  }
+}
+
+export async function rebuildDoublesRankings(supabase: SupabaseClient): Promise<LadderReplayResult<Team>> {
+  try {
+    const { result } = await retryLadderWrite(supabase, async () => {
+      const data = await fetchDoublesLadderData(supabase)
+      const result = replayDoublesLadderData(data)
+      return { write: doublesReplayWrite(data, result), result }
+    })
+    return result
+  } catch (error) {
+    console.error('Error rebuilding doubles rankings:', error)
+    throw error
+  }
+}
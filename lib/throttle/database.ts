@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AttemptStore } from '@/lib/throttle/store'
+
+// Attempts kept in the auth_attempts table, shared by every server instance.
+// Server-only: the table has no policies, so this needs the service role client.
+export function databaseAttemptStore(supabase: SupabaseClient): AttemptStore {
+  return {
+    async record(attempt) {
+      const { error } = await supabase
+        .from('auth_attempts')
+        .insert(attempt)
+
+      if (error) {
+        console.error('Error recording sign-in attempt:', error)
+        throw error
+      }
+    },
+
+    async recent(action, { email, ip }, since) {
+      // By IP and by email separately, rather than building an `or` filter from them
+      const query = (column: 'ip' | 'email', value: string) => supabase
+        .from('auth_attempts')
+        .select('id, action, email, ip, outcome, reason, created_at')
+        .eq('action', action)
+        .eq(column, value)
+        .gte('created_at', since.toISOString())
+
+      const results = await Promise.all(email === null ? [query('ip', ip)] : [query('ip', ip), query('email', email)])
+      const failed = results.find(result => result.error)
+      if (failed) {
+        console.error('Error fetching sign-in attempts:', failed.error)
+        throw failed.error
+      }
+
+      // An attempt from this IP with this email comes back from both
+      const seen = new Set<string>()
+      return results
+        .flatMap(result => result.data || [])
+        .filter(attempt => {
+          if (seen.has(attempt.id)) return false
+          seen.add(attempt.id)
+          return true
+        })
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    },
+
+    async list(limit) {
+      const { data, error } = await supabase
+        .from('auth_attempts')
+        .select('action, email, ip, outcome, reason, created_at')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching sign-in attempts:', error)
+        throw error
+      }
+
+      return data || []
+    }
+  }
+}
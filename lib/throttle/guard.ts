@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AttemptAction, AttemptStore, createAttemptStore } from '@/lib/throttle/store'
+import { normalizeEmail } from '@/lib/auth/loginTokens'
+import { THROTTLE_POLICIES, retryAfterSeconds, throttleLookback } from '@/lib/throttle/policy'
+
+export interface AttemptGuard {
+  // A 429 to send back instead of checking the attempt, or null to go ahead
+  blocked: NextResponse | null
+  record(outcome: 'success' | 'failure', reason?: string): Promise<void>
+}
+
+// The client's IP, as the platform in front of the app saw it: Vercel sets
+// x-real-ip, and other proxies append the address they were reached from to
+// x-forwarded-for. Earlier x-forwarded-for entries come from the client, so
+// can be anything; 'unknown' when there's no proxy.
+export function requestIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  return request.headers.get('x-real-ip')?.trim() || forwarded || 'unknown'
+}
+
+// The message doesn't say which limit was hit, so it gives nothing away about
+// the email
+function tooManyAttempts(seconds: number): NextResponse {
+  const minutes = Math.ceil(seconds / 60)
+  return NextResponse.json(
+    { error: `Too many attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.` },
+    { status: 429, headers: { 'Retry-After': String(seconds) } }
+  )
+}
+
+// Check whether a sign-in attempt may go ahead, before checking what was
+// entered. Turned-away attempts are recorded here; the route records the rest
+// once it knows whether they succeeded.
+export async function guardAttempt(
+  request: NextRequest,
+  action: AttemptAction,
+  email: string | null,
+  store: AttemptStore = createAttemptStore(),
+  now: Date = new Date()
+): Promise<AttemptGuard> {
+  const policy = THROTTLE_POLICIES[action]
+  const who = { email: email ? normalizeEmail(email) || null : null, ip: requestIp(request) }
+
+  const record = async (outcome: 'success' | 'failure' | 'throttled', reason?: string) => {
+    await store.record({ action, ...who, outcome, reason: reason ?? null, created_at: new Date().toISOString() })
+  }
+
+  const attempts = await store.recent(action, who, throttleLookback(policy, now))
+  const seconds = retryAfterSeconds(attempts, policy, who, now)
+  if (seconds > 0) {
+    await record('throttled')
+    return { blocked: tooManyAttempts(seconds), record }
+  }
+
+  return { blocked: null, record }
+}
@@ -0,0 +1,36 @@
+import type { AttemptStore, AuthAttempt } from '@/lib/throttle/store'
+
+// Attempts kept in this server process, for development and tests. Each
+// server instance has its own, and they are gone on restart, so production
+// should use the database store.
+
+// Older attempts no longer affect throttling, so they are dropped
+const KEEP_HOURS = 24
+
+const shared: AuthAttempt[] = []
+
+// `attempts` defaults to one list shared by the whole process
+export function memoryAttemptStore(attempts: AuthAttempt[] = shared): AttemptStore {
+  return {
+    async record(attempt) {
+      const cutoff = new Date(attempt.created_at).getTime() - KEEP_HOURS * 60 * 60 * 1000
+      const firstKept = attempts.findIndex(entry => new Date(entry.created_at).getTime() >= cutoff)
+      attempts.splice(0, firstKept === -1 ? attempts.length : firstKept)
+      attempts.push(attempt)
+    },
+
+    async recent(action, { email, ip }, since) {
+      return attempts
+        .filter(attempt =>
+          attempt.action === action &&
+          new Date(attempt.created_at).getTime() >= since.getTime() &&
+          (attempt.ip === ip || (email !== null && attempt.email === email))
+        )
+        .reverse()
+    },
+
+    async list(limit) {
+      return attempts.slice(-limit).reverse()
+    }
+  }
+}
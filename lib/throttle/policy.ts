@@ -0,0 +1,95 @@
+import type { AttemptAction, AuthAttempt } from '@/lib/throttle/store'
+
+// How many sign-in attempts are let through. Each action has limits per email
+// and per IP over a sliding window; guessing actions also lock an email out
+// after a run of failures, for a time that doubles with each further failure
+// until one succeeds. Everything here is pure, so it can be tested offline.
+
+export interface ThrottlePolicy {
+  windowMinutes: number
+  counts: 'attempts' | 'failures'  // What the per-window limits count
+  maxPerEmail: number
+  maxPerIp: number
+  lockout?: {
+    after: number        // Failures in a row before the first lockout
+    baseSeconds: number  // The first lockout; each failure after doubles it
+    maxSeconds: number
+  }
+}
+
+export const THROTTLE_POLICIES: Record<AttemptAction, ThrottlePolicy> = {
+  // Every request sends an email (or looks like it does), so all of them count
+  login_link: { windowMinutes: 15, counts: 'attempts', maxPerEmail: 5, maxPerIp: 20 },
+  admin_password: {
+    windowMinutes: 15, counts: 'failures', maxPerEmail: 10, maxPerIp: 20,
+    lockout: { after: 5, baseSeconds: 60, maxSeconds: 60 * 60 }
+  },
+  two_factor: {
+    windowMinutes: 15, counts: 'failures', maxPerEmail: 10, maxPerIp: 20,
+    lockout: { after: 5, baseSeconds: 60, maxSeconds: 60 * 60 }
+  }
+}
+
+// Runs of failures are looked for this far back
+const LOCKOUT_LOOKBACK_HOURS = 24
+
+// The earliest attempt that can still matter for `policy`
+export function throttleLookback(policy: ThrottlePolicy, now: Date): Date {
+  const minutes = policy.lockout ? Math.max(policy.windowMinutes, LOCKOUT_LOOKBACK_HOURS * 60) : policy.windowMinutes
+  return new Date(now.getTime() - minutes * 60 * 1000)
+}
+
+// How long a lockout lasts after `failures` failures in a row (0 if none)
+export function lockoutSeconds(policy: ThrottlePolicy, failures: number): number {
+  if (!policy.lockout || failures < policy.lockout.after) return 0
+  return Math.min(policy.lockout.baseSeconds * 2 ** (failures - policy.lockout.after), policy.lockout.maxSeconds)
+}
+
+// Seconds until the oldest counted attempt leaves the window, once `max` are in it
+function windowDelay(attempts: AuthAttempt[], policy: ThrottlePolicy, max: number, now: Date): number {
+  const windowStart = now.getTime() - policy.windowMinutes * 60 * 1000
+  const counted = attempts.filter(attempt =>
+    new Date(attempt.created_at).getTime() > windowStart &&
+    (policy.counts === 'attempts' ? attempt.outcome !== 'throttled' : attempt.outcome === 'failure')
+  )
+  if (counted.length < max) return 0
+
+  // Newest first, so this is the oldest of the last `max`
+  const oldest = new Date(counted[max - 1].created_at).getTime()
+  return (oldest - windowStart) / 1000
+}
+
+// Seconds until the lockout from the email's latest run of failures ends
+function lockoutDelay(attempts: AuthAttempt[], policy: ThrottlePolicy, now: Date): number {
+  let failures = 0
+  let lastFailure: number | null = null
+  for (const attempt of attempts) {
+    if (attempt.outcome === 'success') break
+    if (attempt.outcome !== 'failure') continue
+    failures++
+    lastFailure ??= new Date(attempt.created_at).getTime()
+  }
+  if (lastFailure === null) return 0
+
+  return (lastFailure + lockoutSeconds(policy, failures) * 1000 - now.getTime()) / 1000
+}
+
+// Whole seconds before another attempt from this email and IP is let through,
+// or 0 to let it through now. `attempts` are the recent ones at the same
+// action from either, newest first.
+export function retryAfterSeconds(
+  attempts: AuthAttempt[],
+  policy: ThrottlePolicy,
+  who: { email: string | null, ip: string },
+  now: Date = new Date()
+): number {
+  const byIp = attempts.filter(attempt => attempt.ip === who.ip)
+  const byEmail = who.email === null ? [] : attempts.filter(attempt => attempt.email === who.email)
+
+  const delay = Math.max(
+    windowDelay(byIp, policy, policy.maxPerIp, now),
+    windowDelay(byEmail, policy, policy.maxPerEmail, now),
+    lockoutDelay(byEmail, policy, now)
+  )
+  return delay > 0 ? Math.ceil(delay) : 0
+}
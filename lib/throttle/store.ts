@@ -0,0 +1,49 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { databaseAttemptStore } from '@/lib/throttle/database'
+import { memoryAttemptStore } from '@/lib/throttle/memory'
+
+// Every sign-in attempt is recorded, both to decide whether to let the next
+// one through (see lib/throttle/policy) and as an audit log. The store is
+// chosen by AUTH_ATTEMPT_STORE: `database` (the default) keeps attempts in
+// the auth_attempts table; `memory` keeps them in this server process only,
+// for development and tests.
+
+// What was attempted: asking for a sign-in link, an admin password, or an
+// authenticator or recovery code
+export type AttemptAction = 'login_link' | 'admin_password' | 'two_factor'
+
+// `throttled` attempts were turned away before being checked
+export type AttemptOutcome = 'success' | 'failure' | 'throttled'
+
+export interface AuthAttempt {
+  action: AttemptAction
+  email: string | null
+  ip: string
+  outcome: AttemptOutcome
+  reason?: string | null  // Why it failed, for the log; never shown to whoever tried
+  created_at: string
+}
+
+export interface AttemptStore {
+  record(attempt: AuthAttempt): Promise<void>
+  // Attempts at `action` since `since` from this email or this IP, newest first
+  recent(action: AttemptAction, who: { email: string | null, ip: string }, since: Date): Promise<AuthAttempt[]>
+  // The newest attempts at anything, for the log
+  list(limit: number): Promise<AuthAttempt[]>
+}
+
+// The environment variables above, or any other settings in the same shape
+type AttemptStoreEnv = Record<string, string | undefined>
+
+export function createAttemptStore(env: AttemptStoreEnv = process.env): AttemptStore {
+  const kind = env.AUTH_ATTEMPT_STORE || 'database'
+
+  switch (kind) {
+    case 'database':
+      return databaseAttemptStore(createAdminClient())
+    case 'memory':
+      return memoryAttemptStore()
+    default:
+      throw new Error(`Unknown AUTH_ATTEMPT_STORE: ${kind}`)
+  }
+}
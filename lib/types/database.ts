@@ -1,3 +1,58 @@
+import type { LadderRuleId } from '@/lib/utils/ladderRules'
+import type { ChallengeRangeType } from '@/lib/utils/challengeRange'
+import type { RatingSystemId } from '@/lib/utils/ratings'
+import type { MatchFormatId } from '@/lib/utils/matchFormats'
+import type { EntryMethod } from '@/lib/utils/roster'
+import type { Role } from '@/lib/auth/roles'
+
+export interface Ladder {
+  id: string
+  name: string
+  rule: LadderRuleId
+  challenge_range_type?: ChallengeRangeType
+  challenge_range_spots?: number | null
+  inactivity_days?: number | null    // Days without a match before a penalty; null turns it off
+  inactivity_places?: number | null  // Places dropped per penalty
+  rating_system?: RatingSystemId
+  match_format?: MatchFormatId  // Format new matches are entered in
+  division_above_id?: string | null  // The ladder its top players are promoted to
+  promotion_spots?: number           // How many players swap with the division above
+  report_confirm_hours?: number | null  // Hours before an unanswered player report confirms itself; null waits for the opponent or staff
+  created_at: string
+}
+
+export type SeasonStatus = 'active' | 'closed'
+export type SeasonSeeding = 'previous' | 'ratings' | 'manual'
+
+export interface Season {
+  id: string
+  name: string
+  status: SeasonStatus      // At most one season is active; closed seasons are read-only
+  seeding?: SeasonSeeding | null  // How the starting ladder was set
+  started_at: string
+  closed_at?: string | null
+  created_at: string
+}
+
+// A player's start and finish in a closed season
+export interface SeasonStanding {
+  id: string
+  season_id: string
+  player_id: string
+  ladder_id?: string | null  // The ladder the player finished on
+  initial_rank: number
+  final_rank: number
+  rating?: number | null
+  created_at: string
+}
+
+export interface SeasonStandingWithPlayer extends SeasonStanding {
+  player: Player
+}
+
+// Injured and on-leave players are frozen in place; withdrawn players have left the ladder
+export type PlayerStatus = 'active' | 'injured' | 'on_leave' | 'withdrawn'
+
 export interface Player {
   id: string
   name: string
@@ -5,41 +60,101 @@ export interface Player {
   current_rank: number
   initial_rank: number
   notes: string
+  rating?: number | null            // Latest Elo/Glicko-2 rating, rewritten on every rebuild
+  rating_deviation?: number | null  // Glicko-2 only
+  ladder_id?: string                // The ladder (division) the player plays on
+  status?: PlayerStatus             // As of the latest status change
+  on_ladder?: boolean               // False once removed from the ladder, until they rejoin
+  created_at: string
+}
+
+// A dated status transition; the player's status at any moment is the latest one in effect
+export interface PlayerStatusChange {
+  id: string
+  player_id: string
+  status: PlayerStatus
+  effective_from: string
+  note?: string | null
   created_at: string
 }
 
+// Walkovers, no-shows and defaults are decided without any play
+export type MatchResultType = 'completed' | 'retired' | 'walkover' | 'no_show' | 'default'
+
+export interface MatchSet {
+  p1: number  // Games, or points for a match tiebreak
+  p2: number
+  match_tiebreak?: boolean  // A tiebreak played in place of the deciding set
+  tiebreak?: { p1: number; p2: number }  // Points in the tiebreak game of a 7-6 set, when recorded
+}
+
 export interface Match {
   id: string
-  player1_id: string
-  player2_id: string
+  player1_id: string | null  // Singles; null on doubles matches
+  player2_id: string | null
+  team1_id?: string | null   // Doubles; null on singles matches
+  team2_id?: string | null
   date_played: string
-  set1_winner: 1 | 2
-  set1_p1_games: number
-  set1_p2_games: number
-  set2_winner: 1 | 2
-  set2_p1_games: number
-  set2_p2_games: number
-  tiebreaker_winner?: 1 | 2 | null
-  tiebreaker_p1_points?: number | null
-  tiebreaker_p2_points?: number | null
+  format_id?: MatchFormatId  // Format the match was played in; old matches use the default
+  sets: MatchSet[]           // In the order played; empty for walkovers, no-shows and defaults
   match_winner: 1 | 2
   has_retirement?: boolean
   retired_player?: 1 | 2 | null
+  result_type?: MatchResultType
+  defaulted_player?: 1 | 2 | null  // Gave the walkover, didn't show or was defaulted
+  season_id?: string | null  // Defaults to the active season
+  ladder_id?: string | null  // Defaults to player 1's ladder; null on doubles matches
+  created_at: string
+}
+
+// A doubles pair, holding one spot on the doubles ladder
+export interface Team {
+  id: string
+  name: string
+  player1_id: string
+  player2_id: string
+  current_rank: number
+  initial_rank: number
   created_at: string
 }
 
+export interface TeamWithPlayers extends Team {
+  player1: Player
+  player2: Player
+}
+
 export interface AllowedEmail {
   id: string
   email: string
-  is_admin: boolean
+  role: Role  // See lib/auth/roles
   created_at: string
 }
 
+// A staff member's authenticator. Server-only: never readable with the anon key.
+export interface AdminFactor {
+  allowed_email_id: string
+  totp_secret: string
+  enabled_at?: string | null     // Null until the first code is confirmed
+  last_used_step?: number | null // The last code's time step, so no code works twice
+  created_at: string
+}
+
+export interface AdminCredential {
+  allowed_email_id: string
+  password_hash: string  // scrypt$N$r$p$salt$hash (see lib/auth/passwordHash)
+  updated_at: string
+}
+
 export interface MatchWithPlayers extends Match {
   player1: Player
   player2: Player
 }
 
+export interface MatchWithTeams extends Match {
+  team1: Team
+  team2: Team
+}
+
 export interface PlayerStats {
   player: Player
   total_matches: number
@@ -51,14 +166,107 @@ export interface PlayerStats {
   games_lost: number
 }
 
+export type ChallengeStatus =
+  | 'issued'
+  | 'accepted'
+  | 'declined'
+  | 'scheduled'
+  | 'expired'
+  | 'completed'
+  | 'cancelled'
+
+export interface Challenge {
+  id: string
+  challenger_id: string
+  challenged_id: string
+  status: ChallengeStatus
+  issued_at: string
+  respond_by: string           // Deadline to accept or decline
+  play_by?: string | null      // Deadline to play once accepted
+  scheduled_for?: string | null
+  match_id?: string | null     // Set when the challenge is played
+  resolved_at?: string | null
+  created_at: string
+}
+
+export interface ChallengeWithPlayers extends Challenge {
+  challenger: Player
+  challenged: Player
+}
+
+// pending: waiting for the opponent. disputed: the opponent says it's wrong.
+// held: both agree, but the ladder wouldn't take it (e.g. out of range).
+// Staff decide disputed and held reports.
+export type MatchReportStatus =
+  | 'pending'
+  | 'disputed'
+  | 'held'
+  | 'confirmed'
+  | 'rejected'
+  | 'withdrawn'
+
+// A singles result a player submitted, before it becomes a match. The
+// reporter is always player 1.
+export interface MatchReport {
+  id: string
+  ladder_id?: string | null
+  player1_id: string
+  player2_id: string
+  date_played: string
+  format_id?: MatchFormatId
+  sets: MatchSet[]
+  result_type?: MatchResultType
+  has_retirement?: boolean
+  retired_player?: 1 | 2 | null
+  defaulted_player?: 1 | 2 | null
+  status: MatchReportStatus
+  confirm_by?: string | null   // When it confirms itself if the opponent hasn't answered
+  note?: string | null         // Why it was disputed, held or rejected
+  match_id?: string | null     // Set once confirmed
+  resolved_by?: string | null  // Email of whoever confirmed, approved or rejected it; null when automatic
+  resolved_at?: string | null
+  created_at: string
+}
+
+export interface MatchReportWithPlayers extends MatchReport {
+  player1: Player
+  player2: Player
+}
+
 export interface RankingEvent {
   id: string
-  event_type: 'match' | 'manual_adjustment'
+  event_type: 'match' | 'manual_adjustment' | 'forfeit' | 'inactivity_penalty' | 'promotion' | 'relegation' | 'player_withdrawn' | 'player_joined' | 'player_removed'
   event_date: string
   match_id?: string  // For match events
-  player_id?: string  // For manual adjustment events
+  challenge_id?: string  // For forfeit events
+  player_id?: string  // For manual adjustment, inactivity penalty, join, removal and withdrawal events; the winner for forfeit events
+  opponent_id?: string  // For forfeit events: the player who forfeited. For qualifier joins: the qualifying opponent
+  team_id?: string | null           // Doubles ladder events use team ids in place of player_id
+  opponent_team_id?: string | null  // and opponent_id
   old_rank?: number   // For manual adjustment events
-  new_rank?: number   // For manual adjustment events
+  new_rank?: number   // For manual adjustment events, and joins at a specific spot
+  places?: number     // For inactivity penalty events: how far the player drops
   reason?: string     // For manual adjustment events
+  range_override?: boolean  // For match events: admin allowed it outside the challenge range
+  override_reason?: string | null
+  season_id?: string | null  // Defaults to the active season
+  ladder_id?: string | null  // The ladder whose stream the event is in; null for doubles
+  from_ladder_id?: string | null  // For promotion and relegation events: the player leaves this ladder
+  to_ladder_id?: string | null    // and joins this one
+  entry_method?: EntryMethod | null  // For player_joined events: where the player enters
+  qualifier_won?: boolean | null     // For qualifier joins: whether the new player won
   created_at: string
-}
\ No newline at end of file
+}
+
+export interface RatingHistoryEntry {
+  id: string
+  match_id: string
+  player_id: string
+  system: RatingSystemId
+  played_at: string
+  rating_before: number
+  rating_after: number
+  deviation?: number | null
+  volatility?: number | null
+  created_at: string
+}
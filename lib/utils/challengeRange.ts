@@ -0,0 +1,58 @@
+import type { Ladder } from '@/lib/types/database'
+import { pyramidTier } from '@/lib/utils/ladderRules'
+
+// Which opponents a player may take on, measured on the ladder at the time
+export type ChallengeRangeType = 'unlimited' | 'spots' | 'tier'
+
+export interface ChallengeRange {
+  type: ChallengeRangeType
+  spots?: number | null  // For 'spots': how far above your own position you may challenge
+}
+
+export const CHALLENGE_RANGE_LABELS: Record<ChallengeRangeType, string> = {
+  unlimited: 'Anyone on the ladder',
+  spots: 'Up to N spots above',
+  tier: 'Own pyramid tier or the tier directly above'
+}
+
+export function challengeRangeForLadder(ladder?: Pick<Ladder, 'challenge_range_type' | 'challenge_range_spots'> | null): ChallengeRange {
+  if (!ladder?.challenge_range_type) {
+    return { type: 'unlimited' }
+  }
+  return { type: ladder.challenge_range_type, spots: ladder.challenge_range_spots }
+}
+
+// Returns why two entrants may not play a ladder match, or null if they may.
+// Range is symmetric: it is measured from the lower-ranked entrant upwards.
+export function checkChallengeRange<T extends { id: string; name: string }>(
+  order: readonly T[],
+  entrantAId: string,
+  entrantBId: string,
+  range: ChallengeRange
+): string | null {
+  if (range.type === 'unlimited') return null
+
+  const indexA = order.findIndex(entrant => entrant.id === entrantAId)
+  const indexB = order.findIndex(entrant => entrant.id === entrantBId)
+  if (indexA === -1 || indexB === -1) return null
+
+  const higherIndex = Math.min(indexA, indexB)
+  const lowerIndex = Math.max(indexA, indexB)
+  const higher = order[higherIndex]
+  const lower = order[lowerIndex]
+
+  if (range.type === 'spots') {
+    const limit = range.spots ?? 0
+    const gap = lowerIndex - higherIndex
+    if (gap > limit) {
+      return `${lower.name} (#${lowerIndex + 1}) is ${gap} spots below ${higher.name} (#${higherIndex + 1}); the limit is ${limit}`
+    }
+    return null
+  }
+
+  const tierGap = pyramidTier(lowerIndex) - pyramidTier(higherIndex)
+  if (tierGap > 1) {
+    return `${lower.name} (tier ${pyramidTier(lowerIndex) + 1}) may not challenge ${higher.name} (tier ${pyramidTier(higherIndex) + 1})`
+  }
+  return null
+}
@@ -0,0 +1,131 @@
+import { Challenge, ChallengeStatus } from '@/lib/types/database'
+import { ChallengeResolution } from '@/lib/utils/ladderChanges'
+import { ValidationError } from '@/lib/utils/errors'
+
+// Default deadlines, in days from the moment the challenge is issued/accepted
+export const CHALLENGE_RESPONSE_DAYS = 7
+export const CHALLENGE_PLAY_DAYS = 14
+
+export const OPEN_CHALLENGE_STATUSES: ChallengeStatus[] = ['issued', 'accepted', 'scheduled']
+
+export type ChallengeAction =
+  | { type: 'accept' }
+  | { type: 'decline' }
+  | { type: 'schedule'; scheduledFor: string }
+  | { type: 'expire' }
+  | { type: 'complete'; matchId: string }
+  | { type: 'cancel' }
+
+const ALLOWED_TRANSITIONS: Record<ChallengeAction['type'], ChallengeStatus[]> = {
+  accept: ['issued'],
+  decline: ['issued'],
+  schedule: ['accepted', 'scheduled'],
+  expire: ['issued', 'accepted', 'scheduled'],
+  complete: ['issued', 'accepted', 'scheduled'],
+  cancel: ['issued', 'accepted', 'scheduled']
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+export function isChallengeOpen(challenge: Pick<Challenge, 'status'>): boolean {
+  return OPEN_CHALLENGE_STATUSES.includes(challenge.status)
+}
+
+// The deadline the challenge is currently running against, if any
+export function challengeDeadline(challenge: Challenge): string | null {
+  if (challenge.status === 'issued') return challenge.respond_by
+  if (challenge.status === 'accepted' || challenge.status === 'scheduled') return challenge.play_by ?? null
+  return null
+}
+
+export function isChallengeOverdue(challenge: Challenge, now: Date): boolean {
+  const deadline = challengeDeadline(challenge)
+  return deadline !== null && new Date(deadline).getTime() < now.getTime()
+}
+
+export function createChallenge(
+  challengerId: string,
+  challengedId: string,
+  now: Date,
+  responseDays: number = CHALLENGE_RESPONSE_DAYS
+): Omit<Challenge, 'id' | 'created_at'> {
+  if (challengerId === challengedId) {
+    throw new ValidationError('A player cannot challenge themselves')
+  }
+
+  return {
+    challenger_id: challengerId,
+    challenged_id: challengedId,
+    status: 'issued',
+    issued_at: now.toISOString(),
+    respond_by: addDays(now, responseDays).toISOString(),
+    play_by: null,
+    scheduled_for: null,
+    match_id: null,
+    resolved_at: null
+  }
+}
+
+// Returns the fields to update for `action`; throws if the transition isn't allowed
+export function transitionChallenge(
+  challenge: Challenge,
+  action: ChallengeAction,
+  now: Date,
+  playDays: number = CHALLENGE_PLAY_DAYS
+): Partial<Challenge> {
+  if (!ALLOWED_TRANSITIONS[action.type].includes(challenge.status)) {
+    throw new ValidationError(`Cannot ${action.type} a challenge that is ${challenge.status}`)
+  }
+
+  switch (action.type) {
+    case 'accept':
+      return { status: 'accepted', play_by: addDays(now, playDays).toISOString() }
+    case 'decline':
+      return { status: 'declined', resolved_at: now.toISOString() }
+    case 'schedule':
+      if (challenge.play_by && new Date(action.scheduledFor) > new Date(challenge.play_by)) {
+        throw new ValidationError('The match must be scheduled before the play-by deadline')
+      }
+      return { status: 'scheduled', scheduled_for: action.scheduledFor }
+    case 'expire':
+      return { status: 'expired', resolved_at: now.toISOString() }
+    case 'complete':
+      return { status: 'completed', match_id: action.matchId, resolved_at: now.toISOString() }
+    case 'cancel':
+      return { status: 'cancelled', resolved_at: now.toISOString() }
+  }
+}
+
+// `transitionChallenge` for actions that close a challenge, in the form a
+// ladder change carries
+export function challengeResolution(
+  challenge: Challenge,
+  action: Extract<ChallengeAction, { type: 'decline' | 'expire' | 'complete' | 'cancel' }>,
+  now: Date
+): ChallengeResolution {
+  const changes = transitionChallenge(challenge, action, now)
+  return {
+    id: challenge.id,
+    from_status: challenge.status,
+    status: changes.status!,
+    match_id: changes.match_id ?? null,
+    resolved_at: changes.resolved_at!
+  }
+}
+
+// Declined and expired challenges are forfeited by the challenged player.
+// The forfeit is dated at the decline, or at the deadline that was missed.
+export function forfeitForChallenge(
+  challenge: Challenge,
+  resolution: 'declined' | 'expired',
+  now: Date
+): { winner_id: string; loser_id: string; event_date: string } {
+  const deadline = challengeDeadline(challenge)
+  return {
+    winner_id: challenge.challenger_id,
+    loser_id: challenge.challenged_id,
+    event_date: resolution === 'expired' && deadline ? deadline : now.toISOString()
+  }
+}
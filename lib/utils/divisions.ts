@@ -0,0 +1,114 @@
+import type { Ladder, Player, RankingEvent } from '@/lib/types/database'
+
+// Divisions: ladders ranked one above another. Each player plays on one ladder
+// at a time. Promotion and relegation move a player as a pair of events with
+// the same from/to ladders: one in the stream of the ladder they leave, one in
+// the stream of the ladder they join.
+
+export const DEFAULT_PROMOTION_SPOTS = 2
+
+export function isDivisionEvent(event: Pick<RankingEvent, 'event_type'>): boolean {
+  return event.event_type === 'promotion' || event.event_type === 'relegation'
+}
+
+// Players without a ladder predate divisions and are only found when there is no ladder row
+export function playersOnLadder<T extends Pick<Player, 'ladder_id'>>(players: T[], ladderId: string | null | undefined): T[] {
+  return ladderId ? players.filter(player => player.ladder_id === ladderId) : players
+}
+
+// Players split by ladder, in the order each ladder is first seen
+export function groupPlayersByLadder<T extends Pick<Player, 'ladder_id'>>(players: T[]): T[][] {
+  const groups = new Map<string | undefined, T[]>()
+  for (const player of players) {
+    groups.set(player.ladder_id, [...(groups.get(player.ladder_id) ?? []), player])
+  }
+  return [...groups.values()]
+}
+
+export interface DivisionSwap {
+  promoted: string[]   // Top of the lower ladder, in finishing order
+  relegated: string[]  // Bottom of the upper ladder, in finishing order
+}
+
+// The top `spots` of the lower ladder swap with the bottom `spots` of the one
+// above. Fewer move if either ladder is too short to fill them.
+export function planDivisionSwap(
+  upperStandings: Pick<Player, 'id'>[],
+  lowerStandings: Pick<Player, 'id'>[],
+  spots: number
+): DivisionSwap {
+  const count = Math.max(0, Math.min(spots, upperStandings.length, lowerStandings.length))
+  return {
+    promoted: lowerStandings.slice(0, count).map(player => player.id),
+    relegated: upperStandings.slice(upperStandings.length - count).map(player => player.id)
+  }
+}
+
+export type DivisionEventInput = Pick<RankingEvent,
+  'event_type' | 'event_date' | 'player_id' | 'ladder_id' | 'from_ladder_id' | 'to_ladder_id' | 'new_rank' | 'reason'
+>
+
+type DivisionEventType = Extract<RankingEvent['event_type'], 'promotion' | 'relegation'>
+
+// Whether `ladderId` sits anywhere above `fromId` in the chain of divisions
+export function isDivisionAbove(
+  ladders: Pick<Ladder, 'id' | 'division_above_id'>[],
+  fromId: string,
+  ladderId: string
+): boolean {
+  const seen = new Set<string>()
+  let current = ladders.find(ladder => ladder.id === fromId)?.division_above_id
+  while (current && !seen.has(current)) {
+    if (current === ladderId) return true
+    seen.add(current)
+    current = ladders.find(ladder => ladder.id === current)?.division_above_id
+  }
+  return false
+}
+
+// One player's move: the event leaving `from` and the event joining `to` at `newRank`
+export function divisionMoveEvents(
+  eventType: DivisionEventType,
+  playerId: string,
+  from: Pick<Ladder, 'id' | 'name'>,
+  to: Pick<Ladder, 'id' | 'name'>,
+  newRank: number,
+  leaveDate: Date,
+  joinDate: Date
+): [DivisionEventInput, DivisionEventInput] {
+  const move = {
+    event_type: eventType,
+    player_id: playerId,
+    from_ladder_id: from.id,
+    to_ladder_id: to.id,
+    reason: `${eventType === 'promotion' ? 'Promoted' : 'Relegated'} from ${from.name} to ${to.name}`
+  }
+  return [
+    { ...move, ladder_id: from.id, event_date: leaveDate.toISOString() },
+    { ...move, ladder_id: to.id, event_date: joinDate.toISOString(), new_rank: newRank }
+  ]
+}
+
+// The ranking events for a swap. Everyone leaves first, then promoted players
+// join the bottom of the upper ladder in the order they finished, and relegated
+// players join the top of the lower ladder. Joins are a millisecond apart so
+// they replay in that order.
+export function divisionSwapEvents(
+  upper: Pick<Ladder, 'id' | 'name'>,
+  lower: Pick<Ladder, 'id' | 'name'>,
+  upperSize: number,
+  swap: DivisionSwap,
+  date: Date
+): DivisionEventInput[] {
+  const joinDate = (index: number) => new Date(date.getTime() + index + 1)
+  const count = swap.promoted.length
+
+  return [
+    ...swap.promoted.flatMap((playerId, index) =>
+      divisionMoveEvents('promotion', playerId, lower, upper, upperSize - count + index + 1, date, joinDate(index))
+    ),
+    ...swap.relegated.flatMap((playerId, index) =>
+      divisionMoveEvents('relegation', playerId, upper, lower, index + 1, date, joinDate(index))
+    )
+  ]
+}
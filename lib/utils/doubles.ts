@@ -0,0 +1,41 @@
+import type { Match, Player, RankingEvent, Team } from '@/lib/types/database'
+
+// Doubles reuses the singles machinery with teams as the ladder entrants.
+// A match or event names either players or teams, never both.
+
+export function isDoublesMatch(match: Pick<Match, 'team1_id' | 'team2_id'>): boolean {
+  return !!match.team1_id && !!match.team2_id
+}
+
+// The two entrants of a match in player 1 / player 2 order: teams for
+// doubles, players for singles. Null if either side is missing.
+export function matchEntrantIds(
+  match: Pick<Match, 'player1_id' | 'player2_id' | 'team1_id' | 'team2_id'>
+): [string, string] | null {
+  if (isDoublesMatch(match)) return [match.team1_id!, match.team2_id!]
+  if (match.player1_id && match.player2_id) return [match.player1_id, match.player2_id]
+  return null
+}
+
+// The entrant an event is recorded against, and the other side of a forfeit
+export function eventEntrantId(event: Pick<RankingEvent, 'player_id' | 'team_id'>): string | undefined {
+  return event.team_id ?? event.player_id
+}
+
+export function eventOpponentId(event: Pick<RankingEvent, 'opponent_id' | 'opponent_team_id'>): string | undefined {
+  return event.opponent_team_id ?? event.opponent_id
+}
+
+// Teams are named after their players unless given a name of their own
+export function defaultTeamName(player1: Pick<Player, 'name'>, player2: Pick<Player, 'name'>): string {
+  return `${player1.name} / ${player2.name}`
+}
+
+export function isTeamMember(team: Pick<Team, 'player1_id' | 'player2_id'>, playerId: string): boolean {
+  return team.player1_id === playerId || team.player2_id === playerId
+}
+
+// Every team the player has been part of
+export function teamsForPlayer<T extends Pick<Team, 'player1_id' | 'player2_id'>>(teams: T[], playerId: string): T[] {
+  return teams.filter(team => isTeamMember(team, playerId))
+}
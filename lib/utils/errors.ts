@@ -0,0 +1,9 @@
+// A request the app won't carry out, with a message for whoever made it.
+// Route handlers send these messages back (see errorResponse in
+// lib/auth/adminRoute); any other error is a server fault and stays in the logs.
+export class ValidationError extends Error {
+  constructor(message: string, readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
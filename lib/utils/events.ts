@@ -1,168 +1,340 @@
 import { Player, Match, RankingEvent } from '@/lib/types/database'
+import { LadderRule, poisonRule } from '@/lib/utils/ladderRules'
+import { ChallengeRange, checkChallengeRange } from '@/lib/utils/challengeRange'
+import { eventEntrantId, eventOpponentId, matchEntrantIds } from '@/lib/utils/doubles'
+
+// Anything that can hold a spot on the ladder: a player, or a doubles team
+export interface LadderEntrant {
+  id: string
+  name: string
+}
 
-// Simple event-sourced ranking system
-export async function recordMatchEvent(
-  supabase: any,
-  match: Match
-): Promise<void> {
-  console.log('Recording match event for match:', match.id)
-  console.log('Match ID type:', typeof match.id)
-  console.log('Match ID value:', JSON.stringify(match.id))
-  
-  if (!match.id || match.id === '') {
-    throw new Error('Match ID is required but was empty or null')
-  }
-  
-  // Get current players to calculate rank changes
-  const { data: currentPlayers, error: playersError } = await supabase
-    .from('players')
-    .select('*')
-    .order('current_rank', { ascending: true })
-
-  if (playersError || !currentPlayers) {
-    throw new Error('Failed to fetch players for rank calculation')
-  }
+// One step of a replay: how a single event moved the ladder
+export interface LadderMovement {
+  event_id: string
+  event_type: RankingEvent['event_type']
+  event_date: string
+  player_id: string | null  // The entrant the event is recorded against
+  match_id?: string         // For match events
+  old_rank: number | null
+  new_rank: number | null
+  changed: boolean          // Whether the ordering changed at all
+  reason: string
+  skipped?: string          // Why the event could not be applied, if it was skipped
+  out_of_range?: string     // Why a match fell outside the challenge range when it was played
+  range_override?: boolean  // Whether an admin allowed that out-of-range match
+}
 
-  console.log('Current players before match:', currentPlayers.map((p: Player) => `${p.name}: ${p.current_rank}`))
+type EventBase = Pick<LadderMovement, 'event_id' | 'event_type' | 'event_date'>
+
+export interface ReplayOptions<T extends LadderEntrant> {
+  rule?: LadderRule  // Defaults to the poison ladder
+  challengeRange?: ChallengeRange  // Flags matches played outside this range; they still count
+  // Entrants who can join part-way through: new players, and promotion or relegation from another ladder
+  pool?: T[]
+  // Whether an entrant was frozen (injured or on leave) at a moment in the stream.
+  // Frozen entrants keep their place and don't count towards the challenge range.
+  isFrozen?: (entrantId: string, date: string) => boolean
+  // Called after every event with the ordering at that point in the stream
+  onStep?: (movement: LadderMovement, order: readonly T[]) => void
+}
 
-  // Apply poison ladder logic to see what changes will happen
-  const updatedPlayers = applyPoisonLadderLogic(currentPlayers, match)
-  
-  console.log('Players after match:', updatedPlayers.map((p: Player) => `${p.name}: ${p.current_rank}`))
-  
-  // Find the players involved in the match
-  const player1 = currentPlayers.find((p: Player) => p.id === match.player1_id)
-  const player2 = currentPlayers.find((p: Player) => p.id === match.player2_id)
-  
-  if (!player1 || !player2) {
-    throw new Error('Players not found for rank calculation')
-  }
+export interface LadderReplayResult<T extends LadderEntrant = Player> {
+  standings: (T & { current_rank: number })[]
+  trace: LadderMovement[]
+}
 
-  // Determine winner and loser
-  const winner = match.match_winner === 1 ? player1 : player2
-  const loser = match.match_winner === 1 ? player2 : player1
+// Events are replayed by event_date, with created_at breaking ties
+export function sortEventsChronologically(events: RankingEvent[]): RankingEvent[] {
+  return [...events].sort((a, b) => {
+    const byDate = new Date(a.event_date).getTime() - new Date(b.event_date).getTime()
+    if (byDate !== 0) return byDate
+    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  })
+}
 
-  // Find the updated ranks
-  const winnerUpdated = updatedPlayers.find((p: Player) => p.id === winner.id)!
-  const loserUpdated = updatedPlayers.find((p: Player) => p.id === loser.id)!
-
-  console.log(`Winner: ${winner.name} (${winner.current_rank} → ${winnerUpdated.current_rank})`)
-  console.log(`Loser: ${loser.name} (${loser.current_rank} → ${loserUpdated.current_rank})`)
-
-  // Record the match event with actual rank changes
-  // Use the match's created_at as the event_date for proper chronological ordering
-  const eventData = {
-    event_type: 'match',
-    event_date: match.created_at, // Use created_at for proper chronological ordering
-    match_id: match.id,
-    player_id: winner.id, // Store the winner's ID as the primary player affected
-    old_rank: winner.current_rank,
-    new_rank: winnerUpdated.current_rank,
-    reason: `Match: ${player1.name} vs ${player2.name}, Winner: ${winner.name} (${winner.current_rank} → ${winnerUpdated.current_rank})`
-  }
+// Reorder only the entrants who aren't frozen; frozen ones stay at their indexes
+function reorderAroundFrozen<T extends LadderEntrant>(
+  order: T[],
+  frozen: (entrant: T) => boolean,
+  reorder: (movable: T[]) => T[]
+): T[] {
+  if (!order.some(frozen)) return reorder(order)
+  const reordered = reorder(order.filter(entrant => !frozen(entrant)))
+  let next = 0
+  return order.map(entrant => frozen(entrant) ? entrant : reordered[next++])
+}
 
-  console.log('Inserting ranking event:', eventData)
+// Pure ladder replay: no I/O, the caller supplies everything it needs.
+// `initialOrder` must already be sorted from first place to last.
+export function replayLadder<T extends LadderEntrant>(
+  initialOrder: T[],
+  events: RankingEvent[],
+  matches: Match[],
+  options: ReplayOptions<T> = {}
+): LadderReplayResult<T> {
+  const rule = options.rule ?? poisonRule
+  let order = [...initialOrder]
+  const matchesById = new Map(matches.map(match => [match.id, match]))
+  const trace: LadderMovement[] = []
+  const record = (movement: LadderMovement) => {
+    trace.push(movement)
+    options.onStep?.(movement, order)
+  }
 
-  const { error } = await supabase
-    .from('ranking_events')
-    .insert(eventData)
+  // Bring an entrant from the pool onto the ladder. The target is clamped to
+  // the ladder so a stale rank can't leave a gap.
+  const join = (base: EventBase, entrantId: string | undefined, targetIndex: number, describe: (entrant: T, rank: number) => string) => {
+    const entrant = options.pool?.find(candidate => candidate.id === entrantId)
+    const alreadyOn = order.some(candidate => candidate.id === entrantId)
+    if (alreadyOn || !entrant) {
+      record({ ...base, player_id: entrantId ?? null, old_rank: null, new_rank: null, changed: false,
+        reason: alreadyOn ? 'Player is already on the ladder' : 'Player not found',
+        skipped: alreadyOn ? 'already_on_ladder' : 'missing_player' })
+      return
+    }
 
-  if (error) {
-    console.error('Error recording match event:', error)
-    throw error
+    const index = Math.min(Math.max(targetIndex, 0), order.length)
+    order.splice(index, 0, entrant)
+    record({ ...base, player_id: entrant.id, old_rank: null, new_rank: index + 1, changed: true, reason: describe(entrant, index + 1) })
   }
 
-  console.log('Successfully recorded match event')
-}
+  // Take an entrant off the ladder; everyone below moves up one
+  const leave = (base: EventBase, entrantId: string | undefined, describe: (entrant: T, rank: number) => string) => {
+    const playerIndex = order.findIndex(entrant => entrant.id === entrantId)
+    if (playerIndex === -1) {
+      record({ ...base, player_id: entrantId ?? null, old_rank: null, new_rank: null, changed: false, reason: 'Player not found on the ladder', skipped: 'missing_player' })
+      return
+    }
 
-export async function updateMatchEvent(
-  supabase: any,
-  match: Match
-): Promise<void> {
-  console.log('=== updateMatchEvent called ===')
-  console.log('Match ID:', match.id)
-  
-  // Get current players to calculate new rank changes
-  const { data: currentPlayers, error: playersError } = await supabase
-    .from('players')
-    .select('*')
-    .order('current_rank', { ascending: true })
-
-  if (playersError || !currentPlayers) {
-    throw new Error('Failed to fetch players for rank calculation')
+    const [player] = order.splice(playerIndex, 1)
+    record({ ...base, player_id: player.id, old_rank: playerIndex + 1, new_rank: null, changed: true, reason: describe(player, playerIndex + 1) })
   }
 
-  console.log('Current players before match update:', currentPlayers.map((p: Player) => `${p.name}: ${p.current_rank}`))
+  for (const event of sortEventsChronologically(events)) {
+    const base: EventBase = {
+      event_id: event.id,
+      event_type: event.event_type,
+      event_date: event.event_date,
+    }
+    // Everyone frozen at this point, apart from the entrants the event is about
+    const frozenExcept = (...ids: (string | null | undefined)[]) => (entrant: T) =>
+      !ids.includes(entrant.id) && !!options.isFrozen?.(entrant.id, event.event_date)
+    // The rule applied to the entrants who aren't frozen
+    const applyRule = (winner: T, loser: T) => reorderAroundFrozen(order, frozenExcept(winner.id, loser.id), movable =>
+      rule.apply(movable, movable.indexOf(winner), movable.indexOf(loser))
+    )
+
+    if (event.event_type === 'match') {
+      const match = event.match_id ? matchesById.get(event.match_id) : undefined
+      if (!match) {
+        record({ ...base, match_id: event.match_id, player_id: null, old_rank: null, new_rank: null, changed: false, reason: 'Match not found', skipped: 'missing_match' })
+        continue
+      }
 
-  // Apply poison ladder logic to see what changes will happen
-  const updatedPlayers = applyPoisonLadderLogic(currentPlayers, match)
-  
-  console.log('Players after match update:', updatedPlayers.map((p: Player) => `${p.name}: ${p.current_rank}`))
-  
-  // Find the players involved in the match
-  const player1 = currentPlayers.find((p: Player) => p.id === match.player1_id)
-  const player2 = currentPlayers.find((p: Player) => p.id === match.player2_id)
-  
-  if (!player1 || !player2) {
-    throw new Error('Players not found for rank calculation')
-  }
+      const [side1Id, side2Id] = matchEntrantIds(match) ?? [null, null]
+      const winnerId = match.match_winner === 1 ? side1Id : side2Id
+      const loserId = match.match_winner === 1 ? side2Id : side1Id
+      const winnerIndex = order.findIndex(entrant => entrant.id === winnerId)
+      const loserIndex = order.findIndex(entrant => entrant.id === loserId)
 
-  // Determine winner and loser
-  const winner = match.match_winner === 1 ? player1 : player2
-  const loser = match.match_winner === 1 ? player2 : player1
+      if (winnerIndex === -1 || loserIndex === -1 || !side1Id || !side2Id) {
+        record({ ...base, match_id: match.id, player_id: winnerId, old_rank: null, new_rank: null, changed: false, reason: 'Players not found on the ladder', skipped: 'missing_player' })
+        continue
+      }
 
-  // Find the updated ranks
-  const winnerUpdated = updatedPlayers.find((p: Player) => p.id === winner.id)!
-  const loserUpdated = updatedPlayers.find((p: Player) => p.id === loser.id)!
-
-  console.log(`Winner: ${winner.name} (${winner.current_rank} → ${winnerUpdated.current_rank})`)
-  console.log(`Loser: ${loser.name} (${loser.current_rank} → ${loserUpdated.current_rank})`)
-
-  // Update the existing ranking event with new data
-  const { error: updateError } = await supabase
-    .from('ranking_events')
-    .update({
-      player_id: winner.id, // Update to the new winner's ID
-      old_rank: winner.current_rank,
-      new_rank: winnerUpdated.current_rank,
-      reason: `Match: ${player1.name} vs ${player2.name}, Winner: ${winner.name} (${winner.current_rank} → ${winnerUpdated.current_rank})`
-    })
-    .eq('match_id', match.id)
+      // Range is judged on the ladder as it stood when the match was played,
+      // skipping over anyone frozen
+      const frozen = frozenExcept(side1Id, side2Id)
+      const outOfRange = options.challengeRange
+        ? checkChallengeRange(order.filter(entrant => !frozen(entrant)), side1Id, side2Id, options.challengeRange)
+        : null
+      const rangeFlags = outOfRange ? { out_of_range: outOfRange, range_override: !!event.range_override } : {}
+
+      const player1 = order.find(entrant => entrant.id === side1Id)!
+      const player2 = order.find(entrant => entrant.id === side2Id)!
+      const winner = order[winnerIndex]
+      const oldRank = winnerIndex + 1
+
+      order = applyRule(winner, order[loserIndex])
+      const newRank = order.indexOf(winner) + 1
+
+      if (newRank !== oldRank) {
+        record({
+          ...base,
+          ...rangeFlags,
+          match_id: match.id,
+          player_id: winner.id,
+          old_rank: oldRank,
+          new_rank: newRank,
+          changed: true,
+          reason: `Match: ${player1.name} vs ${player2.name}, Winner: ${winner.name} (${oldRank} → ${newRank})`
+        })
+      } else {
+        record({
+          ...base,
+          ...rangeFlags,
+          match_id: match.id,
+          player_id: winner.id,
+          old_rank: oldRank,
+          new_rank: oldRank,
+          changed: false,
+          reason: winnerIndex < loserIndex
+            ? `Match: ${player1.name} vs ${player2.name}, Winner: ${winner.name} (no rank change - already ranked higher)`
+            : `Match: ${player1.name} vs ${player2.name}, Winner: ${winner.name} (no rank change under ${rule.name} rules)`
+        })
+      }
+    } else if (event.event_type === 'forfeit') {
+      // A forfeit is a result without a match: the rule applies as if player_id won
+      const winnerIndex = order.findIndex(entrant => entrant.id === eventEntrantId(event))
+      const loserIndex = order.findIndex(entrant => entrant.id === eventOpponentId(event))
+
+      if (winnerIndex === -1 || loserIndex === -1) {
+        record({ ...base, player_id: eventEntrantId(event) ?? null, old_rank: null, new_rank: null, changed: false, reason: 'Players not found on the ladder', skipped: 'missing_player' })
+        continue
+      }
 
-  if (updateError) {
-    console.error('Failed to update ranking event:', updateError)
-    throw updateError
-  }
+      const winner = order[winnerIndex]
+      const loser = order[loserIndex]
+      const oldRank = winnerIndex + 1
+
+      order = applyRule(winner, loser)
+      const newRank = order.indexOf(winner) + 1
+
+      record({
+        ...base,
+        player_id: winner.id,
+        old_rank: oldRank,
+        new_rank: newRank,
+        changed: newRank !== oldRank,
+        reason: newRank !== oldRank
+          ? `Forfeit: ${loser.name} forfeited to ${winner.name} (${oldRank} → ${newRank})`
+          : `Forfeit: ${loser.name} forfeited to ${winner.name} (no rank change)`
+      })
+    } else if (event.event_type === 'manual_adjustment') {
+      const playerIndex = order.findIndex(entrant => entrant.id === eventEntrantId(event))
+      if (playerIndex === -1 || !event.new_rank) {
+        record({ ...base, player_id: eventEntrantId(event) ?? null, old_rank: null, new_rank: null, changed: false, reason: 'Player not found on the ladder', skipped: 'missing_player' })
+        continue
+      }
+
+      const player = order[playerIndex]
+      const oldRank = playerIndex + 1
+      // Clamp to the ladder so a stale target rank can't leave a gap
+      const targetIndex = Math.min(Math.max(event.new_rank - 1, 0), order.length - 1)
+
+      order.splice(playerIndex, 1)
+      order.splice(targetIndex, 0, player)
+      record({
+        ...base,
+        player_id: player.id,
+        old_rank: oldRank,
+        new_rank: targetIndex + 1,
+        changed: targetIndex !== playerIndex,
+        reason: `Manual adjustment: ${player.name} moved from position ${oldRank} to position ${targetIndex + 1}`
+      })
+    } else if (event.event_type === 'inactivity_penalty') {
+      const playerIndex = order.findIndex(entrant => entrant.id === eventEntrantId(event))
+      if (playerIndex === -1) {
+        record({ ...base, player_id: eventEntrantId(event) ?? null, old_rank: null, new_rank: null, changed: false, reason: 'Player not found on the ladder', skipped: 'missing_player' })
+        continue
+      }
 
-  // Update player rankings in the database
-  await updatePlayersInDatabase(supabase, updatedPlayers)
+      const player = order[playerIndex]
+      const places = Math.max(event.places ?? 1, 0)
+      // Drop relative to wherever the player is now, passing over anyone frozen;
+      // the bottom is the floor
+      order = reorderAroundFrozen(order, frozenExcept(player.id), movable => {
+        const movableIndex = movable.indexOf(player)
+        const movableTarget = Math.min(movableIndex + places, movable.length - 1)
+        const next = movable.filter(entrant => entrant !== player)
+        next.splice(movableTarget, 0, player)
+        return next
+      })
+      const targetIndex = order.indexOf(player)
+      record({
+        ...base,
+        player_id: player.id,
+        old_rank: playerIndex + 1,
+        new_rank: targetIndex + 1,
+        changed: targetIndex !== playerIndex,
+        reason: targetIndex !== playerIndex
+          ? `Inactivity: ${player.name} dropped ${targetIndex - playerIndex} place(s) (${playerIndex + 1} → ${targetIndex + 1})`
+          : `Inactivity: ${player.name} (no rank change - already last)`
+      })
+    } else if (event.event_type === 'promotion' || event.event_type === 'relegation') {
+      // A move between divisions is recorded on both ladders: leaving one, joining the other
+      const label = event.event_type === 'promotion' ? 'Promotion' : 'Relegation'
+      if (event.to_ladder_id === event.ladder_id) {
+        join(base, eventEntrantId(event), (event.new_rank ?? order.length + 1) - 1,
+          (entrant, rank) => `${label}: ${entrant.name} joined at position ${rank}`)
+      } else {
+        leave(base, eventEntrantId(event), (player, rank) => `${label}: ${player.name} left from position ${rank}`)
+      }
+    } else if (event.event_type === 'player_joined') {
+      // Qualifiers enter relative to their opponent as the ladder stands now
+      const opponentIndex = order.findIndex(entrant => entrant.id === event.opponent_id)
+      const opponent = order[opponentIndex]
+      let targetIndex = order.length
+      let detail = ' (bottom of the ladder)'
+      if (event.entry_method === 'position') {
+        targetIndex = (event.new_rank ?? order.length + 1) - 1
+        detail = ''
+      } else if (event.entry_method === 'qualifier') {
+        targetIndex = opponent ? (event.qualifier_won ? opponentIndex : opponentIndex + 1) : order.length
+        detail = !opponent ? ' (qualifier opponent not on the ladder)'
+          : event.qualifier_won ? ` (beat ${opponent.name} in a qualifier)`
+          : ` (lost to ${opponent.name} in a qualifier)`
+      }
+      join(base, eventEntrantId(event), targetIndex, (entrant, rank) => `Joined: ${entrant.name} entered at position ${rank}${detail}`)
+    } else if (event.event_type === 'player_removed') {
+      leave(base, eventEntrantId(event), (player, rank) => `Removed: ${player.name} left the ladder from position ${rank}`)
+    } else if (event.event_type === 'player_withdrawn') {
+      // The player leaves the ladder and everyone below moves up one
+      leave(base, eventEntrantId(event), (player, rank) => `Withdrawn: ${player.name} left the ladder from position ${rank}`)
+    }
+  }
 
-  console.log('=== updateMatchEvent completed successfully ===')
+  return {
+    standings: order.map((entrant, index) => ({ ...entrant, current_rank: index + 1 })),
+    trace
+  }
 }
 
-export async function recordManualAdjustment(
-  supabase: any,
-  playerId: string,
-  oldRank: number,
-  newRank: number,
-  reason: string = 'Manual adjustment'
-): Promise<void> {
-  // Record the manual adjustment event
-  const { error } = await supabase
-    .from('ranking_events')
-    .insert({
-      event_type: 'manual_adjustment',
-      event_date: new Date().toISOString(),
-      player_id: playerId,
-      old_rank: oldRank,
-      new_rank: newRank,
-      reason: reason
-    })
+// Where to stop a point-in-time replay: everything dated at or before `date`,
+// and/or everything up to and including the event `eventId`
+export interface ReplayCutoff {
+  date?: string
+  eventId?: string
+}
 
-  if (error) {
-    console.error('Error recording manual adjustment event:', error)
-    throw error
+// The ladder as it stood at a point in the past, replayed from the initial order.
+// Returns null if `eventId` isn't in the stream.
+export function replayLadderAsOf<T extends LadderEntrant>(
+  initialOrder: T[],
+  events: RankingEvent[],
+  matches: Match[],
+  cutoff: ReplayCutoff,
+  options: ReplayOptions<T> = {}
+): LadderReplayResult<T> | null {
+  let included = sortEventsChronologically(events)
+
+  if (cutoff.eventId) {
+    const index = included.findIndex(event => event.id === cutoff.eventId)
+    if (index === -1) return null
+    included = included.slice(0, index + 1)
   }
+  if (cutoff.date) {
+    const limit = new Date(cutoff.date).getTime()
+    included = included.filter(event => new Date(event.event_date).getTime() <= limit)
+  }
+
+  return replayLadder(initialOrder, included, matches, options)
+}
+
+// Order entrants by their starting position for a replay
+export function initialLadderOrder<T extends { initial_rank: number }>(entrants: T[]): T[] {
+  return [...entrants].sort((a, b) => a.initial_rank - b.initial_rank)
 }
 
 export function applyPoisonLadderLogic(
@@ -172,7 +344,7 @@ export function applyPoisonLadderLogic(
   // Find the players involved in the match
   const player1 = players.find(p => p.id === match.player1_id)
   const player2 = players.find(p => p.id === match.player2_id)
-  
+
   if (!player1 || !player2) {
     throw new Error('Players not found')
   }
@@ -211,389 +383,29 @@ export function applyPoisonLadderLogic(
   return updatedPlayers.sort((a, b) => a.current_rank - b.current_rank)
 }
 
-export async function updatePlayersInDatabase(
-  supabase: any,
-  players: Player[]
-): Promise<void> {
-  // Update all players in the database
-  for (const player of players) {
-    const { error } = await supabase
-      .from('players')
-      .update({ current_rank: player.current_rank })
-      .eq('id', player.id)
-
-    if (error) {
-      console.error(`Error updating player ${player.name}:`, error)
-      throw error
-    }
-  }
-}
-
-export async function clearAllData(supabase: any): Promise<void> {
-  console.log('Clearing all matches and ranking events...')
-  
-  try {
-    // Clear all matches
-    const { error: clearMatchesError } = await supabase
-      .from('matches')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all matches
-
-    if (clearMatchesError) {
-      throw clearMatchesError
-    }
-
-    // Clear all ranking events
-    const { error: clearEventsError } = await supabase
-      .from('ranking_events')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all events
-
-    if (clearEventsError) {
-      throw clearEventsError
-    }
-
-    console.log('All data cleared successfully')
-  } catch (error) {
-    console.error('Error clearing data:', error)
-    throw error
-  }
-}
-
-export async function rebuildAllRankings(supabase: any): Promise<void> {
-  console.log('Rebuilding all rankings from initial state...')
-  
-  try {
-    // Get all players and reset to their initial_rank values
-    const { data: allPlayers, error: playersError } = await supabase
-      .from('players')
-      .select('*')
-      .order('created_at', { ascending: true })
-
-    if (playersError || !allPlayers) {
-      throw new Error('Failed to fetch players')
-    }
-
-    // Create initial ordered list based on initial_rank
-    let orderedPlayers = allPlayers
-      .map((player: Player) => ({ ...player }))
-      .sort((a: Player, b: Player) => a.initial_rank - b.initial_rank)
-
-    console.log('Initial ordered list:', orderedPlayers.map((p: Player) => `${p.name}: ${p.initial_rank}`))
-
-    // Get all events in chronological order
-    const { data: events, error: eventsError } = await supabase
-      .from('ranking_events')
-      .select('*')
-      .order('event_date', { ascending: true })
-      .order('created_at', { ascending: true })
-
-    if (eventsError) {
-      throw new Error('Failed to fetch events')
-    }
-
-    console.log(`Found ${events?.length || 0} events to replay`)
-
-    // Process each event in chronological order
-    for (const event of events || []) {
-      if (event.event_type === 'match' && event.match_id) {
-        console.log(`Processing match event: ${event.match_id}`)
-        
-        // Fetch the actual match data
-        const { data: matchData, error: matchError } = await supabase
-          .from('matches')
-          .select('*')
-          .eq('id', event.match_id)
-          .single()
-
-        if (matchError || !matchData) {
-          console.warn(`Could not fetch match data for ${event.match_id}:`, matchError)
-          continue
-        }
-
-        // Find winner and loser in the current ordered list
-        const winnerIndex = orderedPlayers.findIndex((p: Player) => p.id === (matchData.match_winner === 1 ? matchData.player1_id : matchData.player2_id))
-        const loserIndex = orderedPlayers.findIndex((p: Player) => p.id === (matchData.match_winner === 1 ? matchData.player2_id : matchData.player1_id))
-        
-        if (winnerIndex === -1 || loserIndex === -1) {
-          console.warn(`Could not find players in ordered list for match ${event.match_id}`)
-          continue
-        }
-
-        // Only apply poison ladder rule if winner is ranked lower than loser
-        if (winnerIndex > loserIndex) {
-          const winner = orderedPlayers[winnerIndex]
-          const loser = orderedPlayers[loserIndex]
-          
-          // Store original ranks before moving
-          const winnerOriginalRank = winnerIndex + 1
-          const loserOriginalRank = loserIndex + 1
-          
-          // Remove winner from current position
-          orderedPlayers.splice(winnerIndex, 1)
-          
-          // Insert winner at loser's position
-          orderedPlayers.splice(loserIndex, 0, winner)
-          
-          // Update the ranking event with correct original rank
-          const { error: updateError } = await supabase
-            .from('ranking_events')
-            .update({
-              old_rank: winnerOriginalRank,
-              new_rank: loserOriginalRank,
-              reason: `Match: ${matchData.player1_id === winner.id ? 'Winner' : 'Loser'} vs ${matchData.player1_id === loser.id ? 'Winner' : 'Loser'}, Winner: ${winner.name} (${winnerOriginalRank} → ${loserOriginalRank})`
-            })
-            .eq('id', event.id)
-          
-          if (updateError) {
-            console.warn(`Failed to update ranking event ${event.id}:`, updateError)
-          }
-          
-          console.log(`Moved ${winner.name} from position ${winnerOriginalRank} to position ${loserOriginalRank} (${loser.name}'s position)`)
-        } else {
-          // Higher-ranked player won - no rank change needed
-          const winner = orderedPlayers[winnerIndex]
-          const loser = orderedPlayers[loserIndex]
-          
-          // Update the ranking event to reflect no change
-          const { error: updateError } = await supabase
-            .from('ranking_events')
-            .update({
-              old_rank: winnerIndex + 1,
-              new_rank: winnerIndex + 1,
-              reason: `Match: ${matchData.player1_id === winner.id ? 'Winner' : 'Loser'} vs ${matchData.player1_id === loser.id ? 'Winner' : 'Loser'}, Winner: ${winner.name} (no rank change - already ranked higher)`
-            })
-            .eq('id', event.id)
-          
-          if (updateError) {
-            console.warn(`Failed to update ranking event ${event.id}:`, updateError)
-          }
-          
-          console.log(`No rank change needed - ${winner.name} (position ${winnerIndex + 1}) already ranked higher than ${loser.name} (position ${loserIndex + 1})`)
-        }
-        
-      } else if (event.event_type === 'manual_adjustment') {
-        console.log(`Processing manual adjustment: Player ${event.player_id} to position ${event.new_rank}`)
-        
-        // Find the player in the ordered list
-        const playerIndex = orderedPlayers.findIndex((p: Player) => p.id === event.player_id)
-        if (playerIndex === -1) {
-          console.warn(`Could not find player ${event.player_id} in ordered list`)
-          continue
-        }
-
-        const targetPosition = event.new_rank! - 1 // Convert to 0-based index
-        const player = orderedPlayers[playerIndex]
-        const originalRank = playerIndex + 1
-        
-        // Remove player from current position
-        orderedPlayers.splice(playerIndex, 1)
-        
-        // Insert player at target position
-        orderedPlayers.splice(targetPosition, 0, player)
-        
-        // Update the ranking event with correct original rank
-        const { error: updateError } = await supabase
-          .from('ranking_events')
-          .update({
-            old_rank: originalRank,
-            new_rank: event.new_rank,
-            reason: `Manual adjustment: ${player.name} moved from position ${originalRank} to position ${event.new_rank}`
-          })
-          .eq('id', event.id)
-        
-        if (updateError) {
-          console.warn(`Failed to update ranking event ${event.id}:`, updateError)
-        }
-        
-        console.log(`Moved ${player.name} from position ${originalRank} to position ${event.new_rank}`)
-      }
-    }
-
-    // Update current_rank for all players based on their position in the ordered list
-    const currentPlayers = orderedPlayers.map((player: Player, index: number) => ({
-      ...player,
-      current_rank: index + 1
-    }))
-
-    // Update all players in the database
-    await updatePlayersInDatabase(supabase, currentPlayers)
-    
-    console.log('All rankings rebuilt successfully')
-    
-  } catch (error) {
-    console.error('Error rebuilding rankings:', error)
-    throw error
-  }
-}
-
-export async function replayEventsFromDate(
-  supabase: any,
-  fromDate: string
-): Promise<void> {
-  console.log(`Replaying events from ${fromDate}...`)
-  
-  try {
-    // Get all players and reset to their initial_rank values
-    const { data: allPlayers, error: playersError } = await supabase
-      .from('players')
-      .select('*')
-      .order('created_at', { ascending: true })
-
-    if (playersError || !allPlayers) {
-      throw new Error('Failed to fetch players')
-    }
-
-    // Create initial ordered list based on initial_rank
-    let orderedPlayers = allPlayers
-      .map((player: Player) => ({ ...player }))
-      .sort((a: Player, b: Player) => a.initial_rank - b.initial_rank)
-
-    console.log('Initial ordered list:', orderedPlayers.map((p: Player) => `${p.name}: ${p.initial_rank}`))
-
-    // Get all events from the specified date onwards
-    const { data: events, error: eventsError } = await supabase
-      .from('ranking_events')
-      .select('*')
-      .gte('event_date', fromDate)
-      .order('event_date', { ascending: true })
-      .order('created_at', { ascending: true })
-
-    if (eventsError) {
-      throw new Error('Failed to fetch events')
-    }
-
-    console.log(`Found ${events?.length || 0} events to replay from ${fromDate}`)
-
-    // Process each event in chronological order
-    for (const event of events || []) {
-      if (event.event_type === 'match' && event.match_id) {
-        console.log(`Processing match event: ${event.match_id}`)
-        
-        // Fetch the actual match data
-        const { data: matchData, error: matchError } = await supabase
-          .from('matches')
-          .select('*')
-          .eq('id', event.match_id)
-          .single()
-
-        if (matchError || !matchData) {
-          console.warn(`Could not fetch match data for ${event.match_id}:`, matchError)
-          continue
-        }
-
-        // Find winner and loser in the current ordered list
-        const winnerIndex = orderedPlayers.findIndex((p: Player) => p.id === (matchData.match_winner === 1 ? matchData.player1_id : matchData.player2_id))
-        const loserIndex = orderedPlayers.findIndex((p: Player) => p.id === (matchData.match_winner === 1 ? matchData.player2_id : matchData.player1_id))
-        
-        if (winnerIndex === -1 || loserIndex === -1) {
-          console.warn(`Could not find players in ordered list for match ${event.match_id}`)
-          continue
-        }
-
-        // Only apply poison ladder rule if winner is ranked lower than loser
-        if (winnerIndex > loserIndex) {
-          const winner = orderedPlayers[winnerIndex]
-          const loser = orderedPlayers[loserIndex]
-          
-          // Store original ranks before moving
-          const winnerOriginalRank = winnerIndex + 1
-          const loserOriginalRank = loserIndex + 1
-          
-          // Remove winner from current position
-          orderedPlayers.splice(winnerIndex, 1)
-          
-          // Insert winner at loser's position
-          orderedPlayers.splice(loserIndex, 0, winner)
-          
-          // Update the ranking event with correct original rank
-          const { error: updateError } = await supabase
-            .from('ranking_events')
-            .update({
-              old_rank: winnerOriginalRank,
-              new_rank: loserOriginalRank,
-              reason: `Match: ${matchData.player1_id === winner.id ? 'Winner' : 'Loser'} vs ${matchData.player1_id === loser.id ? 'Winner' : 'Loser'}, Winner: ${winner.name} (${winnerOriginalRank} → ${loserOriginalRank})`
-            })
-            .eq('id', event.id)
-          
-          if (updateError) {
-            console.warn(`Failed to update ranking event ${event.id}:`, updateError)
-          }
-          
-          console.log(`Moved ${winner.name} from position ${winnerOriginalRank} to position ${loserOriginalRank} (${loser.name}'s position)`)
-        } else {
-          // Higher-ranked player won - no rank change needed
-          const winner = orderedPlayers[winnerIndex]
-          const loser = orderedPlayers[loserIndex]
-          
-          // Update the ranking event to reflect no change
-          const { error: updateError } = await supabase
-            .from('ranking_events')
-            .update({
-              old_rank: winnerIndex + 1,
-              new_rank: winnerIndex + 1,
-              reason: `Match: ${matchData.player1_id === winner.id ? 'Winner' : 'Loser'} vs ${matchData.player1_id === loser.id ? 'Winner' : 'Loser'}, Winner: ${winner.name} (no rank change - already ranked higher)`
-            })
-            .eq('id', event.id)
-          
-          if (updateError) {
-            console.warn(`Failed to update ranking event ${event.id}:`, updateError)
-          }
-          
-          console.log(`No rank change needed - ${winner.name} (position ${winnerIndex + 1}) already ranked higher than ${loser.name} (position ${loserIndex + 1})`)
-        }
-        
-      } else if (event.event_type === 'manual_adjustment') {
-        console.log(`Processing manual adjustment: Player ${event.player_id} to position ${event.new_rank}`)
-        
-        // Find the player in the ordered list
-        const playerIndex = orderedPlayers.findIndex((p: Player) => p.id === event.player_id)
-        if (playerIndex === -1) {
-          console.warn(`Could not find player ${event.player_id} in ordered list`)
-          continue
-        }
-
-        const targetPosition = event.new_rank! - 1 // Convert to 0-based index
-        const player = orderedPlayers[playerIndex]
-        const originalRank = playerIndex + 1
-        
-        // Remove player from current position
-        orderedPlayers.splice(playerIndex, 1)
-        
-        // Insert player at target position
-        orderedPlayers.splice(targetPosition, 0, player)
-        
-        // Update the ranking event with correct original rank
-        const { error: updateError } = await supabase
-          .from('ranking_events')
-          .update({
-            old_rank: originalRank,
-            new_rank: event.new_rank,
-            reason: `Manual adjustment: ${player.name} moved from position ${originalRank} to position ${event.new_rank}`
-          })
-          .eq('id', event.id)
-        
-        if (updateError) {
-          console.warn(`Failed to update ranking event ${event.id}:`, updateError)
-        }
-        
-        console.log(`Moved ${player.name} from position ${originalRank} to position ${event.new_rank}`)
+// A single entrant's position after each event that changed the ladder
+export function rankHistory<T extends LadderEntrant>(
+  initialOrder: T[],
+  events: RankingEvent[],
+  matches: Match[],
+  entrantId: string,
+  options: Omit<ReplayOptions<T>, 'onStep'> = {}
+): { event_id: string; event_date: string; rank: number; reason: string }[] {
+  const startIndex = initialOrder.findIndex(entrant => entrant.id === entrantId)
+  let previousRank = startIndex === -1 ? null : startIndex + 1
+  const history: { event_id: string; event_date: string; rank: number; reason: string }[] = []
+
+  replayLadder(initialOrder, events, matches, {
+    ...options,
+    onStep: (movement, order) => {
+      const index = order.findIndex(entrant => entrant.id === entrantId)
+      const rank = index === -1 ? null : index + 1
+      if (rank !== null && rank !== previousRank) {
+        history.push({ event_id: movement.event_id, event_date: movement.event_date, rank, reason: movement.reason })
       }
+      previousRank = rank
     }
+  })
 
-    // Update current_rank for all players based on their position in the ordered list
-    const currentPlayers = orderedPlayers.map((player: Player, index: number) => ({
-      ...player,
-      current_rank: index + 1
-    }))
-
-    // Update all players in the database
-    await updatePlayersInDatabase(supabase, currentPlayers)
-    
-    console.log('Event replay completed successfully')
-    
-  } catch (error) {
-    console.error('Error replaying events:', error)
-    throw error
-  }
+  return history
 }
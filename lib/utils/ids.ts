@@ -0,0 +1,8 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Whether `value` looks like a row id. Ids from a request are checked before
+// they go into a PostgREST filter string, where a comma or bracket would
+// change the filter.
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
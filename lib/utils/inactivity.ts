@@ -0,0 +1,89 @@
+import type { Ladder, Match, PlayerStatusChange, RankingEvent } from '@/lib/types/database'
+import { addDays } from '@/lib/utils/challenges'
+import { isDivisionEvent } from '@/lib/utils/divisions'
+import { frozenPeriods } from '@/lib/utils/playerStatus'
+
+export interface InactivitySettings {
+  days: number    // How long a player may go without playing
+  places: number  // How far they drop each time that period lapses
+}
+
+export const DEFAULT_INACTIVITY_PLACES = 1
+
+export function inactivitySettingsForLadder(
+  ladder?: Pick<Ladder, 'inactivity_days' | 'inactivity_places'> | null
+): InactivitySettings | null {
+  if (!ladder?.inactivity_days || ladder.inactivity_days < 1) {
+    return null
+  }
+  return { days: ladder.inactivity_days, places: ladder.inactivity_places ?? DEFAULT_INACTIVITY_PLACES }
+}
+
+// When each player last did something that resets the inactivity clock:
+// a match, either side of a forfeit, their previous penalty, or joining the
+// ladder, whether new or by promotion or relegation
+export function lastActivityByPlayer(
+  players: { id: string; created_at: string }[],
+  events: RankingEvent[],
+  matches: Match[]
+): Map<string, string> {
+  const matchesById = new Map(matches.map(match => [match.id, match]))
+  const lastActivity = new Map(players.map(player => [player.id, player.created_at]))
+
+  const touch = (playerId: string | null | undefined, date: string) => {
+    if (!playerId || !lastActivity.has(playerId)) return
+    if (new Date(date).getTime() > new Date(lastActivity.get(playerId)!).getTime()) {
+      lastActivity.set(playerId, date)
+    }
+  }
+
+  for (const event of events) {
+    if (event.event_type === 'match') {
+      const match = event.match_id ? matchesById.get(event.match_id) : undefined
+      touch(match?.player1_id, event.event_date)
+      touch(match?.player2_id, event.event_date)
+    } else if (event.event_type === 'forfeit') {
+      touch(event.player_id, event.event_date)
+      touch(event.opponent_id, event.event_date)
+    } else if (event.event_type === 'inactivity_penalty' || event.event_type === 'player_joined' || isDivisionEvent(event)) {
+      touch(event.player_id, event.event_date)
+    }
+  }
+
+  return lastActivity
+}
+
+// Penalties that have fallen due by `now`. Each is dated at the moment its
+// period lapsed, so the result depends only on the event history and `now`.
+// Nothing falls due while a player is frozen (injured or on leave), and the
+// clock restarts when they return.
+export function dueInactivityPenalties(
+  players: { id: string; created_at: string }[],
+  events: RankingEvent[],
+  matches: Match[],
+  settings: InactivitySettings,
+  now: Date,
+  statusChanges: PlayerStatusChange[] = []
+): { player_id: string; event_date: string; places: number }[] {
+  const penalties: { player_id: string; event_date: string; places: number }[] = []
+
+  lastActivityByPlayer(players, events, matches).forEach((lastActive, playerId) => {
+    const periods = frozenPeriods(statusChanges, playerId)
+    let due = addDays(new Date(lastActive), settings.days)
+    while (due.getTime() <= now.getTime()) {
+      const frozen = periods.find(period =>
+        new Date(period.from).getTime() <= due.getTime() &&
+        (period.to === null || due.getTime() < new Date(period.to).getTime())
+      )
+      if (frozen) {
+        if (frozen.to === null) break
+        due = addDays(new Date(frozen.to), settings.days)
+        continue
+      }
+      penalties.push({ player_id: playerId, event_date: due.toISOString(), places: settings.places })
+      due = addDays(due, settings.days)
+    }
+  })
+
+  return penalties.sort((a, b) => new Date(a.event_date).getTime() - new Date(b.event_date).getTime())
+}
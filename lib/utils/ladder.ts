@@ -1,32 +1,29 @@
 import { Match } from '@/lib/types/database'
+import { isUnplayedResult } from '@/lib/utils/results'
+import { countSetsWon } from '@/lib/utils/matchFormats'
 
 // Simple match winner determination
 export function determineMatchWinner(match: Omit<Match, 'match_winner'>): 1 | 2 {
+  // Walkovers, no-shows and defaults go to the other player without a score
+  if (isUnplayedResult(match) && match.defaulted_player) {
+    return match.defaulted_player === 1 ? 2 : 1
+  }
+
   // If there was a retirement, the non-retiring player wins
   if (match.has_retirement && match.retired_player) {
     return match.retired_player === 1 ? 2 : 1
   }
 
-  let player1Sets = 0
-  let player2Sets = 0
-
-  // Count sets won
-  if (match.set1_winner === 1) player1Sets++
-  else player2Sets++
-
-  if (match.set2_winner === 1) player1Sets++
-  else player2Sets++
+  // Count sets won; a match tiebreak counts as the deciding set
+  const { p1: player1Sets, p2: player2Sets } = countSetsWon(match.sets)
 
-  // If tied 1-1, check tiebreaker
+  // If sets are level, determine by games won in sets
   if (player1Sets === player2Sets) {
-    if (match.tiebreaker_winner) {
-      return match.tiebreaker_winner
-    }
-    // If no tiebreaker, determine by games won in sets
-    const player1Games = match.set1_p1_games + match.set2_p1_games
-    const player2Games = match.set1_p2_games + match.set2_p2_games
+    const games = match.sets.filter(set => !set.match_tiebreak)
+    const player1Games = games.reduce((total, set) => total + set.p1, 0)
+    const player2Games = games.reduce((total, set) => total + set.p2, 0)
     return player1Games > player2Games ? 1 : 2
   }
 
   return player1Sets > player2Sets ? 1 : 2
-}
\ No newline at end of file
+}
@@ -0,0 +1,188 @@
+import { ChallengeStatus, Match, Player, PlayerStatusChange, RankingEvent } from '@/lib/types/database'
+import { LadderMovement } from '@/lib/utils/events'
+import { RatingState } from '@/lib/utils/ratings'
+import { isDoublesMatch, matchEntrantIds } from '@/lib/utils/doubles'
+
+// A write to the event stream, applied in memory first so the ladder can be
+// replayed with it. The change and the ranks that replay produces are then
+// committed together (see lib/supabase/ladderWrites).
+
+export interface LadderChange {
+  insertPlayer?: Player  // A new player, written before any event about them
+  insertMatch?: Match
+  updateMatch?: Match
+  deleteMatchId?: string  // Its ranking events go with it
+  insertEvent?: RankingEvent
+  insertEvents?: RankingEvent[]  // Several at once, e.g. a division swap or a round of penalties
+  updateEvent?: RankingEvent
+  deleteEventId?: string
+  onLadder?: { playerId: string; onLadder: boolean }  // Joining, removal, or undoing either
+  movePlayers?: { playerId: string; ladderId: string }[]  // Moves between divisions
+  statusChange?: PlayerStatusChange                   // Recorded, and becomes the player's status
+  resolveChallenges?: ChallengeResolution[]           // Challenges the change settles
+}
+
+// A challenge closed by the same write as the event it led to. The write is
+// refused if the challenge no longer has `from_status`.
+export interface ChallengeResolution {
+  id: string
+  from_status: ChallengeStatus
+  status: ChallengeStatus
+  match_id: string | null
+  resolved_at: string
+}
+
+export interface RankUpdate {
+  id: string
+  current_rank: number
+}
+
+export interface EventRankUpdate {
+  id: string
+  old_rank: number | null
+  new_rank: number | null
+  reason: string
+}
+
+export interface RatingUpdate {
+  id: string
+  rating: number
+  rating_deviation: number | null
+}
+
+// Match events name the winning player, or the winning team for doubles
+function matchEventEntrant(match: Match): Pick<RankingEvent, 'player_id' | 'team_id'> {
+  const winnerId = matchEntrantIds(match)?.[match.match_winner - 1]
+  return isDoublesMatch(match) ? { team_id: winnerId } : { player_id: winnerId }
+}
+
+// The event for a newly recorded match, dated by the match's created_at for
+// proper chronological ordering. Ranks and reason are filled in by the replay.
+// `overrideReason` records an admin allowing a match outside the challenge range.
+export function matchEvent(match: Match, id: string, overrideReason?: string): RankingEvent {
+  return {
+    id,
+    event_type: 'match',
+    event_date: match.created_at,
+    match_id: match.id,
+    ...matchEventEntrant(match),
+    ladder_id: match.ladder_id ?? null,
+    season_id: match.season_id ?? null,
+    ...(overrideReason ? { range_override: true, override_reason: overrideReason } : {}),
+    created_at: match.created_at
+  }
+}
+
+// A match's event once the match has been rescored: the winner may have changed
+export function rescoredMatchEvent(event: RankingEvent, match: Match, overrideReason?: string): RankingEvent {
+  return {
+    ...event,
+    ...matchEventEntrant(match),
+    ...(overrideReason ? { range_override: true, override_reason: overrideReason } : {})
+  }
+}
+
+// The event stream and matches as they will be once `change` is committed
+export function applyLadderChange(
+  events: RankingEvent[],
+  matches: Match[],
+  change: LadderChange
+): { events: RankingEvent[]; matches: Match[] } {
+  const nextMatches = matches
+    .filter(match => match.id !== change.deleteMatchId)
+    .map(match => match.id === change.updateMatch?.id ? change.updateMatch : match)
+  if (change.insertMatch) {
+    nextMatches.push(change.insertMatch)
+  }
+
+  const nextEvents = events
+    .filter(event => event.id !== change.deleteEventId)
+    .filter(event => !change.deleteMatchId || event.match_id !== change.deleteMatchId)
+    .map(event => event.id === change.updateEvent?.id ? change.updateEvent : event)
+  if (change.insertEvent) {
+    nextEvents.push(change.insertEvent)
+  }
+  nextEvents.push(...change.insertEvents ?? [])
+
+  return { events: nextEvents, matches: nextMatches }
+}
+
+// The players and status history as they will be once `change` is committed
+export function applyPlayerChange(
+  players: Player[],
+  statusChanges: PlayerStatusChange[],
+  change: LadderChange
+): { players: Player[]; statusChanges: PlayerStatusChange[] } {
+  const { insertPlayer, onLadder, movePlayers = [], statusChange } = change
+  const nextPlayers = [...players, ...insertPlayer ? [insertPlayer] : []].map(player => {
+    const move = movePlayers.find(candidate => candidate.playerId === player.id)
+    return {
+      ...player,
+      ...(onLadder?.playerId === player.id ? { on_ladder: onLadder.onLadder } : {}),
+      ...(move ? { ladder_id: move.ladderId } : {}),
+      ...(statusChange?.player_id === player.id ? { status: statusChange.status } : {})
+    }
+  })
+
+  return {
+    players: nextPlayers,
+    statusChanges: statusChange ? [...statusChanges, statusChange] : statusChanges
+  }
+}
+
+// Players or teams whose replayed rank differs from the stored one
+export function changedRanks(
+  stored: RankUpdate[],
+  standings: RankUpdate[]
+): RankUpdate[] {
+  const storedRanks = new Map(stored.map(entrant => [entrant.id, entrant.current_rank]))
+  return standings
+    .filter(entrant => storedRanks.get(entrant.id) !== entrant.current_rank)
+    .map(entrant => ({ id: entrant.id, current_rank: entrant.current_rank }))
+}
+
+// Events whose replayed ranks or reason differ from the stored ones. Skipped
+// events are left as they are, and so are events before `fromDate`.
+export function changedEventRanks(
+  events: RankingEvent[],
+  trace: LadderMovement[],
+  fromDate?: string
+): EventRankUpdate[] {
+  const eventsById = new Map(events.map(event => [event.id, event]))
+  const cutoff = fromDate ? new Date(fromDate).getTime() : null
+
+  return trace
+    .filter(movement => !movement.skipped)
+    .filter(movement => cutoff === null || new Date(movement.event_date).getTime() >= cutoff)
+    .filter(movement => {
+      const stored = eventsById.get(movement.event_id)
+      return !(
+        stored &&
+        stored.old_rank === movement.old_rank &&
+        stored.new_rank === movement.new_rank &&
+        stored.reason === movement.reason
+      )
+    })
+    .map(movement => ({
+      id: movement.event_id,
+      old_rank: movement.old_rank,
+      new_rank: movement.new_rank,
+      reason: movement.reason
+    }))
+}
+
+// Players whose recomputed rating or deviation differs from the stored one
+export function changedRatings(
+  players: { id: string; rating?: number | null; rating_deviation?: number | null }[],
+  ratings: Map<string, RatingState>
+): RatingUpdate[] {
+  return players
+    .filter(player => {
+      const state = ratings.get(player.id)!
+      return player.rating !== state.rating || (player.rating_deviation ?? null) !== (state.deviation ?? null)
+    })
+    .map(player => {
+      const state = ratings.get(player.id)!
+      return { id: player.id, rating: state.rating, rating_deviation: state.deviation ?? null }
+    })
+}
@@ -0,0 +1,98 @@
+// Ladder rules decide how a result reshuffles the ladder.
+// Positions are 0-based indexes into the ordered ladder (index 0 is first place).
+
+export type LadderRuleId = 'poison' | 'leapfrog_halfway' | 'swap' | 'pyramid'
+
+export interface LadderRule {
+  id: LadderRuleId
+  name: string
+  description: string
+  // Returns a new ordering after `winnerIndex` beat `loserIndex`; never mutates `order`
+  apply<T>(order: readonly T[], winnerIndex: number, loserIndex: number): T[]
+}
+
+function moveTo<T>(order: readonly T[], from: number, to: number): T[] {
+  const next = [...order]
+  const [entrant] = next.splice(from, 1)
+  next.splice(to, 0, entrant)
+  return next
+}
+
+// Pyramid tiers hold 1, 2, 3, ... entrants: index 0 is tier 0, 1-2 tier 1, 3-5 tier 2
+export function pyramidTier(index: number): number {
+  return Math.floor((Math.sqrt(8 * index + 1) - 1) / 2)
+}
+
+export const poisonRule: LadderRule = {
+  id: 'poison',
+  name: 'Poison ladder',
+  description: 'The winner takes the loser\'s spot and everyone in between moves down one.',
+  apply(order, winnerIndex, loserIndex) {
+    if (winnerIndex <= loserIndex) return [...order]
+    return moveTo(order, winnerIndex, loserIndex)
+  }
+}
+
+export const leapfrogHalfwayRule: LadderRule = {
+  id: 'leapfrog_halfway',
+  name: 'Leapfrog halfway',
+  description: 'The winner moves up half the gap to the loser (rounded up); everyone passed moves down one.',
+  apply(order, winnerIndex, loserIndex) {
+    if (winnerIndex <= loserIndex) return [...order]
+    const target = winnerIndex - Math.ceil((winnerIndex - loserIndex) / 2)
+    return moveTo(order, winnerIndex, target)
+  }
+}
+
+export const swapRule: LadderRule = {
+  id: 'swap',
+  name: 'Swap',
+  description: 'The winner and loser trade places; nobody else moves.',
+  apply(order, winnerIndex, loserIndex) {
+    const next = [...order]
+    if (winnerIndex <= loserIndex) return next
+    next[loserIndex] = order[winnerIndex]
+    next[winnerIndex] = order[loserIndex]
+    return next
+  }
+}
+
+export const pyramidRule: LadderRule = {
+  id: 'pyramid',
+  name: 'Pyramid',
+  description: 'Entrants sit in tiers of 1, 2, 3, ... A win over someone in a higher tier swaps the two; wins within a tier change nothing.',
+  apply(order, winnerIndex, loserIndex) {
+    const next = [...order]
+    if (pyramidTier(winnerIndex) <= pyramidTier(loserIndex)) return next
+    next[loserIndex] = order[winnerIndex]
+    next[winnerIndex] = order[loserIndex]
+    return next
+  }
+}
+
+export const LADDER_RULES: Record<LadderRuleId, LadderRule> = {
+  poison: poisonRule,
+  leapfrog_halfway: leapfrogHalfwayRule,
+  swap: swapRule,
+  pyramid: pyramidRule
+}
+
+export const DEFAULT_LADDER_RULE: LadderRuleId = 'poison'
+
+// Unknown or missing ids fall back to the poison ladder the app has always used
+export function getLadderRule(id?: string | null): LadderRule {
+  return (id && LADDER_RULES[id as LadderRuleId]) || LADDER_RULES[DEFAULT_LADDER_RULE]
+}
+
+// Apply a result by entrant id; returns null when either entrant isn't on the ladder
+export function applyLadderRule<T extends { id: string }>(
+  order: readonly T[],
+  winnerId: string,
+  loserId: string,
+  rule: LadderRule
+): T[] | null {
+  const winnerIndex = order.findIndex(entrant => entrant.id === winnerId)
+  const loserIndex = order.findIndex(entrant => entrant.id === loserId)
+  if (winnerIndex === -1 || loserIndex === -1) return null
+  return rule.apply(order, winnerIndex, loserIndex)
+}
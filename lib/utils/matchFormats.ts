@@ -0,0 +1,165 @@
+import type { MatchSet } from '@/lib/types/database'
+
+// Match formats describe how many sets are played and how a set is won.
+// Scores are stored as a variable-length list of sets, in the order played.
+
+export type MatchFormatId = 'two_sets_match_tiebreak' | 'best_of_three' | 'pro_set' | 'fast4' | 'no_ad'
+
+export interface MatchFormat {
+  id: MatchFormatId
+  name: string
+  description: string
+  bestOf: number                      // Sets in a full match
+  gamesPerSet: number                 // Games needed to take a set
+  tiebreakAt: number                  // At n-all a tiebreak game decides the set, n+1 to n
+  tiebreakPoints: number              // A set tiebreak is first to this many points
+  tiebreakSuddenDeath: boolean        // One point decides the tiebreak at one short of the target; otherwise won by two
+  matchTiebreakPoints: number | null  // A match tiebreak to this many points replaces the deciding set
+  noAd: boolean                       // Deuce is a single deciding point; set scores are unaffected
+}
+
+export const MATCH_FORMATS: Record<MatchFormatId, MatchFormat> = {
+  two_sets_match_tiebreak: {
+    id: 'two_sets_match_tiebreak',
+    name: 'Two sets + match tiebreak',
+    description: 'Two sets with a tiebreak at 6-6; split sets go to a match tiebreak to 10.',
+    bestOf: 3,
+    gamesPerSet: 6,
+    tiebreakAt: 6,
+    tiebreakPoints: 7,
+    tiebreakSuddenDeath: false,
+    matchTiebreakPoints: 10,
+    noAd: false
+  },
+  best_of_three: {
+    id: 'best_of_three',
+    name: 'Best of three sets',
+    description: 'Three full sets, each with a tiebreak at 6-6.',
+    bestOf: 3,
+    gamesPerSet: 6,
+    tiebreakAt: 6,
+    tiebreakPoints: 7,
+    tiebreakSuddenDeath: false,
+    matchTiebreakPoints: null,
+    noAd: false
+  },
+  pro_set: {
+    id: 'pro_set',
+    name: 'Pro set to 8',
+    description: 'A single set to 8 games with a tiebreak at 8-8.',
+    bestOf: 1,
+    gamesPerSet: 8,
+    tiebreakAt: 8,
+    tiebreakPoints: 7,
+    tiebreakSuddenDeath: false,
+    matchTiebreakPoints: null,
+    noAd: false
+  },
+  fast4: {
+    id: 'fast4',
+    name: 'Fast4',
+    description: 'Best of three sets to 4 games, a tiebreak to 5 at 3-3 and no-ad scoring.',
+    bestOf: 3,
+    gamesPerSet: 4,
+    tiebreakAt: 3,
+    tiebreakPoints: 5,
+    tiebreakSuddenDeath: true,
+    matchTiebreakPoints: null,
+    noAd: true
+  },
+  no_ad: {
+    id: 'no_ad',
+    name: 'No-ad, two sets + match tiebreak',
+    description: 'As two sets + match tiebreak, with a deciding point at deuce.',
+    bestOf: 3,
+    gamesPerSet: 6,
+    tiebreakAt: 6,
+    tiebreakPoints: 7,
+    tiebreakSuddenDeath: false,
+    matchTiebreakPoints: 10,
+    noAd: true
+  }
+}
+
+export const DEFAULT_MATCH_FORMAT: MatchFormatId = 'two_sets_match_tiebreak'
+
+export function getMatchFormat(id?: string | null): MatchFormat {
+  return (id && MATCH_FORMATS[id as MatchFormatId]) || MATCH_FORMATS[DEFAULT_MATCH_FORMAT]
+}
+
+export function setsToWin(format: MatchFormat): number {
+  return Math.ceil(format.bestOf / 2)
+}
+
+// The most games either player can have in a set
+export function maxSetGames(format: MatchFormat): number {
+  return Math.max(format.gamesPerSet, format.tiebreakAt + 1)
+}
+
+// Whether the set at `index` is the deciding set, played as a match tiebreak
+export function isMatchTiebreakSet(format: MatchFormat, index: number): boolean {
+  return format.matchTiebreakPoints !== null && format.bestOf > 1 && index === format.bestOf - 1
+}
+
+// A set decided by a tiebreak game, e.g. 7-6
+export function isTiebreakSet(format: MatchFormat, set: MatchSet): boolean {
+  if (set.match_tiebreak) return false
+  const high = Math.max(set.p1, set.p2)
+  const low = Math.min(set.p1, set.p2)
+  return high === format.tiebreakAt + 1 && low === format.tiebreakAt
+}
+
+export function setWinner(set: MatchSet): 1 | 2 | null {
+  if (set.p1 === set.p2) return null
+  return set.p1 > set.p2 ? 1 : 2
+}
+
+export function countSetsWon(sets: MatchSet[]): { p1: number; p2: number } {
+  return sets.reduce((count, set) => {
+    const winner = setWinner(set)
+    if (winner === 1) count.p1++
+    if (winner === 2) count.p2++
+    return count
+  }, { p1: 0, p2: 0 })
+}
+
+// Sets the entry forms show: enough to decide the match, and no more
+export function visibleSetCount(format: MatchFormat, sets: MatchSet[]): number {
+  const needed = setsToWin(format)
+  let shown = needed
+  while (shown < format.bestOf) {
+    const { p1, p2 } = countSetsWon(sets.slice(0, shown))
+    if (p1 >= needed || p2 >= needed) break
+    shown++
+  }
+  return shown
+}
+
+// Turns the entry forms' score slots into stored sets: trailing 0-0 sets
+// weren't played, the deciding set may be a match tiebreak, and tiebreak
+// points are only kept on sets that went to a tiebreak
+export function playedSets(format: MatchFormat, sets: MatchSet[]): MatchSet[] {
+  const trimmed = [...sets]
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].p1 === 0 && trimmed[trimmed.length - 1].p2 === 0) {
+    trimmed.pop()
+  }
+  return trimmed.map((set, index) => {
+    if (isMatchTiebreakSet(format, index)) return { p1: set.p1, p2: set.p2, match_tiebreak: true }
+    if (set.tiebreak && isTiebreakSet(format, set)) {
+      return { p1: set.p1, p2: set.p2, tiebreak: { p1: set.tiebreak.p1, p2: set.tiebreak.p2 } }
+    }
+    return { p1: set.p1, p2: set.p2 }
+  })
+}
+
+// Standard notation from one player's side, e.g. "7-6(4), 3-6, [10-8]".
+// A set tiebreak shows the loser's points, whichever side is reading.
+export function formatSets(sets: MatchSet[], perspective: 1 | 2 = 1): string {
+  return sets
+    .map(set => {
+      const score = perspective === 1 ? `${set.p1}-${set.p2}` : `${set.p2}-${set.p1}`
+      if (set.match_tiebreak) return `[${score}]`
+      return set.tiebreak ? `${score}(${Math.min(set.tiebreak.p1, set.tiebreak.p2)})` : score
+    })
+    .join(', ')
+}
@@ -0,0 +1,157 @@
+import { MatchReport, MatchReportStatus, MatchReportWithPlayers } from '@/lib/types/database'
+import { determineMatchWinner } from '@/lib/utils/ladder'
+import { DEFAULT_MATCH_FORMAT, MatchFormatId, formatSets, getMatchFormat } from '@/lib/utils/matchFormats'
+import { MATCH_RESULT_LABELS, isUnplayedResult, matchResultType } from '@/lib/utils/results'
+import { ValidationError } from '@/lib/utils/errors'
+
+// Results players report themselves. The reporter's opponent confirms or
+// disputes it; an unanswered report confirms itself after the ladder's
+// `report_confirm_hours`. Only a confirmed report becomes a match.
+
+export const DEFAULT_REPORT_CONFIRM_HOURS = 48
+
+// Reports still waiting on someone; staff see these in their queue
+export const OPEN_REPORT_STATUSES: MatchReportStatus[] = ['pending', 'disputed', 'held']
+
+export const REPORT_STATUS_LABELS: Record<MatchReportStatus, string> = {
+  pending: 'Waiting for opponent',
+  disputed: 'Disputed',
+  held: 'Waiting for staff',
+  confirmed: 'Confirmed',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+}
+
+// What a player submits: the score, as for a match, against one opponent
+export type ReportInput = Pick<MatchReport,
+  'player2_id' | 'date_played' | 'format_id' | 'sets' | 'result_type' | 'has_retirement' | 'retired_player' | 'defaulted_player'
+>
+
+export type MatchReportAction =
+  | { type: 'confirm' }                  // The opponent agrees, or the deadline passed
+  | { type: 'dispute'; reason: string }  // The opponent disagrees
+  | { type: 'withdraw' }                 // The reporter takes it back
+  | { type: 'approve' }                  // Staff record it anyway
+  | { type: 'reject'; reason: string }   // Staff throw it out
+  | { type: 'hold'; reason: string }     // Confirmed, but the ladder refused it
+
+// Actions players take on their own reports; the rest are for staff and the server
+export const PLAYER_REPORT_ACTIONS: MatchReportAction['type'][] = ['confirm', 'dispute', 'withdraw']
+
+const ALLOWED_TRANSITIONS: Record<MatchReportAction['type'], MatchReportStatus[]> = {
+  confirm: ['pending'],
+  dispute: ['pending'],
+  withdraw: ['pending'],
+  approve: ['pending', 'disputed', 'held'],
+  reject: ['pending', 'disputed', 'held'],
+  hold: ['pending'],
+}
+
+export function isReportOpen(report: Pick<MatchReport, 'status'>): boolean {
+  return OPEN_REPORT_STATUSES.includes(report.status)
+}
+
+// Pending reports past their deadline confirm themselves
+export function isReportDue(report: MatchReport, now: Date): boolean {
+  return report.status === 'pending' && !!report.confirm_by && new Date(report.confirm_by).getTime() <= now.getTime()
+}
+
+// The report is in the ladder's match format, whatever the reporter sent;
+// a score sent in another format is refused rather than read as this one.
+// `confirmHours` of null never confirms on its own.
+export function createMatchReport(
+  reporterId: string,
+  input: ReportInput,
+  ladder: { id: string | null; match_format?: MatchFormatId },
+  now: Date,
+  confirmHours: number | null = DEFAULT_REPORT_CONFIRM_HOURS
+): Omit<MatchReport, 'id' | 'created_at'> {
+  if (!input.player2_id) {
+    throw new ValidationError('Please select your opponent')
+  }
+  if (input.player2_id === reporterId) {
+    throw new ValidationError('You cannot report a match against yourself')
+  }
+  // A day's grace, for players whose today is still tomorrow in UTC
+  if (!input.date_played || !(new Date(input.date_played).getTime() <= now.getTime() + 24 * 60 * 60 * 1000)) {
+    throw new ValidationError('Please enter the date the match was played')
+  }
+  const format = getMatchFormat(ladder.match_format ?? DEFAULT_MATCH_FORMAT)
+  if (input.format_id && input.format_id !== format.id) {
+    throw new ValidationError(`This ladder plays ${format.name.toLowerCase()}; please enter the score in that format`)
+  }
+
+  return {
+    ladder_id: ladder.id,
+    player1_id: reporterId,
+    player2_id: input.player2_id,
+    date_played: input.date_played,
+    format_id: format.id,
+    sets: input.sets ?? [],
+    result_type: input.result_type ?? 'completed',
+    has_retirement: input.result_type === 'retired',
+    retired_player: input.result_type === 'retired' ? input.retired_player ?? null : null,
+    defaulted_player: input.defaulted_player ?? null,
+    status: 'pending',
+    confirm_by: confirmHours ? new Date(now.getTime() + confirmHours * 60 * 60 * 1000).toISOString() : null,
+    note: null,
+    match_id: null,
+    resolved_by: null,
+    resolved_at: null,
+  }
+}
+
+// Throws unless `playerId` may take a player action: the opponent confirms
+// or disputes, and the reporter withdraws
+export function checkReportPlayer(report: MatchReport, action: MatchReportAction, playerId: string): void {
+  if (!PLAYER_REPORT_ACTIONS.includes(action.type)) {
+    throw new ValidationError('Only staff can do that')
+  }
+  const side = action.type === 'withdraw' ? report.player1_id : report.player2_id
+  if (side !== playerId) {
+    throw new ValidationError(action.type === 'withdraw'
+      ? 'Only the player who reported a result can withdraw it'
+      : 'Only the opponent can confirm or dispute a result')
+  }
+}
+
+// Returns the fields to update for `action`; throws if the transition isn't
+// allowed. `by` is the email acting, or null for the server itself.
+export function transitionMatchReport(
+  report: MatchReport,
+  action: MatchReportAction,
+  now: Date,
+  by: string | null = null
+): Partial<MatchReport> {
+  if (!ALLOWED_TRANSITIONS[action.type].includes(report.status)) {
+    throw new ValidationError(`Cannot ${action.type} a result that is ${report.status}`)
+  }
+
+  switch (action.type) {
+    case 'confirm':
+    case 'approve':
+      return { status: 'confirmed', resolved_by: by, resolved_at: now.toISOString() }
+    case 'dispute':
+      if (!action.reason?.trim()) {
+        throw new ValidationError('Please say what is wrong with the result')
+      }
+      return { status: 'disputed', note: action.reason.trim() }
+    case 'withdraw':
+      return { status: 'withdrawn', resolved_by: by, resolved_at: now.toISOString() }
+    case 'reject':
+      return { status: 'rejected', note: action.reason?.trim() || report.note, resolved_by: by, resolved_at: now.toISOString() }
+    case 'hold':
+      return { status: 'held', note: action.reason }
+  }
+}
+
+// The result in a sentence, winner first, e.g. "Ann beat Bea 6-4, 7-6(3)"
+export function describeMatchReport(report: MatchReportWithPlayers): string {
+  const winner = determineMatchWinner(report)
+  const [won, lost] = winner === 1 ? [report.player1, report.player2] : [report.player2, report.player1]
+  if (isUnplayedResult(report)) {
+    return `${won.name} beat ${lost.name}: ${MATCH_RESULT_LABELS[matchResultType(report)].toLowerCase()}`
+  }
+  const retired = matchResultType(report) === 'retired' ? ` (${lost.name} retired)` : ''
+  return `${won.name} beat ${lost.name} ${formatSets(report.sets, winner)}${retired}`
+}
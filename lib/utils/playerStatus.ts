@@ -0,0 +1,92 @@
+import type { PlayerStatus, PlayerStatusChange } from '@/lib/types/database'
+
+// Player status lifecycle. Injured and on-leave players are frozen: they keep
+// their place, can't be challenged, aren't passed over by results around them
+// and don't lose places for inactivity. A withdrawn player leaves the ladder
+// through a player_withdrawn ranking event, and everyone below moves up.
+
+export const PLAYER_STATUS_LABELS: Record<PlayerStatus, { name: string; badge: string }> = {
+  active: { name: 'Active', badge: 'bg-green-100 text-green-800' },
+  injured: { name: 'Injured', badge: 'bg-red-100 text-red-800' },
+  on_leave: { name: 'On leave', badge: 'bg-amber-100 text-amber-800' },
+  withdrawn: { name: 'Withdrawn', badge: 'bg-gray-100 text-gray-600' }
+}
+
+export function isFrozenStatus(status: PlayerStatus | null | undefined): boolean {
+  return status === 'injured' || status === 'on_leave'
+}
+
+// Changes in the order they took effect, with created_at breaking ties
+export function sortStatusChanges(changes: PlayerStatusChange[]): PlayerStatusChange[] {
+  return [...changes].sort((a, b) => {
+    const byDate = new Date(a.effective_from).getTime() - new Date(b.effective_from).getTime()
+    if (byDate !== 0) return byDate
+    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  })
+}
+
+// A player's status at `date`; players with no changes in effect are active
+export function statusAt(changes: PlayerStatusChange[], playerId: string, date: string | Date): PlayerStatus {
+  const limit = new Date(date).getTime()
+  let status: PlayerStatus = 'active'
+  for (const change of sortStatusChanges(changes)) {
+    if (change.player_id !== playerId) continue
+    if (new Date(change.effective_from).getTime() > limit) break
+    status = change.status
+  }
+  return status
+}
+
+// Whether an entrant was frozen at a given moment, for the replay engine
+export function frozenChecker(changes: PlayerStatusChange[]): (entrantId: string, date: string) => boolean {
+  const byPlayer = new Map<string, PlayerStatusChange[]>()
+  for (const change of sortStatusChanges(changes)) {
+    byPlayer.set(change.player_id, [...(byPlayer.get(change.player_id) ?? []), change])
+  }
+  return (entrantId, date) => {
+    const playerChanges = byPlayer.get(entrantId)
+    return !!playerChanges && isFrozenStatus(statusAt(playerChanges, entrantId, date))
+  }
+}
+
+// Stretches of time a player spent frozen. `to` is null while they still are.
+export function frozenPeriods(changes: PlayerStatusChange[], playerId: string): { from: string; to: string | null }[] {
+  const periods: { from: string; to: string | null }[] = []
+  for (const change of sortStatusChanges(changes)) {
+    if (change.player_id !== playerId) continue
+    const open = periods.length > 0 && periods[periods.length - 1].to === null
+    if (isFrozenStatus(change.status) && !open) {
+      periods.push({ from: change.effective_from, to: null })
+    } else if (!isFrozenStatus(change.status) && open) {
+      periods[periods.length - 1].to = change.effective_from
+    }
+  }
+  return periods
+}
+
+// Why a status change can't be made, or null if it can. Changes take effect
+// in order, so one can't be dated before the player's latest change.
+export function validateStatusChange(
+  current: PlayerStatus,
+  next: PlayerStatus,
+  effectiveFrom: Date,
+  now: Date,
+  latestChange?: Pick<PlayerStatusChange, 'effective_from'> | null
+): string | null {
+  if (current === 'withdrawn') {
+    return 'This player has withdrawn from the ladder'
+  }
+  if (next === current) {
+    return `This player is already ${PLAYER_STATUS_LABELS[next].name.toLowerCase()}`
+  }
+  if (isNaN(effectiveFrom.getTime())) {
+    return 'Please enter the date the change takes effect'
+  }
+  if (effectiveFrom.getTime() > now.getTime()) {
+    return "Status changes can't be dated in the future"
+  }
+  if (latestChange && effectiveFrom.getTime() < new Date(latestChange.effective_from).getTime()) {
+    return "A status change can't be dated before the player's previous one"
+  }
+  return null
+}
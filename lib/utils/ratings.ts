@@ -0,0 +1,211 @@
+import type { Match } from '@/lib/types/database'
+import { isUnplayedResult } from '@/lib/utils/results'
+
+// Rating systems estimate playing strength from results, independently of the
+// ladder position. Every match is replayed in order, one rating period each.
+
+export type RatingSystemId = 'elo' | 'glicko2'
+
+export interface RatingState {
+  rating: number
+  deviation?: number   // Glicko-2 only: uncertainty in the rating
+  volatility?: number  // Glicko-2 only: how erratic the player's results are
+}
+
+export interface RatingSystem {
+  id: RatingSystemId
+  name: string
+  description: string
+  initial(): RatingState
+  // `score` is the player's result against the opponent, from 0 (loss) to 1 (win)
+  update(player: RatingState, opponent: RatingState, score: number): RatingState
+}
+
+export interface RatingChange {
+  match_id: string
+  player_id: string
+  played_at: string
+  rating_before: number
+  rating_after: number
+  deviation: number | null
+  volatility: number | null
+}
+
+export const INITIAL_RATING = 1500
+export const ELO_K_FACTOR = 32
+
+export const eloSystem: RatingSystem = {
+  id: 'elo',
+  name: 'Elo',
+  description: 'Classic Elo with a K-factor of 32. Simple and predictable.',
+  initial: () => ({ rating: INITIAL_RATING }),
+  update(player, opponent, score) {
+    const expected = 1 / (1 + Math.pow(10, (opponent.rating - player.rating) / 400))
+    return { rating: player.rating + ELO_K_FACTOR * (score - expected) }
+  }
+}
+
+const GLICKO2_SCALE = 173.7178
+const GLICKO2_TAU = 0.5
+const GLICKO2_EPSILON = 0.000001
+
+function glickoG(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI))
+}
+
+// Step 5 of Glickman's Glicko-2 paper: solve for the new volatility (Illinois method)
+function glickoVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    return ex * (delta * delta - phi * phi - v - ex) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (GLICKO2_TAU * GLICKO2_TAU)
+  }
+
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let k = 1
+    while (f(a - k * GLICKO2_TAU) < 0) k++
+    B = a - k * GLICKO2_TAU
+  }
+
+  let fA = f(A)
+  let fB = f(B)
+  while (Math.abs(B - A) > GLICKO2_EPSILON) {
+    const C = A + (A - B) * fA / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA = fA / 2
+    }
+    B = C
+    fB = fC
+  }
+
+  return Math.exp(A / 2)
+}
+
+export const glicko2System: RatingSystem = {
+  id: 'glicko2',
+  name: 'Glicko-2',
+  description: 'Tracks how certain each rating is: new or rarely-seen players move faster.',
+  initial: () => ({ rating: INITIAL_RATING, deviation: 350, volatility: 0.06 }),
+  update(player, opponent, score) {
+    const mu = (player.rating - INITIAL_RATING) / GLICKO2_SCALE
+    const phi = (player.deviation ?? 350) / GLICKO2_SCALE
+    const sigma = player.volatility ?? 0.06
+    const opponentMu = (opponent.rating - INITIAL_RATING) / GLICKO2_SCALE
+    const opponentPhi = (opponent.deviation ?? 350) / GLICKO2_SCALE
+
+    const g = glickoG(opponentPhi)
+    const expected = 1 / (1 + Math.exp(-g * (mu - opponentMu)))
+    const v = 1 / (g * g * expected * (1 - expected))
+    const delta = v * g * (score - expected)
+
+    const newSigma = glickoVolatility(phi, sigma, delta, v)
+    const phiStar = Math.sqrt(phi * phi + newSigma * newSigma)
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+    const newMu = mu + newPhi * newPhi * g * (score - expected)
+
+    return {
+      rating: newMu * GLICKO2_SCALE + INITIAL_RATING,
+      deviation: newPhi * GLICKO2_SCALE,
+      volatility: newSigma
+    }
+  }
+}
+
+export const RATING_SYSTEMS: Record<RatingSystemId, RatingSystem> = {
+  elo: eloSystem,
+  glicko2: glicko2System
+}
+
+export const DEFAULT_RATING_SYSTEM: RatingSystemId = 'elo'
+
+export function getRatingSystem(id?: string | null): RatingSystem {
+  return (id && RATING_SYSTEMS[id as RatingSystemId]) || RATING_SYSTEMS[DEFAULT_RATING_SYSTEM]
+}
+
+// Retirements say less about strength than a finished match
+export const RETIREMENT_WEIGHT = 0.5
+
+// Player 1's result as a score from 0 to 1. A winner scores between 0.6
+// (won on the narrowest of game margins) and 1 (won every game); retirements
+// are pulled halfway back towards a draw.
+export function matchScore(match: Match): number {
+  // A match tiebreak counts as a single game to its winner
+  let p1Games = 0
+  let p2Games = 0
+  for (const set of match.sets) {
+    if (set.match_tiebreak) {
+      if (set.p1 > set.p2) p1Games++
+      else if (set.p2 > set.p1) p2Games++
+    } else {
+      p1Games += set.p1
+      p2Games += set.p2
+    }
+  }
+  const totalGames = p1Games + p2Games
+  const winnerMargin = match.match_winner === 1 ? p1Games - p2Games : p2Games - p1Games
+  const dominance = totalGames > 0 ? Math.max(winnerMargin, 0) / totalGames : 0
+
+  const winnerScore = 0.6 + 0.4 * dominance
+  const weight = match.has_retirement ? RETIREMENT_WEIGHT : 1
+  const weighted = 0.5 + weight * (winnerScore - 0.5)
+
+  return match.match_winner === 1 ? weighted : 1 - weighted
+}
+
+// Replays every match in the order it was recorded. Players missing from
+// `playerIds` are skipped along with their matches, as are walkovers,
+// no-shows and defaults, which say nothing about playing strength.
+export function computeRatings(
+  playerIds: string[],
+  matches: Match[],
+  system: RatingSystem = eloSystem
+): { ratings: Map<string, RatingState>; history: RatingChange[] } {
+  const ratings = new Map(playerIds.map(id => [id, system.initial()]))
+  const history: RatingChange[] = []
+
+  const ordered = [...matches].sort((a, b) => {
+    const byDate = new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    return byDate !== 0 ? byDate : a.id.localeCompare(b.id)
+  })
+
+  for (const match of ordered) {
+    // Doubles matches are between teams and don't move individual ratings
+    const { player1_id, player2_id } = match
+    if (!player1_id || !player2_id) continue
+
+    const player1 = ratings.get(player1_id)
+    const player2 = ratings.get(player2_id)
+    if (!player1 || !player2 || isUnplayedResult(match)) continue
+
+    const score = matchScore(match)
+    const updated1 = system.update(player1, player2, score)
+    const updated2 = system.update(player2, player1, 1 - score)
+    ratings.set(player1_id, updated1)
+    ratings.set(player2_id, updated2)
+
+    for (const [playerId, before, after] of [
+      [player1_id, player1, updated1],
+      [player2_id, player2, updated2]
+    ] as const) {
+      history.push({
+        match_id: match.id,
+        player_id: playerId,
+        played_at: match.created_at,
+        rating_before: before.rating,
+        rating_after: after.rating,
+        deviation: after.deviation ?? null,
+        volatility: after.volatility ?? null
+      })
+    }
+  }
+
+  return { ratings, history }
+}
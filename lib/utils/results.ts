@@ -0,0 +1,106 @@
+import type { Match, MatchResultType, Team } from '@/lib/types/database'
+import { getMatchFormat, isTiebreakSet, setWinner } from '@/lib/utils/matchFormats'
+import { matchEntrantIds, teamsForPlayer } from '@/lib/utils/doubles'
+
+export const MATCH_RESULT_LABELS: Record<MatchResultType, string> = {
+  completed: 'Completed',
+  retired: 'Retirement',
+  walkover: 'Walkover',
+  no_show: 'No-show',
+  default: 'Default'
+}
+
+// Who the result is recorded against, as asked on the entry forms
+export const DEFAULTED_PLAYER_PROMPTS: Record<Exclude<MatchResultType, 'completed' | 'retired'>, string> = {
+  walkover: 'Which player gave the walkover?',
+  no_show: "Which player didn't show?",
+  default: 'Which player was defaulted?'
+}
+
+// Matches recorded before result types only carry the retirement flag
+export function matchResultType(match: Pick<Match, 'result_type' | 'has_retirement'>): MatchResultType {
+  return match.result_type ?? (match.has_retirement ? 'retired' : 'completed')
+}
+
+// Walkovers, no-shows and defaults: the ladder moves, but no sets or games were played
+export function isUnplayedResult(match: Pick<Match, 'result_type' | 'has_retirement'>): boolean {
+  const type = matchResultType(match)
+  return type === 'walkover' || type === 'no_show' || type === 'default'
+}
+
+export interface PlayerMatchStats {
+  totalMatches: number
+  wins: number
+  losses: number
+  setsWon: number
+  setsLost: number
+  gamesWon: number
+  gamesLost: number
+  tiebreaksWon: number   // Set tiebreaks and match tiebreaks
+  tiebreaksLost: number
+}
+
+function emptyStats(): PlayerMatchStats {
+  return {
+    totalMatches: 0,
+    wins: 0,
+    losses: 0,
+    setsWon: 0,
+    setsLost: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    tiebreaksWon: 0,
+    tiebreaksLost: 0
+  }
+}
+
+// Win-loss counts every result; set, game and tiebreak totals only count matches
+// that were actually played. `entrantId` is a player, or a team for doubles.
+export function playerMatchStats(entrantId: string, matches: Match[]): PlayerMatchStats {
+  const stats = emptyStats()
+
+  for (const match of matches) {
+    const entrants = matchEntrantIds(match)
+    if (!entrants || !entrants.includes(entrantId)) continue
+    const isPlayer1 = entrants[0] === entrantId
+    const side = isPlayer1 ? 1 : 2
+
+    stats.totalMatches++
+    if (match.match_winner === side) stats.wins++
+    else stats.losses++
+
+    if (isUnplayedResult(match)) continue
+
+    const format = getMatchFormat(match.format_id)
+    for (const set of match.sets) {
+      const winner = setWinner(set)
+      if (set.match_tiebreak || isTiebreakSet(format, set)) {
+        if (winner === side) stats.tiebreaksWon++
+        else if (winner !== null) stats.tiebreaksLost++
+      }
+
+      // A match tiebreak decides the match but isn't counted as a set or as games
+      if (set.match_tiebreak) continue
+
+      if (winner === side) stats.setsWon++
+      else if (winner !== null) stats.setsLost++
+
+      stats.gamesWon += isPlayer1 ? set.p1 : set.p2
+      stats.gamesLost += isPlayer1 ? set.p2 : set.p1
+    }
+  }
+
+  return stats
+}
+
+// A player's doubles record: every team they've played in, added together
+export function playerDoublesStats(playerId: string, teams: Team[], matches: Match[]): PlayerMatchStats {
+  const total = emptyStats()
+  for (const team of teamsForPlayer(teams, playerId)) {
+    const stats = playerMatchStats(team.id, matches)
+    for (const key of Object.keys(total) as (keyof PlayerMatchStats)[]) {
+      total[key] += stats[key]
+    }
+  }
+  return total
+}
@@ -0,0 +1,103 @@
+import type { Player, RankingEvent } from '@/lib/types/database'
+import { eventEntrantId } from '@/lib/utils/doubles'
+import { isDivisionEvent } from '@/lib/utils/divisions'
+import { sortEventsChronologically } from '@/lib/utils/events'
+
+// Who is on a ladder, and when. Players join part-way through a season with a
+// player_joined event and leave with player_removed, player_withdrawn or a move
+// between divisions, so the replay inserts and removes them at the right point
+// in the stream instead of treating everyone as present from the start.
+
+export type EntryMethod = 'bottom' | 'position' | 'qualifier'
+
+export const ENTRY_METHOD_LABELS: Record<EntryMethod, { name: string; description: string }> = {
+  bottom: {
+    name: 'Bottom of the ladder',
+    description: 'Joins below everyone already on the ladder.'
+  },
+  position: {
+    name: 'A specific spot',
+    description: 'Joins at the position you choose; everyone from there down moves down one.'
+  },
+  qualifier: {
+    name: 'Qualifier',
+    description: "Plays a qualifying match: a win takes the opponent's spot, a loss enters just below them."
+  }
+}
+
+// Whether an event in a ladder's stream brings an entrant onto it or takes them off
+export function membershipChange(event: RankingEvent): 'join' | 'leave' | null {
+  if (event.event_type === 'player_joined') return 'join'
+  if (event.event_type === 'player_removed' || event.event_type === 'player_withdrawn') return 'leave'
+  if (isDivisionEvent(event)) return event.to_ladder_id === event.ladder_id ? 'join' : 'leave'
+  return null
+}
+
+// Players who are on a ladder right now, as opposed to removed or withdrawn
+export function isOnLadder(player: Pick<Player, 'on_ladder' | 'status'>): boolean {
+  return player.on_ladder !== false && player.status !== 'withdrawn'
+}
+
+// Who started the season on `ladderId`, first place first. `events` is that
+// ladder's stream: a player's first join or leave in it says whether they were
+// there at the start, and anyone without one is there if they are on the
+// ladder now.
+export function ladderStartingOrder<T extends Pick<Player, 'id' | 'initial_rank' | 'ladder_id' | 'status' | 'on_ladder'>>(
+  players: T[],
+  events: RankingEvent[],
+  ladderId: string | null | undefined
+): T[] {
+  const firstChanges = new Map<string, 'join' | 'leave'>()
+  for (const event of sortEventsChronologically(events)) {
+    const entrantId = eventEntrantId(event)
+    const change = membershipChange(event)
+    if (change && entrantId && !firstChanges.has(entrantId)) {
+      firstChanges.set(entrantId, change)
+    }
+  }
+
+  return players
+    .filter(player => {
+      const firstChange = firstChanges.get(player.id)
+      if (firstChange) return firstChange === 'leave'
+      return isOnLadder(player) && (!ladderId || player.ladder_id === ladderId)
+    })
+    .sort((a, b) => a.initial_rank - b.initial_rank)
+}
+
+// What is wrong with how a player is to enter their ladder, or null if nothing
+export function ladderEntryProblem(entry: { method?: EntryMethod; position?: number; opponentId?: string }): string | null {
+  if (!entry.method || !(entry.method in ENTRY_METHOD_LABELS)) {
+    return 'Please choose how the player joins the ladder'
+  }
+  if (entry.method === 'position' && !(typeof entry.position === 'number' && Number.isInteger(entry.position) && entry.position >= 1)) {
+    return 'Please choose the position the player joins at'
+  }
+  if (entry.method === 'qualifier' && !entry.opponentId) {
+    return 'Please choose the qualifying opponent'
+  }
+  return null
+}
+
+export type JoinEventInput = Pick<RankingEvent,
+  'event_type' | 'event_date' | 'player_id' | 'ladder_id' | 'entry_method' | 'new_rank' | 'opponent_id' | 'qualifier_won'
+>
+
+// A player_joined event. `position` is the spot for 'position' entries;
+// qualifiers name the opponent and whether the new player won.
+export function joinEvent(
+  playerId: string,
+  ladderId: string | null | undefined,
+  entry: { method: EntryMethod; position?: number; opponentId?: string; won?: boolean },
+  date: Date
+): JoinEventInput {
+  return {
+    event_type: 'player_joined',
+    event_date: date.toISOString(),
+    player_id: playerId,
+    ladder_id: ladderId ?? null,
+    entry_method: entry.method,
+    ...(entry.method === 'position' ? { new_rank: entry.position } : {}),
+    ...(entry.method === 'qualifier' ? { opponent_id: entry.opponentId, qualifier_won: !!entry.won } : {})
+  }
+}
@@ -0,0 +1,195 @@
+import type { Match, MatchSet } from '@/lib/types/database'
+import { MatchFormat, getMatchFormat, isMatchTiebreakSet, isTiebreakSet, maxSetGames, setWinner, setsToWin } from '@/lib/utils/matchFormats'
+import { isUnplayedResult, matchResultType } from '@/lib/utils/results'
+
+// Field-level score errors, keyed by what the entry forms render:
+// 'sets' for the score as a whole, 'sets.<i>' for one set,
+// 'sets.<i>.p1' / 'sets.<i>.p2' for one player's side of it and
+// 'sets.<i>.tiebreak' for its tiebreak points.
+export type ScoreErrors = Record<string, string>
+
+type SetState = 'complete' | 'in_progress' | 'impossible'
+
+// A normal set: first to `gamesPerSet` by two, 7-5 style when it goes on,
+// and a tiebreak game at `tiebreakAt`-all
+export function setState(format: MatchFormat, set: MatchSet): SetState {
+  const high = Math.max(set.p1, set.p2)
+  const low = Math.min(set.p1, set.p2)
+  const games = format.gamesPerSet
+  const tiebreak = format.tiebreakAt
+
+  const wonOutright = high === games && low <= games - 2
+  const wonByTwo = tiebreak >= games && high === games + 1 && low === games - 1
+  const wonTiebreak = high === tiebreak + 1 && low === tiebreak
+  if (wonOutright || wonByTwo || wonTiebreak) return 'complete'
+
+  if (low <= tiebreak && (high < games || (high === games && low >= games - 1))) return 'in_progress'
+  return 'impossible'
+}
+
+// A points tiebreak to `target`, won by two unless a single point decides it
+// at one short of the target
+function pointsState(target: number, suddenDeath: boolean, p1: number, p2: number): SetState {
+  const high = Math.max(p1, p2)
+  const low = Math.min(p1, p2)
+
+  if (suddenDeath) {
+    if (high > target) return 'impossible'
+    return high === target ? 'complete' : 'in_progress'
+  }
+  if (high >= target && high - low >= 2) {
+    return high === target || high - low === 2 ? 'complete' : 'impossible'
+  }
+  return 'in_progress'
+}
+
+// A match tiebreak: first to `matchTiebreakPoints`, won by two
+export function matchTiebreakState(format: MatchFormat, set: MatchSet): SetState {
+  return pointsState(format.matchTiebreakPoints ?? 10, false, set.p1, set.p2)
+}
+
+// The tiebreak game that decides a set at `tiebreakAt`-all
+export function tiebreakState(format: MatchFormat, tiebreak: { p1: number; p2: number }): SetState {
+  return pointsState(format.tiebreakPoints, format.tiebreakSuddenDeath, tiebreak.p1, tiebreak.p2)
+}
+
+function tiebreakRule(format: MatchFormat): string {
+  return format.tiebreakSuddenDeath
+    ? `first to ${format.tiebreakPoints} points, with a deciding point at ${format.tiebreakPoints - 1}-all`
+    : `first to ${format.tiebreakPoints} points, won by two`
+}
+
+// Recorded tiebreak points must belong to a tiebreak set and agree with who took it
+function tiebreakError(format: MatchFormat, set: MatchSet): string | null {
+  if (!set.tiebreak) return null
+  const { p1, p2 } = set.tiebreak
+  if (!isTiebreakSet(format, set)) {
+    return `Tiebreak points only apply to a set that ended ${format.tiebreakAt + 1}-${format.tiebreakAt}`
+  }
+  if (![p1, p2].every(points => Number.isInteger(points) && points >= 0)) {
+    return 'Enter whole numbers of 0 or more for the tiebreak'
+  }
+  if (tiebreakState(format, set.tiebreak) !== 'complete') {
+    return `${p1}-${p2} isn't a finished tiebreak: it is ${tiebreakRule(format)}`
+  }
+  if ((p1 > p2 ? 1 : 2) !== setWinner(set)) {
+    return 'The tiebreak must be won by the player who won the set'
+  }
+  return null
+}
+
+function describeSet(format: MatchFormat, index: number): string {
+  return isMatchTiebreakSet(format, index) ? 'The match tiebreak' : `Set ${index + 1}`
+}
+
+function setRule(format: MatchFormat, index: number): string {
+  if (isMatchTiebreakSet(format, index)) {
+    return `is first to ${format.matchTiebreakPoints} points, won by two`
+  }
+  const games = format.gamesPerSet
+  const tiebreak = format.tiebreakAt
+  const wins = [`${games}-${games - 2} or better`]
+  if (tiebreak >= games) wins.push(`${games + 1}-${games - 1}`)
+  wins.push(`${tiebreak + 1}-${tiebreak} after a tiebreak`)
+  return `ends ${wins.join(', ')}`
+}
+
+// Checks a score against tennis rules for its format. A retirement may stop
+// part-way through the last set; otherwise every set must be finished and
+// the match decided by the last one.
+export function validateScore(format: MatchFormat, sets: MatchSet[], options: { retired?: boolean } = {}): ScoreErrors {
+  const errors: ScoreErrors = {}
+
+  if (sets.length === 0) {
+    errors.sets = 'Enter the score of at least one set'
+    return errors
+  }
+  if (sets.length > format.bestOf) {
+    errors.sets = `${format.name} has at most ${format.bestOf} set(s)`
+    return errors
+  }
+
+  const needed = setsToWin(format)
+  const maxGames = maxSetGames(format)
+  const won = { p1: 0, p2: 0 }
+
+  sets.forEach((set, index) => {
+    const label = describeSet(format, index)
+    const isLast = index === sets.length - 1
+    const matchTiebreak = isMatchTiebreakSet(format, index)
+
+    if (won.p1 >= needed || won.p2 >= needed) {
+      errors[`sets.${index}`] = `${label} was played after the match was already decided`
+      return
+    }
+
+    let sideError = false
+    for (const side of ['p1', 'p2'] as const) {
+      const value = set[side]
+      if (!Number.isInteger(value) || value < 0) {
+        errors[`sets.${index}.${side}`] = 'Enter a whole number of 0 or more'
+        sideError = true
+      } else if (!matchTiebreak && value > maxGames) {
+        errors[`sets.${index}.${side}`] = `At most ${maxGames} games in a set`
+        sideError = true
+      }
+    }
+    if (sideError) return
+
+    const state = matchTiebreak ? matchTiebreakState(format, set) : setState(format, set)
+    if (state === 'impossible') {
+      errors[`sets.${index}`] = `${set.p1}-${set.p2} isn't a possible score: a set ${setRule(format, index)}`
+      return
+    }
+    if (state === 'in_progress' && !(options.retired && isLast)) {
+      errors[`sets.${index}`] = set.p1 === 0 && set.p2 === 0
+        ? `${label} has no score`
+        : `${label} isn't finished at ${set.p1}-${set.p2}: it ${setRule(format, index)}`
+      return
+    }
+
+    const tiebreak = matchTiebreak ? null : tiebreakError(format, set)
+    if (tiebreak) {
+      errors[`sets.${index}.tiebreak`] = tiebreak
+      return
+    }
+
+    if (state === 'complete') {
+      if (setWinner(set) === 1) won.p1++
+      else won.p2++
+    }
+  })
+
+  if (Object.keys(errors).length === 0 && !options.retired && won.p1 < needed && won.p2 < needed) {
+    errors.sets = `The match isn't finished: ${needed} set(s) are needed to win`
+  }
+
+  return errors
+}
+
+// Validates a match as it is about to be written, whatever its result type
+export function validateMatchScore(
+  match: Pick<Match, 'format_id' | 'sets' | 'result_type' | 'has_retirement' | 'retired_player' | 'defaulted_player'>
+): ScoreErrors {
+  if (isUnplayedResult(match)) {
+    if (!match.defaulted_player) {
+      return { result: 'Select the player the result is recorded against' }
+    }
+    return match.sets.length > 0 ? { sets: 'Walkovers, no-shows and defaults have no score' } : {}
+  }
+
+  const retired = matchResultType(match) === 'retired'
+  if (retired && !match.retired_player) {
+    return { result: 'Select which player retired' }
+  }
+  return validateScore(getMatchFormat(match.format_id), match.sets, { retired })
+}
+
+export function hasScoreErrors(errors: ScoreErrors): boolean {
+  return Object.keys(errors).length > 0
+}
+
+// One message for callers that can't show errors beside each field
+export function describeScoreErrors(errors: ScoreErrors): string {
+  return Object.values(errors).join('. ')
+}
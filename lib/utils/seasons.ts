@@ -0,0 +1,58 @@
+import type { Player, SeasonSeeding, SeasonStanding } from '@/lib/types/database'
+import { ValidationError } from '@/lib/utils/errors'
+
+export const SEASON_SEEDING_LABELS: Record<SeasonSeeding, { name: string; description: string }> = {
+  previous: {
+    name: 'Previous final ladder',
+    description: 'Everyone starts where they finished last season. New players go to the bottom.'
+  },
+  ratings: {
+    name: 'Ratings',
+    description: 'Ordered by rating, highest first. Unrated players go to the bottom.'
+  },
+  manual: {
+    name: 'By hand',
+    description: 'Set every starting position yourself.'
+  }
+}
+
+// Starting ranks (1 = top) for a new season. Players without a seed keep
+// their relative order from the previous season's start, below everyone seeded.
+export function seedRanks(
+  players: Pick<Player, 'id' | 'initial_rank' | 'rating'>[],
+  seeding: SeasonSeeding,
+  sources: {
+    previousStandings?: Pick<SeasonStanding, 'player_id' | 'final_rank'>[]
+    manualRanks?: Record<string, number>
+  } = {}
+): Record<string, number> {
+  if (seeding === 'manual') {
+    const manual = sources.manualRanks ?? {}
+    const ranks = players.map(player => manual[player.id])
+    if (ranks.some(rank => !rank) || new Set(ranks).size !== players.length ||
+        Math.min(...ranks) !== 1 || Math.max(...ranks) !== players.length) {
+      throw new ValidationError(`Ranks must be unique and run from 1 to ${players.length}`)
+    }
+    return Object.fromEntries(players.map(player => [player.id, manual[player.id]]))
+  }
+
+  let seedValue: (player: Pick<Player, 'id' | 'rating'>) => number | undefined
+  if (seeding === 'previous') {
+    const finalRanks = new Map((sources.previousStandings ?? []).map(standing => [standing.player_id, standing.final_rank]))
+    seedValue = player => finalRanks.get(player.id)
+  } else {
+    // Negated so that the highest rating sorts first
+    seedValue = player => (player.rating != null ? -player.rating : undefined)
+  }
+
+  const ordered = [...players].sort((a, b) => {
+    const seedA = seedValue(a)
+    const seedB = seedValue(b)
+    if (seedA !== undefined && seedB !== undefined && seedA !== seedB) return seedA - seedB
+    if (seedA !== undefined && seedB === undefined) return -1
+    if (seedA === undefined && seedB !== undefined) return 1
+    return a.initial_rank - b.initial_rank
+  })
+
+  return Object.fromEntries(ordered.map((player, index) => [player.id, index + 1]))
+}
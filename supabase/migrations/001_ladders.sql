@@ -0,0 +1,19 @@
+-- Ladder settings: which rule reorders the ladder after a result.
+-- The app reads the first ladder row; run once in the Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS ladders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rule TEXT NOT NULL DEFAULT 'poison'
+    CHECK (rule IN ('poison', 'leapfrog_halfway', 'swap', 'pyramid')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE ladders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ladders are readable" ON ladders FOR SELECT USING (true);
+CREATE POLICY "Ladders are writable" ON ladders FOR ALL USING (true) WITH CHECK (true);
+
+INSERT INTO ladders (name, rule)
+SELECT 'Scrappers Cup', 'poison'
+WHERE NOT EXISTS (SELECT 1 FROM ladders);
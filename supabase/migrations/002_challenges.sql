@@ -0,0 +1,33 @@
+-- Formal challenges between players, and forfeit ranking events for
+-- challenges that are declined or expire.
+
+CREATE TABLE IF NOT EXISTS challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenger_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  challenged_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'issued'
+    CHECK (status IN ('issued', 'accepted', 'declined', 'scheduled', 'expired', 'completed', 'cancelled')),
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  respond_by TIMESTAMPTZ NOT NULL,
+  play_by TIMESTAMPTZ,
+  scheduled_for TIMESTAMPTZ,
+  match_id UUID REFERENCES matches(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (challenger_id <> challenged_id)
+);
+
+CREATE INDEX IF NOT EXISTS challenges_status_idx ON challenges (status);
+
+ALTER TABLE challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Challenges are readable" ON challenges FOR SELECT USING (true);
+CREATE POLICY "Challenges are writable" ON challenges FOR ALL USING (true) WITH CHECK (true);
+
+ALTER TABLE ranking_events
+  ADD COLUMN IF NOT EXISTS challenge_id UUID REFERENCES challenges(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS opponent_id UUID REFERENCES players(id) ON DELETE CASCADE;
+
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_event_type_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_event_type_check
+  CHECK (event_type IN ('match', 'manual_adjustment', 'forfeit'));
@@ -0,0 +1,12 @@
+-- Challenge range limits per ladder, and admin overrides recorded on the
+-- match events that were allowed outside the range.
+
+ALTER TABLE ladders
+  ADD COLUMN IF NOT EXISTS challenge_range_type TEXT NOT NULL DEFAULT 'unlimited'
+    CHECK (challenge_range_type IN ('unlimited', 'spots', 'tier')),
+  ADD COLUMN IF NOT EXISTS challenge_range_spots INTEGER
+    CHECK (challenge_range_spots IS NULL OR challenge_range_spots > 0);
+
+ALTER TABLE ranking_events
+  ADD COLUMN IF NOT EXISTS range_override BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS override_reason TEXT;
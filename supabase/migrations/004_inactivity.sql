@@ -0,0 +1,20 @@
+-- Inactivity penalties: players who go too long without a match drop down
+-- the ladder. Penalties are ordinary ranking events so a rebuild replays them.
+
+ALTER TABLE ladders
+  ADD COLUMN IF NOT EXISTS inactivity_days INTEGER
+    CHECK (inactivity_days IS NULL OR inactivity_days > 0),
+  ADD COLUMN IF NOT EXISTS inactivity_places INTEGER NOT NULL DEFAULT 1
+    CHECK (inactivity_places > 0);
+
+ALTER TABLE ranking_events
+  ADD COLUMN IF NOT EXISTS places INTEGER;
+
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_event_type_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_event_type_check
+  CHECK (event_type IN ('match', 'manual_adjustment', 'forfeit', 'inactivity_penalty'));
+
+-- Keeps overlapping job runs from penalising the same lapse twice
+CREATE UNIQUE INDEX IF NOT EXISTS ranking_events_inactivity_penalty_idx
+  ON ranking_events (player_id, event_date)
+  WHERE event_type = 'inactivity_penalty';
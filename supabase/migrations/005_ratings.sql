@@ -0,0 +1,31 @@
+-- Elo / Glicko-2 ratings, computed alongside the ladder by replaying matches.
+-- players.rating holds the latest value; rating_history holds one row per
+-- player per match. Both are rewritten on every rebuild.
+
+ALTER TABLE ladders
+  ADD COLUMN IF NOT EXISTS rating_system TEXT NOT NULL DEFAULT 'elo'
+    CHECK (rating_system IN ('elo', 'glicko2'));
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS rating NUMERIC,
+  ADD COLUMN IF NOT EXISTS rating_deviation NUMERIC;
+
+CREATE TABLE IF NOT EXISTS rating_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  system TEXT NOT NULL,
+  played_at TIMESTAMPTZ NOT NULL,
+  rating_before NUMERIC NOT NULL,
+  rating_after NUMERIC NOT NULL,
+  deviation NUMERIC,
+  volatility NUMERIC,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rating_history_player_idx ON rating_history (player_id, played_at);
+
+ALTER TABLE rating_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rating history is readable" ON rating_history FOR SELECT USING (true);
+CREATE POLICY "Rating history is writable" ON rating_history FOR ALL USING (true) WITH CHECK (true);
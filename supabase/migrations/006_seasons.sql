@@ -0,0 +1,99 @@
+-- Seasons. Matches and ranking events belong to a season (the active one by
+-- default). Closing a season snapshots its standings into season_standings
+-- and makes its matches, events and standings read-only.
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'closed')),
+  seeding TEXT
+    CHECK (seeding IS NULL OR seeding IN ('previous', 'ratings', 'manual')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only one season can be active at a time
+CREATE UNIQUE INDEX IF NOT EXISTS seasons_one_active_idx ON seasons (status) WHERE status = 'active';
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Seasons are readable" ON seasons FOR SELECT USING (true);
+CREATE POLICY "Seasons are writable" ON seasons FOR ALL USING (true) WITH CHECK (true);
+
+-- Everything recorded so far becomes the first season
+INSERT INTO seasons (name, status, seeding, started_at)
+SELECT 'Season 1', 'active', 'manual', COALESCE((SELECT MIN(created_at) FROM matches), NOW())
+WHERE NOT EXISTS (SELECT 1 FROM seasons);
+
+CREATE OR REPLACE FUNCTION current_season_id() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT id FROM seasons WHERE status = 'active' LIMIT 1
+$$;
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id);
+ALTER TABLE ranking_events ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id);
+
+UPDATE matches SET season_id = current_season_id() WHERE season_id IS NULL;
+UPDATE ranking_events SET season_id = current_season_id() WHERE season_id IS NULL;
+
+ALTER TABLE matches ALTER COLUMN season_id SET DEFAULT current_season_id();
+ALTER TABLE ranking_events ALTER COLUMN season_id SET DEFAULT current_season_id();
+
+CREATE INDEX IF NOT EXISTS matches_season_idx ON matches (season_id);
+CREATE INDEX IF NOT EXISTS ranking_events_season_idx ON ranking_events (season_id);
+
+CREATE TABLE IF NOT EXISTS season_standings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  initial_rank INTEGER NOT NULL,
+  final_rank INTEGER NOT NULL,
+  rating NUMERIC,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (season_id, player_id)
+);
+
+ALTER TABLE season_standings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Season standings are readable" ON season_standings FOR SELECT USING (true);
+CREATE POLICY "Season standings are writable" ON season_standings FOR ALL USING (true) WITH CHECK (true);
+
+-- Closed seasons are read-only. Standings are written once, while closing.
+CREATE OR REPLACE FUNCTION prevent_closed_season_changes() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+    SELECT 1 FROM seasons WHERE id = OLD.season_id AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Season % is closed and read-only', OLD.season_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND TG_TABLE_NAME <> 'season_standings' AND EXISTS (
+    SELECT 1 FROM seasons WHERE id = NEW.season_id AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Season % is closed and read-only', NEW.season_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS matches_closed_season ON matches;
+CREATE TRIGGER matches_closed_season
+  BEFORE INSERT OR UPDATE OR DELETE ON matches
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+DROP TRIGGER IF EXISTS ranking_events_closed_season ON ranking_events;
+CREATE TRIGGER ranking_events_closed_season
+  BEFORE INSERT OR UPDATE OR DELETE ON ranking_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+DROP TRIGGER IF EXISTS season_standings_closed_season ON season_standings;
+CREATE TRIGGER season_standings_closed_season
+  BEFORE UPDATE OR DELETE ON season_standings
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
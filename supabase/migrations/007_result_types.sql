@@ -0,0 +1,13 @@
+-- Result types: walkovers, no-shows and defaults decide a match without play.
+-- The ladder moves for them as usual, but they carry no set or game scores.
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS result_type TEXT NOT NULL DEFAULT 'completed'
+    CHECK (result_type IN ('completed', 'retired', 'walkover', 'no_show', 'default')),
+  ADD COLUMN IF NOT EXISTS defaulted_player INTEGER
+    CHECK (defaulted_player IS NULL OR defaulted_player IN (1, 2));
+
+-- Closed seasons are read-only, so the backfill steps around the trigger
+ALTER TABLE matches DISABLE TRIGGER matches_closed_season;
+UPDATE matches SET result_type = 'retired' WHERE has_retirement;
+ALTER TABLE matches ENABLE TRIGGER matches_closed_season;
@@ -0,0 +1,42 @@
+-- Match formats: scores are stored as a variable-length list of sets instead
+-- of two fixed sets and a deciding tiebreaker. Each set is {p1, p2}, in games,
+-- or in points with "match_tiebreak": true when it replaced the deciding set.
+
+ALTER TABLE ladders
+  ADD COLUMN IF NOT EXISTS match_format TEXT NOT NULL DEFAULT 'two_sets_match_tiebreak'
+    CHECK (match_format IN ('two_sets_match_tiebreak', 'best_of_three', 'pro_set', 'fast4', 'no_ad'));
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS format_id TEXT NOT NULL DEFAULT 'two_sets_match_tiebreak'
+    CHECK (format_id IN ('two_sets_match_tiebreak', 'best_of_three', 'pro_set', 'fast4', 'no_ad')),
+  ADD COLUMN IF NOT EXISTS sets JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(sets) = 'array');
+
+-- Closed seasons are read-only, so the backfill steps around the trigger.
+-- 0-0 sets were placeholders (a retirement before the set started) and are dropped;
+-- walkovers, no-shows and defaults keep no score at all.
+ALTER TABLE matches DISABLE TRIGGER matches_closed_season;
+UPDATE matches SET sets = (
+  SELECT COALESCE(jsonb_agg(score ORDER BY position), '[]'::jsonb)
+  FROM (VALUES
+    (1, jsonb_build_object('p1', set1_p1_games, 'p2', set1_p2_games)),
+    (2, jsonb_build_object('p1', set2_p1_games, 'p2', set2_p2_games)),
+    (3, CASE WHEN tiebreaker_winner IS NOT NULL THEN
+      jsonb_build_object('p1', tiebreaker_p1_points, 'p2', tiebreaker_p2_points, 'match_tiebreak', true)
+    END)
+  ) AS played(position, score)
+  WHERE score IS NOT NULL AND ((score->>'p1')::int > 0 OR (score->>'p2')::int > 0)
+)
+WHERE result_type NOT IN ('walkover', 'no_show', 'default');
+ALTER TABLE matches ENABLE TRIGGER matches_closed_season;
+
+ALTER TABLE matches
+  DROP COLUMN IF EXISTS set1_winner,
+  DROP COLUMN IF EXISTS set1_p1_games,
+  DROP COLUMN IF EXISTS set1_p2_games,
+  DROP COLUMN IF EXISTS set2_winner,
+  DROP COLUMN IF EXISTS set2_p1_games,
+  DROP COLUMN IF EXISTS set2_p2_games,
+  DROP COLUMN IF EXISTS tiebreaker_winner,
+  DROP COLUMN IF EXISTS tiebreaker_p1_points,
+  DROP COLUMN IF EXISTS tiebreaker_p2_points;
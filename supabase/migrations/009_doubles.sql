@@ -0,0 +1,45 @@
+-- Doubles: teams of two players hold spots on a doubles ladder of their own.
+-- Doubles matches live in `matches` with team ids instead of player ids, and
+-- doubles ranking events carry team_id/opponent_team_id instead of
+-- player_id/opponent_id, so the same replay engine runs over either ladder.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  player1_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  player2_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  current_rank INTEGER NOT NULL,
+  initial_rank INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (player1_id <> player2_id)
+);
+
+-- A pair plays as one team, whichever way round it was entered
+CREATE UNIQUE INDEX IF NOT EXISTS teams_pair_idx
+  ON teams (LEAST(player1_id, player2_id), GREATEST(player1_id, player2_id));
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teams are readable" ON teams FOR SELECT USING (true);
+CREATE POLICY "Teams are writable" ON teams FOR ALL USING (true) WITH CHECK (true);
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS team1_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS team2_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  ALTER COLUMN player1_id DROP NOT NULL,
+  ALTER COLUMN player2_id DROP NOT NULL;
+
+-- Every match is either singles (two players) or doubles (two teams)
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_entrants_check;
+ALTER TABLE matches ADD CONSTRAINT matches_entrants_check CHECK (
+  (player1_id IS NOT NULL AND player2_id IS NOT NULL AND team1_id IS NULL AND team2_id IS NULL)
+  OR (player1_id IS NULL AND player2_id IS NULL AND team1_id IS NOT NULL AND team2_id IS NOT NULL)
+);
+
+ALTER TABLE ranking_events
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS opponent_team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS matches_team1_idx ON matches (team1_id);
+CREATE INDEX IF NOT EXISTS matches_team2_idx ON matches (team2_id);
+CREATE INDEX IF NOT EXISTS ranking_events_team_idx ON ranking_events (team_id);
@@ -0,0 +1,93 @@
+-- Divisions: several ladders (A, B, women's, juniors...), each with its own
+-- ordering and event stream. Every player plays on one ladder at a time.
+-- A ladder can sit below another; promotion and relegation swap the top of
+-- the lower ladder with the bottom of the one above, and each move is
+-- recorded as a pair of ranking events, one on either ladder.
+
+ALTER TABLE ladders
+  ADD COLUMN IF NOT EXISTS division_above_id UUID REFERENCES ladders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS promotion_spots INTEGER NOT NULL DEFAULT 2
+    CHECK (promotion_spots > 0);
+
+ALTER TABLE ladders DROP CONSTRAINT IF EXISTS ladders_division_above_check;
+ALTER TABLE ladders ADD CONSTRAINT ladders_division_above_check
+  CHECK (division_above_id IS NULL OR division_above_id <> id);
+
+-- Everything recorded before divisions belongs to the first ladder
+CREATE OR REPLACE FUNCTION default_ladder_id() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT id FROM ladders ORDER BY created_at LIMIT 1
+$$;
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS ladder_id UUID REFERENCES ladders(id);
+UPDATE players SET ladder_id = default_ladder_id() WHERE ladder_id IS NULL;
+ALTER TABLE players ALTER COLUMN ladder_id SET DEFAULT default_ladder_id();
+ALTER TABLE players ALTER COLUMN ladder_id SET NOT NULL;
+
+-- Singles matches and events belong to a ladder; doubles ones stay on the
+-- doubles ladder and leave it null
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS ladder_id UUID REFERENCES ladders(id);
+ALTER TABLE ranking_events
+  ADD COLUMN IF NOT EXISTS ladder_id UUID REFERENCES ladders(id),
+  ADD COLUMN IF NOT EXISTS from_ladder_id UUID REFERENCES ladders(id),
+  ADD COLUMN IF NOT EXISTS to_ladder_id UUID REFERENCES ladders(id);
+
+ALTER TABLE matches DISABLE TRIGGER matches_closed_season;
+UPDATE matches SET ladder_id = default_ladder_id() WHERE ladder_id IS NULL AND team1_id IS NULL;
+ALTER TABLE matches ENABLE TRIGGER matches_closed_season;
+
+ALTER TABLE ranking_events DISABLE TRIGGER ranking_events_closed_season;
+UPDATE ranking_events SET ladder_id = default_ladder_id() WHERE ladder_id IS NULL AND team_id IS NULL;
+ALTER TABLE ranking_events ENABLE TRIGGER ranking_events_closed_season;
+
+-- New singles matches and events go on their player's ladder unless told otherwise
+CREATE OR REPLACE FUNCTION fill_ladder_id() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.ladder_id IS NULL AND TG_TABLE_NAME = 'matches' AND NEW.player1_id IS NOT NULL THEN
+    NEW.ladder_id := (SELECT ladder_id FROM players WHERE id = NEW.player1_id);
+  END IF;
+
+  IF NEW.ladder_id IS NULL AND TG_TABLE_NAME = 'ranking_events' AND NEW.team_id IS NULL THEN
+    NEW.ladder_id := COALESCE(
+      (SELECT ladder_id FROM matches WHERE id = NEW.match_id),
+      (SELECT ladder_id FROM players WHERE id = NEW.player_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS matches_fill_ladder ON matches;
+CREATE TRIGGER matches_fill_ladder
+  BEFORE INSERT ON matches
+  FOR EACH ROW EXECUTE FUNCTION fill_ladder_id();
+
+DROP TRIGGER IF EXISTS ranking_events_fill_ladder ON ranking_events;
+CREATE TRIGGER ranking_events_fill_ladder
+  BEFORE INSERT ON ranking_events
+  FOR EACH ROW EXECUTE FUNCTION fill_ladder_id();
+
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_event_type_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_event_type_check
+  CHECK (event_type IN ('match', 'manual_adjustment', 'forfeit', 'inactivity_penalty', 'promotion', 'relegation'));
+
+-- A promotion or relegation names both ladders; the event's own ladder_id says
+-- which side of the move it records
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_division_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_division_check CHECK (
+  event_type NOT IN ('promotion', 'relegation')
+  OR (from_ladder_id IS NOT NULL AND to_ladder_id IS NOT NULL AND ladder_id IN (from_ladder_id, to_ladder_id))
+);
+
+CREATE INDEX IF NOT EXISTS players_ladder_idx ON players (ladder_id);
+CREATE INDEX IF NOT EXISTS matches_ladder_idx ON matches (ladder_id);
+CREATE INDEX IF NOT EXISTS ranking_events_ladder_idx ON ranking_events (ladder_id);
+
+-- Final standings are per ladder
+ALTER TABLE season_standings ADD COLUMN IF NOT EXISTS ladder_id UUID REFERENCES ladders(id);
+
+ALTER TABLE season_standings DISABLE TRIGGER season_standings_closed_season;
+UPDATE season_standings SET ladder_id = default_ladder_id() WHERE ladder_id IS NULL;
+ALTER TABLE season_standings ENABLE TRIGGER season_standings_closed_season;
@@ -0,0 +1,28 @@
+-- Player status lifecycle: active, injured, on leave, withdrawn. Every change
+-- is dated in player_status_changes; players.status holds the latest one.
+-- Injured and on-leave players are frozen in place during replay. A withdrawn
+-- player leaves the ladder through a player_withdrawn ranking event.
+
+ALTER TABLE players
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'injured', 'on_leave', 'withdrawn'));
+
+CREATE TABLE IF NOT EXISTS player_status_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('active', 'injured', 'on_leave', 'withdrawn')),
+  effective_from TIMESTAMPTZ NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS player_status_changes_player_idx ON player_status_changes (player_id, effective_from);
+
+ALTER TABLE player_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Player status changes are readable" ON player_status_changes FOR SELECT USING (true);
+CREATE POLICY "Player status changes are writable" ON player_status_changes FOR ALL USING (true) WITH CHECK (true);
+
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_event_type_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_event_type_check
+  CHECK (event_type IN ('match', 'manual_adjustment', 'forfeit', 'inactivity_penalty', 'promotion', 'relegation', 'player_withdrawn'));
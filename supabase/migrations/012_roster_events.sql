@@ -0,0 +1,47 @@
+-- Players joining and leaving part-way through a season. A player_joined event
+-- puts a player onto their ladder at that point in the stream (at the bottom,
+-- at a chosen spot, or through a qualifying match); player_removed takes them
+-- off. players.on_ladder records whether a player is on their ladder now.
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS on_ladder BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE ranking_events
+  ADD COLUMN IF NOT EXISTS entry_method TEXT CHECK (entry_method IN ('bottom', 'position', 'qualifier')),
+  ADD COLUMN IF NOT EXISTS qualifier_won BOOLEAN;
+
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_event_type_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_event_type_check
+  CHECK (event_type IN (
+    'match', 'manual_adjustment', 'forfeit', 'inactivity_penalty', 'promotion', 'relegation',
+    'player_withdrawn', 'player_joined', 'player_removed'
+  ));
+
+-- Qualifiers name the opponent and the result
+ALTER TABLE ranking_events DROP CONSTRAINT IF EXISTS ranking_events_join_check;
+ALTER TABLE ranking_events ADD CONSTRAINT ranking_events_join_check CHECK (
+  event_type <> 'player_joined'
+  OR (entry_method IS NOT NULL
+      AND (entry_method <> 'qualifier' OR (opponent_id IS NOT NULL AND qualifier_won IS NOT NULL)))
+);
+
+-- Players added after the active season started joined at the bottom when
+-- they were added, not at the start of the season. Anyone moved between
+-- divisions since joined the ladder they first left.
+INSERT INTO ranking_events (event_type, event_date, player_id, ladder_id, entry_method, season_id)
+SELECT 'player_joined', players.created_at, players.id,
+  COALESCE(
+    (SELECT moves.from_ladder_id FROM ranking_events moves
+     WHERE moves.player_id = players.id AND moves.event_type IN ('promotion', 'relegation')
+     ORDER BY moves.event_date LIMIT 1),
+    players.ladder_id
+  ),
+  'bottom', seasons.id
+FROM players
+JOIN seasons ON seasons.status = 'active'
+WHERE players.created_at > seasons.started_at
+  AND NOT EXISTS (
+    SELECT 1 FROM ranking_events
+    WHERE ranking_events.player_id = players.id
+      AND ranking_events.event_type = 'player_joined'
+      AND ranking_events.season_id = seasons.id
+  );
@@ -0,0 +1,44 @@
+-- Admin changes now go through authenticated route handlers under
+-- /api/admin, which write with the service role key. The browser only has
+-- the public anon key, so it must no longer be able to write anything: drop
+-- every write policy and leave the tables readable.
+--
+-- The service role bypasses row level security, so the server is unaffected.
+
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT schemaname, tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public' AND cmd <> 'SELECT'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I.%I', policy.policyname, policy.schemaname, policy.tablename);
+  END LOOP;
+END
+$$;
+
+-- A FOR ALL policy also granted reads; keep every table with row level
+-- security readable now that it is gone
+DO $$
+DECLARE
+  tbl RECORD;
+BEGIN
+  FOR tbl IN
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind = 'r' AND c.relrowsecurity
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_policies p
+        WHERE p.schemaname = 'public' AND p.tablename = c.relname AND p.cmd IN ('SELECT', 'ALL')
+      )
+  LOOP
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT USING (true)', tbl.relname || ' is readable', tbl.relname);
+  END LOOP;
+END
+$$;
+
+-- Standings are only written by the server
+REVOKE EXECUTE ON FUNCTION apply_ladder_change(BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
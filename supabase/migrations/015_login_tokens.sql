@@ -0,0 +1,19 @@
+-- One-time sign-in links. Signing in emails a link holding a random token;
+-- only its SHA-256 hash is stored. A token expires after 15 minutes and is
+-- marked used the first time it is redeemed.
+--
+-- Only the server reads or writes this table, with the service role key, so
+-- row level security is on with no policies.
+
+CREATE TABLE IF NOT EXISTS login_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS login_tokens_expires_at_idx ON login_tokens (expires_at);
+
+ALTER TABLE login_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- Two-factor sign-in for admins. After the password, an admin enters a code
+-- from their authenticator app (TOTP), or one of their recovery codes. Admins
+-- without an authenticator are asked to set one up before they get in.
+--
+-- Both tables hold secrets, so only the server reads or writes them, with the
+-- service role key: row level security is on with no policies.
+
+CREATE TABLE IF NOT EXISTS admin_factors (
+  allowed_email_id UUID PRIMARY KEY REFERENCES allowed_emails(id) ON DELETE CASCADE,
+  totp_secret TEXT NOT NULL,
+  enabled_at TIMESTAMPTZ,     -- Null until the admin confirms a first code
+  last_used_step BIGINT,      -- Time step of the last accepted code; older ones are refused
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE admin_factors ENABLE ROW LEVEL SECURITY;
+
+-- Single-use codes for a lost authenticator. Only SHA-256 hashes are kept.
+CREATE TABLE IF NOT EXISTS admin_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  allowed_email_id UUID NOT NULL REFERENCES allowed_emails(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (allowed_email_id, code_hash)
+);
+
+ALTER TABLE admin_recovery_codes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- Each admin has their own password in place of the shared ADMIN_PASSWORD,
+-- stored as a salted scrypt hash. Passwords are set from a one-time link
+-- (an invite for a new admin, or a reset); only the SHA-256 hash of the
+-- link's token is stored, and it expires after 48 hours.
+--
+-- Only the server reads or writes these tables, with the service role key,
+-- so row level security is on with no policies.
+
+CREATE TABLE IF NOT EXISTS admin_credentials (
+  allowed_email_id UUID PRIMARY KEY REFERENCES allowed_emails(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE admin_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS admin_password_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  allowed_email_id UUID NOT NULL REFERENCES allowed_emails(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE admin_password_tokens ENABLE ROW LEVEL SECURITY;
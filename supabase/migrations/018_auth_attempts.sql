@@ -0,0 +1,24 @@
+-- Every sign-in attempt: asking for a sign-in link, entering an admin
+-- password, and entering an authenticator or recovery code. Recent ones decide
+-- whether the next attempt from the same email or IP is let through (rate
+-- limits, and lockouts that double with each further failure); all of them
+-- are kept as an audit log, shown to admins on Manage Players.
+--
+-- Only the server reads or writes this table, with the service role key, so
+-- row level security is on with no policies.
+
+CREATE TABLE IF NOT EXISTS auth_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action TEXT NOT NULL CHECK (action IN ('login_link', 'admin_password', 'two_factor')),
+  email TEXT,
+  ip TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure', 'throttled')),
+  reason TEXT,  -- Why it failed; never shown to whoever tried
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS auth_attempts_email_idx ON auth_attempts (action, email, created_at DESC);
+CREATE INDEX IF NOT EXISTS auth_attempts_ip_idx ON auth_attempts (action, ip, created_at DESC);
+CREATE INDEX IF NOT EXISTS auth_attempts_created_at_idx ON auth_attempts (created_at DESC);
+
+ALTER TABLE auth_attempts ENABLE ROW LEVEL SECURITY;
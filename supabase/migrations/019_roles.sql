@@ -0,0 +1,19 @@
+-- Replace the is_admin flag with a role: viewer, player, scorekeeper, admin
+-- or owner (see lib/auth/roles.ts for what each may do). Existing admins
+-- become owners so nobody loses access; everyone else becomes a player if
+-- their email belongs to one, and a viewer otherwise.
+--
+-- Sessions signed before this carry the old flag and are no longer accepted,
+-- so everyone signs in again once it is deployed.
+
+ALTER TABLE allowed_emails
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'viewer'
+  CHECK (role IN ('viewer', 'player', 'scorekeeper', 'admin', 'owner'));
+
+UPDATE allowed_emails SET role = 'owner' WHERE is_admin;
+
+UPDATE allowed_emails SET role = 'player'
+WHERE NOT is_admin
+  AND EXISTS (SELECT 1 FROM players WHERE LOWER(players.email) = LOWER(allowed_emails.email));
+
+ALTER TABLE allowed_emails DROP COLUMN is_admin;
@@ -0,0 +1,43 @@
+-- Results players report themselves. The opponent confirms or disputes each
+-- one; unanswered reports confirm themselves after the ladder's
+-- report_confirm_hours (blank to always wait). Only a confirmed report
+-- becomes a match and its ranking event, through the same write as a result
+-- staff enter. Disputed and held reports wait for staff.
+--
+-- Only the server reads or writes match_reports, with the service role key,
+-- so row level security is on with no policies.
+
+ALTER TABLE ladders
+  ADD COLUMN IF NOT EXISTS report_confirm_hours INTEGER DEFAULT 48
+    CHECK (report_confirm_hours IS NULL OR report_confirm_hours > 0);
+
+CREATE TABLE IF NOT EXISTS match_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ladder_id UUID REFERENCES ladders(id) ON DELETE CASCADE,
+  player1_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,  -- Who reported it
+  player2_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  date_played DATE NOT NULL,
+  format_id TEXT NOT NULL DEFAULT 'two_sets_match_tiebreak'
+    CHECK (format_id IN ('two_sets_match_tiebreak', 'best_of_three', 'pro_set', 'fast4', 'no_ad')),
+  sets JSONB NOT NULL DEFAULT '[]',
+  result_type TEXT NOT NULL DEFAULT 'completed'
+    CHECK (result_type IN ('completed', 'retired', 'walkover', 'no_show', 'default')),
+  has_retirement BOOLEAN NOT NULL DEFAULT FALSE,
+  retired_player INTEGER CHECK (retired_player IN (1, 2)),
+  defaulted_player INTEGER CHECK (defaulted_player IN (1, 2)),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'disputed', 'held', 'confirmed', 'rejected', 'withdrawn')),
+  confirm_by TIMESTAMPTZ,
+  note TEXT,
+  match_id UUID REFERENCES matches(id) ON DELETE SET NULL,
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (player1_id <> player2_id)
+);
+
+CREATE INDEX IF NOT EXISTS match_reports_status_idx ON match_reports (status, confirm_by);
+CREATE INDEX IF NOT EXISTS match_reports_player1_idx ON match_reports (player1_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS match_reports_player2_idx ON match_reports (player2_id, created_at DESC);
+
+ALTER TABLE match_reports ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,21 @@
+-- Who may sign in is no longer public. 014 left every table readable with
+-- the anon key, allowed_emails included, so anyone could list the allowed
+-- emails and their roles, whatever /api/login answers. Manage Players now
+-- reads them through /api/admin/allowed-emails with the service role key,
+-- so drop every policy: row level security stays on with none.
+
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname
+    FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'allowed_emails'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.allowed_emails', policy.policyname);
+  END LOOP;
+END
+$$;
+
+ALTER TABLE allowed_emails ENABLE ROW LEVEL SECURITY;
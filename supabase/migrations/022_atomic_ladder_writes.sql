@@ -0,0 +1,147 @@
+-- Every write that moves the ladder now goes through apply_ladder_change,
+-- not just match results: manual rank changes, forfeits, joins and removals
+-- insert their event here, so it is written with the ranks it produces.
+-- Events can carry all their columns, and a change can settle challenges:
+-- a match completes the open challenge between its players, a forfeit
+-- declines or expires its own, and a removal cancels the player's.
+--
+-- Full rebuilds used to pass a null version and overwrite whatever was
+-- written meanwhile. They now read the version like everything else, and a
+-- null one is refused.
+
+-- `change` may hold any of:
+--   insert_match, update_match, delete_match_id
+--   insert_event, update_event, delete_event_id
+--   on_ladder       {player_id, on_ladder}
+--   resolve_challenges  [{id, from_status, status, match_id, resolved_at}]
+--   player_ranks, team_ranks  [{id, current_rank}]
+--   event_ranks     [{id, old_rank, new_rank, reason}]
+--   ratings         [{id, rating, rating_deviation}]
+--   rating_history  every rating change; replaces the stored history
+-- Every write names the version it read, rebuilds included.
+CREATE OR REPLACE FUNCTION apply_ladder_change(expected_version BIGINT, change JSONB)
+RETURNS BIGINT
+LANGUAGE plpgsql AS $$
+DECLARE
+  current_version BIGINT;
+  resolution JSONB;
+BEGIN
+  SELECT version INTO current_version FROM ladder_state FOR UPDATE;
+  IF expected_version IS NULL OR current_version <> expected_version THEN
+    RAISE EXCEPTION 'The ladder changed while this change was being made'
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF change ? 'delete_event_id' THEN
+    DELETE FROM ranking_events WHERE id = (change->>'delete_event_id')::uuid;
+  END IF;
+
+  IF change ? 'delete_match_id' THEN
+    DELETE FROM ranking_events WHERE match_id = (change->>'delete_match_id')::uuid;
+    DELETE FROM matches WHERE id = (change->>'delete_match_id')::uuid;
+  END IF;
+
+  IF change ? 'insert_match' THEN
+    INSERT INTO matches (
+      id, player1_id, player2_id, team1_id, team2_id, ladder_id, season_id, date_played,
+      format_id, sets, match_winner, has_retirement, retired_player, result_type, defaulted_player, created_at
+    )
+    SELECT
+      r.id, r.player1_id, r.player2_id, r.team1_id, r.team2_id, r.ladder_id, COALESCE(r.season_id, current_season_id()), r.date_played,
+      r.format_id, r.sets, r.match_winner, COALESCE(r.has_retirement, false), r.retired_player, r.result_type, r.defaulted_player, r.created_at
+    FROM jsonb_populate_record(NULL::matches, change->'insert_match') r;
+  END IF;
+
+  IF change ? 'update_match' THEN
+    UPDATE matches SET
+      date_played = r.date_played,
+      format_id = r.format_id,
+      sets = r.sets,
+      match_winner = r.match_winner,
+      has_retirement = COALESCE(r.has_retirement, false),
+      retired_player = r.retired_player,
+      result_type = r.result_type,
+      defaulted_player = r.defaulted_player
+    FROM jsonb_populate_record(NULL::matches, change->'update_match') r
+    WHERE matches.id = r.id;
+  END IF;
+
+  IF change ? 'insert_event' THEN
+    INSERT INTO ranking_events (
+      id, event_type, event_date, match_id, challenge_id, player_id, opponent_id, team_id, opponent_team_id,
+      old_rank, new_rank, places, reason, ladder_id, from_ladder_id, to_ladder_id, entry_method, qualifier_won,
+      season_id, range_override, override_reason, created_at
+    )
+    SELECT
+      r.id, r.event_type, r.event_date, r.match_id, r.challenge_id, r.player_id, r.opponent_id, r.team_id, r.opponent_team_id,
+      r.old_rank, r.new_rank, r.places, r.reason, r.ladder_id, r.from_ladder_id, r.to_ladder_id, r.entry_method, r.qualifier_won,
+      COALESCE(r.season_id, current_season_id()), COALESCE(r.range_override, false), r.override_reason,
+      COALESCE(r.created_at, NOW())
+    FROM jsonb_populate_record(NULL::ranking_events, change->'insert_event') r;
+  END IF;
+
+  -- Only match events are updated: the winner and the range override
+  IF change ? 'update_event' THEN
+    UPDATE ranking_events SET
+      player_id = r.player_id,
+      team_id = r.team_id,
+      range_override = COALESCE(r.range_override, false),
+      override_reason = r.override_reason
+    FROM jsonb_populate_record(NULL::ranking_events, change->'update_event') r
+    WHERE ranking_events.id = r.id;
+  END IF;
+
+  IF change ? 'on_ladder' THEN
+    UPDATE players SET on_ladder = (change->'on_ladder'->>'on_ladder')::boolean
+    WHERE id = (change->'on_ladder'->>'player_id')::uuid;
+  END IF;
+
+  -- A challenge settled by someone else since it was read is a stale change
+  FOR resolution IN SELECT value FROM jsonb_array_elements(COALESCE(change->'resolve_challenges', '[]'::jsonb)) LOOP
+    UPDATE challenges SET
+      status = resolution->>'status',
+      match_id = COALESCE((resolution->>'match_id')::uuid, match_id),
+      resolved_at = (resolution->>'resolved_at')::timestamptz
+    WHERE id = (resolution->>'id')::uuid AND status = resolution->>'from_status';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A challenge changed while this change was being made'
+        USING ERRCODE = '40001';
+    END IF;
+  END LOOP;
+
+  UPDATE ranking_events SET old_rank = r.old_rank, new_rank = r.new_rank, reason = r.reason
+  FROM jsonb_to_recordset(COALESCE(change->'event_ranks', '[]'::jsonb))
+    AS r(id UUID, old_rank INTEGER, new_rank INTEGER, reason TEXT)
+  WHERE ranking_events.id = r.id;
+
+  UPDATE players SET current_rank = r.current_rank
+  FROM jsonb_to_recordset(COALESCE(change->'player_ranks', '[]'::jsonb)) AS r(id UUID, current_rank INTEGER)
+  WHERE players.id = r.id;
+
+  UPDATE teams SET current_rank = r.current_rank
+  FROM jsonb_to_recordset(COALESCE(change->'team_ranks', '[]'::jsonb)) AS r(id UUID, current_rank INTEGER)
+  WHERE teams.id = r.id;
+
+  UPDATE players SET rating = r.rating, rating_deviation = r.rating_deviation
+  FROM jsonb_to_recordset(COALESCE(change->'ratings', '[]'::jsonb))
+    AS r(id UUID, rating NUMERIC, rating_deviation NUMERIC)
+  WHERE players.id = r.id;
+
+  IF change ? 'rating_history' THEN
+    DELETE FROM rating_history;
+    INSERT INTO rating_history (match_id, player_id, system, played_at, rating_before, rating_after, deviation, volatility)
+    SELECT r.match_id, r.player_id, r.system, r.played_at, r.rating_before, r.rating_after, r.deviation, r.volatility
+    FROM jsonb_to_recordset(change->'rating_history') AS r(
+      match_id UUID, player_id UUID, system TEXT, played_at TIMESTAMPTZ,
+      rating_before NUMERIC, rating_after NUMERIC, deviation NUMERIC, volatility NUMERIC
+    );
+  END IF;
+
+  SELECT version INTO current_version FROM ladder_state;
+  RETURN current_version;
+END
+$$;
+
+-- Standings are only written by the server
+REVOKE EXECUTE ON FUNCTION apply_ladder_change(BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,15 @@
+-- Only the server writes ladder_state. 013 let anyone with the anon key
+-- write it, and so move the version on and make every ladder write fail.
+-- The version is still bumped by triggers on the tables it guards, so the
+-- trigger now runs as the function's owner, whoever made the write that
+-- fired it.
+
+DROP POLICY IF EXISTS "Ladder state is writable" ON ladder_state;
+
+CREATE OR REPLACE FUNCTION bump_ladder_version() RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE ladder_state SET version = version + 1;
+  RETURN NULL;
+END
+$$;
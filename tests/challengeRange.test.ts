@@ -0,0 +1,78 @@
+/**
+ * Tests for challenge range limits and how the replay flags them
+ */
+
+import { describe, it, expect } from 'vitest'
+import { checkChallengeRange, challengeRangeForLadder } from '../lib/utils/challengeRange'
+import { replayLadder } from '../lib/utils/events'
+import type { Match, RankingEvent } from '../lib/types/database'
+
+const entrants = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({ id, name: id.toUpperCase() }))
+
+function makeMatch(id: string, player1_id: string, player2_id: string): Match {
+  return {
+    id,
+    player1_id,
+    player2_id,
+    date_played: '2024-01-02',
+    sets: [{ p1: 6, p2: 2 }, { p1: 6, p2: 3 }],
+    match_winner: 1,
+    created_at: '2024-01-02T00:00:00Z'
+  }
+}
+
+function matchEvent(id: string, match_id: string, event_date: string, range_override = false): RankingEvent {
+  return { id, event_type: 'match', event_date, match_id, range_override, created_at: event_date }
+}
+
+describe('checkChallengeRange', () => {
+  it('allows anyone when the range is unlimited', () => {
+    expect(checkChallengeRange(entrants, 'f', 'a', { type: 'unlimited' })).toBeNull()
+    expect(challengeRangeForLadder(null)).toEqual({ type: 'unlimited' })
+  })
+
+  it('limits how many spots apart the players may be, in either order', () => {
+    const range = { type: 'spots' as const, spots: 2 }
+    expect(checkChallengeRange(entrants, 'd', 'b', range)).toBeNull()
+    expect(checkChallengeRange(entrants, 'e', 'b', range)).toContain('3 spots below')
+    expect(checkChallengeRange(entrants, 'b', 'e', range)).toContain('3 spots below')
+  })
+
+  it('allows your own pyramid tier and the one directly above', () => {
+    // Tiers: [a] [b c] [d e f]
+    const range = { type: 'tier' as const }
+    expect(checkChallengeRange(entrants, 'c', 'b', range)).toBeNull()
+    expect(checkChallengeRange(entrants, 'd', 'b', range)).toBeNull()
+    expect(checkChallengeRange(entrants, 'd', 'a', range)).not.toBeNull()
+  })
+})
+
+describe('range flags in replay', () => {
+  it('judges each match on the ladder at its point in the stream', () => {
+    // F beats C (allowed, 3 apart) and moves to 3rd, so F vs A is then only 2 apart
+    const matches = [makeMatch('m1', 'f', 'c'), makeMatch('m2', 'f', 'a')]
+    const events = [
+      matchEvent('e1', 'm1', '2024-01-02T00:00:00Z'),
+      matchEvent('e2', 'm2', '2024-01-03T00:00:00Z')
+    ]
+
+    const { trace } = replayLadder(entrants, events, matches, { challengeRange: { type: 'spots', spots: 3 } })
+
+    expect(trace.map(movement => movement.out_of_range)).toEqual([undefined, undefined])
+  })
+
+  it('flags out-of-range matches without skipping them, and records overrides', () => {
+    const matches = [makeMatch('m1', 'f', 'a'), makeMatch('m2', 'e', 'a')]
+    const events = [
+      matchEvent('e1', 'm1', '2024-01-02T00:00:00Z', true),
+      matchEvent('e2', 'm2', '2024-01-03T00:00:00Z')
+    ]
+
+    const { standings, trace } = replayLadder(entrants, events, matches, { challengeRange: { type: 'spots', spots: 1 } })
+
+    expect(standings.slice(0, 2).map(entrant => entrant.id)).toEqual(['f', 'e'])
+    expect(trace[0]).toMatchObject({ match_id: 'm1', range_override: true })
+    expect(trace[0].out_of_range).toBeDefined()
+    expect(trace[1]).toMatchObject({ match_id: 'm2', range_override: false })
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * Tests for the challenge lifecycle and forfeit replay
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createChallenge,
+  transitionChallenge,
+  isChallengeOverdue,
+  forfeitForChallenge,
+  challengeResolution
+} from '../lib/utils/challenges'
+import { replayLadder } from '../lib/utils/events'
+import type { Challenge, RankingEvent } from '../lib/types/database'
+
+const now = new Date('2024-03-01T12:00:00Z')
+
+function issued(): Challenge {
+  return { id: 'c1', created_at: now.toISOString(), ...createChallenge('low', 'high', now, 7) }
+}
+
+describe('challenge lifecycle', () => {
+  it('sets a response deadline when issued', () => {
+    const challenge = issued()
+    expect(challenge.status).toBe('issued')
+    expect(challenge.respond_by).toBe('2024-03-08T12:00:00.000Z')
+  })
+
+  it('refuses self-challenges and invalid transitions', () => {
+    expect(() => createChallenge('a', 'a', now)).toThrow()
+    expect(() => transitionChallenge(issued(), { type: 'schedule', scheduledFor: now.toISOString() }, now)).toThrow()
+  })
+
+  it('starts a play-by deadline on accept and enforces it when scheduling', () => {
+    const accepted = { ...issued(), ...transitionChallenge(issued(), { type: 'accept' }, now, 14) }
+    expect(accepted.play_by).toBe('2024-03-15T12:00:00.000Z')
+    expect(() =>
+      transitionChallenge(accepted, { type: 'schedule', scheduledFor: '2024-04-01T00:00:00Z' }, now)
+    ).toThrow()
+    expect(transitionChallenge(accepted, { type: 'schedule', scheduledFor: '2024-03-10T18:00:00Z' }, now).status).toBe('scheduled')
+  })
+
+  it('detects overdue challenges and dates the forfeit at the missed deadline', () => {
+    const challenge = issued()
+    const later = new Date('2024-03-09T00:00:00Z')
+
+    expect(isChallengeOverdue(challenge, now)).toBe(false)
+    expect(isChallengeOverdue(challenge, later)).toBe(true)
+    expect(forfeitForChallenge(challenge, 'expired', later)).toEqual({
+      winner_id: 'low',
+      loser_id: 'high',
+      event_date: challenge.respond_by
+    })
+  })
+
+  it('closes a challenge in the same write as its match or forfeit, if it is still as it was read', () => {
+    const accepted = { ...issued(), ...transitionChallenge(issued(), { type: 'accept' }, now) }
+    expect(challengeResolution(accepted, { type: 'complete', matchId: 'm1' }, now)).toEqual({
+      id: 'c1',
+      from_status: 'accepted',
+      status: 'completed',
+      match_id: 'm1',
+      resolved_at: now.toISOString()
+    })
+    expect(challengeResolution(issued(), { type: 'decline' }, now)).toMatchObject({ from_status: 'issued', status: 'declined', match_id: null })
+    expect(() => challengeResolution(accepted, { type: 'decline' }, now)).toThrow()
+  })
+})
+
+describe('forfeit events in replay', () => {
+  it('treat the challenger as the winner', () => {
+    const entrants = [
+      { id: 'high', name: 'High' },
+      { id: 'mid', name: 'Mid' },
+      { id: 'low', name: 'Low' }
+    ]
+    const events: RankingEvent[] = [{
+      id: 'e1',
+      event_type: 'forfeit',
+      event_date: '2024-03-08T12:00:00Z',
+      challenge_id: 'c1',
+      player_id: 'low',
+      opponent_id: 'high',
+      created_at: '2024-03-09T00:00:00Z'
+    }]
+
+    const { standings, trace } = replayLadder(entrants, events, [])
+
+    expect(standings.map(p => p.id)).toEqual(['low', 'high', 'mid'])
+    expect(trace[0]).toMatchObject({ old_rank: 3, new_rank: 1, changed: true })
+  })
+})
@@ -0,0 +1,16 @@
+/**
+ * Tests for the secret scheduled jobs are called with
+ */
+
+import { describe, it, expect } from 'vitest'
+import { hasCronSecret } from '../lib/auth/cron'
+
+describe('hasCronSecret', () => {
+  it('accepts only the bearer token for the secret', () => {
+    expect(hasCronSecret('Bearer s3cret', 's3cret')).toBe(true)
+    expect(hasCronSecret('Bearer s3cre', 's3cret')).toBe(false)
+    expect(hasCronSecret('Bearer s3cret-and-more', 's3cret')).toBe(false)
+    expect(hasCronSecret('s3cret', 's3cret')).toBe(false)
+    expect(hasCronSecret(null, 's3cret')).toBe(false)
+  })
+})
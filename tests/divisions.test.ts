@@ -0,0 +1,93 @@
+/**
+ * Tests for divisions: promotion and relegation between ladders
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder } from '../lib/utils/events'
+import {
+  divisionMoveEvents,
+  divisionSwapEvents,
+  isDivisionAbove,
+  planDivisionSwap
+} from '../lib/utils/divisions'
+import { ladderStartingOrder } from '../lib/utils/roster'
+import type { Player, RankingEvent } from '../lib/types/database'
+
+const upper = { id: 'A', name: 'A Ladder', division_above_id: null }
+const lower = { id: 'B', name: 'B Ladder', division_above_id: 'A' }
+
+function makePlayer(id: string, ladder_id: string, rank: number): Player {
+  return { id, name: id.toUpperCase(), email: '', notes: '', ladder_id, current_rank: rank, initial_rank: rank, created_at: '2024-01-01T00:00:00Z' }
+}
+
+const startingPlayers = [
+  ...['a1', 'a2', 'a3', 'a4'].map((id, index) => makePlayer(id, 'A', index + 1)),
+  ...['b1', 'b2', 'b3', 'b4'].map((id, index) => makePlayer(id, 'B', index + 1))
+]
+
+function asEvents(inputs: Omit<RankingEvent, 'id' | 'created_at'>[]): RankingEvent[] {
+  return inputs.map((input, index) => ({ ...input, id: `e${index}`, created_at: '2024-06-01T00:00:00Z' }))
+}
+
+describe('planDivisionSwap', () => {
+  it('swaps the top of the lower ladder with the bottom of the upper one', () => {
+    const players = (ids: string[]) => ids.map(id => ({ id }))
+    expect(planDivisionSwap(players(['a1', 'a2', 'a3']), players(['b1', 'b2', 'b3']), 2)).toEqual({
+      promoted: ['b1', 'b2'],
+      relegated: ['a2', 'a3']
+    })
+    expect(planDivisionSwap(players(['a1']), players(['b1', 'b2']), 2)).toEqual({ promoted: ['b1'], relegated: ['a1'] })
+  })
+})
+
+describe('promotion and relegation replay', () => {
+  const swap = planDivisionSwap(startingPlayers.slice(0, 4), startingPlayers.slice(4), 2)
+  const events = asEvents(divisionSwapEvents(upper, lower, 4, swap, new Date('2024-06-01T00:00:00Z')))
+  // After the swap the players' stored ladders have changed
+  const movedPlayers = startingPlayers.map(player =>
+    swap.promoted.includes(player.id) ? { ...player, ladder_id: 'A' }
+      : swap.relegated.includes(player.id) ? { ...player, ladder_id: 'B' }
+      : player
+  )
+
+  const replayOn = (ladderId: string) => {
+    const ladderEvents = events.filter(event => event.ladder_id === ladderId)
+    return replayLadder(ladderStartingOrder(movedPlayers, ladderEvents, ladderId), ladderEvents, [], { pool: movedPlayers })
+  }
+
+  it('records every move on both ladders', () => {
+    expect(events).toHaveLength(8)
+    expect(events.filter(event => event.event_type === 'promotion').map(event => event.ladder_id)).toEqual(['B', 'A', 'B', 'A'])
+  })
+
+  it('starts each ladder with the players who began the season on it', () => {
+    expect(ladderStartingOrder(movedPlayers, events.filter(event => event.ladder_id === 'A'), 'A').map(player => player.id))
+      .toEqual(['a1', 'a2', 'a3', 'a4'])
+  })
+
+  it('puts promoted players at the bottom above and relegated players at the top below', () => {
+    expect(replayOn('A').standings.map(player => player.id)).toEqual(['a1', 'a2', 'b1', 'b2'])
+    expect(replayOn('B').standings.map(player => player.id)).toEqual(['a3', 'a4', 'b3', 'b4'])
+  })
+
+  it('traces leaving and joining', () => {
+    const trace = replayOn('A').trace
+    expect(trace.find(movement => movement.player_id === 'a3')).toMatchObject({ old_rank: 3, new_rank: null, changed: true })
+    expect(trace.find(movement => movement.player_id === 'b1')).toMatchObject({ old_rank: null, new_rank: 3, reason: 'Promotion: B1 joined at position 3' })
+  })
+
+  it('skips a join for a player already on the ladder', () => {
+    const [, join] = divisionMoveEvents('promotion', 'a1', lower, upper, 1, new Date('2024-06-02'), new Date('2024-06-02'))
+    const { trace } = replayLadder(startingPlayers.slice(0, 4), asEvents([join]), [], { pool: startingPlayers })
+    expect(trace[0].skipped).toBe('already_on_ladder')
+  })
+})
+
+describe('isDivisionAbove', () => {
+  it('follows the chain of divisions upwards', () => {
+    const ladders = [upper, lower, { id: 'C', division_above_id: 'B' }, { id: 'W', division_above_id: null }]
+    expect(isDivisionAbove(ladders, 'C', 'A')).toBe(true)
+    expect(isDivisionAbove(ladders, 'A', 'C')).toBe(false)
+    expect(isDivisionAbove(ladders, 'B', 'W')).toBe(false)
+  })
+})
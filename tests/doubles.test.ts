@@ -0,0 +1,72 @@
+/**
+ * Tests for doubles teams on the shared replay engine
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder } from '../lib/utils/events'
+import { matchEntrantIds, teamsForPlayer } from '../lib/utils/doubles'
+import { playerDoublesStats, playerMatchStats } from '../lib/utils/results'
+import { computeRatings } from '../lib/utils/ratings'
+import type { Match, RankingEvent, Team } from '../lib/types/database'
+
+function makeTeam(id: string, player1_id: string, player2_id: string, rank: number): Team {
+  return { id, name: `Team ${id}`, player1_id, player2_id, current_rank: rank, initial_rank: rank, created_at: '2024-01-01T00:00:00Z' }
+}
+
+const teams = [makeTeam('t1', 'a', 'b', 1), makeTeam('t2', 'c', 'd', 2), makeTeam('t3', 'a', 'c', 3)]
+
+function doublesMatch(id: string, team1_id: string, team2_id: string, match_winner: 1 | 2): Match {
+  return {
+    id,
+    player1_id: null,
+    player2_id: null,
+    team1_id,
+    team2_id,
+    date_played: '2024-01-02',
+    sets: match_winner === 1 ? [{ p1: 6, p2: 4 }, { p1: 7, p2: 6 }] : [{ p1: 4, p2: 6 }, { p1: 6, p2: 7 }],
+    match_winner,
+    created_at: `2024-01-02T00:00:0${id.slice(-1)}Z`
+  }
+}
+
+describe('matchEntrantIds', () => {
+  it('names teams for doubles and players for singles', () => {
+    expect(matchEntrantIds(doublesMatch('m1', 't1', 't2', 1))).toEqual(['t1', 't2'])
+    expect(matchEntrantIds({ player1_id: 'a', player2_id: 'b' })).toEqual(['a', 'b'])
+    expect(matchEntrantIds({ player1_id: null, player2_id: null })).toBeNull()
+  })
+})
+
+describe('doubles replay', () => {
+  it('moves teams with the same engine and events as singles', () => {
+    const matches = [doublesMatch('m1', 't3', 't1', 1)]
+    const events: RankingEvent[] = [
+      { id: 'e1', event_type: 'match', event_date: '2024-01-02T00:00:00Z', match_id: 'm1', team_id: 't3', created_at: '2024-01-02T00:00:00Z' },
+      { id: 'e2', event_type: 'manual_adjustment', event_date: '2024-01-03T00:00:00Z', team_id: 't2', new_rank: 1, created_at: '2024-01-03T00:00:00Z' }
+    ]
+
+    const { standings, trace } = replayLadder(teams, events, matches)
+
+    expect(standings.map(team => team.id)).toEqual(['t2', 't3', 't1'])
+    expect(trace[0]).toMatchObject({ player_id: 't3', old_rank: 3, new_rank: 1, changed: true })
+    expect(trace[1]).toMatchObject({ player_id: 't2', new_rank: 1 })
+  })
+})
+
+describe('doubles stats', () => {
+  const matches = [doublesMatch('m1', 't1', 't2', 1), doublesMatch('m2', 't3', 't2', 2)]
+
+  it('counts a team record by team id', () => {
+    expect(playerMatchStats('t2', matches)).toMatchObject({ wins: 1, losses: 1, setsWon: 2, setsLost: 2, tiebreaksWon: 1, tiebreaksLost: 1 })
+  })
+
+  it("adds up a player's record across their teams", () => {
+    expect(teamsForPlayer(teams, 'a').map(team => team.id)).toEqual(['t1', 't3'])
+    expect(playerDoublesStats('a', teams, matches)).toMatchObject({ totalMatches: 2, wins: 1, losses: 1, gamesWon: 23, gamesLost: 23 })
+    expect(playerMatchStats('a', matches).totalMatches).toBe(0)
+  })
+
+  it('leaves individual ratings alone', () => {
+    expect(computeRatings(['a', 'b', 'c', 'd'], matches).history).toEqual([])
+  })
+})
@@ -46,12 +46,7 @@ describe('Simplified Event System', () => {
         player1_id: '1',
         player2_id: '2',
         date_played: '2024-01-02',
-        set1_winner: 1 as 1 | 2,
-        set1_p1_games: 6,
-        set1_p2_games: 4,
-        set2_winner: 1 as 1 | 2,
-        set2_p1_games: 6,
-        set2_p2_games: 3,
+        sets: [{ p1: 6, p2: 4 }, { p1: 6, p2: 3 }],
         created_at: '2024-01-02T00:00:00Z'
       }
 
@@ -67,12 +62,7 @@ describe('Simplified Event System', () => {
         player1_id: '3', // Charlie (rank 3)
         player2_id: '1', // Alice (rank 1)
         date_played: '2024-01-02',
-        set1_winner: 1, // Charlie wins
-        set1_p1_games: 6,
-        set1_p2_games: 4,
-        set2_winner: 1,
-        set2_p1_games: 6,
-        set2_p2_games: 3,
+        sets: [{ p1: 6, p2: 4 }, { p1: 6, p2: 3 }],
         match_winner: 1, // Charlie wins
         created_at: '2024-01-02T00:00:00Z'
       }
@@ -98,12 +88,7 @@ describe('Simplified Event System', () => {
         player1_id: '1', // Alice (rank 1)
         player2_id: '3', // Charlie (rank 3)
         date_played: '2024-01-02',
-        set1_winner: 1, // Alice wins
-        set1_p1_games: 6,
-        set1_p2_games: 4,
-        set2_winner: 1,
-        set2_p1_games: 6,
-        set2_p2_games: 3,
+        sets: [{ p1: 6, p2: 4 }, { p1: 6, p2: 3 }],
         match_winner: 1, // Alice wins
         created_at: '2024-01-02T00:00:00Z'
       }
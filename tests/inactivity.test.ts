@@ -0,0 +1,78 @@
+/**
+ * Tests for inactivity penalties and how the replay applies them
+ */
+
+import { describe, it, expect } from 'vitest'
+import { dueInactivityPenalties, inactivitySettingsForLadder } from '../lib/utils/inactivity'
+import { replayLadder } from '../lib/utils/events'
+import type { Match, RankingEvent } from '../lib/types/database'
+
+const joined = '2024-01-01T00:00:00.000Z'
+const players = ['a', 'b', 'c', 'd'].map(id => ({ id, name: id.toUpperCase(), created_at: joined }))
+
+const match: Match = {
+  id: 'm1',
+  player1_id: 'a',
+  player2_id: 'b',
+  date_played: '2024-01-20',
+  sets: [{ p1: 6, p2: 2 }, { p1: 6, p2: 3 }],
+  match_winner: 1,
+  created_at: '2024-01-20T00:00:00.000Z'
+}
+
+const matchEvent: RankingEvent = {
+  id: 'e1',
+  event_type: 'match',
+  event_date: match.created_at,
+  match_id: 'm1',
+  created_at: match.created_at
+}
+
+function penalty(id: string, player_id: string, places: number, event_date: string): RankingEvent {
+  return { id, event_type: 'inactivity_penalty', event_date, player_id, places, created_at: event_date }
+}
+
+describe('dueInactivityPenalties', () => {
+  it('is off unless the ladder sets a period', () => {
+    expect(inactivitySettingsForLadder(null)).toBeNull()
+    expect(inactivitySettingsForLadder({ inactivity_days: 30, inactivity_places: null })).toEqual({ days: 30, places: 1 })
+  })
+
+  it('penalises each lapsed period, dated when it lapsed', () => {
+    const settings = { days: 30, places: 2 }
+    const due = dueInactivityPenalties(players, [matchEvent], [match], settings, new Date('2024-03-01T00:00:00Z'))
+
+    // C and D have been idle since they joined; A and B played on Jan 20
+    expect(due).toEqual([
+      { player_id: 'c', event_date: '2024-01-31T00:00:00.000Z', places: 2 },
+      { player_id: 'd', event_date: '2024-01-31T00:00:00.000Z', places: 2 },
+      { player_id: 'a', event_date: '2024-02-19T00:00:00.000Z', places: 2 },
+      { player_id: 'b', event_date: '2024-02-19T00:00:00.000Z', places: 2 },
+      { player_id: 'c', event_date: '2024-03-01T00:00:00.000Z', places: 2 },
+      { player_id: 'd', event_date: '2024-03-01T00:00:00.000Z', places: 2 }
+    ])
+  })
+
+  it('does not repeat penalties that were already recorded', () => {
+    const settings = { days: 30, places: 1 }
+    const now = new Date('2024-02-15T00:00:00Z')
+    const recorded = [penalty('p1', 'c', 1, '2024-01-31T00:00:00.000Z'), penalty('p2', 'd', 1, '2024-01-31T00:00:00.000Z')]
+
+    expect(dueInactivityPenalties(players, [matchEvent, ...recorded], [match], settings, now)).toEqual([])
+  })
+})
+
+describe('inactivity penalties in replay', () => {
+  it('drops the player relative to their current spot, stopping at the bottom', () => {
+    const events = [
+      penalty('p1', 'a', 2, '2024-02-01T00:00:00Z'),
+      penalty('p2', 'a', 2, '2024-03-01T00:00:00Z')
+    ]
+
+    const { standings, trace } = replayLadder(players, events, [])
+
+    expect(standings.map(p => p.id)).toEqual(['b', 'c', 'd', 'a'])
+    expect(trace[0]).toMatchObject({ old_rank: 1, new_rank: 3, changed: true })
+    expect(trace[1]).toMatchObject({ old_rank: 3, new_rank: 4, changed: true })
+  })
+})
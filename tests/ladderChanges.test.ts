@@ -0,0 +1,108 @@
+/**
+ * Tests for applying a match write in memory and working out the ranks it changes
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder } from '../lib/utils/events'
+import { computeRatings } from '../lib/utils/ratings'
+import {
+  applyLadderChange, applyPlayerChange, changedEventRanks, changedRanks, changedRatings, matchEvent, rescoredMatchEvent
+} from '../lib/utils/ladderChanges'
+import type { Match, Player, RankingEvent } from '../lib/types/database'
+
+function makePlayer(id: string, rank: number): Player {
+  return { id, name: id.toUpperCase(), email: '', notes: '', current_rank: rank, initial_rank: rank, created_at: '2024-01-01T00:00:00Z' }
+}
+
+function makeMatch(id: string, player1_id: string, player2_id: string, date: string, match_winner: 1 | 2 = 1): Match {
+  const sets = match_winner === 1 ? [{ p1: 6, p2: 2 }, { p1: 6, p2: 2 }] : [{ p1: 2, p2: 6 }, { p1: 2, p2: 6 }]
+  return { id, player1_id, player2_id, date_played: date, sets, match_winner, created_at: date }
+}
+
+const players = ['a', 'b', 'c'].map((id, index) => makePlayer(id, index + 1))
+const first = makeMatch('m1', 'b', 'a', '2024-02-01T00:00:00Z')
+// As stored after the last rebuild: B beat A
+const storedEvents: RankingEvent[] = [
+  { ...matchEvent(first, 'e1'), old_rank: 2, new_rank: 1, reason: 'Match: B vs A, Winner: B (2 → 1)' }
+]
+const storedPlayers = [makePlayer('b', 1), makePlayer('a', 2), makePlayer('c', 3)]
+
+function writesFor(events: RankingEvent[], matches: Match[]) {
+  const result = replayLadder(players, events, matches, { pool: players })
+  return { ranks: changedRanks(storedPlayers, result.standings), events: changedEventRanks(storedEvents, result.trace), result }
+}
+
+describe('matchEvent', () => {
+  it('names the winner and carries an override reason', () => {
+    expect(matchEvent(first, 'e1')).toMatchObject({ event_type: 'match', match_id: 'm1', player_id: 'b', event_date: first.created_at })
+    expect(matchEvent(first, 'e1', 'Agreed by both')).toMatchObject({ range_override: true, override_reason: 'Agreed by both' })
+  })
+
+  it('names the new winner when a match is rescored', () => {
+    const rescored = { ...first, match_winner: 2 as const }
+    expect(rescoredMatchEvent(storedEvents[0], rescored)).toMatchObject({ id: 'e1', player_id: 'a', old_rank: 2 })
+  })
+})
+
+describe('recording a match', () => {
+  it('writes the new event with its ranks and only the players who moved', () => {
+    const second = makeMatch('m2', 'c', 'b', '2024-03-01T00:00:00Z')
+    const { events, matches } = applyLadderChange(storedEvents, [first], {
+      insertMatch: second,
+      insertEvent: matchEvent(second, 'e2')
+    })
+    const writes = writesFor(events, matches)
+
+    expect(writes.ranks).toEqual([{ id: 'c', current_rank: 1 }, { id: 'b', current_rank: 2 }, { id: 'a', current_rank: 3 }])
+    expect(writes.events).toEqual([{ id: 'e2', old_rank: 3, new_rank: 1, reason: writes.result.trace[1].reason }])
+  })
+
+  it('writes nothing for an unchanged ladder', () => {
+    expect(writesFor(storedEvents, [first])).toMatchObject({ ranks: [], events: [] })
+  })
+})
+
+describe('editing and deleting', () => {
+  it('moves players back when a result is reversed', () => {
+    const reversed = { ...first, match_winner: 2 as const }
+    const { events, matches } = applyLadderChange(storedEvents, [first], {
+      updateMatch: reversed,
+      updateEvent: rescoredMatchEvent(storedEvents[0], reversed)
+    })
+    expect(writesFor(events, matches).ranks).toEqual([{ id: 'a', current_rank: 1 }, { id: 'b', current_rank: 2 }])
+  })
+
+  it('drops the match with its events', () => {
+    const { events, matches } = applyLadderChange(storedEvents, [first], { deleteMatchId: 'm1' })
+    expect(events).toEqual([])
+    expect(matches).toEqual([])
+    expect(writesFor(events, matches).ranks).toEqual([{ id: 'a', current_rank: 1 }, { id: 'b', current_rank: 2 }])
+  })
+})
+
+describe('applyPlayerChange', () => {
+  it('moves players, takes them off the ladder and records a new status', () => {
+    const status = { id: 's1', player_id: 'c', status: 'withdrawn' as const, effective_from: '2024-03-01T00:00:00Z', created_at: '2024-03-01T00:00:00Z' }
+    const next = applyPlayerChange(players, [], {
+      onLadder: { playerId: 'a', onLadder: false },
+      movePlayers: [{ playerId: 'b', ladderId: 'upper' }],
+      statusChange: status
+    })
+    expect(next.players.map(player => [player.id, player.on_ladder, player.ladder_id, player.status])).toEqual([
+      ['a', false, undefined, undefined],
+      ['b', undefined, 'upper', undefined],
+      ['c', undefined, undefined, 'withdrawn']
+    ])
+    expect(next.statusChanges).toEqual([status])
+    expect(players[1].ladder_id).toBeUndefined()
+  })
+})
+
+describe('changedRatings', () => {
+  it('only lists players whose rating moved', () => {
+    const { ratings } = computeRatings(['a', 'b', 'c'], [first])
+    const rated = players.map(player => ({ ...player, rating: ratings.get(player.id)!.rating }))
+    expect(changedRatings(rated, ratings)).toEqual([])
+    expect(changedRatings(players, ratings).map(update => update.id)).toEqual(['a', 'b', 'c'])
+  })
+})
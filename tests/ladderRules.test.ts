@@ -0,0 +1,65 @@
+/**
+ * Tests for the built-in ladder rules
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder } from '../lib/utils/events'
+import { getLadderRule, pyramidTier, LADDER_RULES } from '../lib/utils/ladderRules'
+import type { Match, RankingEvent } from '../lib/types/database'
+
+const order = ['a', 'b', 'c', 'd', 'e', 'f']
+
+describe('ladder rules', () => {
+  it('poison: winner takes the loser\'s spot and the rest shift down', () => {
+    expect(LADDER_RULES.poison.apply(order, 4, 0)).toEqual(['e', 'a', 'b', 'c', 'd', 'f'])
+  })
+
+  it('leapfrog halfway: winner moves up half the gap, rounded up', () => {
+    expect(LADDER_RULES.leapfrog_halfway.apply(order, 4, 0)).toEqual(['a', 'b', 'e', 'c', 'd', 'f'])
+    expect(LADDER_RULES.leapfrog_halfway.apply(order, 5, 2)).toEqual(['a', 'b', 'c', 'f', 'd', 'e'])
+  })
+
+  it('swap: winner and loser trade places', () => {
+    expect(LADDER_RULES.swap.apply(order, 4, 0)).toEqual(['e', 'b', 'c', 'd', 'a', 'f'])
+  })
+
+  it('pyramid: only wins over a higher tier swap places', () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(pyramidTier)).toEqual([0, 1, 1, 2, 2, 2, 3])
+    expect(LADDER_RULES.pyramid.apply(order, 3, 1)).toEqual(['a', 'd', 'c', 'b', 'e', 'f'])
+    expect(LADDER_RULES.pyramid.apply(order, 2, 1)).toEqual(order)
+  })
+
+  it('never moves a higher-ranked winner', () => {
+    Object.values(LADDER_RULES).forEach(rule => {
+      expect(rule.apply(order, 0, 4)).toEqual(order)
+    })
+  })
+
+  it('falls back to the poison ladder for unknown rule ids', () => {
+    expect(getLadderRule('nonsense').id).toBe('poison')
+    expect(getLadderRule(null).id).toBe('poison')
+  })
+})
+
+describe('replayLadder with a rule', () => {
+  it('uses the selected rule when replaying matches', () => {
+    const entrants = order.map(id => ({ id, name: id.toUpperCase() }))
+    const match: Match = {
+      id: 'm1',
+      player1_id: 'e',
+      player2_id: 'a',
+      date_played: '2024-01-02',
+      sets: [{ p1: 6, p2: 3 }, { p1: 6, p2: 4 }],
+      match_winner: 1,
+      created_at: '2024-01-02T00:00:00Z'
+    }
+    const events: RankingEvent[] = [
+      { id: 'e1', event_type: 'match', event_date: match.created_at, match_id: 'm1', created_at: match.created_at }
+    ]
+
+    const { standings, trace } = replayLadder(entrants, events, [match], { rule: LADDER_RULES.swap })
+
+    expect(standings.map(p => p.id)).toEqual(['e', 'b', 'c', 'd', 'a', 'f'])
+    expect(trace[0]).toMatchObject({ old_rank: 5, new_rank: 1, changed: true })
+  })
+})
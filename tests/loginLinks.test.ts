@@ -0,0 +1,63 @@
+/**
+ * Tests for one-time sign-in links and the mail transports that deliver them
+ */
+
+import { describe, it, expect } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { emailPattern, generateLoginToken, hashLoginToken, loginLinkMessage, loginLinkUrl, normalizeEmail } from '../lib/auth/loginTokens'
+import { createMailTransport } from '../lib/mail/transport'
+
+describe('matching emails', () => {
+  it('ignores case and surrounding space', () => {
+    expect(normalizeEmail('  Foo@Example.COM ')).toBe('foo@example.com')
+  })
+
+  it('escapes ilike wildcards, so only the email itself matches', () => {
+    expect(emailPattern('First_Last@example.com')).toBe('first\\_last@example.com')
+    expect(emailPattern('100%@example.com')).toBe('100\\%@example.com')
+  })
+})
+
+describe('login tokens', () => {
+  it('are random and URL-safe', () => {
+    const first = generateLoginToken()
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(generateLoginToken()).not.toBe(first)
+  })
+
+  it('are stored as a SHA-256 hash', async () => {
+    expect(await hashLoginToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  it('go in a link to the verify route', () => {
+    expect(loginLinkUrl('https://ladder.example.com', 'a-b_c')).toBe('https://ladder.example.com/auth/verify?token=a-b_c')
+    expect(loginLinkMessage('player@example.com', 'https://x/auth/verify?token=t')).toMatchObject({
+      to: 'player@example.com',
+      text: expect.stringContaining('https://x/auth/verify?token=t')
+    })
+  })
+})
+
+describe('createMailTransport', () => {
+  it('writes messages to files with the file transport', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'mail-'))
+    try {
+      await createMailTransport({ MAIL_TRANSPORT: 'file', MAIL_DIR: directory })
+        .send({ to: 'player@example.com', subject: 'Hello', text: 'Body' })
+
+      const files = await readdir(directory)
+      expect(files).toHaveLength(1)
+      expect(await readFile(path.join(directory, files[0]), 'utf8')).toBe('To: player@example.com\nSubject: Hello\n\nBody\n')
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('needs an SMTP host for SMTP and rejects unknown transports', () => {
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST')
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown MAIL_TRANSPORT')
+    expect(createMailTransport({ SMTP_HOST: 'smtp.example.com' })).toBeDefined()
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Tests for match formats and variable-length set scores
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  MATCH_FORMATS,
+  getMatchFormat,
+  maxSetGames,
+  visibleSetCount,
+  playedSets,
+  formatSets
+} from '../lib/utils/matchFormats'
+import { determineMatchWinner } from '../lib/utils/ladder'
+import type { MatchSet } from '../lib/types/database'
+
+describe('getMatchFormat', () => {
+  it('falls back to two sets + match tiebreak', () => {
+    expect(getMatchFormat(null).id).toBe('two_sets_match_tiebreak')
+    expect(getMatchFormat('unknown').id).toBe('two_sets_match_tiebreak')
+    expect(getMatchFormat('fast4').gamesPerSet).toBe(4)
+  })
+
+  it('caps set games at the tiebreak score', () => {
+    expect(maxSetGames(MATCH_FORMATS.best_of_three)).toBe(7)
+    expect(maxSetGames(MATCH_FORMATS.pro_set)).toBe(9)
+    expect(maxSetGames(MATCH_FORMATS.fast4)).toBe(4)
+  })
+})
+
+describe('entry form helpers', () => {
+  const format = MATCH_FORMATS.two_sets_match_tiebreak
+
+  it('only shows the deciding set once sets are split', () => {
+    expect(visibleSetCount(format, [{ p1: 6, p2: 3 }, { p1: 6, p2: 4 }, { p1: 0, p2: 0 }])).toBe(2)
+    expect(visibleSetCount(format, [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 0, p2: 0 }])).toBe(3)
+    expect(visibleSetCount(MATCH_FORMATS.pro_set, [{ p1: 0, p2: 0 }])).toBe(1)
+  })
+
+  it('drops unplayed sets and marks the match tiebreak', () => {
+    expect(playedSets(format, [{ p1: 6, p2: 3 }, { p1: 0, p2: 0 }, { p1: 0, p2: 0 }])).toEqual([{ p1: 6, p2: 3 }])
+    expect(playedSets(format, [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 10, p2: 7 }])[2]).toEqual({ p1: 10, p2: 7, match_tiebreak: true })
+    expect(playedSets(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 7, p2: 5 }])[2].match_tiebreak).toBeUndefined()
+  })
+
+  it('keeps tiebreak points only on tiebreak sets', () => {
+    const sets = playedSets(format, [{ p1: 7, p2: 6, tiebreak: { p1: 7, p2: 5 } }, { p1: 6, p2: 4, tiebreak: { p1: 7, p2: 5 } }, { p1: 0, p2: 0 }])
+    expect(sets).toEqual([{ p1: 7, p2: 6, tiebreak: { p1: 7, p2: 5 } }, { p1: 6, p2: 4 }])
+  })
+})
+
+describe('formatSets', () => {
+  const sets: MatchSet[] = [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 10, p2: 8, match_tiebreak: true }]
+
+  it('writes standard notation from either side', () => {
+    expect(formatSets(sets)).toBe('6-3, 4-6, [10-8]')
+    expect(formatSets(sets, 2)).toBe('3-6, 6-4, [8-10]')
+  })
+
+  it("shows the loser's points of a set tiebreak", () => {
+    const tiebreakSets: MatchSet[] = [{ p1: 7, p2: 6, tiebreak: { p1: 7, p2: 4 } }, { p1: 6, p2: 7, tiebreak: { p1: 10, p2: 12 } }]
+    expect(formatSets(tiebreakSets)).toBe('7-6(4), 6-7(10)')
+    expect(formatSets(tiebreakSets, 2)).toBe('6-7(4), 7-6(10)')
+  })
+})
+
+describe('determineMatchWinner', () => {
+  const base = {
+    id: 'm1',
+    player1_id: 'a',
+    player2_id: 'b',
+    date_played: '2024-01-01',
+    created_at: '2024-01-01T00:00:00Z'
+  }
+
+  it('counts sets across any number of them', () => {
+    expect(determineMatchWinner({ ...base, format_id: 'best_of_three', sets: [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 5, p2: 7 }] })).toBe(2)
+    expect(determineMatchWinner({ ...base, format_id: 'pro_set', sets: [{ p1: 9, p2: 8 }] })).toBe(1)
+  })
+
+  it('lets the match tiebreak decide split sets', () => {
+    expect(determineMatchWinner({ ...base, sets: [{ p1: 6, p2: 0 }, { p1: 4, p2: 6 }, { p1: 8, p2: 10, match_tiebreak: true }] })).toBe(2)
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Tests for player-reported results: confirming, disputing and deadlines
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  checkReportPlayer,
+  createMatchReport,
+  describeMatchReport,
+  isReportDue,
+  transitionMatchReport
+} from '../lib/utils/matchReports'
+import type { MatchReport, MatchReportWithPlayers, Player } from '../lib/types/database'
+
+const now = new Date('2024-05-01T12:00:00Z')
+
+const score = {
+  player2_id: 'bea',
+  date_played: '2024-04-30',
+  format_id: 'best_of_three' as const,
+  sets: [{ p1: 6, p2: 4 }, { p1: 3, p2: 6 }, { p1: 7, p2: 6, tiebreak: { p1: 7, p2: 3 } }],
+  result_type: 'completed' as const,
+}
+
+const ladder = { id: 'ladder-1', match_format: 'best_of_three' as const }
+
+function reported(confirmHours: number | null = 48): MatchReport {
+  return { id: 'r1', created_at: now.toISOString(), ...createMatchReport('ann', score, ladder, now, confirmHours) }
+}
+
+function player(id: string, name: string): Player {
+  return { id, name, email: `${id}@example.com`, current_rank: 1, initial_rank: 1, notes: '', created_at: now.toISOString() }
+}
+
+describe('reporting a result', () => {
+  it('puts the reporter first and starts the confirmation deadline', () => {
+    const report = reported()
+    expect(report).toMatchObject({ player1_id: 'ann', player2_id: 'bea', ladder_id: 'ladder-1', status: 'pending' })
+    expect(report.confirm_by).toBe('2024-05-03T12:00:00.000Z')
+  })
+
+  it('has no deadline when the ladder waits for an answer', () => {
+    expect(reported(null).confirm_by).toBeNull()
+  })
+
+  it('refuses matches against yourself, without an opponent or in the future', () => {
+    expect(() => createMatchReport('ann', { ...score, player2_id: 'ann' }, ladder, now)).toThrow()
+    expect(() => createMatchReport('ann', { ...score, player2_id: '' }, ladder, now)).toThrow()
+    expect(() => createMatchReport('ann', { ...score, date_played: '2024-05-10' }, ladder, now)).toThrow()
+  })
+
+  it('is in the ladder\'s format, and refuses a score sent in another', () => {
+    expect(createMatchReport('ann', { ...score, format_id: undefined }, ladder, now).format_id).toBe('best_of_three')
+    expect(() => createMatchReport('ann', { ...score, format_id: 'pro_set' }, ladder, now)).toThrow('best of three')
+    expect(() => createMatchReport('ann', score, { id: null }, now)).toThrow('two sets + match tiebreak')
+  })
+})
+
+describe('answering a report', () => {
+  it('lets the opponent confirm or dispute, and the reporter withdraw', () => {
+    const report = reported()
+    expect(() => checkReportPlayer(report, { type: 'confirm' }, 'bea')).not.toThrow()
+    expect(() => checkReportPlayer(report, { type: 'dispute', reason: 'It was 6-3' }, 'bea')).not.toThrow()
+    expect(() => checkReportPlayer(report, { type: 'withdraw' }, 'ann')).not.toThrow()
+
+    expect(() => checkReportPlayer(report, { type: 'confirm' }, 'ann')).toThrow()
+    expect(() => checkReportPlayer(report, { type: 'withdraw' }, 'bea')).toThrow()
+    expect(() => checkReportPlayer(report, { type: 'approve' }, 'bea')).toThrow()
+  })
+
+  it('records who confirmed it', () => {
+    expect(transitionMatchReport(reported(), { type: 'confirm' }, now, 'bea@example.com')).toEqual({
+      status: 'confirmed',
+      resolved_by: 'bea@example.com',
+      resolved_at: now.toISOString()
+    })
+  })
+
+  it('needs a reason to dispute, and leaves disputes to staff', () => {
+    expect(() => transitionMatchReport(reported(), { type: 'dispute', reason: ' ' }, now)).toThrow()
+
+    const disputed = { ...reported(), ...transitionMatchReport(reported(), { type: 'dispute', reason: 'It was 6-3' }, now) }
+    expect(disputed).toMatchObject({ status: 'disputed', note: 'It was 6-3' })
+    expect(() => transitionMatchReport(disputed, { type: 'confirm' }, now)).toThrow()
+    expect(() => transitionMatchReport(disputed, { type: 'withdraw' }, now)).toThrow()
+    expect(transitionMatchReport(disputed, { type: 'approve' }, now, 'staff@example.com').status).toBe('confirmed')
+    expect(transitionMatchReport(disputed, { type: 'reject', reason: 'Replay it' }, now).note).toBe('Replay it')
+  })
+
+  it('never settles a report twice', () => {
+    const confirmed = { ...reported(), ...transitionMatchReport(reported(), { type: 'confirm' }, now) }
+    expect(() => transitionMatchReport(confirmed, { type: 'approve' }, now)).toThrow()
+    expect(() => transitionMatchReport(confirmed, { type: 'reject', reason: 'No' }, now)).toThrow()
+  })
+})
+
+describe('isReportDue', () => {
+  it('confirms pending reports once the deadline passes', () => {
+    const report = reported(2)
+    expect(isReportDue(report, new Date('2024-05-01T13:59:59Z'))).toBe(false)
+    expect(isReportDue(report, new Date('2024-05-01T14:00:00Z'))).toBe(true)
+    expect(isReportDue(reported(null), new Date('2030-01-01T00:00:00Z'))).toBe(false)
+    expect(isReportDue({ ...report, status: 'disputed' }, new Date('2030-01-01T00:00:00Z'))).toBe(false)
+  })
+})
+
+describe('describeMatchReport', () => {
+  const withPlayers = (report: MatchReport): MatchReportWithPlayers =>
+    ({ ...report, player1: player('ann', 'Ann'), player2: player('bea', 'Bea') })
+
+  it('puts the winner first, with the score from their side', () => {
+    expect(describeMatchReport(withPlayers(reported()))).toBe('Ann beat Bea 6-4, 3-6, 7-6(3)')
+    const lost = { ...reported(), sets: [{ p1: 2, p2: 6 }, { p1: 4, p2: 6 }] }
+    expect(describeMatchReport(withPlayers(lost))).toBe('Bea beat Ann 6-2, 6-4')
+  })
+
+  it('names retirements and walkovers', () => {
+    const retired = { ...reported(), sets: [{ p1: 6, p2: 4 }, { p1: 1, p2: 0 }], result_type: 'retired' as const, has_retirement: true, retired_player: 2 as const }
+    expect(describeMatchReport(withPlayers(retired))).toBe('Ann beat Bea 6-4, 1-0 (Bea retired)')
+    const walkover = { ...reported(), sets: [], result_type: 'walkover' as const, defaulted_player: 1 as const }
+    expect(describeMatchReport(withPlayers(walkover))).toBe('Bea beat Ann: walkover')
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Tests for per-admin password hashing and the links that set passwords
+ */
+
+import { describe, it, expect } from 'vitest'
+import { hashPassword, verifyPassword } from '../lib/auth/passwordHash'
+import { PASSWORD_LINK_HOURS, passwordLinkMessage, passwordLinkUrl, passwordProblem } from '../lib/auth/passwords'
+
+describe('password hashes', () => {
+  it('are salted scrypt hashes that keep their cost settings', async () => {
+    const first = await hashPassword('correct horse battery')
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/)
+    expect(first).not.toContain('correct horse battery')
+    expect(await hashPassword('correct horse battery')).not.toBe(first)
+  })
+
+  it('match only the password they were made from', async () => {
+    const stored = await hashPassword('correct horse battery')
+    expect(await verifyPassword('correct horse battery', stored)).toBe(true)
+    expect(await verifyPassword('correct horse batterY', stored)).toBe(false)
+    expect(await verifyPassword('', stored)).toBe(false)
+  })
+
+  it('are checked with the cost settings stored with them', async () => {
+    const stored = await hashPassword('correct horse battery')
+    const [, , , , salt, hash] = stored.split('$')
+    // The same password at a lower cost doesn't match a hash made at the higher one
+    expect(await verifyPassword('correct horse battery', ['scrypt', 1024, 8, 1, salt, hash].join('$'))).toBe(false)
+  })
+
+  it('never match a malformed hash', async () => {
+    for (const stored of ['', 'plaintext', 'scrypt$16384$8$1$c2FsdA==', 'bcrypt$16384$8$1$c2FsdA==$aGFzaA==', 'scrypt$x$8$1$c2FsdA==$aGFzaA==']) {
+      expect(await verifyPassword('anything', stored)).toBe(false)
+    }
+  })
+})
+
+describe('new passwords', () => {
+  it('need at least 12 characters', () => {
+    expect(passwordProblem('short')).toBe('Passwords need at least 12 characters')
+    expect(passwordProblem(undefined)).toBe('Passwords need at least 12 characters')
+    expect(passwordProblem('twelve chars')).toBeNull()
+    expect(passwordProblem('x'.repeat(257))).toBe('Passwords can be at most 256 characters')
+  })
+})
+
+describe('password links', () => {
+  it('go to the set-password page', () => {
+    expect(passwordLinkUrl('https://ladder.example.com', 'a-b_c')).toBe('https://ladder.example.com/set-password?token=a-b_c')
+  })
+
+  it('say whether they are an invite or a reset', () => {
+    const invite = passwordLinkMessage('admin@example.com', 'https://x/set-password?token=t', 'invite')
+    expect(invite).toMatchObject({ to: 'admin@example.com', subject: 'Set your Scrappers Cup admin password' })
+    expect(invite.text).toContain('https://x/set-password?token=t')
+    expect(invite.text).toContain(`expires in ${PASSWORD_LINK_HOURS} hours`)
+    expect(passwordLinkMessage('admin@example.com', 'https://x', 'reset').subject).toBe('Reset your Scrappers Cup admin password')
+  })
+})
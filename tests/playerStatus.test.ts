@@ -0,0 +1,100 @@
+/**
+ * Tests for the player status lifecycle: frozen and withdrawn players
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder } from '../lib/utils/events'
+import { dueInactivityPenalties } from '../lib/utils/inactivity'
+import { ladderStartingOrder } from '../lib/utils/roster'
+import { frozenChecker, frozenPeriods, statusAt, validateStatusChange } from '../lib/utils/playerStatus'
+import type { Match, Player, PlayerStatusChange, RankingEvent } from '../lib/types/database'
+
+function makePlayer(id: string, rank: number, status: Player['status'] = 'active'): Player {
+  return { id, name: id.toUpperCase(), email: '', notes: '', status, current_rank: rank, initial_rank: rank, created_at: '2024-01-01T00:00:00Z' }
+}
+
+function change(player_id: string, status: PlayerStatusChange['status'], effective_from: string): PlayerStatusChange {
+  return { id: `${player_id}-${effective_from}`, player_id, status, effective_from, created_at: effective_from }
+}
+
+function match(id: string, player1_id: string, player2_id: string, date: string): Match {
+  return { id, player1_id, player2_id, date_played: date, sets: [{ p1: 6, p2: 0 }, { p1: 6, p2: 0 }], match_winner: 1, created_at: date }
+}
+
+function matchEvent(id: string, date: string): RankingEvent {
+  return { id: `e-${id}`, event_type: 'match', event_date: date, match_id: id, created_at: date }
+}
+
+const players = ['a', 'b', 'c', 'd'].map((id, index) => makePlayer(id, index + 1))
+const injuries = [change('b', 'injured', '2024-02-01T00:00:00Z'), change('b', 'active', '2024-03-01T00:00:00Z')]
+
+describe('statusAt', () => {
+  it('uses the latest change in effect', () => {
+    expect(statusAt(injuries, 'b', '2024-01-15')).toBe('active')
+    expect(statusAt(injuries, 'b', '2024-02-15')).toBe('injured')
+    expect(statusAt(injuries, 'b', '2024-03-15')).toBe('active')
+    expect(frozenPeriods(injuries, 'b')).toEqual([{ from: '2024-02-01T00:00:00Z', to: '2024-03-01T00:00:00Z' }])
+  })
+})
+
+describe('frozen players in replay', () => {
+  it('keep their place when a result passes over them', () => {
+    const matches = [match('m1', 'd', 'a', '2024-02-10T00:00:00Z')]
+    const { standings } = replayLadder(players, [matchEvent('m1', '2024-02-10T00:00:00Z')], matches, { isFrozen: frozenChecker(injuries) })
+    expect(standings.map(player => player.id)).toEqual(['d', 'b', 'a', 'c'])
+  })
+
+  it('move as usual once they are active again', () => {
+    const matches = [match('m1', 'd', 'a', '2024-03-10T00:00:00Z')]
+    const { standings } = replayLadder(players, [matchEvent('m1', '2024-03-10T00:00:00Z')], matches, { isFrozen: frozenChecker(injuries) })
+    expect(standings.map(player => player.id)).toEqual(['d', 'a', 'b', 'c'])
+  })
+
+  it("don't count towards the challenge range", () => {
+    const matches = [match('m1', 'c', 'a', '2024-02-10T00:00:00Z')]
+    const { trace } = replayLadder(players, [matchEvent('m1', '2024-02-10T00:00:00Z')], matches, {
+      isFrozen: frozenChecker(injuries),
+      challengeRange: { type: 'spots', spots: 1 }
+    })
+    expect(trace[0].out_of_range).toBeUndefined()
+  })
+})
+
+describe('withdrawal', () => {
+  const withdrawn = players.map(player => player.id === 'b' ? { ...player, status: 'withdrawn' as const } : player)
+  const withdrawal: RankingEvent = { id: 'w1', event_type: 'player_withdrawn', event_date: '2024-02-01T00:00:00Z', player_id: 'b', created_at: '2024-02-01T00:00:00Z' }
+
+  it('takes the player off the ladder and moves everyone below up', () => {
+    const { standings, trace } = replayLadder(ladderStartingOrder(withdrawn, [withdrawal], null), [withdrawal], [])
+    expect(standings.map(player => [player.id, player.current_rank])).toEqual([['a', 1], ['c', 2], ['d', 3]])
+    expect(trace[0]).toMatchObject({ old_rank: 2, new_rank: null, reason: 'Withdrawn: B left the ladder from position 2' })
+  })
+
+  it('leaves players who withdrew before the season out of the starting order', () => {
+    expect(ladderStartingOrder(withdrawn, [], null).map(player => player.id)).toEqual(['a', 'c', 'd'])
+  })
+})
+
+describe('inactivity while frozen', () => {
+  it('skips penalties while frozen and restarts the clock on return', () => {
+    const due = dueInactivityPenalties([{ id: 'b', created_at: '2024-01-01T00:00:00Z' }], [], [], { days: 45, places: 1 }, new Date('2024-05-01T00:00:00Z'), injuries)
+    expect(due.map(penalty => penalty.event_date)).toEqual(['2024-04-15T00:00:00.000Z'])
+  })
+
+  it('stops penalties for as long as the player stays frozen', () => {
+    const due = dueInactivityPenalties([{ id: 'b', created_at: '2024-01-01T00:00:00Z' }], [], [], { days: 10, places: 1 }, new Date('2024-05-01T00:00:00Z'), injuries.slice(0, 1))
+    expect(due).toHaveLength(3)
+  })
+})
+
+describe('validateStatusChange', () => {
+  const now = new Date('2024-06-01T00:00:00Z')
+
+  it('rejects changes that make no sense', () => {
+    expect(validateStatusChange('withdrawn', 'active', now, now)).toBe('This player has withdrawn from the ladder')
+    expect(validateStatusChange('injured', 'injured', now, now)).toBe('This player is already injured')
+    expect(validateStatusChange('active', 'on_leave', new Date('2024-07-01'), now)).toMatch(/future/)
+    expect(validateStatusChange('injured', 'active', new Date('2024-01-01'), now, { effective_from: '2024-02-01T00:00:00Z' })).toMatch(/previous/)
+    expect(validateStatusChange('injured', 'active', now, now, { effective_from: '2024-02-01T00:00:00Z' })).toBeNull()
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Tests for the Elo / Glicko-2 rating engine
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeRatings, matchScore, eloSystem, glicko2System, getRatingSystem } from '../lib/utils/ratings'
+import type { Match } from '../lib/types/database'
+
+function makeMatch(id: string, player1_id: string, player2_id: string, games: [number, number, number, number], created_at: string, extra: Partial<Match> = {}): Match {
+  const [s1p1, s1p2, s2p1, s2p2] = games
+  return {
+    id,
+    player1_id,
+    player2_id,
+    date_played: created_at.split('T')[0],
+    sets: [{ p1: s1p1, p2: s1p2 }, { p1: s2p1, p2: s2p2 }],
+    match_winner: 1,
+    created_at,
+    ...extra
+  }
+}
+
+describe('matchScore', () => {
+  it('rewards bigger margins', () => {
+    const bagel = makeMatch('m1', 'a', 'b', [6, 0, 6, 0], '2024-01-01T00:00:00Z')
+    const close = makeMatch('m2', 'a', 'b', [7, 6, 7, 6], '2024-01-01T00:00:00Z')
+
+    expect(matchScore(bagel)).toBe(1)
+    expect(matchScore(close)).toBeGreaterThan(0.6)
+    expect(matchScore(close)).toBeLessThan(0.65)
+  })
+
+  it('discounts retirements and mirrors for player 2 wins', () => {
+    const retired = makeMatch('m1', 'a', 'b', [6, 0, 6, 0], '2024-01-01T00:00:00Z', { has_retirement: true, retired_player: 2 })
+    const p2Win = makeMatch('m2', 'a', 'b', [0, 6, 0, 6], '2024-01-01T00:00:00Z', { match_winner: 2 })
+
+    expect(matchScore(retired)).toBe(0.75)
+    expect(matchScore(p2Win)).toBe(0)
+  })
+})
+
+describe('computeRatings', () => {
+  const matches = [
+    makeMatch('m2', 'a', 'c', [6, 2, 6, 3], '2024-01-03T00:00:00Z'),
+    makeMatch('m1', 'a', 'b', [6, 0, 6, 0], '2024-01-02T00:00:00Z')
+  ]
+
+  it('replays matches in order and records a history row per player per match', () => {
+    const { ratings, history } = computeRatings(['a', 'b', 'c'], matches, eloSystem)
+
+    expect(history.map(change => change.match_id)).toEqual(['m1', 'm1', 'm2', 'm2'])
+    expect(history[0]).toMatchObject({ player_id: 'a', rating_before: 1500, rating_after: 1516 })
+    expect(history[1]).toMatchObject({ player_id: 'b', rating_before: 1500, rating_after: 1484 })
+    expect(ratings.get('a')!.rating).toBe(history[2].rating_after)
+  })
+
+  it('conserves total Elo between two players', () => {
+    const { ratings } = computeRatings(['a', 'b', 'c'], matches, eloSystem)
+    const total = ['a', 'b', 'c'].reduce((sum, id) => sum + ratings.get(id)!.rating, 0)
+
+    expect(total).toBeCloseTo(4500)
+  })
+
+  it('shrinks Glicko-2 deviation as results come in', () => {
+    const { ratings } = computeRatings(['a', 'b', 'c'], matches, glicko2System)
+
+    expect(ratings.get('a')!.rating).toBeGreaterThan(1500)
+    expect(ratings.get('a')!.deviation).toBeLessThan(350)
+    expect(ratings.get('b')!.rating).toBeLessThan(1500)
+  })
+
+  it('falls back to Elo for unknown systems', () => {
+    expect(getRatingSystem('nope').id).toBe('elo')
+    expect(getRatingSystem('glicko2').id).toBe('glicko2')
+  })
+})
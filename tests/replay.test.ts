@@ -0,0 +1,123 @@
+/**
+ * Tests for the pure ladder replay engine
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder, replayLadderAsOf, rankHistory } from '../lib/utils/events'
+import type { Match, RankingEvent } from '../lib/types/database'
+
+const entrants = [
+  { id: 'a', name: 'Alice' },
+  { id: 'b', name: 'Bob' },
+  { id: 'c', name: 'Charlie' },
+  { id: 'd', name: 'Dana' }
+]
+
+function makeMatch(id: string, player1_id: string, player2_id: string, match_winner: 1 | 2): Match {
+  return {
+    id,
+    player1_id,
+    player2_id,
+    date_played: '2024-01-02',
+    sets: match_winner === 1
+      ? [{ p1: 6, p2: 2 }, { p1: 6, p2: 3 }]
+      : [{ p1: 2, p2: 6 }, { p1: 3, p2: 6 }],
+    match_winner,
+    created_at: '2024-01-02T00:00:00Z'
+  }
+}
+
+function matchEvent(id: string, match_id: string, event_date: string): RankingEvent {
+  return { id, event_type: 'match', event_date, match_id, created_at: event_date }
+}
+
+describe('replayLadder', () => {
+  it('moves a lower-ranked winner into the loser\'s spot', () => {
+    const matches = [makeMatch('m1', 'd', 'b', 1)]
+    const events = [matchEvent('e1', 'm1', '2024-01-02T00:00:00Z')]
+
+    const { standings, trace } = replayLadder(entrants, events, matches)
+
+    expect(standings.map(p => p.id)).toEqual(['a', 'd', 'b', 'c'])
+    expect(standings.map(p => p.current_rank)).toEqual([1, 2, 3, 4])
+    expect(trace[0]).toMatchObject({ player_id: 'd', old_rank: 4, new_rank: 2, changed: true })
+  })
+
+  it('leaves the ladder alone when the higher-ranked player wins', () => {
+    const matches = [makeMatch('m1', 'a', 'c', 1)]
+    const events = [matchEvent('e1', 'm1', '2024-01-02T00:00:00Z')]
+
+    const { standings, trace } = replayLadder(entrants, events, matches)
+
+    expect(standings.map(p => p.id)).toEqual(['a', 'b', 'c', 'd'])
+    expect(trace[0].changed).toBe(false)
+  })
+
+  it('replays events in chronological order regardless of input order', () => {
+    const matches = [makeMatch('m1', 'c', 'a', 1), makeMatch('m2', 'd', 'c', 1)]
+    const events = [
+      matchEvent('e2', 'm2', '2024-01-03T00:00:00Z'),
+      matchEvent('e1', 'm1', '2024-01-02T00:00:00Z')
+    ]
+
+    const { standings } = replayLadder(entrants, events, matches)
+
+    expect(standings.map(p => p.id)).toEqual(['d', 'c', 'a', 'b'])
+  })
+
+  it('applies manual adjustments and skips events it cannot resolve', () => {
+    const events: RankingEvent[] = [
+      { id: 'e1', event_type: 'manual_adjustment', event_date: '2024-01-02T00:00:00Z', player_id: 'c', new_rank: 1, created_at: '2024-01-02T00:00:00Z' },
+      matchEvent('e2', 'missing', '2024-01-03T00:00:00Z')
+    ]
+
+    const { standings, trace } = replayLadder(entrants, events, [])
+
+    expect(standings.map(p => p.id)).toEqual(['c', 'a', 'b', 'd'])
+    expect(trace[1].skipped).toBe('missing_match')
+  })
+
+  it('does not mutate its inputs', () => {
+    const initial = [...entrants]
+    replayLadder(initial, [matchEvent('e1', 'm1', '2024-01-02T00:00:00Z')], [makeMatch('m1', 'd', 'a', 1)])
+
+    expect(initial.map(p => p.id)).toEqual(['a', 'b', 'c', 'd'])
+  })
+})
+
+describe('rankHistory', () => {
+  it('records each position change for one entrant', () => {
+    const matches = [makeMatch('m1', 'c', 'a', 1), makeMatch('m2', 'd', 'a', 1)]
+    const events = [
+      matchEvent('e1', 'm1', '2024-01-02T00:00:00Z'),
+      matchEvent('e2', 'm2', '2024-01-03T00:00:00Z')
+    ]
+
+    const history = rankHistory(entrants, events, matches, 'a')
+
+    expect(history.map(change => change.rank)).toEqual([2, 3])
+  })
+})
+
+describe('replayLadderAsOf', () => {
+  const matches = [makeMatch('m1', 'c', 'a', 1), makeMatch('m2', 'd', 'b', 1)]
+  const events = [
+    matchEvent('e1', 'm1', '2024-01-02T10:00:00Z'),
+    matchEvent('e2', 'm2', '2024-01-02T18:00:00Z')
+  ]
+
+  it('replays only events dated at or before the date', () => {
+    expect(replayLadderAsOf(entrants, events, matches, { date: '2024-01-01T23:59:59Z' })!.standings.map(p => p.id))
+      .toEqual(['a', 'b', 'c', 'd'])
+    expect(replayLadderAsOf(entrants, events, matches, { date: '2024-01-02T12:00:00Z' })!.standings.map(p => p.id))
+      .toEqual(['c', 'a', 'b', 'd'])
+  })
+
+  it('replays through a given event, and returns null for an unknown one', () => {
+    const result = replayLadderAsOf(entrants, events, matches, { eventId: 'e1' })!
+
+    expect(result.standings.map(p => p.id)).toEqual(['c', 'a', 'b', 'd'])
+    expect(result.trace.map(movement => movement.event_id)).toEqual(['e1'])
+    expect(replayLadderAsOf(entrants, events, matches, { eventId: 'nope' })).toBeNull()
+  })
+})
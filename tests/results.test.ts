@@ -0,0 +1,93 @@
+/**
+ * Tests for match result types and the stats built on them
+ */
+
+import { describe, it, expect } from 'vitest'
+import { matchResultType, isUnplayedResult, playerMatchStats } from '../lib/utils/results'
+import { determineMatchWinner } from '../lib/utils/ladder'
+import { computeRatings } from '../lib/utils/ratings'
+import type { Match } from '../lib/types/database'
+
+function makeMatch(id: string, games: [number, number, number, number], extra: Partial<Match> = {}): Match {
+  const [s1p1, s1p2, s2p1, s2p2] = games
+  return {
+    id,
+    player1_id: 'a',
+    player2_id: 'b',
+    date_played: '2024-01-01',
+    sets: [{ p1: s1p1, p2: s1p2 }, { p1: s2p1, p2: s2p2 }],
+    match_winner: 1,
+    created_at: `2024-01-01T00:00:0${id.slice(-1)}Z`,
+    ...extra
+  }
+}
+
+describe('matchResultType', () => {
+  it('falls back on the retirement flag for older matches', () => {
+    expect(matchResultType({})).toBe('completed')
+    expect(matchResultType({ has_retirement: true })).toBe('retired')
+    expect(matchResultType({ result_type: 'walkover', has_retirement: false })).toBe('walkover')
+  })
+
+  it('treats only walkovers, no-shows and defaults as unplayed', () => {
+    expect(isUnplayedResult({ result_type: 'completed' })).toBe(false)
+    expect(isUnplayedResult({ result_type: 'retired' })).toBe(false)
+    expect(isUnplayedResult({ result_type: 'walkover' })).toBe(true)
+    expect(isUnplayedResult({ result_type: 'no_show' })).toBe(true)
+    expect(isUnplayedResult({ result_type: 'default' })).toBe(true)
+  })
+})
+
+describe('determineMatchWinner', () => {
+  it('awards unplayed results to the other player', () => {
+    const noShow = makeMatch('m1', [0, 0, 0, 0], { result_type: 'no_show', defaulted_player: 1 })
+    expect(determineMatchWinner(noShow)).toBe(2)
+  })
+})
+
+describe('playerMatchStats', () => {
+  it('counts unplayed results as wins and losses but not sets or games', () => {
+    const matches = [
+      makeMatch('m1', [6, 4, 3, 6], { sets: [{ p1: 6, p2: 4 }, { p1: 3, p2: 6 }, { p1: 10, p2: 8, match_tiebreak: true }] }),
+      makeMatch('m2', [0, 0, 0, 0], { result_type: 'walkover', defaulted_player: 1, match_winner: 2, sets: [] })
+    ]
+
+    expect(playerMatchStats('a', matches)).toEqual({
+      totalMatches: 2,
+      wins: 1,
+      losses: 1,
+      setsWon: 1,
+      setsLost: 1,
+      gamesWon: 9,
+      gamesLost: 10,
+      tiebreaksWon: 1,
+      tiebreaksLost: 0
+    })
+    expect(playerMatchStats('b', matches)).toMatchObject({ wins: 1, losses: 1, setsWon: 1, setsLost: 1 })
+  })
+
+  it('counts set tiebreaks for the format and match tiebreaks', () => {
+    const fast4 = makeMatch('m1', [4, 3, 3, 4], { format_id: 'fast4', sets: [{ p1: 4, p2: 3 }, { p1: 3, p2: 4 }, { p1: 4, p2: 1 }] })
+    const standard = makeMatch('m2', [7, 6, 6, 7], { sets: [{ p1: 7, p2: 6 }, { p1: 6, p2: 7 }, { p1: 8, p2: 10, match_tiebreak: true }], match_winner: 2 })
+    expect(playerMatchStats('a', [fast4, standard])).toMatchObject({ tiebreaksWon: 2, tiebreaksLost: 3 })
+  })
+
+  it('still counts the games of a retirement', () => {
+    const retired = makeMatch('m1', [6, 2, 1, 0], { result_type: 'retired', has_retirement: true, retired_player: 2 })
+    expect(playerMatchStats('a', [retired])).toMatchObject({ setsWon: 2, gamesWon: 7, gamesLost: 2 })
+  })
+
+  it('ignores matches the player was not in', () => {
+    expect(playerMatchStats('c', [makeMatch('m1', [6, 0, 6, 0])]).totalMatches).toBe(0)
+  })
+})
+
+describe('computeRatings', () => {
+  it('skips unplayed results', () => {
+    const walkover = makeMatch('m1', [0, 0, 0, 0], { result_type: 'walkover', defaulted_player: 2 })
+    const { ratings, history } = computeRatings(['a', 'b'], [walkover])
+
+    expect(history).toHaveLength(0)
+    expect(ratings.get('a')?.rating).toBe(1500)
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Tests for roles and what each one may do
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ROLES, can, canManageRole, isRole, isStaffRole, linkRole } from '../lib/auth/roles'
+
+describe('can', () => {
+  it('gives each role everything the roles below it have', () => {
+    expect(can('viewer', 'admin_panel')).toBe(false)
+    expect(can('viewer', 'report_matches')).toBe(false)
+    expect(can('player', 'report_matches')).toBe(true)
+    expect(can('player', 'enter_matches')).toBe(false)
+    expect(can('scorekeeper', 'enter_matches')).toBe(true)
+    expect(can('scorekeeper', 'edit_matches')).toBe(false)
+    expect(can('admin', 'edit_matches')).toBe(true)
+    expect(can('admin', 'manage_seasons')).toBe(false)
+    expect(can('owner', 'manage_seasons')).toBe(true)
+    expect(can('owner', 'enter_matches')).toBe(true)
+  })
+
+  it('gives signed-out visitors nothing', () => {
+    expect(can(null, 'admin_panel')).toBe(false)
+    expect(can(undefined, 'enter_matches')).toBe(false)
+  })
+})
+
+describe('isStaffRole', () => {
+  it('is scorekeepers and up', () => {
+    expect(ROLES.filter(isStaffRole)).toEqual(['scorekeeper', 'admin', 'owner'])
+  })
+})
+
+describe('isRole', () => {
+  it('only accepts known roles', () => {
+    expect(isRole('owner')).toBe(true)
+    expect(isRole('superuser')).toBe(false)
+    expect(isRole(true)).toBe(false)
+  })
+})
+
+describe('canManageRole', () => {
+  it('lets admins manage viewers, players and scorekeepers only', () => {
+    expect(ROLES.filter(target => canManageRole('admin', target))).toEqual(['viewer', 'player', 'scorekeeper'])
+  })
+
+  it('lets owners manage everyone', () => {
+    expect(ROLES.filter(target => canManageRole('owner', target))).toEqual(ROLES)
+  })
+
+  it('lets scorekeepers manage no one', () => {
+    expect(ROLES.filter(target => canManageRole('scorekeeper', target))).toEqual([])
+  })
+})
+
+describe('linkRole', () => {
+  it('keeps staff out of the admin panel until the rest of their sign-in', () => {
+    expect(linkRole('owner')).toBe('player')
+    expect(linkRole('scorekeeper')).toBe('player')
+    expect(linkRole('viewer')).toBe('viewer')
+    expect(linkRole('player')).toBe('player')
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Tests for players joining and leaving part-way through a season
+ */
+
+import { describe, it, expect } from 'vitest'
+import { replayLadder } from '../lib/utils/events'
+import { joinEvent, ladderEntryProblem, ladderStartingOrder, membershipChange } from '../lib/utils/roster'
+import type { Match, Player, RankingEvent } from '../lib/types/database'
+
+function makePlayer(id: string, rank: number, extra: Partial<Player> = {}): Player {
+  return { id, name: id.toUpperCase(), email: '', notes: '', current_rank: rank, initial_rank: rank, created_at: '2024-01-01T00:00:00Z', ...extra }
+}
+
+function asEvent(input: Omit<RankingEvent, 'id' | 'created_at'>, id: string): RankingEvent {
+  return { ...input, id, created_at: input.event_date }
+}
+
+const founders = ['a', 'b', 'c'].map((id, index) => makePlayer(id, index + 1))
+// Added mid-season with the next free rank, as the Players page does
+const lateJoiner = makePlayer('n', 4, { created_at: '2024-03-01T00:00:00Z' })
+const everyone = [...founders, lateJoiner]
+
+const replay = (events: RankingEvent[], matches: Match[] = []) =>
+  replayLadder(ladderStartingOrder(everyone, events, null), events, matches, { pool: everyone })
+
+describe('ladderStartingOrder', () => {
+  it('leaves out players who join during the stream', () => {
+    const events = [asEvent(joinEvent('n', null, { method: 'bottom' }, new Date('2024-03-01T00:00:00Z')), 'j1')]
+    expect(ladderStartingOrder(everyone, events, null).map(player => player.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('keeps players whose first change is leaving, and drops players removed before the season', () => {
+    const removal = asEvent({ event_type: 'player_removed', event_date: '2024-02-01T00:00:00Z', player_id: 'b' }, 'r1')
+    expect(membershipChange(removal)).toBe('leave')
+    expect(ladderStartingOrder(founders, [removal], null).map(player => player.id)).toEqual(['a', 'b', 'c'])
+    const removedEarlier = founders.map(player => player.id === 'b' ? { ...player, on_ladder: false } : player)
+    expect(ladderStartingOrder(removedEarlier, [], null).map(player => player.id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('joining mid-season', () => {
+  it('is not on the ladder for results before the join', () => {
+    const match: Match = {
+      id: 'm1', player1_id: 'c', player2_id: 'a', date_played: '2024-02-01', match_winner: 1,
+      sets: [{ p1: 6, p2: 0 }, { p1: 6, p2: 0 }], created_at: '2024-02-01T00:00:00Z'
+    }
+    const events = [
+      { id: 'e1', event_type: 'match' as const, event_date: '2024-02-01T00:00:00Z', match_id: 'm1', created_at: '2024-02-01T00:00:00Z' },
+      asEvent(joinEvent('n', null, { method: 'bottom' }, new Date('2024-03-01T00:00:00Z')), 'j1')
+    ]
+    const { standings, trace } = replay(events, [match])
+    expect(standings.map(player => player.id)).toEqual(['c', 'a', 'b', 'n'])
+    expect(trace[0].new_rank).toBe(1)
+    expect(trace[1]).toMatchObject({ old_rank: null, new_rank: 4, reason: 'Joined: N entered at position 4 (bottom of the ladder)' })
+  })
+
+  it('enters at a chosen spot', () => {
+    const events = [asEvent(joinEvent('n', null, { method: 'position', position: 2 }, new Date('2024-03-01T00:00:00Z')), 'j1')]
+    expect(replay(events).standings.map(player => player.id)).toEqual(['a', 'n', 'b', 'c'])
+  })
+
+  it("takes the opponent's spot after winning a qualifier, or enters below them after losing", () => {
+    const won = [asEvent(joinEvent('n', null, { method: 'qualifier', opponentId: 'b', won: true }, new Date('2024-03-01T00:00:00Z')), 'j1')]
+    const lost = [asEvent(joinEvent('n', null, { method: 'qualifier', opponentId: 'a', won: false }, new Date('2024-03-01T00:00:00Z')), 'j1')]
+    expect(replay(won).standings.map(player => player.id)).toEqual(['a', 'n', 'b', 'c'])
+    expect(replay(won).trace[0].reason).toBe('Joined: N entered at position 2 (beat B in a qualifier)')
+    expect(replay(lost).standings.map(player => player.id)).toEqual(['a', 'n', 'b', 'c'])
+  })
+})
+
+describe('ladderEntryProblem', () => {
+  it('needs a whole position from 1, or a qualifying opponent', () => {
+    expect(ladderEntryProblem({ method: 'bottom' })).toBeNull()
+    expect(ladderEntryProblem({ method: 'position', position: 2 })).toBeNull()
+    expect(ladderEntryProblem({ method: 'position' })).not.toBeNull()
+    expect(ladderEntryProblem({ method: 'position', position: NaN })).not.toBeNull()
+    expect(ladderEntryProblem({ method: 'position', position: 0 })).not.toBeNull()
+    expect(ladderEntryProblem({ method: 'qualifier' })).not.toBeNull()
+    expect(ladderEntryProblem({ method: 'qualifier', opponentId: 'a' })).toBeNull()
+    expect(ladderEntryProblem({})).not.toBeNull()
+  })
+})
+
+describe('removal', () => {
+  it('moves everyone below up, and the player can rejoin later', () => {
+    const events = [
+      asEvent({ event_type: 'player_removed', event_date: '2024-02-01T00:00:00Z', player_id: 'a' }, 'r1'),
+      asEvent(joinEvent('a', null, { method: 'bottom' }, new Date('2024-04-01T00:00:00Z')), 'j1')
+    ]
+    const { standings, trace } = replayLadder(founders, events.slice(0, 1), [], { pool: founders })
+    expect(standings.map(player => [player.id, player.current_rank])).toEqual([['b', 1], ['c', 2]])
+    expect(trace[0].reason).toBe('Removed: A left the ladder from position 1')
+    expect(replayLadder(founders, events, [], { pool: founders }).standings.map(player => player.id)).toEqual(['b', 'c', 'a'])
+  })
+})
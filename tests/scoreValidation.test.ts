@@ -0,0 +1,89 @@
+/**
+ * Tests for tennis-aware score validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MATCH_FORMATS } from '../lib/utils/matchFormats'
+import { setState, matchTiebreakState, tiebreakState, validateScore, validateMatchScore } from '../lib/utils/scoreValidation'
+
+const standard = MATCH_FORMATS.two_sets_match_tiebreak
+
+describe('setState', () => {
+  it('knows how a six-game set ends', () => {
+    expect(setState(standard, { p1: 6, p2: 4 })).toBe('complete')
+    expect(setState(standard, { p1: 5, p2: 7 })).toBe('complete')
+    expect(setState(standard, { p1: 7, p2: 6 })).toBe('complete')
+    expect(setState(standard, { p1: 6, p2: 5 })).toBe('in_progress')
+    expect(setState(standard, { p1: 6, p2: 6 })).toBe('in_progress')
+    expect(setState(standard, { p1: 7, p2: 4 })).toBe('impossible')
+    expect(setState(standard, { p1: 9, p2: 2 })).toBe('impossible')
+  })
+
+  it('follows the format for short and long sets', () => {
+    expect(setState(MATCH_FORMATS.fast4, { p1: 4, p2: 3 })).toBe('complete')
+    expect(setState(MATCH_FORMATS.fast4, { p1: 3, p2: 3 })).toBe('in_progress')
+    expect(setState(MATCH_FORMATS.fast4, { p1: 4, p2: 4 })).toBe('impossible')
+    expect(setState(MATCH_FORMATS.pro_set, { p1: 9, p2: 7 })).toBe('complete')
+    expect(setState(MATCH_FORMATS.pro_set, { p1: 8, p2: 7 })).toBe('in_progress')
+  })
+
+  it('plays the match tiebreak to 10, won by two', () => {
+    expect(matchTiebreakState(standard, { p1: 10, p2: 8 })).toBe('complete')
+    expect(matchTiebreakState(standard, { p1: 12, p2: 14 })).toBe('complete')
+    expect(matchTiebreakState(standard, { p1: 7, p2: 6 })).toBe('in_progress')
+    expect(matchTiebreakState(standard, { p1: 10, p2: 9 })).toBe('in_progress')
+    expect(matchTiebreakState(standard, { p1: 13, p2: 8 })).toBe('impossible')
+  })
+
+  it('plays set tiebreaks to the format target', () => {
+    expect(tiebreakState(standard, { p1: 7, p2: 5 })).toBe('complete')
+    expect(tiebreakState(standard, { p1: 9, p2: 11 })).toBe('complete')
+    expect(tiebreakState(standard, { p1: 7, p2: 6 })).toBe('in_progress')
+    expect(tiebreakState(MATCH_FORMATS.fast4, { p1: 5, p2: 4 })).toBe('complete')
+    expect(tiebreakState(MATCH_FORMATS.fast4, { p1: 6, p2: 4 })).toBe('impossible')
+  })
+})
+
+describe('validateScore', () => {
+  it('accepts finished matches in each format', () => {
+    expect(validateScore(standard, [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 10, p2: 8, match_tiebreak: true }])).toEqual({})
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 3 }, { p1: 4, p2: 6 }, { p1: 7, p2: 6 }])).toEqual({})
+    expect(validateScore(MATCH_FORMATS.pro_set, [{ p1: 9, p2: 8 }])).toEqual({})
+    expect(validateScore(MATCH_FORMATS.fast4, [{ p1: 4, p2: 2 }, { p1: 4, p2: 3 }])).toEqual({})
+  })
+
+  it('reports errors against the set or side at fault', () => {
+    expect(Object.keys(validateScore(standard, [{ p1: 6, p2: 6 }, { p1: 6, p2: 2 }]))).toEqual(['sets.0'])
+    expect(Object.keys(validateScore(standard, [{ p1: 6, p2: 3 }, { p1: 9, p2: 2 }]))).toEqual(['sets.1.p1'])
+    expect(Object.keys(validateScore(standard, [{ p1: 6, p2: 3 }, { p1: 3, p2: 6 }, { p1: 7, p2: 6, match_tiebreak: true }]))).toEqual(['sets.2'])
+    expect(validateScore(standard, [{ p1: 0, p2: 0 }, { p1: 6, p2: 2 }])['sets.0']).toMatch(/no score/)
+  })
+
+  it('rejects unfinished, overlong and empty matches', () => {
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 3 }]).sets).toMatch(/isn't finished/)
+    expect(validateScore(MATCH_FORMATS.pro_set, [{ p1: 9, p2: 8 }, { p1: 6, p2: 0 }]).sets).toMatch(/at most 1 set/)
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 3 }, { p1: 6, p2: 4 }, { p1: 6, p2: 1 }])['sets.2']).toMatch(/already decided/)
+    expect(validateScore(MATCH_FORMATS.best_of_three, []).sets).toBeDefined()
+  })
+
+  it('checks recorded tiebreak points against the set', () => {
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 7, p2: 6, tiebreak: { p1: 7, p2: 4 } }, { p1: 6, p2: 2 }])).toEqual({})
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 7, p2: 6, tiebreak: { p1: 4, p2: 7 } }, { p1: 6, p2: 2 }])['sets.0.tiebreak']).toMatch(/won the set/)
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 7, p2: 6, tiebreak: { p1: 7, p2: 6 } }, { p1: 6, p2: 2 }])['sets.0.tiebreak']).toMatch(/isn't a finished tiebreak/)
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 3, tiebreak: { p1: 7, p2: 4 } }, { p1: 6, p2: 2 }])['sets.0.tiebreak']).toMatch(/7-6/)
+  })
+
+  it('lets a retirement stop part-way through the last set only', () => {
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 3 }, { p1: 2, p2: 2 }], { retired: true })).toEqual({})
+    expect(validateScore(MATCH_FORMATS.best_of_three, [{ p1: 6, p2: 6 }, { p1: 2, p2: 2 }], { retired: true })['sets.0']).toBeDefined()
+  })
+})
+
+describe('validateMatchScore', () => {
+  it('checks each result type', () => {
+    expect(validateMatchScore({ sets: [], result_type: 'walkover', defaulted_player: 2 })).toEqual({})
+    expect(validateMatchScore({ sets: [{ p1: 6, p2: 0 }], result_type: 'walkover', defaulted_player: 2 }).sets).toBeDefined()
+    expect(validateMatchScore({ sets: [{ p1: 3, p2: 1 }], result_type: 'retired', has_retirement: true }).result).toBeDefined()
+    expect(validateMatchScore({ format_id: 'pro_set', sets: [{ p1: 8, p2: 8 }] })['sets.0']).toBeDefined()
+  })
+})
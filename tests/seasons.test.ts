@@ -0,0 +1,37 @@
+/**
+ * Tests for seeding a new season's ladder
+ */
+
+import { describe, it, expect } from 'vitest'
+import { seedRanks } from '../lib/utils/seasons'
+
+const players = [
+  { id: 'a', initial_rank: 1, rating: 1480 },
+  { id: 'b', initial_rank: 2, rating: 1620 },
+  { id: 'c', initial_rank: 3, rating: null },
+  { id: 'd', initial_rank: 4, rating: 1550 }
+]
+
+describe('seedRanks', () => {
+  it('carries over the previous final ladder, with new players at the bottom', () => {
+    const previousStandings = [
+      { player_id: 'd', final_rank: 1 },
+      { player_id: 'a', final_rank: 2 },
+      { player_id: 'b', final_rank: 3 }
+    ]
+
+    expect(seedRanks(players, 'previous', { previousStandings })).toEqual({ d: 1, a: 2, b: 3, c: 4 })
+  })
+
+  it('orders by rating, highest first, with unrated players last', () => {
+    expect(seedRanks(players, 'ratings')).toEqual({ b: 1, d: 2, a: 3, c: 4 })
+  })
+
+  it('accepts a complete manual order and rejects gaps or duplicates', () => {
+    const manualRanks = { a: 2, b: 1, c: 4, d: 3 }
+    expect(seedRanks(players, 'manual', { manualRanks })).toEqual(manualRanks)
+
+    expect(() => seedRanks(players, 'manual', { manualRanks: { a: 1, b: 1, c: 2, d: 3 } })).toThrow()
+    expect(() => seedRanks(players, 'manual', { manualRanks: { a: 1, b: 2, c: 3 } })).toThrow()
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Tests for signing and reading session cookies
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import { createSessionToken, readSessionToken } from '../lib/auth/session'
+import { pickLadderSettings } from '../lib/supabase/ladders'
+
+const secret = 'test-secret'
+const now = new Date('2024-06-01T12:00:00Z')
+
+describe('session tokens', () => {
+  it('reads back the email, role and expiry', async () => {
+    expect(await readSessionToken(await createSessionToken('admin@example.com', 'admin', secret, now), secret, now)).toEqual({
+      email: 'admin@example.com',
+      role: 'admin',
+      expires_at: '2024-06-02T00:00:00.000Z'
+    })
+    expect(await readSessionToken(await createSessionToken('player@example.com', 'player', secret, now), secret, now)).toEqual({
+      email: 'player@example.com',
+      role: 'player',
+      expires_at: '2024-07-01T12:00:00.000Z'
+    })
+  })
+
+  it('rejects expired sessions', async () => {
+    const token = await createSessionToken('admin@example.com', 'admin', secret, now)
+    expect(await readSessionToken(token, secret, new Date('2024-06-02T00:00:00Z'))).toBeNull()
+  })
+
+  it('rejects tokens signed with another secret or edited in the browser', async () => {
+    const token = await createSessionToken('player@example.com', 'player', secret, now)
+    expect(await readSessionToken(token, 'other-secret', now)).toBeNull()
+
+    // Promoting yourself to admin breaks the signature
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ email: 'player@example.com', role: 'owner', expires_at: '2024-07-01T12:00:00.000Z' })).toString('base64url')
+    expect(await readSessionToken(`${forged}.${signature}`, secret, now)).toBeNull()
+  })
+
+  it('rejects sessions signed before roles, which only had an admin flag', async () => {
+    const payload = Buffer.from(JSON.stringify({ email: 'admin@example.com', is_admin: true, expires_at: '2024-06-02T00:00:00.000Z' })).toString('base64url')
+    const signature = createHmac('sha256', secret).update(payload).digest('base64url')
+    expect(await readSessionToken(`${payload}.${signature}`, secret, now)).toBeNull()
+  })
+
+  it('rejects missing and malformed tokens', async () => {
+    expect(await readSessionToken(undefined, secret, now)).toBeNull()
+    expect(await readSessionToken('', secret, now)).toBeNull()
+    expect(await readSessionToken('not-a-token', secret, now)).toBeNull()
+    expect(await readSessionToken('a.b.c', secret, now)).toBeNull()
+    expect(await readSessionToken('a.!!!', secret, now)).toBeNull()
+  })
+})
+
+describe('pickLadderSettings', () => {
+  it('keeps only the settings an admin may change', () => {
+    expect(pickLadderSettings({ name: 'Division 2', promotion_spots: 3, id: 'x', created_at: 'y' }))
+      .toEqual({ name: 'Division 2', promotion_spots: 3 })
+  })
+})
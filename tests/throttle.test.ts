@@ -0,0 +1,160 @@
+/**
+ * Tests for sign-in throttling: rate limits, lockouts and the attempt stores
+ */
+
+import { describe, it, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+import { THROTTLE_POLICIES, lockoutSeconds, retryAfterSeconds } from '../lib/throttle/policy'
+import { memoryAttemptStore } from '../lib/throttle/memory'
+import { guardAttempt, requestIp } from '../lib/throttle/guard'
+import type { AttemptOutcome, AuthAttempt } from '../lib/throttle/store'
+
+const now = new Date('2026-03-01T12:00:00Z')
+const admin = { email: 'admin@example.com', ip: '203.0.113.5' }
+
+// Attempts `secondsAgo` in the past, newest first like the stores return them
+function attempts(
+  entries: Array<[secondsAgo: number, outcome: AttemptOutcome]>,
+  who: { email: string | null, ip: string } = admin
+): AuthAttempt[] {
+  return entries
+    .map(([secondsAgo, outcome]) => ({
+      action: 'admin_password' as const,
+      ...who,
+      outcome,
+      created_at: new Date(now.getTime() - secondsAgo * 1000).toISOString()
+    }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+describe('lockouts', () => {
+  const policy = THROTTLE_POLICIES.admin_password
+
+  it('start after five failures in a row and double with each one after', () => {
+    expect(lockoutSeconds(policy, 4)).toBe(0)
+    expect(lockoutSeconds(policy, 5)).toBe(60)
+    expect(lockoutSeconds(policy, 6)).toBe(120)
+    expect(lockoutSeconds(policy, 8)).toBe(480)
+    expect(lockoutSeconds(policy, 30)).toBe(60 * 60)
+  })
+
+  it('last from the latest failure', () => {
+    const five = attempts([[50, 'failure'], [40, 'failure'], [30, 'failure'], [20, 'failure'], [10, 'failure']])
+    expect(retryAfterSeconds(five.slice(1), policy, admin, now)).toBe(0)
+    expect(retryAfterSeconds(five, policy, admin, now)).toBe(50)
+  })
+
+  it('are cleared by a success', () => {
+    const history = attempts([[60, 'failure'], [50, 'failure'], [40, 'failure'], [30, 'failure'], [20, 'success'], [10, 'failure']])
+    expect(retryAfterSeconds(history, policy, admin, now)).toBe(0)
+  })
+
+  it("don't count blocked attempts as failures", () => {
+    const history = attempts([[50, 'failure'], [40, 'failure'], [30, 'failure'], [20, 'failure'], [15, 'throttled'], [10, 'throttled']])
+    expect(retryAfterSeconds(history, policy, admin, now)).toBe(0)
+  })
+
+  it('follow the email, not the IP', () => {
+    const history = attempts([[50, 'failure'], [40, 'failure'], [30, 'failure'], [20, 'failure'], [10, 'failure']])
+    expect(retryAfterSeconds(history, policy, { email: 'other@example.com', ip: admin.ip }, now)).toBe(0)
+    expect(retryAfterSeconds(history, policy, { email: admin.email, ip: '198.51.100.9' }, now)).toBe(50)
+  })
+})
+
+describe('rate limits', () => {
+  it('limit each IP across emails', () => {
+    const policy = THROTTLE_POLICIES.login_link
+    // One request every 30 seconds, each for a different email
+    const history = Array.from({ length: 20 }, (_, i) =>
+      attempts([[30 * (i + 1), 'failure']], { email: `player${i}@example.com`, ip: admin.ip })[0]
+    )
+    const newcomer = { email: 'new@example.com', ip: admin.ip }
+    expect(retryAfterSeconds(history.slice(0, 19), policy, newcomer, now)).toBe(0)
+    // Until the oldest, 10 minutes ago, leaves the 15-minute window
+    expect(retryAfterSeconds(history, policy, newcomer, now)).toBe(5 * 60)
+    expect(retryAfterSeconds(history, policy, { ...newcomer, ip: '198.51.100.9' }, now)).toBe(0)
+  })
+
+  it('count every sign-in link request, allowed or not', () => {
+    const policy = THROTTLE_POLICIES.login_link
+    const history = attempts([[300, 'success'], [240, 'failure'], [180, 'success'], [120, 'failure'], [60, 'success']])
+    expect(retryAfterSeconds(history.slice(1), policy, admin, now)).toBe(0)
+    expect(retryAfterSeconds(history, policy, admin, now)).toBe(15 * 60 - 300)
+  })
+
+  it('forget attempts older than the window', () => {
+    const policy = THROTTLE_POLICIES.login_link
+    const history = attempts([[20 * 60, 'success'], [19 * 60, 'success'], [18 * 60, 'success'], [17 * 60, 'success'], [16 * 60, 'success']])
+    expect(retryAfterSeconds(history, policy, admin, now)).toBe(0)
+  })
+})
+
+describe('the memory store', () => {
+  it('finds recent attempts by email or IP, newest first', async () => {
+    const store = memoryAttemptStore([])
+    // Recorded oldest first, as they happen
+    for (const entry of attempts([[30, 'failure'], [20, 'success'], [10, 'failure']]).reverse()) {
+      await store.record(entry)
+    }
+    await store.record({ ...attempts([[5, 'failure']], { email: 'other@example.com', ip: '198.51.100.9' })[0] })
+
+    const recent = await store.recent('admin_password', admin, new Date(now.getTime() - 25 * 1000))
+    expect(recent.map(attempt => attempt.outcome)).toEqual(['failure', 'success'])
+    expect(await store.list(2)).toHaveLength(2)
+    expect((await store.list(10))[0].email).toBe('other@example.com')
+  })
+
+  it('drops attempts older than a day', async () => {
+    const store = memoryAttemptStore([])
+    await store.record(attempts([[25 * 60 * 60, 'failure']])[0])
+    await store.record(attempts([[10, 'failure']])[0])
+    expect(await store.list(10)).toHaveLength(1)
+  })
+})
+
+describe('guarding an attempt', () => {
+  const request = (ip: string, headers: Record<string, string> = { 'x-real-ip': ip }) =>
+    new NextRequest('https://ladder.example.com/api/login', { method: 'POST', headers })
+
+  it('reads the client IP from the proxy', () => {
+    expect(requestIp(request('203.0.113.5'))).toBe('203.0.113.5')
+    expect(requestIp(request('', { 'x-forwarded-for': '10.9.9.9, 203.0.113.5' }))).toBe('203.0.113.5')
+    expect(requestIp(request('203.0.113.5', { 'x-real-ip': '203.0.113.5', 'x-forwarded-for': '10.9.9.9' }))).toBe('203.0.113.5')
+    expect(requestIp(new NextRequest('https://ladder.example.com/api/login'))).toBe('unknown')
+  })
+
+  it("can't be dodged by making up x-forwarded-for", async () => {
+    const store = memoryAttemptStore([])
+
+    for (let i = 0; i < 20; i++) {
+      const spoofed = request(admin.ip, { 'x-forwarded-for': `10.0.0.${i}, ${admin.ip}` })
+      const guard = await guardAttempt(spoofed, 'login_link', `player${i}@example.com`, store)
+      expect(guard.blocked).toBeNull()
+      await guard.record('failure', 'not on the allowlist')
+    }
+
+    const spoofed = request(admin.ip, { 'x-forwarded-for': `10.0.0.99, ${admin.ip}` })
+    const guard = await guardAttempt(spoofed, 'login_link', 'new@example.com', store)
+    expect(guard.blocked?.status).toBe(429)
+  })
+
+  it('blocks with a generic 429 once the limit is reached, and logs it', async () => {
+    const store = memoryAttemptStore([])
+
+    for (let i = 0; i < 5; i++) {
+      const guard = await guardAttempt(request(admin.ip), 'login_link', ' Admin@Example.com ', store)
+      expect(guard.blocked).toBeNull()
+      await guard.record('failure', 'not on the allowlist')
+    }
+
+    const guard = await guardAttempt(request(admin.ip), 'login_link', 'admin@example.com', store)
+    expect(guard.blocked?.status).toBe(429)
+    expect(Number(guard.blocked?.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(await guard.blocked?.json()).toEqual({ error: 'Too many attempts. Please try again in 15 minutes.' })
+
+    const log = await store.list(10)
+    expect(log).toHaveLength(6)
+    expect(log[0]).toMatchObject({ action: 'login_link', email: 'admin@example.com', ip: admin.ip, outcome: 'throttled' })
+    expect(log[1]).toMatchObject({ outcome: 'failure', reason: 'not on the allowlist' })
+  })
+})
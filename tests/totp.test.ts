@@ -0,0 +1,121 @@
+/**
+ * Tests for admin two-factor codes, recovery codes and the pending sign-in session
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  looksLikeRecoveryCode,
+  otpauthUrl,
+  totpCode,
+  totpStep,
+  verifyTotp
+} from '../lib/auth/totp'
+import { createSessionToken, readSessionToken } from '../lib/auth/session'
+
+// The RFC 6238 test secret, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = Uint8Array.from([0, 1, 2, 250, 251, 255, 17])
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    expect(new TextDecoder().decode(base32Decode(RFC_SECRET))).toBe('12345678901234567890')
+  })
+
+  it('ignores case, spaces and padding but rejects other characters', () => {
+    expect(base32Decode('gezd gnbv====')).toEqual(base32Decode('GEZDGNBV'))
+    expect(() => base32Decode('GEZ1')).toThrow('Invalid base32 secret')
+  })
+
+  it('makes 160-bit secrets', () => {
+    const secret = generateTotpSecret()
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(generateTotpSecret()).not.toBe(secret)
+  })
+})
+
+describe('TOTP codes', () => {
+  it('match the RFC 6238 SHA-1 test vectors', () => {
+    expect(totpCode(RFC_SECRET, totpStep(new Date(59 * 1000)), 8)).toBe('94287082')
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1111111109 * 1000)), 8)).toBe('07081804')
+    expect(totpCode(RFC_SECRET, totpStep(new Date(59 * 1000)))).toBe('287082')
+  })
+
+  it('accept a code from one step either side, and say which step it was', () => {
+    const now = new Date(1_700_000_000_000)
+    const step = totpStep(now)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull()
+  })
+
+  it('refuse a code that was already used', () => {
+    const now = new Date(1_700_000_000_000)
+    const step = totpStep(now)
+    const code = totpCode(RFC_SECRET, step)
+    expect(verifyTotp(RFC_SECRET, code, now, step)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now, step)).toBe(step + 1)
+  })
+
+  it('refuse anything that is not six digits', () => {
+    const now = new Date(59 * 1000)
+    expect(verifyTotp(RFC_SECRET, '287 082', now)).toBe(1)
+    expect(verifyTotp(RFC_SECRET, '28708', now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull()
+  })
+
+  it('go in an otpauth URL authenticator apps can scan', () => {
+    const text = otpauthUrl('admin@example.com', RFC_SECRET)
+    expect(text.startsWith('otpauth://totp/Scrappers%20Cup%3Aadmin%40example.com?')).toBe(true)
+    const url = new URL(text)
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET)
+    expect(url.searchParams.get('issuer')).toBe('Scrappers Cup')
+    expect(url.searchParams.get('digits')).toBe('6')
+  })
+})
+
+describe('recovery codes', () => {
+  it('are ten distinct codes like 7kq2-m9xd', () => {
+    const codes = generateRecoveryCodes()
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}$/)
+      expect(looksLikeRecoveryCode(code)).toBe(true)
+    }
+  })
+
+  it('hash the same however they are typed', () => {
+    expect(hashRecoveryCode('7KQ2 M9XD')).toBe(hashRecoveryCode('7kq2-m9xd'))
+    expect(hashRecoveryCode('7kq2-m9xd')).not.toBe(hashRecoveryCode('7kq2-m9xe'))
+  })
+
+  it('are told apart from authenticator codes', () => {
+    expect(looksLikeRecoveryCode('287082')).toBe(false)
+    expect(looksLikeRecoveryCode('7kq2-m9x')).toBe(false)
+  })
+})
+
+describe('pending second-factor sessions', () => {
+  const secret = 'test-secret'
+  const now = new Date('2026-01-01T12:00:00Z')
+
+  it('are short-lived member sessions', async () => {
+    const token = await createSessionToken('admin@example.com', 'player', secret, now, 'totp')
+    expect(await readSessionToken(token, secret, now)).toMatchObject({ role: 'player', pending: 'totp' })
+    expect(await readSessionToken(token, secret, new Date(now.getTime() + 11 * 60 * 1000))).toBeNull()
+  })
+
+  it('are never staff sessions', async () => {
+    const token = await createSessionToken('admin@example.com', 'scorekeeper', secret, now, 'enroll')
+    const session = await readSessionToken(token, secret, now)
+    expect(session?.role).toBe('scorekeeper')
+    expect(session?.pending).toBeUndefined()
+  })
+})